@@ -1,6 +1,23 @@
 import { Page, ElectronApplication } from '@playwright/test'
 import path from 'path'
 import fs from 'fs'
+import { EditorHelpers } from './editor-helpers'
+
+/**
+ * Open a file in a tab the same way a double-clicked file is opened, and wait
+ * for its decoded content to show in the editor
+ */
+export async function openFile(electronApp: ElectronApplication, window: Page, filePath: string): Promise<void> {
+  const content = await window.evaluate(async (p) => {
+    const fileData = await (window as any).electron.file.readByPath(p)
+    return fileData?.content ?? ''
+  }, filePath)
+
+  await electronApp.evaluate(({ BrowserWindow }, fileData) => {
+    BrowserWindow.getAllWindows()[0].webContents.send('file:openFromPath', fileData)
+  }, { path: filePath, content })
+  await new EditorHelpers(window).waitForContent(content)
+}
 
 /**
  * Helper class for file operations in tests
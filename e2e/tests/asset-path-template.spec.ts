@@ -0,0 +1,85 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import { ElectronApplication, Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 1x1 red PNG
+const PIXEL_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC'
+
+async function writeClipboardImage(electronApp: ElectronApplication): Promise<void> {
+  await electronApp.evaluate(({ clipboard, nativeImage }, base64) => {
+    clipboard.writeImage(nativeImage.createFromDataURL(`data:image/png;base64,${base64}`))
+  }, PIXEL_PNG_BASE64)
+}
+
+async function setAssetPathTemplate(window: Page, template: string): Promise<void> {
+  await window.keyboard.press('Control+,')
+  await window.waitForSelector('.preferences-dialog', { state: 'visible', timeout: 5000 })
+  await window.locator('.preferences-tab', { hasText: 'Images' }).click()
+  await window.locator('#images-assetPathTemplate').fill(template)
+  await window.locator('#images-assetPathTemplate').press('Enter')
+  await window.keyboard.press('Escape')
+  await window.waitForSelector('.preferences-dialog', { state: 'hidden', timeout: 3000 })
+}
+
+test.describe('Asset Path Template', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-asset-path-'))
+  })
+
+  test.afterEach(async ({ window }) => {
+    // Settings are shared with other runs; put the defaults back
+    await window.evaluate(() => (window as any).electron.settings.set('images', {
+      pasteNaming: 'timestamp',
+      optimize: false,
+      processing: { maxWidth: 1920, format: 'original', quality: 85, stripMetadata: true },
+      assetPathTemplate: '${docdir}/assets/${name}.${ext}'
+    }))
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('writes pasted images where the template puts them', async ({ electronApp, window }) => {
+    const filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, '', 'utf-8')
+    await openFile(electronApp, window, filePath)
+    await setAssetPathTemplate(window, 'images/${docname}/${name}.${ext}')
+
+    const editor = new EditorHelpers(window)
+    await writeClipboardImage(electronApp)
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+
+    await expect.poll(() => editor.getFullContent()).toMatch(/^!\[\]\(\.\/images\/notes\/image-\d{8}-\d{6}\.png\)$/)
+    const fileName = (await editor.getFullContent()).match(/image-\d{8}-\d{6}\.png/)![0]
+    expect(fs.existsSync(path.join(tempDir, 'images', 'notes', fileName))).toBe(true)
+  })
+
+  test('moves an unsaved document\'s images by the template on Save As', async ({ electronApp, window }) => {
+    const savedPath = path.join(tempDir, 'saved.md')
+    await electronApp.evaluate(({ dialog }, selected) => {
+      dialog.showSaveDialog = (async () => ({ canceled: false, filePath: selected })) as any
+    }, savedPath)
+    await setAssetPathTemplate(window, '${docdir}/media/${hash}.${ext}')
+
+    const editor = new EditorHelpers(window)
+    await window.keyboard.press('Control+n')
+    await writeClipboardImage(electronApp)
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+    await expect.poll(() => editor.getFullContent()).toMatch(/^!\[\]\(\.\/assets\/image-\d{8}-\d{6}\.png\)$/)
+
+    await window.keyboard.press('Control+Shift+s')
+
+    await expect.poll(() => editor.getFullContent()).toMatch(/^!\[\]\(\.\/media\/[0-9a-f]{8}\.png\)$/)
+    const content = await editor.getFullContent()
+    expect(fs.readFileSync(savedPath, 'utf-8')).toBe(content)
+    expect(fs.existsSync(path.join(tempDir, 'media', content.match(/[0-9a-f]{8}\.png/)![0]))).toBe(true)
+  })
+})
@@ -0,0 +1,112 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { openFile } from '../helpers/file-helpers'
+import { ElectronApplication, Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 1x1 red PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC',
+  'base64'
+)
+
+const DOCUMENT = `---
+title: Export Test
+author: Ada Lovelace
+date: 2024-03-01
+---
+# Introduction
+
+Some *emphasis* and $\\frac{a}{b}$ inline.
+
+| Name | Value |
+|------|------:|
+| one  | 1     |
+
+![Pixel](./assets/pixel.png)
+`
+
+/**
+ * Answer save dialogs with the suggested file name inside outputDir
+ */
+async function stubSaveDialog(electronApp: ElectronApplication, outputDir: string): Promise<void> {
+  await electronApp.evaluate(({ dialog }, dir) => {
+    dialog.showSaveDialog = (async (...args: any[]) => {
+      const options = args[args.length - 1]
+      return { canceled: false, filePath: `${dir}/${options.defaultPath}` }
+    }) as any
+  }, outputDir)
+}
+
+async function exportFromMenu(window: Page, label: string): Promise<void> {
+  await window.locator('.menu-button-icon').click()
+  await window.locator('.menu-dropdown-item', { hasText: label }).click()
+}
+
+test.describe('Document Export', () => {
+  let tempDir: string
+  let outputDir: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-export-'))
+    outputDir = path.join(tempDir, 'out')
+    fs.mkdirSync(outputDir)
+    fs.mkdirSync(path.join(tempDir, 'assets'))
+    fs.writeFileSync(path.join(tempDir, 'assets', 'pixel.png'), PIXEL_PNG)
+    const filePath = path.join(tempDir, 'report.md')
+    fs.writeFileSync(filePath, DOCUMENT, 'utf-8')
+
+    await stubSaveDialog(electronApp, outputDir)
+    await openFile(electronApp, window, filePath)
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('exports a Word document with the image embedded', async ({ window }) => {
+    await exportFromMenu(window, 'Export as Word Document')
+
+    const outputPath = path.join(outputDir, 'report.docx')
+    await expect.poll(() => fs.existsSync(outputPath), { timeout: 10000 }).toBe(true)
+
+    // Zip entry names are stored uncompressed
+    const archive = fs.readFileSync(outputPath).toString('latin1')
+    expect(archive.startsWith('PK')).toBe(true)
+    expect(archive).toContain('word/document.xml')
+    expect(archive).toContain('word/numbering.xml')
+    expect(archive).toContain('word/media/image1.png')
+  })
+
+  test('exports an EPUB with the mimetype first', async ({ window }) => {
+    await exportFromMenu(window, 'Export as EPUB')
+
+    const outputPath = path.join(outputDir, 'report.epub')
+    await expect.poll(() => fs.existsSync(outputPath), { timeout: 10000 }).toBe(true)
+
+    const archive = fs.readFileSync(outputPath).toString('latin1')
+    expect(archive.slice(30, 58)).toBe('mimetypeapplication/epub+zip')
+    expect(archive).toContain('EPUB/nav.xhtml')
+    expect(archive).toContain('EPUB/images/image1.png')
+  })
+
+  test('exports standalone LaTeX with front matter and math', async ({ window }) => {
+    await exportFromMenu(window, 'Export as LaTeX')
+
+    const outputPath = path.join(outputDir, 'report.tex')
+    await expect.poll(() => fs.existsSync(outputPath), { timeout: 10000 }).toBe(true)
+
+    const tex = fs.readFileSync(outputPath, 'utf-8')
+    expect(tex).toContain('\\documentclass')
+    expect(tex).toContain('\\title{Export Test}')
+    expect(tex).toContain('\\author{Ada Lovelace}')
+    expect(tex).toContain('\\section{Introduction}')
+    expect(tex).toContain('$\\frac{a}{b}$')
+    expect(tex).toContain('\\begin{longtable}{lr}')
+    // Relative to the .tex file in out/
+    expect(tex).toContain('\\includegraphics{../assets/pixel.png}')
+    expect(tex.trimEnd().endsWith('\\end{document}')).toBe(true)
+  })
+})
@@ -0,0 +1,81 @@
+import { test, expect, waitForAppReady, waitForMonacoReady } from '../fixtures'
+import { Page } from '@playwright/test'
+
+async function openEditorPreferences(window: Page): Promise<void> {
+  await window.keyboard.press('Control+,')
+  await window.waitForSelector('.preferences-dialog', { state: 'visible', timeout: 5000 })
+  await window.locator('.preferences-tab', { hasText: 'Editor' }).click()
+  await expect(window.locator('.editor-settings-tab')).toBeVisible()
+}
+
+async function getEditorOptions(window: Page) {
+  return window.evaluate(() => {
+    const monaco = (window as any).monaco
+    const editor = monaco.editor.getEditors()[0]
+    const { EditorOption } = monaco.editor
+    return {
+      fontSize: editor.getOption(EditorOption.fontSize),
+      minimap: editor.getOption(EditorOption.minimap).enabled,
+      rulers: editor.getOption(EditorOption.rulers).map((ruler: { column: number }) => ruler.column),
+      lineNumbers: editor.getOption(EditorOption.lineNumbers).renderType,
+      tabSize: editor.getModel().getOptions().tabSize,
+      insertSpaces: editor.getModel().getOptions().insertSpaces
+    }
+  })
+}
+
+test.describe('Editor Preferences', () => {
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    await waitForMonacoReady(window)
+  })
+
+  test.afterEach(async ({ window }) => {
+    // Settings are shared with other runs; put the defaults back
+    await window.evaluate(async () => {
+      const editor = await (window as any).electron.settings.get('editor')
+      await (window as any).electron.settings.set('editor', {
+        ...editor,
+        fontSize: 14,
+        tabSize: 2,
+        insertSpaces: true,
+        rulers: [],
+        minimap: false,
+        lineNumbers: 'on'
+      })
+    })
+  })
+
+  test('changes apply to the open editor immediately', async ({ window }) => {
+    await openEditorPreferences(window)
+
+    await window.locator('#editor-fontSize').fill('18')
+    await window.locator('#editor-tabSize').fill('4')
+    await window.locator('#editor-insertSpaces').uncheck()
+    await window.locator('#editor-minimap').check()
+    await window.locator('#editor-lineNumbers').selectOption('relative')
+    await window.locator('#editor-rulers').fill('80, 100')
+    await window.locator('#editor-rulers').press('Enter')
+
+    await expect.poll(() => getEditorOptions(window)).toEqual({
+      fontSize: 18,
+      minimap: true,
+      rulers: [80, 100],
+      lineNumbers: 2, // RenderLineNumbersType.Relative
+      tabSize: 4,
+      insertSpaces: false
+    })
+  })
+
+  test('changes are saved to settings', async ({ window }) => {
+    await openEditorPreferences(window)
+
+    await window.locator('#editor-tabSize').fill('8')
+    await window.locator('#editor-minimap').check()
+
+    await expect.poll(() => window.evaluate(() => (window as any).electron.settings.get('editor'))).toMatchObject({
+      tabSize: 8,
+      minimap: true
+    })
+  })
+})
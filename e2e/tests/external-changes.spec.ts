@@ -0,0 +1,64 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('External File Changes', () => {
+  let tempDir: string
+  let filePath: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-external-'))
+    filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, '# Notes\n\nOriginal\n', 'utf-8')
+    await openFile(electronApp, window, filePath)
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('reloads a clean tab when the file changes on disk', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.waitForContent('# Notes\n\nOriginal\n')
+
+    fs.writeFileSync(filePath, '# Notes\n\nChanged\n', 'utf-8')
+
+    await editor.waitForContent('# Notes\n\nChanged\n', 10000)
+    await expect(window.locator('.external-change-banner')).toHaveCount(0)
+  })
+
+  test('shows a conflict banner for a dirty tab and can take theirs', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.waitForContent('# Notes\n\nOriginal\n')
+    await editor.setContent('# Notes\n\nMine\n')
+
+    fs.writeFileSync(filePath, '# Notes\n\nTheirs\n', 'utf-8')
+
+    const banner = window.locator('.external-change-banner')
+    await expect(banner).toBeVisible({ timeout: 10000 })
+
+    await banner.getByRole('button', { name: 'Take Theirs' }).click()
+    await editor.waitForContent('# Notes\n\nTheirs\n')
+    await expect(banner).toHaveCount(0)
+  })
+
+  test('refuses to save over a file changed on disk', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.waitForContent('# Notes\n\nOriginal\n')
+    await editor.setContent('# Notes\n\nMine\n')
+
+    fs.writeFileSync(filePath, '# Notes\n\nTheirs\n', 'utf-8')
+
+    const saved = await window.evaluate(
+      (p) => (window as any).electron.file.save(p, '# Notes\n\nMine\n'),
+      filePath
+    )
+    expect(saved).toBe(false)
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('# Notes\n\nTheirs\n')
+    await expect(window.locator('.external-change-banner')).toBeVisible({ timeout: 10000 })
+  })
+})
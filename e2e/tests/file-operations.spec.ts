@@ -0,0 +1,72 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('File Tree Operations', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-fileops-'))
+    fs.mkdirSync(path.join(tempDir, 'docs'))
+    fs.writeFileSync(path.join(tempDir, 'note.md'), '# Note\n', 'utf-8')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('creates a file and undoes it', async ({ window }) => {
+    const result = await window.evaluate(
+      (dir) => (window as any).electron.file.createEntry(dir, 'new.md', false),
+      tempDir
+    )
+
+    expect(result.success).toBe(true)
+    expect(result.undoLabel).toBe('Undo New File')
+    expect(fs.existsSync(path.join(tempDir, 'new.md'))).toBe(true)
+
+    const undo = await window.evaluate(() => (window as any).electron.file.undoOperation())
+    expect(undo.success).toBe(true)
+    expect(fs.existsSync(path.join(tempDir, 'new.md'))).toBe(false)
+  })
+
+  test('renames a file and reports the move', async ({ window }) => {
+    const from = path.join(tempDir, 'note.md')
+    const result = await window.evaluate(
+      (filePath) => (window as any).electron.file.renameEntry(filePath, 'renamed.md'),
+      from
+    )
+
+    const to = path.join(tempDir, 'renamed.md')
+    expect(result.moved).toEqual({ from, to })
+    expect(fs.readFileSync(to, 'utf-8')).toBe('# Note\n')
+
+    const undo = await window.evaluate(() => (window as any).electron.file.undoOperation())
+    expect(undo.moved).toEqual({ from: to, to: from })
+    expect(fs.existsSync(from)).toBe(true)
+  })
+
+  test('moves a file into a folder', async ({ window }) => {
+    const from = path.join(tempDir, 'note.md')
+    const result = await window.evaluate(
+      ({ filePath, targetDir }) => (window as any).electron.file.moveEntry(filePath, targetDir),
+      { filePath: from, targetDir: path.join(tempDir, 'docs') }
+    )
+
+    expect(result.success).toBe(true)
+    expect(result.undoLabel).toBe('Undo Move')
+    expect(fs.existsSync(path.join(tempDir, 'docs', 'note.md'))).toBe(true)
+    expect(fs.existsSync(from)).toBe(false)
+  })
+
+  test('duplicates with a unique name', async ({ window }) => {
+    const source = path.join(tempDir, 'note.md')
+    const duplicate = (filePath: string) =>
+      window.evaluate((p) => (window as any).electron.file.duplicateEntry(p), filePath)
+
+    expect((await duplicate(source)).path).toBe(path.join(tempDir, 'note copy.md'))
+    expect((await duplicate(source)).path).toBe(path.join(tempDir, 'note copy 2.md'))
+  })
+})
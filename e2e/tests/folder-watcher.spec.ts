@@ -0,0 +1,83 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// The tree row showing exactly this name
+function treeItem(window: Page, name: string) {
+  const exactName = new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`)
+  return window.locator('.file-tree-item', { has: window.locator('.file-tree-name', { hasText: exactName }) })
+}
+
+test.describe('Folder Watcher', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-watcher-'))
+    fs.mkdirSync(path.join(tempDir, 'docs'))
+    fs.writeFileSync(path.join(tempDir, 'README.md'), '# Readme\n', 'utf-8')
+
+    // Open the folder as a workspace the way the workspace bar does
+    await electronApp.evaluate(({ dialog }, selected) => {
+      dialog.showOpenDialog = (async () => ({ canceled: false, filePaths: [selected] })) as any
+    }, tempDir)
+    await window.locator('.workspace-bar-add').click()
+    await expect(treeItem(window, 'README.md')).toBeVisible()
+  })
+
+  test.afterEach(async ({ window }) => {
+    // Open workspaces are restored on the next launch
+    await window.getByRole('button', { name: 'Close workspace' }).click()
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('adds, renames and removes files in the tree', async ({ window }) => {
+    fs.writeFileSync(path.join(tempDir, 'notes.md'), '# Notes\n', 'utf-8')
+    await expect(treeItem(window, 'notes.md')).toBeVisible()
+
+    fs.renameSync(path.join(tempDir, 'notes.md'), path.join(tempDir, 'journal.md'))
+    await expect(treeItem(window, 'journal.md')).toBeVisible()
+    await expect(treeItem(window, 'notes.md')).toHaveCount(0)
+
+    fs.rmSync(path.join(tempDir, 'journal.md'))
+    await expect(treeItem(window, 'journal.md')).toHaveCount(0)
+    await expect(treeItem(window, 'README.md')).toBeVisible()
+  })
+
+  test('watches folders created after the workspace was opened', async ({ window }) => {
+    fs.mkdirSync(path.join(tempDir, 'docs', 'guides'))
+    await treeItem(window, 'docs').click()
+    await expect(treeItem(window, 'guides')).toBeVisible()
+    await treeItem(window, 'guides').click()
+
+    // On Linux every directory has its own watcher, including new ones
+    fs.writeFileSync(path.join(tempDir, 'docs', 'guides', 'setup.md'), '# Setup\n', 'utf-8')
+    await expect(treeItem(window, 'setup.md')).toBeVisible()
+  })
+
+  test('sends a burst of changes as one batch', async ({ window }) => {
+    await window.evaluate(() => {
+      const w = window as any
+      w.__folderBatches = []
+      w.__unsubscribeFolderChanges = w.electron.workspace.onFolderChanged((_folderPath: string, changes: unknown[]) => {
+        w.__folderBatches.push(changes)
+      })
+    })
+
+    for (let i = 0; i < 10; i++) {
+      fs.writeFileSync(path.join(tempDir, `page-${i}.md`), `# Page ${i}\n`, 'utf-8')
+    }
+    await expect(treeItem(window, 'page-9.md')).toBeVisible()
+
+    const batches = await window.evaluate(() => {
+      const w = window as any
+      w.__unsubscribeFolderChanges()
+      return w.__folderBatches as { type: string; path: string }[][]
+    })
+    const added = batches.flat().filter((change) => change.type === 'add').map((change) => path.basename(change.path))
+    expect(new Set(added).size).toBe(10)
+    expect(batches.length).toBeLessThan(10)
+  })
+})
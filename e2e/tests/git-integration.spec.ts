@@ -0,0 +1,107 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('Git Integration', () => {
+  let tempDir: string
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: tempDir, encoding: 'utf-8' })
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-git-'))
+    git('init', '--quiet')
+    git('config', 'user.email', 'test@example.com')
+    git('config', 'user.name', 'Test')
+    fs.writeFileSync(path.join(tempDir, '.gitignore'), 'build/\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'README.md'), '# Title\n\nFirst\n', 'utf-8')
+    git('add', '.')
+    git('commit', '--quiet', '-m', 'Initial commit')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  const getStatus = (window: any) =>
+    window.evaluate((rootPath: string) => (window as any).electron.git.status(rootPath), tempDir)
+
+  test('reports modified, untracked and ignored files', async ({ window }) => {
+    fs.writeFileSync(path.join(tempDir, 'README.md'), '# Title\n\nChanged\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'notes.md'), 'New\n', 'utf-8')
+    fs.mkdirSync(path.join(tempDir, 'build'))
+    fs.writeFileSync(path.join(tempDir, 'build', 'out.html'), '<p>', 'utf-8')
+
+    const status = await getStatus(window)
+
+    const states = Object.fromEntries(
+      status.files.map((f: { path: string; state: string }) => [path.basename(f.path), f.state])
+    )
+    expect(states).toEqual({ 'README.md': 'modified', 'notes.md': 'untracked', build: 'ignored' })
+  })
+
+  test('returns the committed content of a file', async ({ window }) => {
+    fs.writeFileSync(path.join(tempDir, 'README.md'), '# Title\n\nChanged\n', 'utf-8')
+
+    const headContent = await window.evaluate(
+      (filePath: string) => (window as any).electron.git.headContent(filePath),
+      path.join(tempDir, 'README.md')
+    )
+    expect(headContent).toBe('# Title\n\nFirst\n')
+  })
+
+  test('reads the working copy of a file for the diff view', async ({ window }) => {
+    const filePath = path.join(tempDir, 'README.md')
+    fs.writeFileSync(filePath, Buffer.from('# Título\n', 'latin1'))
+    const readWorking = (p: string) => window.evaluate((p) => (window as any).electron.git.workingContent(p), p)
+
+    expect(await readWorking(filePath)).toBe('# Título\n')
+    fs.rmSync(filePath)
+    expect(await readWorking(filePath)).toBeNull()
+  })
+
+  test('stages, unstages and commits', async ({ window }) => {
+    const filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, 'New\n', 'utf-8')
+
+    await window.evaluate(
+      ({ rootPath, filePath }) => (window as any).electron.git.stage(rootPath, [filePath]),
+      { rootPath: tempDir, filePath }
+    )
+    let status = await getStatus(window)
+    expect(status.files.find((f: { path: string }) => f.path === filePath).staged).toBe('added')
+
+    await window.evaluate(
+      ({ rootPath, filePath }) => (window as any).electron.git.unstage(rootPath, [filePath]),
+      { rootPath: tempDir, filePath }
+    )
+    status = await getStatus(window)
+    expect(status.files.find((f: { path: string }) => f.path === filePath).state).toBe('untracked')
+
+    await window.evaluate(
+      ({ rootPath, filePath }) => (window as any).electron.git.stage(rootPath, [filePath]),
+      { rootPath: tempDir, filePath }
+    )
+    const result = await window.evaluate(
+      (rootPath: string) => (window as any).electron.git.commit(rootPath, 'Add notes'),
+      tempDir
+    )
+    expect(result.success).toBe(true)
+    expect(git('log', '-1', '--format=%s').trim()).toBe('Add notes')
+  })
+
+  test('is null outside a repository', async ({ window }) => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-nogit-'))
+    try {
+      const status = await window.evaluate(
+        (rootPath: string) => (window as any).electron.git.status(rootPath),
+        outside
+      )
+      expect(status).toBeNull()
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true })
+    }
+  })
+})
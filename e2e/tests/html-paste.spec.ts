@@ -0,0 +1,72 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import { ElectronApplication } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 1x1 red PNG
+const PIXEL_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC'
+
+const RICH_HTML = `<meta charset="utf-8"><h2>Release notes</h2>
+<p>Some <strong>bold</strong>, <em>italic</em> and <code>inline()</code> text with a <a href="https://example.com/docs">link</a>.</p>
+<ul><li>first</li><li>second<ul><li>nested</li></ul></li></ul>
+<table><thead><tr><th>Name</th><th align="right">Count</th></tr></thead><tbody><tr><td>apples</td><td>3</td></tr></tbody></table>
+<pre><code class="language-js">const answer = 42</code></pre>
+<p><img src="data:image/png;base64,${PIXEL_PNG_BASE64}" alt="dot"></p>`
+
+const PLAIN_TEXT = 'Release notes\nSome bold, italic and inline() text with a link.'
+
+async function writeClipboard(electronApp: ElectronApplication): Promise<void> {
+  await electronApp.evaluate(({ clipboard }, data) => {
+    clipboard.write(data)
+  }, { html: RICH_HTML, text: PLAIN_TEXT })
+}
+
+test.describe('HTML Paste', () => {
+  let tempDir: string
+  let filePath: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-paste-'))
+    filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, '', 'utf-8')
+    await openFile(electronApp, window, filePath)
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('converts rich HTML to markdown and saves embedded images', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    await writeClipboard(electronApp)
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+
+    await expect.poll(() => editor.getFullContent()).toContain('## Release notes')
+    const content = await editor.getFullContent()
+    expect(content).toContain('Some **bold**, *italic* and `inline()` text with a [link](https://example.com/docs).')
+    expect(content).toContain('- first\n- second\n  - nested')
+    expect(content).toContain('| Name | Count |\n| --- | ---: |\n| apples | 3 |')
+    expect(content).toContain('```js\nconst answer = 42\n```')
+    expect(content).toContain('![dot](./assets/pasted-image.png)')
+
+    const imagePath = path.join(tempDir, 'assets', 'pasted-image.png')
+    expect(fs.existsSync(imagePath)).toBe(true)
+    expect(fs.readFileSync(imagePath).equals(Buffer.from(PIXEL_PNG_BASE64, 'base64'))).toBe(true)
+  })
+
+  test('pastes plain text when Shift is held', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    await writeClipboard(electronApp)
+    await editor.focus()
+    await window.keyboard.press('Control+Shift+v')
+
+    await expect.poll(() => editor.getFullContent()).toBe(PLAIN_TEXT)
+    expect(fs.existsSync(path.join(tempDir, 'assets'))).toBe(false)
+  })
+})
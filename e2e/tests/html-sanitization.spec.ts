@@ -0,0 +1,45 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+
+const unsafeHtml = `# Raw HTML
+
+<iframe src="https://example.com"></iframe>
+
+<img src="missing.png" onerror="document.title='pwned'" alt="pic">
+
+<a href="javascript:alert(1)">bad link</a>
+
+<details><summary>More</summary>Hidden text</details>
+
+Inline math $x^2$ stays.
+`
+
+test.describe('HTML Sanitization', () => {
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+  })
+
+  test('strips unsafe raw HTML from the preview by default', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent(unsafeHtml)
+
+    const preview = window.locator('.markdown-body')
+    await expect(preview.locator('h1')).toHaveText('Raw HTML')
+
+    await expect(preview.locator('iframe')).toHaveCount(0)
+    await expect(preview.locator('img[onerror]')).toHaveCount(0)
+    await expect(preview.locator('a', { hasText: 'bad link' })).not.toHaveAttribute('href', /javascript:/)
+
+    // GitHub-equivalent elements survive
+    await expect(preview.locator('details summary')).toHaveText('More')
+  })
+
+  test('keeps KaTeX output and source positions', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent(unsafeHtml)
+
+    const preview = window.locator('.markdown-body')
+    await expect(preview.locator('.katex').first()).toBeVisible({ timeout: 10000 })
+    await expect(preview.locator('h1')).toHaveAttribute('data-source-start', /\d+/)
+  })
+})
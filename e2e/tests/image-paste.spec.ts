@@ -0,0 +1,99 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import { ElectronApplication, Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 1x1 red PNG
+const PIXEL_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC'
+
+const IMAGE_URL = 'https://example.com/images/diagram.png?v=2'
+
+async function writeClipboardImage(electronApp: ElectronApplication): Promise<void> {
+  await electronApp.evaluate(({ clipboard, nativeImage }, base64) => {
+    clipboard.writeImage(nativeImage.createFromDataURL(`data:image/png;base64,${base64}`))
+  }, PIXEL_PNG_BASE64)
+}
+
+async function writeClipboardText(electronApp: ElectronApplication, text: string): Promise<void> {
+  await electronApp.evaluate(({ clipboard }, value) => {
+    clipboard.writeText(value)
+  }, text)
+}
+
+async function setPasteNaming(window: Page, label: string): Promise<void> {
+  await window.keyboard.press('Control+,')
+  await window.waitForSelector('.preferences-dialog', { state: 'visible', timeout: 5000 })
+  await window.locator('.preferences-tab', { hasText: 'Images' }).click()
+  await window.locator('#images-pasteNaming').selectOption({ label })
+  await window.keyboard.press('Escape')
+  await window.waitForSelector('.preferences-dialog', { state: 'hidden', timeout: 3000 })
+}
+
+test.describe('Image Paste', () => {
+  let tempDir: string
+  let filePath: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-image-paste-'))
+    filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, '', 'utf-8')
+    await openFile(electronApp, window, filePath)
+  })
+
+  test.afterEach(async ({ window }) => {
+    // Settings are shared with other runs; put the default back
+    await window.evaluate(() => (window as any).electron.settings.set('images', { pasteNaming: 'timestamp' }))
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('saves a pasted image to assets with a timestamped name', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    await writeClipboardImage(electronApp)
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+
+    await expect.poll(() => editor.getFullContent()).toMatch(/^!\[\]\(\.\/assets\/image-\d{8}-\d{6}\.png\)$/)
+    const fileName = (await editor.getFullContent()).match(/image-\d{8}-\d{6}\.png/)![0]
+    expect(fs.existsSync(path.join(tempDir, 'assets', fileName))).toBe(true)
+  })
+
+  test('asks for a name when set to prompt', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    const chosenPath = path.join(tempDir, 'images', 'login screen.png')
+    fs.mkdirSync(path.dirname(chosenPath))
+    await electronApp.evaluate(({ dialog }, selected) => {
+      dialog.showSaveDialog = (async () => ({ canceled: false, filePath: selected })) as any
+    }, chosenPath)
+
+    await setPasteNaming(window, 'Ask for a name and folder')
+    await writeClipboardImage(electronApp)
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+
+    await expect.poll(() => editor.getFullContent()).toBe('![](./images/login%20screen.png)')
+    expect(fs.existsSync(chosenPath)).toBe(true)
+  })
+
+  test('turns a pasted image URL into an image link', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    await writeClipboardText(electronApp, IMAGE_URL)
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+
+    await expect.poll(() => editor.getFullContent()).toBe(`![](${IMAGE_URL})`)
+  })
+
+  test('pastes an image URL as text when Shift is held', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    await writeClipboardText(electronApp, IMAGE_URL)
+    await editor.focus()
+    await window.keyboard.press('Control+Shift+v')
+
+    await expect.poll(() => editor.getFullContent()).toBe(IMAGE_URL)
+  })
+})
@@ -0,0 +1,137 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import { ElectronApplication, Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// A solid white PNG of the given size
+async function createPng(electronApp: ElectronApplication, width: number, height: number): Promise<Buffer> {
+  const base64 = await electronApp.evaluate(({ nativeImage }, size) => {
+    const bitmap = Buffer.alloc(size.width * size.height * 4, 255)
+    return nativeImage.createFromBitmap(bitmap, size).toPNG().toString('base64')
+  }, { width, height })
+  return Buffer.from(base64, 'base64')
+}
+
+async function writeClipboardImage(electronApp: ElectronApplication, png: Buffer): Promise<void> {
+  await electronApp.evaluate(({ clipboard, nativeImage }, base64) => {
+    clipboard.writeImage(nativeImage.createFromBuffer(Buffer.from(base64, 'base64')))
+  }, png.toString('base64'))
+}
+
+// Width of a PNG or JPEG file, read by Electron
+function getImageWidth(electronApp: ElectronApplication, imagePath: string): Promise<number> {
+  return electronApp.evaluate(({ nativeImage }, p) => nativeImage.createFromPath(p).getSize().width, imagePath)
+}
+
+async function openImagePreferences(window: Page): Promise<void> {
+  await window.keyboard.press('Control+,')
+  await window.waitForSelector('.preferences-dialog', { state: 'visible', timeout: 5000 })
+  await window.locator('.preferences-tab', { hasText: 'Images' }).click()
+}
+
+async function closePreferences(window: Page): Promise<void> {
+  await window.keyboard.press('Escape')
+  await window.waitForSelector('.preferences-dialog', { state: 'hidden', timeout: 3000 })
+}
+
+test.describe('Image Processing', () => {
+  let tempDir: string
+  let filePath: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-image-processing-'))
+    filePath = path.join(tempDir, 'notes.md')
+  })
+
+  test.afterEach(async ({ window }) => {
+    // Settings are shared with other runs; put the defaults back
+    await window.evaluate(() =>
+      (window as any).electron.settings.set('images', {
+        pasteNaming: 'timestamp',
+        optimize: false,
+        processing: { maxWidth: 1920, format: 'original', quality: 85, stripMetadata: true }
+      })
+    )
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('scales down and converts pasted images, unless Shift is held', async ({ electronApp, window }) => {
+    fs.writeFileSync(filePath, '', 'utf-8')
+    await openFile(electronApp, window, filePath)
+
+    await openImagePreferences(window)
+    await window.locator('#images-optimize').check()
+    await window.locator('#images-maxWidth').fill('100')
+    await window.locator('#images-format').selectOption('jpeg')
+    await closePreferences(window)
+
+    const editor = new EditorHelpers(window)
+    await writeClipboardImage(electronApp, await createPng(electronApp, 300, 20))
+    await editor.focus()
+    await window.keyboard.press('Control+v')
+
+    await expect.poll(() => editor.getFullContent()).toMatch(/\.\/assets\/image-\d{8}-\d{6}\.jpg\)$/)
+    const jpegName = (await editor.getFullContent()).match(/image-\d{8}-\d{6}\.jpg/)![0]
+    expect(await getImageWidth(electronApp, path.join(tempDir, 'assets', jpegName))).toBe(100)
+
+    await window.keyboard.press('Enter')
+    await window.keyboard.press('Control+Shift+v')
+
+    await expect.poll(() => editor.getFullContent()).toMatch(/\.\/assets\/image-\d{8}-\d{6}(_\d+)?\.png\)$/)
+    const pngName = (await editor.getFullContent()).match(/image-\d{8}-\d{6}(_\d+)?\.png/)![0]
+    expect(await getImageWidth(electronApp, path.join(tempDir, 'assets', pngName))).toBe(300)
+  })
+
+  test('Resize Image rewrites the asset and updates the link', async ({ electronApp, window }) => {
+    fs.mkdirSync(path.join(tempDir, 'assets'))
+    fs.writeFileSync(path.join(tempDir, 'assets', 'photo.png'), await createPng(electronApp, 400, 200))
+    fs.writeFileSync(filePath, 'Before ![photo](./assets/photo.png) after', 'utf-8')
+    await openFile(electronApp, window, filePath)
+
+    const editor = new EditorHelpers(window)
+    await editor.setCursorPosition(1, 12)
+    await window.keyboard.press('Control+Shift+P')
+    await window.locator('.command-palette-input').fill('Resize Image')
+    await window.keyboard.press('Enter')
+
+    await expect(window.locator('.resize-image-current')).toContainText('400 × 200 PNG')
+    await window.locator('#resize-image-width').fill('120')
+    await window.locator('#resize-image-format').selectOption('jpeg')
+    await window.getByRole('button', { name: 'Resize' }).click()
+
+    await expect.poll(() => editor.getFullContent()).toBe('Before ![photo](./assets/photo.jpg) after')
+    expect(await getImageWidth(electronApp, path.join(tempDir, 'assets', 'photo.jpg'))).toBe(120)
+    // Other documents may still link to the original
+    expect(fs.existsSync(path.join(tempDir, 'assets', 'photo.png'))).toBe(true)
+  })
+
+  test('Resize Image keeps the file name when the format is kept', async ({ electronApp, window }) => {
+    fs.mkdirSync(path.join(tempDir, 'assets'))
+    fs.writeFileSync(path.join(tempDir, 'assets', 'Shot.PNG'), await createPng(electronApp, 400, 200))
+    fs.writeFileSync(filePath, 'Before ![shot](./assets/Shot.PNG) after', 'utf-8')
+    await openFile(electronApp, window, filePath)
+
+    const editor = new EditorHelpers(window)
+    await editor.setCursorPosition(1, 12)
+    await window.keyboard.press('Control+Shift+P')
+    await window.locator('.command-palette-input').fill('Resize Image')
+    await window.keyboard.press('Enter')
+
+    await window.locator('#resize-image-width').fill('120')
+    await window.getByRole('button', { name: 'Resize' }).click()
+
+    await expect.poll(() => getImageWidth(electronApp, path.join(tempDir, 'assets', 'Shot.PNG'))).toBe(120)
+    expect(await editor.getFullContent()).toBe('Before ![shot](./assets/Shot.PNG) after')
+    expect(fs.readdirSync(path.join(tempDir, 'assets'))).toEqual(['Shot.PNG'])
+
+    // Other documents may link to it, so the old image can be brought back
+    const undoLabel = await window.evaluate(() => (window as any).electron.file.getUndoLabel())
+    expect(undoLabel).toBe('Undo Resize Image')
+    await window.evaluate(() => (window as any).electron.file.undoOperation())
+    expect(await getImageWidth(electronApp, path.join(tempDir, 'assets', 'Shot.PNG'))).toBe(400)
+  })
+})
@@ -0,0 +1,70 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('Check Links', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-linkcheck-'))
+    fs.mkdirSync(path.join(tempDir, 'docs'))
+    fs.mkdirSync(path.join(tempDir, 'assets'))
+    fs.writeFileSync(path.join(tempDir, 'assets', 'logo.png'), 'png', 'utf-8')
+    fs.writeFileSync(
+      path.join(tempDir, 'README.md'),
+      [
+        '# Getting Started',
+        '',
+        '## Über uns',
+        '',
+        '[Guide](docs/guide.md#install) [Gone](docs/gone.md) [Anchor](docs/guide.md#nope)',
+        '[Self](#getting-started) [Umlaut](#über-uns) ![Logo](assets/logo.png) ![Missing](assets/missing.png)',
+        '[Site](https://example.com/docs) [Mail](mailto:docs@example.com)',
+        '',
+        '```',
+        '[Ignored](docs/nowhere.md)',
+        '```',
+        ''
+      ].join('\n'),
+      'utf-8'
+    )
+    fs.writeFileSync(path.join(tempDir, 'docs', 'guide.md'), '# Guide\n\n## Install\n', 'utf-8')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('reports broken files, images and anchors', async ({ window }) => {
+    const result = await window.evaluate(
+      (rootPath) => (window as any).electron.workspace.checkLinks(rootPath, { offlineOnly: true }),
+      tempDir
+    )
+
+    expect(result.fileCount).toBe(2)
+    const summary = result.problems.map((p: { url: string; kind: string; lineNumber: number }) => [
+      p.url,
+      p.kind,
+      p.lineNumber
+    ])
+    expect(summary).toEqual([
+      ['docs/gone.md', 'file', 5],
+      ['docs/guide.md#nope', 'anchor', 5],
+      ['assets/missing.png', 'image', 6],
+      ['https://example.com/docs', 'external', 7]
+    ])
+  })
+
+  test('flags external links without fetching them in offline mode', async ({ window }) => {
+    const result = await window.evaluate(
+      (rootPath) => (window as any).electron.workspace.checkLinks(rootPath, { offlineOnly: true }),
+      tempDir
+    )
+
+    const external = result.problems.find((p: { kind: string }) => p.kind === 'external')
+    expect(external.severity).toBe('info')
+    expect(external.column).toBe(8)
+  })
+})
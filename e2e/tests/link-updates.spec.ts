@@ -0,0 +1,85 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('Link Updates', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-links-'))
+    fs.mkdirSync(path.join(tempDir, 'docs'))
+    fs.mkdirSync(path.join(tempDir, 'assets'))
+    fs.writeFileSync(path.join(tempDir, 'assets', 'logo.png'), 'png', 'utf-8')
+    fs.writeFileSync(
+      path.join(tempDir, 'README.md'),
+      '[Guide](docs/guide.md#setup) ![Logo](./assets/logo.png)\n\n[guide]: docs/guide.md\n\n`[code](docs/guide.md)`\n',
+      'utf-8'
+    )
+    fs.writeFileSync(
+      path.join(tempDir, 'docs', 'guide.md'),
+      '# Guide\n\n[Home](../README.md) <img src="../assets/logo.png">\n',
+      'utf-8'
+    )
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  const previewLinkUpdates = (window: any, moves: { from: string; to: string }[]) =>
+    window.evaluate(
+      ({ rootPath, moves }: { rootPath: string; moves: { from: string; to: string }[] }) =>
+        (window as any).electron.workspace.previewLinkUpdates(rootPath, moves),
+      { rootPath: tempDir, moves }
+    )
+
+  test('rewrites inbound links to a renamed file', async ({ window }) => {
+    const from = path.join(tempDir, 'docs', 'guide.md')
+    const to = path.join(tempDir, 'docs', 'manual.md')
+    fs.renameSync(from, to)
+
+    const previews = await previewLinkUpdates(window, [{ from, to }])
+
+    expect(previews).toHaveLength(1)
+    expect(previews[0].path).toBe(path.join(tempDir, 'README.md'))
+    expect(previews[0].edits.map((e: { newUrl: string }) => e.newUrl)).toEqual([
+      'docs/manual.md#setup',
+      'docs/manual.md'
+    ])
+    // Code spans are left alone
+    expect(previews[0].updated).toContain('`[code](docs/guide.md)`')
+  })
+
+  test('rewrites outbound links of a moved file', async ({ window }) => {
+    const from = path.join(tempDir, 'docs', 'guide.md')
+    const to = path.join(tempDir, 'guide.md')
+    fs.renameSync(from, to)
+
+    const previews = await previewLinkUpdates(window, [{ from, to }])
+    const moved = previews.find((p: { path: string }) => p.path === to)
+
+    expect(moved.updated).toBe('# Guide\n\n[Home](README.md) <img src="assets/logo.png">\n')
+  })
+
+  test('applies updates through applyReplace', async ({ window }) => {
+    const from = path.join(tempDir, 'assets')
+    const to = path.join(tempDir, 'images')
+    fs.renameSync(from, to)
+
+    const previews = await previewLinkUpdates(window, [{ from, to }])
+    const result = await window.evaluate(
+      (edits) => (window as any).electron.workspace.applyReplace(edits),
+      previews.map((p: { path: string; hash: string; updated: string }) => ({
+        path: p.path,
+        hash: p.hash,
+        content: p.updated
+      }))
+    )
+
+    expect(result.written).toHaveLength(2)
+    expect(fs.readFileSync(path.join(tempDir, 'README.md'), 'utf-8')).toContain('![Logo](./images/logo.png)')
+    expect(fs.readFileSync(path.join(tempDir, 'docs', 'guide.md'), 'utf-8')).toContain('src="../images/logo.png"')
+  })
+})
@@ -0,0 +1,84 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('Local History', () => {
+  let tempDir: string
+  let filePath: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-history-'))
+    // A .wrangle folder keeps the history inside the workspace
+    fs.mkdirSync(path.join(tempDir, '.wrangle'))
+    filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, '# Notes\n', 'utf-8')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  const save = (window: any, content: string) =>
+    window.evaluate(
+      ({ filePath, content }: { filePath: string; content: string }) =>
+        (window as any).electron.file.save(filePath, content),
+      { filePath, content }
+    )
+
+  const listSnapshots = (window: any) =>
+    window.evaluate((filePath: string) => (window as any).electron.history.list(filePath), filePath)
+
+  test('keeps the original and each saved version', async ({ window }) => {
+    await save(window, '# Notes\n\nFirst draft\n')
+    await save(window, '# Notes\n\nSecond draft\n')
+    // Saving unchanged content adds nothing
+    await save(window, '# Notes\n\nSecond draft\n')
+
+    const snapshots = await listSnapshots(window)
+    expect(snapshots.map((s: { source: string }) => s.source)).toEqual(['save', 'save', 'original'])
+    expect(fs.existsSync(path.join(tempDir, '.wrangle', 'history'))).toBe(true)
+
+    const original = await window.evaluate(
+      ({ filePath, id }) => (window as any).electron.history.read(filePath, id),
+      { filePath, id: snapshots[2].id }
+    )
+    expect(original).toBe('# Notes\n')
+  })
+
+  test('keeps the original of a file last changed long ago', async ({ window }) => {
+    const longAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)
+    fs.utimesSync(filePath, longAgo, longAgo)
+
+    await save(window, '# Notes\n\nBad auto-save\n')
+
+    const snapshots = await listSnapshots(window)
+    expect(snapshots.map((s: { source: string }) => s.source)).toEqual(['save', 'original'])
+    expect(snapshots[1].timestamp).toBeLessThan(Date.now() - 60 * 24 * 60 * 60 * 1000)
+  })
+
+  test('restore returns the snapshot and keeps the current content', async ({ window }) => {
+    await save(window, '# Notes\n\nKeep me\n')
+    const [snapshot] = await listSnapshots(window)
+
+    const restored = await window.evaluate(
+      ({ filePath, id }) => (window as any).electron.history.restore(filePath, id, '# Notes\n\nBad edit\n'),
+      { filePath, id: snapshot.id }
+    )
+    expect(restored).toBe('# Notes\n\nKeep me\n')
+
+    const snapshots = await listSnapshots(window)
+    expect(snapshots[0].source).toBe('beforeRestore')
+  })
+
+  test('rejects snapshot ids outside the history folder', async ({ window }) => {
+    await save(window, '# Notes\n\nEdited\n')
+
+    const content = await window.evaluate(
+      (filePath) => (window as any).electron.history.read(filePath, '../../notes.md'),
+      filePath
+    )
+    expect(content).toBeNull()
+  })
+})
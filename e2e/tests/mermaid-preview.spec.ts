@@ -0,0 +1,58 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+
+const validDiagram = `# Diagram
+
+\`\`\`mermaid
+graph TD
+  A[Start] --> B[End]
+\`\`\`
+`
+
+const invalidDiagram = `# Diagram
+
+\`\`\`mermaid
+graph TD
+  A[Start -->
+\`\`\`
+`
+
+test.describe('Mermaid Preview', () => {
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+  })
+
+  test('renders a mermaid fence as an SVG diagram', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent(validDiagram)
+
+    const diagram = window.locator('.markdown-body .mermaid-diagram svg')
+    await expect(diagram).toBeVisible({ timeout: 10000 })
+
+    // The diagram keeps its source mapping for click-to-cursor
+    const wrapper = window.locator('.markdown-body .mermaid-diagram')
+    await expect(wrapper).toHaveAttribute('data-source-start', /\d+/)
+  })
+
+  test('shows an inline error for invalid diagrams', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent(invalidDiagram)
+
+    const error = window.locator('.markdown-body .mermaid-error')
+    await expect(error).toBeVisible({ timeout: 10000 })
+
+    // The rest of the document still renders
+    await expect(window.locator('.markdown-body h1')).toHaveText('Diagram')
+  })
+
+  test('updates the diagram when the source changes', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent(validDiagram)
+    await expect(window.locator('.markdown-body .mermaid-diagram svg')).toBeVisible({ timeout: 10000 })
+
+    await editor.setContent(validDiagram.replace('B[End]', 'B[Finish]'))
+    await expect(window.locator('.markdown-body .mermaid-diagram svg')).toContainText('Finish', {
+      timeout: 10000
+    })
+  })
+})
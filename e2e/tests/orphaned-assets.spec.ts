@@ -0,0 +1,114 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const DEFAULT_TEMPLATE = '${docdir}/assets/${name}.${ext}'
+
+test.describe('Orphaned Assets', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-orphans-'))
+    fs.mkdirSync(path.join(tempDir, 'docs', 'assets'), { recursive: true })
+    fs.mkdirSync(path.join(tempDir, '_static'))
+    for (const name of ['used.png', 'in html.png', 'only in code.png', 'old.pdf']) {
+      fs.writeFileSync(path.join(tempDir, 'docs', 'assets', name), 'data', 'utf-8')
+    }
+    fs.writeFileSync(path.join(tempDir, '_static', 'unused.svg'), '<svg/>', 'utf-8')
+    fs.writeFileSync(
+      path.join(tempDir, 'docs', 'guide.md'),
+      [
+        '![Used](assets/used.png)',
+        '<img src="./assets/in%20html.png" width="200">',
+        '![Gone](assets/gone.png)',
+        '',
+        '```',
+        '![Example](assets/only%20in%20code.png)',
+        '```',
+        ''
+      ].join('\n'),
+      'utf-8'
+    )
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('lists unlinked assets and links to missing files', async ({ window }) => {
+    const result = await window.evaluate(
+      ({ rootPath, template }) => (window as any).electron.workspace.scanAssets(rootPath, template, {}),
+      { rootPath: tempDir, template: DEFAULT_TEMPLATE }
+    )
+
+    expect(result.fileCount).toBe(1)
+    expect(result.assetCount).toBe(4)
+    expect(result.orphans.map((o: { path: string }) => path.basename(o.path))).toEqual(['old.pdf', 'only in code.png'])
+    expect(result.orphans[1].size).toBe(4)
+    expect(result.orphans[0].thumbnailUrl).toBeNull()
+    expect(result.orphans[1].thumbnailUrl).toMatch(/^wrangle-asset:/)
+    expect(result.missing.map((m: { url: string; lineNumber: number }) => [m.url, m.lineNumber])).toEqual([
+      ['assets/gone.png', 3]
+    ])
+  })
+
+  test('includes the asset path template\'s folder', async ({ window }) => {
+    const result = await window.evaluate(
+      ({ rootPath, template }) => (window as any).electron.workspace.scanAssets(rootPath, template, {}),
+      { rootPath: tempDir, template: '${workspace}/_static/${docname}/${name}.${ext}' }
+    )
+
+    expect(result.orphans.map((o: { path: string }) => path.basename(o.path))).toContain('unused.svg')
+  })
+
+  test('scans documents with unsaved edits from their tab content', async ({ window }) => {
+    const guidePath = path.join(tempDir, 'docs', 'guide.md')
+    const result = await window.evaluate(
+      ({ rootPath, template, openDocuments }) =>
+        (window as any).electron.workspace.scanAssets(rootPath, template, openDocuments),
+      {
+        rootPath: tempDir,
+        template: DEFAULT_TEMPLATE,
+        openDocuments: { [guidePath]: '![Used](assets/used.png)\n![Pasted](assets/old.pdf)\n' }
+      }
+    )
+
+    expect(result.orphans.map((o: { path: string }) => path.basename(o.path))).toEqual([
+      'in html.png',
+      'only in code.png'
+    ])
+    expect(result.missing).toEqual([])
+  })
+
+  test('reads links in Latin-1 and UTF-16 documents', async ({ window }) => {
+    fs.writeFileSync(path.join(tempDir, 'docs', 'latin1.md'), Buffer.from('# Café\n\n![Old](assets/old.pdf)\n', 'latin1'))
+    fs.writeFileSync(
+      path.join(tempDir, 'docs', 'utf16.md'),
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('![Code](assets/only%20in%20code.png)\n', 'utf16le')])
+    )
+    const result = await window.evaluate(
+      ({ rootPath, template }) => (window as any).electron.workspace.scanAssets(rootPath, template, {}),
+      { rootPath: tempDir, template: DEFAULT_TEMPLATE }
+    )
+
+    expect(result.fileCount).toBe(3)
+    expect(result.orphans).toEqual([])
+  })
+
+  test('only moves files inside the workspace to the trash', async ({ window }) => {
+    const outside = path.join(os.tmpdir(), `wrangle-orphans-outside-${Date.now()}.png`)
+    fs.writeFileSync(outside, 'data', 'utf-8')
+    try {
+      const trashed = await window.evaluate(
+        ({ rootPath, paths }) => (window as any).electron.workspace.trashAssets(rootPath, paths),
+        { rootPath: tempDir, paths: [outside] }
+      )
+      expect(trashed).toEqual([])
+      expect(fs.existsSync(outside)).toBe(true)
+    } finally {
+      fs.rmSync(outside, { force: true })
+    }
+  })
+})
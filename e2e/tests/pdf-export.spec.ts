@@ -0,0 +1,91 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { openFile } from '../helpers/file-helpers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 1x1 red PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC',
+  'base64'
+)
+
+const DOCUMENT = `# Chapter One
+
+Some text with $e = mc^2$ math.
+
+![Pixel](./assets/pixel.png)
+
+# Chapter Two
+
+## Section
+
+More text.
+`
+
+test.describe('PDF Export', () => {
+  let tempDir: string
+  let outputPath: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-pdf-'))
+    outputPath = path.join(tempDir, 'book.pdf')
+    fs.mkdirSync(path.join(tempDir, 'assets'))
+    fs.writeFileSync(path.join(tempDir, 'assets', 'pixel.png'), PIXEL_PNG)
+    const filePath = path.join(tempDir, 'book.md')
+    fs.writeFileSync(filePath, DOCUMENT, 'utf-8')
+
+    await electronApp.evaluate(({ dialog }, output) => {
+      dialog.showSaveDialog = (async () => ({ canceled: false, filePath: output })) as any
+    }, outputPath)
+    await openFile(electronApp, window, filePath)
+
+    await window.locator('.menu-button-icon').click()
+    await window.locator('.menu-dropdown-item', { hasText: 'Export as PDF' }).click()
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('opens the page setup dialog with the defaults', async ({ window }) => {
+    const dialog = window.locator('.pdf-export-dialog')
+    await expect(dialog).toBeVisible()
+    await expect(dialog.locator('#pdf-page-size')).toHaveValue('Letter')
+    await expect(dialog.locator('#pdf-theme')).toHaveValue('print')
+    await expect(dialog.locator('#pdf-footer')).toHaveValue('{page} / {pages}')
+
+    await window.keyboard.press('Escape')
+    await expect(dialog).not.toBeVisible()
+    expect(fs.existsSync(outputPath)).toBe(false)
+  })
+
+  test('exports a PDF with the chosen page setup', async ({ window }) => {
+    const dialog = window.locator('.pdf-export-dialog')
+    await dialog.locator('#pdf-page-size').selectOption('A4')
+    await dialog.locator('#pdf-orientation').selectOption('landscape')
+    await dialog.locator('#pdf-header').fill('{title} - {date}')
+    await dialog.getByLabel('Table of contents').check()
+    await dialog.getByLabel('Start each top-level heading on a new page').check()
+    await dialog.locator('button', { hasText: 'Export' }).click()
+    await expect(dialog).not.toBeVisible()
+
+    await expect.poll(() => fs.existsSync(outputPath), { timeout: 20000 }).toBe(true)
+    const pdf = fs.readFileSync(outputPath).toString('latin1')
+    expect(pdf.startsWith('%PDF')).toBe(true)
+    // Contents page plus one page per chapter
+    expect((pdf.match(/\/Type\s*\/Page\b/g) ?? []).length).toBeGreaterThanOrEqual(3)
+  })
+
+  test('remembers the chosen options', async ({ window }) => {
+    const dialog = window.locator('.pdf-export-dialog')
+    await dialog.locator('#pdf-theme').selectOption('current')
+    await dialog.locator('button', { hasText: 'Export' }).click()
+    await expect.poll(() => fs.existsSync(outputPath), { timeout: 20000 }).toBe(true)
+
+    await window.locator('.menu-button-icon').click()
+    await window.locator('.menu-dropdown-item', { hasText: 'Export as PDF' }).click()
+    await expect(window.locator('.pdf-export-dialog #pdf-theme')).toHaveValue('current')
+  })
+})
@@ -0,0 +1,74 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { openFile } from '../helpers/file-helpers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+// 1x1 red PNG
+const PIXEL_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAIAAACQd1PeAAAADElEQVR4nGP4z8AAAAMBAQDJ/pLvAAAAAElFTkSuQmCC',
+  'base64'
+)
+
+test.describe('Preview Images', () => {
+  let tempDir: string
+  let docDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-images-'))
+    docDir = path.join(tempDir, 'notes')
+    fs.mkdirSync(path.join(docDir, 'assets'), { recursive: true })
+    fs.writeFileSync(path.join(docDir, 'assets', 'dot.png'), PIXEL_PNG)
+    fs.writeFileSync(path.join(docDir, 'assets', 'with space.png'), PIXEL_PNG)
+    fs.writeFileSync(path.join(docDir, 'bare.png'), PIXEL_PNG)
+    fs.writeFileSync(path.join(tempDir, 'outside.png'), PIXEL_PNG)
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('resolves relative, encoded and absolute paths', async ({ electronApp, window }) => {
+    const absolute = path.join(docDir, 'assets', 'dot.png')
+    const filePath = path.join(docDir, 'page.md')
+    const content = `![dot](./assets/dot.png)
+
+![space](assets/with%20space.png)
+
+![bare](bare.png)
+
+![absolute](${absolute.replace(/\\/g, '/')})
+
+![outside](../outside.png)
+`
+    fs.writeFileSync(filePath, content, 'utf-8')
+    await openFile(electronApp, window, filePath)
+
+    const preview = window.locator('.markdown-body')
+    for (const alt of ['dot', 'space', 'bare', 'absolute']) {
+      const image = preview.locator(`img[alt="${alt}"]`)
+      await expect(image).toHaveAttribute('src', /^wrangle-asset:\/\//)
+      await expect.poll(() => image.evaluate((img: HTMLImageElement) => img.naturalWidth)).toBe(1)
+    }
+
+    // Outside the document's folder and not in a workspace
+    await expect(preview.locator('img[alt="outside"]')).toHaveAttribute('src', '../outside.png')
+  })
+
+  test('reloads an image when it changes on disk', async ({ electronApp, window }) => {
+    const filePath = path.join(docDir, 'page.md')
+    const content = '![dot](./assets/dot.png)\n'
+    fs.writeFileSync(filePath, content, 'utf-8')
+    await openFile(electronApp, window, filePath)
+
+    const image = window.locator('.markdown-body img[alt="dot"]')
+    await expect(image).toHaveAttribute('src', /^wrangle-asset:\/\//)
+    const before = await image.getAttribute('src')
+
+    const later = new Date(Date.now() + 5000)
+    fs.utimesSync(path.join(docDir, 'assets', 'dot.png'), later, later)
+
+    await expect.poll(() => image.getAttribute('src'), { timeout: 10000 }).not.toBe(before)
+  })
+})
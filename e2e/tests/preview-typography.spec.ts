@@ -0,0 +1,142 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { ElectronApplication, Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const DOCUMENT = '# Title\n\n## Intro\n\nSome text.\n\n### Detail\n\nMore text.'
+
+const CUSTOM_CSS = ':root { --preview-bg: rgb(4, 5, 6); }\np { color: rgb(1, 2, 3); }\n'
+
+async function openPreviewPreferences(window: Page): Promise<void> {
+  await window.keyboard.press('Control+,')
+  await window.waitForSelector('.preferences-dialog', { state: 'visible', timeout: 5000 })
+  await window.locator('.preferences-tab', { hasText: 'Preview' }).click()
+  await expect(window.locator('.preview-settings-tab')).toBeVisible()
+}
+
+async function closePreferences(window: Page): Promise<void> {
+  await window.keyboard.press('Escape')
+  await window.waitForSelector('.preferences-dialog', { state: 'hidden', timeout: 3000 })
+}
+
+async function stubOpenDialog(electronApp: ElectronApplication, filePath: string): Promise<void> {
+  await electronApp.evaluate(({ dialog }, selected) => {
+    dialog.showOpenDialog = (async () => ({ canceled: false, filePaths: [selected] })) as any
+  }, filePath)
+}
+
+function paragraphStyle(window: Page) {
+  return window.evaluate(() => {
+    const paragraph = document.querySelector('.markdown-body p')!
+    const style = getComputedStyle(paragraph)
+    return { color: style.color, textAlign: style.textAlign }
+  })
+}
+
+test.describe('Preview Typography', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-typography-'))
+    fs.writeFileSync(path.join(tempDir, 'custom.css'), CUSTOM_CSS, 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'broken.css'), 'p { color: red;', 'utf-8')
+    await new EditorHelpers(window).setContent(DOCUMENT)
+  })
+
+  test.afterEach(async ({ window }) => {
+    // Settings are shared with other runs; put the defaults back
+    await window.evaluate(async () => {
+      const preview = await (window as any).electron.settings.get('preview')
+      await (window as any).electron.settings.set('preview', {
+        ...preview,
+        typography: {
+          bodyFont: '',
+          codeFont: '',
+          lineHeight: 1.6,
+          maxWidth: 900,
+          paragraphSpacing: 1,
+          justify: false,
+          headingNumbers: false
+        },
+        customCssPath: ''
+      })
+    })
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('typography settings restyle the preview', async ({ window }) => {
+    await openPreviewPreferences(window)
+    await window.locator('#preview-lineHeight').fill('2')
+    await window.locator('#preview-maxWidth').fill('600')
+    await window.locator('#preview-justify').check()
+    await window.locator('#preview-headingNumbers').check()
+    await closePreferences(window)
+
+    const styles = await window.evaluate(() => {
+      const body = document.querySelector('.markdown-body')!
+      const paragraph = body.querySelector('p')!
+      return {
+        lineHeight: parseFloat(getComputedStyle(paragraph).lineHeight) / parseFloat(getComputedStyle(paragraph).fontSize),
+        maxWidth: getComputedStyle(body).maxWidth,
+        textAlign: getComputedStyle(paragraph).textAlign,
+        h2Number: getComputedStyle(body.querySelector('h2')!, '::before').content,
+        h3Number: getComputedStyle(body.querySelector('h3')!, '::before').content
+      }
+    })
+    expect(styles.lineHeight).toBeCloseTo(2)
+    expect(styles).toMatchObject({ maxWidth: '600px', textAlign: 'justify' })
+    // Counter values aren't resolved in computed content, only the template
+    expect(styles.h2Number).toContain('counter(h2)')
+    expect(styles.h3Number).toContain('counter(h3)')
+  })
+
+  test('custom CSS applies inside the preview only', async ({ electronApp, window }) => {
+    await stubOpenDialog(electronApp, path.join(tempDir, 'custom.css'))
+    await openPreviewPreferences(window)
+    await window.locator('.setting-row', { hasText: 'All workspaces' }).getByRole('button', { name: 'Choose...' }).click()
+    await expect(window.locator('#preview-custom-css')).toHaveText(path.join(tempDir, 'custom.css'))
+    await closePreferences(window)
+
+    await expect.poll(async () => (await paragraphStyle(window)).color).toBe('rgb(1, 2, 3)')
+    const background = await window.evaluate(() => getComputedStyle(document.querySelector('.markdown-preview')!).backgroundColor)
+    expect(background).toBe('rgb(4, 5, 6)')
+    const appBackground = await window.evaluate(() => getComputedStyle(document.documentElement).getPropertyValue('--preview-bg').trim())
+    expect(appBackground).not.toBe('rgb(4, 5, 6)')
+  })
+
+  test('invalid custom CSS is reported and not applied', async ({ electronApp, window }) => {
+    await stubOpenDialog(electronApp, path.join(tempDir, 'broken.css'))
+    await openPreviewPreferences(window)
+    await window.locator('.setting-row', { hasText: 'All workspaces' }).getByRole('button', { name: 'Choose...' }).click()
+
+    await expect(window.locator('.preview-settings-tab .theme-validation-error')).toContainText('missing closing brace')
+    await closePreferences(window)
+    expect((await paragraphStyle(window)).color).not.toBe('rgb(255, 0, 0)')
+  })
+
+  test('HTML export includes typography and custom CSS', async ({ electronApp, window }) => {
+    const outputPath = path.join(tempDir, 'out.html')
+    await stubOpenDialog(electronApp, path.join(tempDir, 'custom.css'))
+    await electronApp.evaluate(({ dialog }, output) => {
+      dialog.showSaveDialog = (async () => ({ canceled: false, filePath: output })) as any
+    }, outputPath)
+
+    await openPreviewPreferences(window)
+    await window.locator('#preview-justify').check()
+    await window.locator('.setting-row', { hasText: 'All workspaces' }).getByRole('button', { name: 'Choose...' }).click()
+    await closePreferences(window)
+    await expect.poll(async () => (await paragraphStyle(window)).color).toBe('rgb(1, 2, 3)')
+
+    await window.locator('.menu-button-icon').click()
+    await window.locator('.menu-dropdown-item', { hasText: 'Export as HTML' }).click()
+
+    await expect.poll(() => fs.existsSync(outputPath)).toBe(true)
+    const html = fs.readFileSync(outputPath, 'utf-8')
+    expect(html).toContain('<div class="markdown-body">')
+    expect(html).toContain('text-align: justify')
+    expect(html).toContain('body p { color: rgb(1, 2, 3); }')
+  })
+})
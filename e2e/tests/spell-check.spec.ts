@@ -0,0 +1,86 @@
+import { test, expect, waitForAppReady, waitForMonacoReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const USER_DICTIONARY = path.join(os.homedir(), '.wrangle', 'dictionary.txt')
+
+// Unlikely to be in any dictionary, or in the user's own
+const ADDED_WORD = 'wranglezqx'
+
+// Misspelled words currently marked in the editor, in document order
+function getMisspelledWords(window: Page): Promise<string[]> {
+  return window.evaluate(() => {
+    const monaco = (window as any).monaco
+    const model = monaco.editor.getEditors()[0].getModel()
+    return monaco.editor
+      .getModelMarkers({ owner: 'spelling', resource: model.uri })
+      .map((marker: any) => model.getValueInRange(marker))
+  })
+}
+
+test.describe('Spell Checking', () => {
+  let editor: EditorHelpers
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    await waitForMonacoReady(window)
+    editor = new EditorHelpers(window)
+  })
+
+  test.afterEach(() => {
+    // The user dictionary is shared with normal use; take the test word out again
+    if (fs.existsSync(USER_DICTIONARY)) {
+      const words = fs.readFileSync(USER_DICTIONARY, 'utf-8').split('\n')
+      fs.writeFileSync(USER_DICTIONARY, words.filter((word) => word !== ADDED_WORD).join('\n'), 'utf-8')
+    }
+  })
+
+  test('marks misspelled words in prose', async ({ window }) => {
+    await editor.setContent('# Teh title\n\nThis sentense has a mistake.')
+
+    await expect.poll(() => getMisspelledWords(window)).toEqual(['Teh', 'sentense'])
+  })
+
+  test('skips code, math, URLs and front matter', async ({ window }) => {
+    await editor.setContent(
+      [
+        '---',
+        'title: Frontmattr',
+        '---',
+        '',
+        'Use `fooo` or visit https://exampel.com and [a lnk](https://exampel.com) for $\\fracc$.',
+        '',
+        '```js',
+        'const barr = 1',
+        '```',
+        '',
+        'A real misteak.'
+      ].join('\n')
+    )
+
+    await expect.poll(() => getMisspelledWords(window)).toEqual(['lnk', 'misteak'])
+  })
+
+  test('front-matter lang selects the dictionary', async ({ window }) => {
+    await editor.setContent('---\nlang: de\n---\n\nDas Haus ist groß.')
+    await expect.poll(() => getMisspelledWords(window)).toEqual([])
+
+    await editor.setContent('---\nlang: en-GB\n---\n\nThe colour and the color.')
+    await expect.poll(() => getMisspelledWords(window)).toEqual(['color'])
+  })
+
+  test('adding a word to the user dictionary clears its marker', async ({ window }) => {
+    await editor.setContent(`A ${ADDED_WORD} here.`)
+    await expect.poll(() => getMisspelledWords(window)).toEqual([ADDED_WORD])
+
+    await editor.setCursorPosition(1, 5)
+    await window.keyboard.press('Control+.')
+    await window.getByText(`Add "${ADDED_WORD}" to user dictionary`).click()
+
+    await expect.poll(() => getMisspelledWords(window)).toEqual([])
+    expect(fs.readFileSync(USER_DICTIONARY, 'utf-8').split('\n')).toContain(ADDED_WORD)
+  })
+})
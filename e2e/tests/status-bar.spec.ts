@@ -0,0 +1,90 @@
+import { test, expect, waitForAppReady, waitForMonacoReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import { Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+function getModelValue(window: Page): Promise<string> {
+  return window.evaluate(() => (window as any).monaco.editor.getEditors()[0].getModel().getValue())
+}
+
+test.describe('Status Bar', () => {
+  let editor: EditorHelpers
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    await waitForMonacoReady(window)
+    editor = new EditorHelpers(window)
+  })
+
+  test('shows cursor, selection and document counts', async ({ window }) => {
+    await editor.setContent('---\ntitle: Not counted\n---\n# Hello **world**\n\nOne two three.')
+    const statusBar = window.locator('.status-bar')
+
+    // Front matter and markdown syntax are not counted
+    await expect(statusBar.locator('.status-bar-stats')).toHaveText('5 words, 25 chars, 1 min read')
+
+    await editor.setCursorPosition(6, 5)
+    await expect(statusBar.locator('.status-bar-position')).toHaveText('Ln 6, Col 5')
+
+    await window.evaluate(() => {
+      const editor = (window as any).monaco.editor.getEditors()[0]
+      editor.setSelection({ startLineNumber: 6, startColumn: 1, endLineNumber: 6, endColumn: 4 })
+    })
+    await expect(statusBar.locator('.status-bar-position')).toHaveText('Ln 6, Col 4 (3 selected)')
+    await expect(statusBar.locator('.status-bar-language')).toHaveText('Markdown')
+  })
+
+  test('converts line endings', async ({ window }) => {
+    await editor.setContent('# Title\n\nText')
+    const eol = window.locator('.status-bar-eol')
+    await expect(eol).toHaveText('LF')
+
+    await eol.click()
+    await expect(eol).toHaveText('CRLF')
+    expect(await getModelValue(window)).toBe('# Title\r\n\r\nText')
+
+    await eol.click()
+    await expect(eol).toHaveText('LF')
+    expect(await getModelValue(window)).toBe('# Title\n\nText')
+  })
+
+  test.describe('encoding', () => {
+    let tempDir: string
+
+    test.beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-encoding-'))
+    })
+
+    test.afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true })
+    })
+
+    test('detects UTF-16 files', async ({ electronApp, window }) => {
+      const filePath = path.join(tempDir, 'wide.md')
+      fs.writeFileSync(filePath, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('# Wide\n', 'utf16le')]))
+      await openFile(electronApp, window, filePath)
+
+      await editor.waitForContent('# Wide')
+      await expect(window.locator('.status-bar-encoding')).toHaveValue('utf16le')
+    })
+
+    test('saves in the chosen encoding', async ({ electronApp, window }) => {
+      const filePath = path.join(tempDir, 'notes.md')
+      fs.writeFileSync(filePath, '# Notes\n', 'utf-8')
+      await openFile(electronApp, window, filePath)
+
+      const encoding = window.locator('.status-bar-encoding')
+      await expect(encoding).toHaveValue('utf8')
+      await encoding.selectOption('utf8bom')
+
+      await editor.focus()
+      await window.keyboard.press('Control+s')
+
+      await expect.poll(() => fs.readFileSync(filePath).subarray(0, 3).toString('hex')).toBe('efbbbf')
+      expect(fs.readFileSync(filePath).subarray(3).toString('utf-8')).toBe('# Notes\n')
+    })
+  })
+})
@@ -0,0 +1,133 @@
+import { test, expect, waitForMonacoReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { Page } from '@playwright/test'
+
+async function runEditorAction(window: Page, actionId: string): Promise<void> {
+  await window.evaluate(async (id) => {
+    const editor = (window as any).monaco.editor.getEditors()[0]
+    await editor.getAction(id).run()
+  }, actionId)
+}
+
+async function setCursor(window: Page, lineNumber: number, column: number): Promise<void> {
+  await window.evaluate(({ lineNumber, column }) => {
+    const editor = (window as any).monaco.editor.getEditors()[0]
+    editor.setPosition({ lineNumber, column })
+    editor.focus()
+  }, { lineNumber, column })
+}
+
+test.describe('Table Editing', () => {
+  test.beforeEach(async ({ window }) => {
+    await window.waitForLoadState('domcontentloaded')
+    await window.waitForTimeout(1000)
+
+    const editorVisible = await window.$('.monaco-editor')
+    if (!editorVisible) {
+      await window.keyboard.press('Control+n')
+      await window.waitForTimeout(1000)
+    }
+
+    await waitForMonacoReady(window)
+  })
+
+  test('Tab aligns columns and moves to the next cell', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent('| Name | Qty |\n|-|-:|\n| pear | 10 |')
+    await setCursor(window, 3, 4)
+
+    await window.keyboard.press('Tab')
+    expect(await editor.getFullContent()).toBe('| Name | Qty |\n| ---- | --: |\n| pear |  10 |')
+    expect(await editor.getCursorLineColumn()).toEqual({ line: 3, column: 11 })
+
+    // Tab past the last cell adds a row
+    await window.keyboard.press('Tab')
+    await window.keyboard.type('plum')
+    await window.keyboard.press('Shift+Tab')
+    expect(await editor.getFullContent()).toBe('| Name | Qty |\n| ---- | --: |\n| pear |  10 |\n| plum |     |')
+    expect(await editor.getCursorLineColumn()).toEqual({ line: 3, column: 11 })
+  })
+
+  test('Enter adds a row and leaves the table on an empty row', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent('| a | b |\n| --- | --- |\n| 1 | 2 |')
+    await setCursor(window, 3, 3)
+
+    await window.keyboard.press('Enter')
+    await window.keyboard.type('3')
+    expect(await editor.getFullContent()).toBe('| a   | b   |\n| --- | --- |\n| 1   | 2   |\n| 3    |     |')
+
+    await window.keyboard.press('Enter')
+    await window.keyboard.press('Enter')
+    await window.keyboard.type('After')
+    expect(await editor.getFullContent()).toBe('| a   | b   |\n| --- | --- |\n| 1   | 2   |\n| 3   |     |\n\nAfter')
+  })
+
+  test('row, column and sort commands', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent('| Fruit | Count |\n| --- | --- |\n| pear | 10 |\n| apple | 9 |\n| fig | 100 |')
+    await setCursor(window, 3, 12)
+
+    await runEditorAction(window, 'markdown.tableSortAscending')
+    expect(await editor.getFullContent()).toBe(
+      '| Fruit | Count |\n| ----- | ----- |\n| apple | 9     |\n| pear  | 10    |\n| fig   | 100   |'
+    )
+
+    await runEditorAction(window, 'markdown.tableInsertColumnRight')
+    await runEditorAction(window, 'markdown.tableDeleteColumn')
+    await setCursor(window, 4, 3)
+    await runEditorAction(window, 'markdown.tableDeleteRow')
+    await runEditorAction(window, 'markdown.tableInsertRowAbove')
+    expect(await editor.getFullContent()).toBe(
+      '| Fruit | Count |\n| ----- | ----- |\n| apple | 9     |\n|       |       |\n| fig   | 100   |'
+    )
+  })
+
+  test('pastes CSV as a table', async ({ electronApp, window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent('')
+    await electronApp.evaluate(({ clipboard }) => {
+      clipboard.writeText('City,Note\nOslo,"cold, dark"\nLima,"say ""hi"""\n')
+    })
+
+    await runEditorAction(window, 'markdown.tablePaste')
+    await expect.poll(() => editor.getFullContent()).toBe(
+      '| City | Note       |\n| ---- | ---------- |\n| Oslo | cold, dark |\n| Lima | say "hi"   |'
+    )
+  })
+
+  test('double-clicking a preview table opens the grid editor', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    await editor.setContent('# Prices\n\n| Item | Price |\n|:-|-:|\n| tea | 3 |\n\nAfter the table.')
+
+    await window.locator('.markdown-body table').dblclick()
+    const dialog = window.locator('.table-editor-dialog')
+    await expect(dialog).toBeVisible()
+    await expect(dialog.locator('input[data-row="0"][data-column="0"]')).toHaveValue('tea')
+
+    await dialog.locator('input[data-row="0"][data-column="1"]').fill('3 | 4')
+    await dialog.locator('input[data-row="0"][data-column="1"]').press('Enter')
+    await dialog.locator('input[data-row="1"][data-column="1"]').fill('12')
+    await dialog.locator('input[data-row="1"][data-column="0"]').fill('coffee')
+    await dialog.getByRole('button', { name: 'Apply' }).click()
+
+    await expect(dialog).not.toBeVisible()
+    expect(await editor.getFullContent()).toBe(
+      '# Prices\n\n| Item   |  Price |\n| :----- | -----: |\n| tea    | 3 \\| 4 |\n| coffee |     12 |\n\nAfter the table.'
+    )
+  })
+
+  test('Escape closes the grid editor without changes', async ({ window }) => {
+    const editor = new EditorHelpers(window)
+    const content = '| a | b |\n| - | - |\n| 1 | 2 |'
+    await editor.setContent(content)
+
+    await window.locator('.markdown-body table').dblclick()
+    await expect(window.locator('.table-editor-dialog')).toBeVisible()
+    await window.locator('.table-editor-dialog input[data-row="0"][data-column="0"]').fill('changed')
+    await window.keyboard.press('Escape')
+
+    await expect(window.locator('.table-editor-dialog')).not.toBeVisible()
+    expect(await editor.getFullContent()).toBe(content)
+  })
+})
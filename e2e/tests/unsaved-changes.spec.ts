@@ -0,0 +1,67 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { EditorHelpers } from '../helpers/editor-helpers'
+import { openFile } from '../helpers/file-helpers'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('Unsaved Changes', () => {
+  let tempDir: string
+  let filePath: string
+
+  test.beforeEach(async ({ electronApp, window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-unsaved-'))
+    filePath = path.join(tempDir, 'notes.md')
+    fs.writeFileSync(filePath, '# Notes\n\nOriginal\n', 'utf-8')
+    await openFile(electronApp, window, filePath)
+    await new EditorHelpers(window).setContent('# Notes\n\nEdited\n')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('lists the dirty document when its tab is closed, and cancel keeps it open', async ({ window }) => {
+    const activeTab = window.locator('.tab.active')
+    await activeTab.locator('.tab-close').click()
+
+    const dialog = window.locator('.unsaved-changes-dialog')
+    await expect(dialog).toBeVisible()
+    await expect(dialog.locator('.unsaved-changes-name')).toHaveText(['notes.md'])
+    await expect(dialog.locator('.unsaved-changes-path')).toHaveText([filePath])
+
+    await dialog.getByRole('button', { name: 'Cancel' }).click()
+    await expect(dialog).toHaveCount(0)
+    await expect(activeTab).toContainText('notes.md')
+    await new EditorHelpers(window).waitForContent('# Notes\n\nEdited\n')
+  })
+
+  test('saves the document before closing its tab', async ({ window }) => {
+    await window.locator('.tab.active .tab-close').click()
+    await window.locator('.unsaved-changes-dialog').getByRole('button', { name: 'Save All' }).click()
+
+    await expect(window.locator('.unsaved-changes-dialog')).toHaveCount(0)
+    await expect(window.locator('.tab', { hasText: 'notes.md' })).toHaveCount(0)
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('# Notes\n\nEdited\n')
+  })
+
+  test('closes without saving on discard', async ({ window }) => {
+    await window.keyboard.press('Control+w')
+    await window.locator('.unsaved-changes-dialog').getByRole('button', { name: 'Discard' }).click()
+
+    await expect(window.locator('.unsaved-changes-dialog')).toHaveCount(0)
+    await expect(window.locator('.tab', { hasText: 'notes.md' })).toHaveCount(0)
+  })
+
+  test('asks before the window closes', async ({ window }) => {
+    await window.locator('.window-control-button.close').click()
+
+    const dialog = window.locator('.unsaved-changes-dialog')
+    await expect(dialog.locator('.dialog-title')).toHaveText('Save changes before quitting?')
+
+    await window.keyboard.press('Escape')
+    await expect(dialog).toHaveCount(0)
+    await expect(window.locator('.tab', { hasText: 'notes.md' })).toHaveCount(1)
+  })
+})
@@ -0,0 +1,76 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+test.describe('Wiki Links', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-wiki-'))
+    fs.mkdirSync(path.join(tempDir, 'notes'))
+    fs.writeFileSync(
+      path.join(tempDir, 'Home.md'),
+      '# Home\n\nSee [[Project Plan]] and [[notes/project plan#Goals|the goals]].\n\n```\n[[Project Plan]]\n```\n',
+      'utf-8'
+    )
+    fs.writeFileSync(path.join(tempDir, 'notes', 'Project Plan.md'), '# Plan\n\n## Goals\n\nBack to [[Home]]\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'notes', 'Unrelated.md'), 'Mentions `[[Project Plan]]` in code\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'notes', 'data.txt'), '[[Project Plan]]\n', 'utf-8')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('lists markdown pages in the workspace', async ({ window }) => {
+    const pages = await window.evaluate(
+      (rootPath) => (window as any).electron.workspace.listWikiPages(rootPath),
+      tempDir
+    )
+
+    expect(pages.map((p: { relativePath: string }) => p.relativePath)).toEqual([
+      'Home',
+      'notes/Project Plan',
+      'notes/Unrelated'
+    ])
+    expect(pages[1].name).toBe('Project Plan')
+  })
+
+  test('finds backlinks outside code', async ({ window }) => {
+    const target = path.join(tempDir, 'notes', 'Project Plan.md')
+    const backlinks = await window.evaluate(
+      ({ rootPath, filePath }) => (window as any).electron.workspace.getBacklinks(rootPath, filePath),
+      { rootPath: tempDir, filePath: target }
+    )
+
+    // Both links on line 3 of Home.md collapse into one entry
+    expect(backlinks).toHaveLength(1)
+    expect(backlinks[0].path).toBe(path.join(tempDir, 'Home.md'))
+    expect(backlinks[0].lineNumber).toBe(3)
+  })
+
+  test('picks up new links after a file changes', async ({ window }) => {
+    const target = path.join(tempDir, 'Home.md')
+    const getBacklinks = () =>
+      window.evaluate(
+        ({ rootPath, filePath }) => (window as any).electron.workspace.getBacklinks(rootPath, filePath),
+        { rootPath: tempDir, filePath: target }
+      )
+
+    expect(await getBacklinks()).toHaveLength(1)
+
+    const unrelated = path.join(tempDir, 'notes', 'Unrelated.md')
+    fs.writeFileSync(unrelated, 'Now links [[home]]\n', 'utf-8')
+    // Make sure the mtime differs from the cached one
+    const future = new Date(Date.now() + 5000)
+    fs.utimesSync(unrelated, future, future)
+
+    const backlinks = await getBacklinks()
+    expect(backlinks.map((b: { path: string }) => b.path).sort()).toEqual([
+      path.join(tempDir, 'notes', 'Project Plan.md'),
+      unrelated
+    ])
+  })
+})
@@ -0,0 +1,151 @@
+import { test, expect, waitForAppReady } from '../fixtures'
+import { Page } from '@playwright/test'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+const baseQuery = {
+  pattern: 'needle',
+  isRegex: false,
+  matchCase: false,
+  wholeWord: false,
+  include: '',
+  exclude: ''
+}
+
+/**
+ * Run a search through the preload API and collect the streamed results
+ */
+async function runSearch(window: Page, rootPath: string, query: Record<string, unknown>) {
+  return window.evaluate(
+    async ({ rootPath, query }) => {
+      const api = (window as any).electron.workspace
+      const searchId = Date.now()
+      const files: { path: string; matches: { lineNumber: number }[] }[] = []
+      const unsubscribe = api.onSearchResult((id: number, result: any) => {
+        if (id === searchId) files.push(result)
+      })
+      const summary = await api.search(rootPath, query, searchId)
+      unsubscribe()
+      return { summary, files }
+    },
+    { rootPath, query }
+  )
+}
+
+test.describe('Workspace Search', () => {
+  let tempDir: string
+
+  test.beforeEach(async ({ window }) => {
+    await waitForAppReady(window)
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wrangle-search-'))
+    fs.mkdirSync(path.join(tempDir, 'docs'))
+    fs.mkdirSync(path.join(tempDir, 'node_modules'))
+    fs.writeFileSync(path.join(tempDir, 'a.md'), '# A\n\nneedle and Needle\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'docs', 'b.md'), 'no match\nneedles\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'docs', 'c.txt'), 'needle\n', 'utf-8')
+    fs.writeFileSync(path.join(tempDir, 'node_modules', 'd.md'), 'needle\n', 'utf-8')
+  })
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  test('streams results grouped by file', async ({ window }) => {
+    const { summary, files } = await runSearch(window, tempDir, baseQuery)
+
+    expect(summary.matchCount).toBe(4)
+    expect(summary.fileCount).toBe(3)
+    expect(files.map((f) => path.relative(tempDir, f.path)).sort()).toEqual([
+      'a.md',
+      path.join('docs', 'b.md'),
+      path.join('docs', 'c.txt')
+    ])
+  })
+
+  test('honors case, whole word and globs', async ({ window }) => {
+    const caseResult = await runSearch(window, tempDir, { ...baseQuery, matchCase: true })
+    expect(caseResult.summary.matchCount).toBe(3)
+
+    const wordResult = await runSearch(window, tempDir, { ...baseQuery, wholeWord: true })
+    expect(wordResult.summary.matchCount).toBe(3)
+
+    const includeResult = await runSearch(window, tempDir, { ...baseQuery, include: '*.md' })
+    expect(includeResult.summary.fileCount).toBe(2)
+
+    const excludeResult = await runSearch(window, tempDir, { ...baseQuery, exclude: 'docs/' })
+    expect(excludeResult.summary.fileCount).toBe(1)
+  })
+
+  test('reports invalid regular expressions', async ({ window }) => {
+    const { summary } = await runSearch(window, tempDir, { ...baseQuery, isRegex: true, pattern: '(' })
+    expect(summary.error).toBeTruthy()
+  })
+
+  test('replace-all previews before writing', async ({ window }) => {
+    const filePath = path.join(tempDir, 'a.md')
+    const previews = await window.evaluate(
+      ({ query, filePath }) => (window as any).electron.workspace.previewReplace(query, 'pin', [filePath]),
+      { query: baseQuery, filePath }
+    )
+    expect(previews).toHaveLength(1)
+    expect(previews[0].replaced).toBe('# A\n\npin and pin\n')
+    // Nothing is written by the preview
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('# A\n\nneedle and Needle\n')
+
+    const result = await window.evaluate(
+      (preview) =>
+        (window as any).electron.workspace.applyReplace([
+          { path: preview.path, hash: preview.hash, content: preview.replaced }
+        ]),
+      previews[0]
+    )
+    expect(result.written).toEqual([filePath])
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('# A\n\npin and pin\n')
+  })
+
+  test('replace-all keeps Latin-1 and UTF-16 files in their encoding', async ({ window }) => {
+    const latin1Path = path.join(tempDir, 'latin1.md')
+    const utf16Path = path.join(tempDir, 'utf16.md')
+    fs.writeFileSync(latin1Path, Buffer.from('Café needle\n', 'latin1'))
+    fs.writeFileSync(utf16Path, Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Café needle\n', 'utf16le')]))
+
+    const previews = await window.evaluate(
+      ({ query, paths }) => (window as any).electron.workspace.previewReplace(query, 'pin', paths),
+      { query: baseQuery, paths: [latin1Path, utf16Path] }
+    )
+    expect(previews.map((p: { original: string }) => p.original)).toEqual(['Café needle\n', 'Café needle\n'])
+
+    const result = await window.evaluate(
+      (previews) =>
+        (window as any).electron.workspace.applyReplace(
+          previews.map((p: any) => ({ path: p.path, hash: p.hash, content: p.replaced }))
+        ),
+      previews
+    )
+    expect(result.written).toEqual([latin1Path, utf16Path])
+    expect(fs.readFileSync(latin1Path)).toEqual(Buffer.from('Café pin\n', 'latin1'))
+    expect(fs.readFileSync(utf16Path)).toEqual(
+      Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from('Café pin\n', 'utf16le')])
+    )
+  })
+
+  test('skips files that changed after the preview', async ({ window }) => {
+    const filePath = path.join(tempDir, 'a.md')
+    const previews = await window.evaluate(
+      ({ query, filePath }) => (window as any).electron.workspace.previewReplace(query, 'pin', [filePath]),
+      { query: baseQuery, filePath }
+    )
+    fs.writeFileSync(filePath, 'edited elsewhere needle\n', 'utf-8')
+
+    const result = await window.evaluate(
+      (preview) =>
+        (window as any).electron.workspace.applyReplace([
+          { path: preview.path, hash: preview.hash, content: preview.replaced }
+        ]),
+      previews[0]
+    )
+    expect(result.skipped).toEqual([filePath])
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('edited elsewhere needle\n')
+  })
+})
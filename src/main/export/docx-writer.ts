@@ -0,0 +1,570 @@
+import type { FootnoteDefinition, List, ListItem, Paragraph, Table } from 'mdast'
+import { ExportDocument, ExportMetadata } from '../../shared/types'
+import { createZip } from './zip'
+import { texToOmml } from './math'
+import {
+  MarkdownNode,
+  DocumentIndex,
+  LocalImage,
+  escapeXml,
+  getChildren,
+  toPlainText,
+  indexDocument,
+  resolveUrl,
+  createSlugger,
+  loadImages
+} from './markdown-ast'
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"'
+].join(' ')
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+const RELATIONSHIP_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+// Image formats Word shows without a fallback
+const DOCX_IMAGE_TYPES = new Set(['png', 'jpg', 'jpeg', 'gif'])
+
+// Images are at most as wide as the text: US Letter with 1 inch margins
+const EMU_PER_PIXEL = 9525
+const MAX_IMAGE_WIDTH_EMU = 6.5 * 914400
+
+// Text width and indent per list or quote level, in twentieths of a point
+const TEXT_WIDTH = 9360
+const INDENT_STEP = 720
+
+// Bullet lists share one numbering; every ordered list gets its own so it restarts
+const BULLET_NUM_ID = 1
+const LIST_LEVELS = 9
+const BULLET_CHARACTERS = ['•', '◦', '▪']
+
+interface RunFormat {
+  bold?: boolean
+  italic?: boolean
+  strike?: boolean
+  code?: boolean
+  hyperlink?: boolean
+}
+
+interface BlockContext {
+  style?: string // Paragraph style, for quotes and footnotes
+  indent: number
+  listLevel: number
+}
+
+// What the first paragraph of a list item or footnote starts with
+interface ParagraphLead {
+  numbering?: string
+  runs?: string
+}
+
+interface OrderedList {
+  numId: number
+  level: number
+  start: number
+}
+
+interface DocxContext {
+  index: DocumentIndex
+  images: Map<string, LocalImage>
+  slug: (text: string) => string
+  relationships: string[]
+  media: { name: string; data: Buffer }[]
+  mediaRelationships: Map<string, string> // Image path to relationship id
+  orderedLists: OrderedList[]
+  footnoteIds: Map<string, number>
+  footnotes: FootnoteDefinition[]
+  drawingCount: number
+  bookmarkCount: number
+}
+
+function addRelationship(context: DocxContext, type: string, target: string, external: boolean): string {
+  // rId1-4 are the fixed parts listed in document.xml.rels
+  const id = `rId${context.relationships.length + 5}`
+  const mode = external ? ' TargetMode="External"' : ''
+  context.relationships.push(
+    `<Relationship Id="${id}" Type="${RELATIONSHIP_TYPE}/${type}" Target="${escapeXml(target)}"${mode}/>`
+  )
+  return id
+}
+
+// Bookmark names must start with a letter or underscore and stay under 40 characters
+function toBookmarkName(slug: string): string {
+  return `_${slug.replace(/[^\p{L}\p{N}_]/gu, '_')}`.slice(0, 40)
+}
+
+function run(text: string, format: RunFormat): string {
+  const properties: string[] = []
+  if (format.code) properties.push('<w:rStyle w:val="VerbatimChar"/>')
+  else if (format.hyperlink) properties.push('<w:rStyle w:val="Hyperlink"/>')
+  if (format.bold) properties.push('<w:b/>')
+  if (format.italic) properties.push('<w:i/>')
+  if (format.strike) properties.push('<w:strike/>')
+  const runProperties = properties.length > 0 ? `<w:rPr>${properties.join('')}</w:rPr>` : ''
+  return `<w:r>${runProperties}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`
+}
+
+function paragraphProperties(options: {
+  style?: string
+  numbering?: string
+  border?: boolean
+  indent?: number
+  align?: string
+}): string {
+  const properties: string[] = []
+  if (options.style) properties.push(`<w:pStyle w:val="${options.style}"/>`)
+  if (options.numbering) properties.push(options.numbering)
+  if (options.border) {
+    properties.push('<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>')
+  }
+  if (options.indent) properties.push(`<w:ind w:left="${options.indent}"/>`)
+  if (options.align) properties.push(`<w:jc w:val="${options.align}"/>`)
+  return properties.length > 0 ? `<w:pPr>${properties.join('')}</w:pPr>` : ''
+}
+
+function convertImage(node: MarkdownNode, context: DocxContext, format: RunFormat): string {
+  const url = resolveUrl(node, context.index)
+  const image = url ? context.images.get(url) : undefined
+  const alt = toPlainText(node)
+  if (!image || !DOCX_IMAGE_TYPES.has(image.extension) || !image.width || !image.height) {
+    return alt ? run(alt, { ...format, italic: true }) : ''
+  }
+
+  let relationshipId = context.mediaRelationships.get(image.path)
+  if (!relationshipId) {
+    const name = `image${context.media.length + 1}.${image.extension}`
+    context.media.push({ name, data: image.data })
+    relationshipId = addRelationship(context, 'image', `media/${name}`, false)
+    context.mediaRelationships.set(image.path, relationshipId)
+  }
+
+  const width = Math.round(Math.min(image.width * EMU_PER_PIXEL, MAX_IMAGE_WIDTH_EMU))
+  const height = Math.round((width * image.height) / image.width)
+  const id = ++context.drawingCount
+  return (
+    '<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+    `<wp:extent cx="${width}" cy="${height}"/>` +
+    `<wp:docPr id="${id}" name="Picture ${id}" descr="${escapeXml(alt)}"/>` +
+    '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>' +
+    '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>' +
+    `<pic:nvPicPr><pic:cNvPr id="${id}" name="Picture ${id}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${width}" cy="${height}"/></a:xfrm>` +
+    '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>' +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r>'
+  )
+}
+
+function convertInlines(nodes: MarkdownNode[], context: DocxContext, format: RunFormat): string {
+  return nodes.map((node) => convertInline(node, context, format)).join('')
+}
+
+function convertInline(node: MarkdownNode, context: DocxContext, format: RunFormat): string {
+  switch (node.type) {
+    case 'text':
+      return run(node.value.replace(/[ \t]*\n[ \t]*/g, ' '), format)
+    case 'emphasis':
+      return convertInlines(node.children, context, { ...format, italic: true })
+    case 'strong':
+      return convertInlines(node.children, context, { ...format, bold: true })
+    case 'delete':
+      return convertInlines(node.children, context, { ...format, strike: true })
+    case 'inlineCode':
+      return run(node.value, { ...format, code: true })
+    case 'break':
+      return '<w:r><w:br/></w:r>'
+    case 'inlineMath':
+      return texToOmml(node.value, false)
+    case 'image':
+    case 'imageReference':
+      return convertImage(node, context, format)
+    case 'link':
+    case 'linkReference': {
+      const url = resolveUrl(node, context.index)
+      const runs = convertInlines(node.children, context, { ...format, hyperlink: true })
+      if (!url) return runs
+      if (url.startsWith('#')) {
+        return `<w:hyperlink w:anchor="${escapeXml(toBookmarkName(url.slice(1)))}">${runs}</w:hyperlink>`
+      }
+      return `<w:hyperlink r:id="${addRelationship(context, 'hyperlink', url, true)}">${runs}</w:hyperlink>`
+    }
+    case 'footnoteReference': {
+      const definition = context.index.footnotes.get(node.identifier)
+      if (!definition) return ''
+      let id = context.footnoteIds.get(node.identifier)
+      if (id === undefined) {
+        id = context.footnotes.length + 1
+        context.footnoteIds.set(node.identifier, id)
+        context.footnotes.push(definition)
+      }
+      return `<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteReference w:id="${id}"/></w:r>`
+    }
+    case 'html':
+      return /^<br\s*\/?>$/i.test(node.value.trim()) ? '<w:r><w:br/></w:r>' : ''
+    default:
+      return convertInlines(getChildren(node), context, format)
+  }
+}
+
+function convertParagraph(node: Paragraph, context: DocxContext, block: BlockContext, lead: ParagraphLead = {}): string {
+  const properties = paragraphProperties({
+    style: block.style,
+    numbering: lead.numbering,
+    indent: lead.numbering ? undefined : block.indent
+  })
+  return `<w:p>${properties}${lead.runs ?? ''}${convertInlines(node.children, context, {})}</w:p>`
+}
+
+/**
+ * Convert block children, giving the first paragraph the lead-in of a list
+ * item bullet or footnote mark
+ */
+function convertBlocks(nodes: MarkdownNode[], context: DocxContext, block: BlockContext, lead?: ParagraphLead): string {
+  let xml = ''
+  nodes.forEach((node, i) => {
+    if (i === 0 && lead) {
+      xml +=
+        node.type === 'paragraph'
+          ? convertParagraph(node, context, block, lead)
+          : `<w:p>${paragraphProperties({ style: block.style, numbering: lead.numbering })}${lead.runs ?? ''}</w:p>` +
+            convertBlock(node, context, block)
+    } else {
+      xml += convertBlock(node, context, block)
+    }
+  })
+  if (nodes.length === 0 && lead) {
+    xml += `<w:p>${paragraphProperties({ style: block.style, numbering: lead.numbering })}${lead.runs ?? ''}</w:p>`
+  }
+  return xml
+}
+
+function convertList(node: List, context: DocxContext, block: BlockContext): string {
+  const level = Math.min(block.listLevel, LIST_LEVELS - 1)
+  let numId = BULLET_NUM_ID
+  if (node.ordered) {
+    numId = BULLET_NUM_ID + context.orderedLists.length + 1
+    context.orderedLists.push({ numId, level, start: node.start ?? 1 })
+  }
+
+  const numbering = `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="${numId}"/></w:numPr>`
+  const itemBlock: BlockContext = { ...block, indent: (level + 1) * INDENT_STEP, listLevel: level + 1 }
+  return node.children
+    .map((item: ListItem) => {
+      const checkbox = typeof item.checked === 'boolean' ? run(item.checked ? '☒ ' : '☐ ', {}) : ''
+      return convertBlocks(item.children, context, itemBlock, { numbering, runs: checkbox })
+    })
+    .join('')
+}
+
+function convertTable(node: Table, context: DocxContext, block: BlockContext): string {
+  const columns = Math.max(...node.children.map((row) => row.children.length))
+  const columnWidth = Math.floor((TEXT_WIDTH - block.indent) / columns)
+  const border = 'w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"'
+
+  const rows = node.children.map((row, rowIndex) => {
+    const isHeader = rowIndex === 0
+    let cells = ''
+    for (let column = 0; column < columns; column++) {
+      const cell = row.children[column]
+      const runs = cell ? convertInlines(cell.children, context, { bold: isHeader }) : ''
+      const align = node.align?.[column] ?? undefined
+      const shading = isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F2F2F2"/>' : ''
+      cells +=
+        `<w:tc><w:tcPr><w:tcW w:w="${columnWidth}" w:type="dxa"/>${shading}</w:tcPr>` +
+        `<w:p>${paragraphProperties({ style: 'Compact', align: align ?? undefined })}${runs}</w:p></w:tc>`
+    }
+    return `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`
+  })
+
+  return (
+    '<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/>' +
+    (block.indent ? `<w:tblInd w:w="${block.indent}" w:type="dxa"/>` : '') +
+    `<w:tblBorders><w:top ${border}/><w:left ${border}/><w:bottom ${border}/><w:right ${border}/>` +
+    `<w:insideH ${border}/><w:insideV ${border}/></w:tblBorders>` +
+    '<w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar>' +
+    '</w:tblPr>' +
+    `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columns)}</w:tblGrid>` +
+    rows.join('') +
+    '</w:tbl>' +
+    // Word merges tables that directly follow each other
+    '<w:p><w:pPr><w:pStyle w:val="Compact"/></w:pPr></w:p>'
+  )
+}
+
+function convertBlock(node: MarkdownNode, context: DocxContext, block: BlockContext): string {
+  switch (node.type) {
+    case 'paragraph':
+      return convertParagraph(node, context, block)
+    case 'heading': {
+      const id = ++context.bookmarkCount
+      const name = toBookmarkName(context.slug(toPlainText(node)))
+      return (
+        `<w:p>${paragraphProperties({ style: `Heading${node.depth}`, indent: block.indent })}` +
+        `<w:bookmarkStart w:id="${id}" w:name="${escapeXml(name)}"/>` +
+        convertInlines(node.children, context, {}) +
+        `<w:bookmarkEnd w:id="${id}"/></w:p>`
+      )
+    }
+    case 'thematicBreak':
+      return `<w:p>${paragraphProperties({ border: true, indent: block.indent })}</w:p>`
+    case 'blockquote':
+      return convertBlocks(node.children, context, {
+        ...block,
+        style: 'BlockText',
+        indent: block.indent + INDENT_STEP
+      })
+    case 'code': {
+      const lines = node.value.split('\n').map((line) => run(line, {}))
+      const properties = paragraphProperties({ style: 'SourceCode', indent: block.indent })
+      return `<w:p>${properties}${lines.join('<w:r><w:br/></w:r>')}</w:p>`
+    }
+    case 'math':
+      return `<w:p>${paragraphProperties({ indent: block.indent })}${texToOmml(node.value, true)}</w:p>`
+    case 'list':
+      return convertList(node, context, block)
+    case 'table':
+      return convertTable(node, context, block)
+    case 'html': {
+      // Raw HTML keeps its text only
+      const text = node.value.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, '').trim()
+      return text ? `<w:p>${paragraphProperties({ style: block.style, indent: block.indent })}${run(text, {})}</w:p>` : ''
+    }
+    case 'definition':
+    case 'footnoteDefinition':
+    case 'yaml':
+      return ''
+    default:
+      return convertBlocks(getChildren(node), context, block)
+  }
+}
+
+function titleBlock(metadata: ExportMetadata): string {
+  let xml = ''
+  if (metadata.title) xml += `<w:p>${paragraphProperties({ style: 'Title' })}${run(metadata.title, {})}</w:p>`
+  if (metadata.author) xml += `<w:p>${paragraphProperties({ style: 'Author' })}${run(metadata.author, {})}</w:p>`
+  if (metadata.date) xml += `<w:p>${paragraphProperties({ style: 'Date' })}${run(metadata.date, {})}</w:p>`
+  return xml
+}
+
+function numberingXml(orderedLists: OrderedList[]): string {
+  const levels = (format: 'bullet' | 'decimal') =>
+    Array.from({ length: LIST_LEVELS }, (_, level) => {
+      const text = format === 'bullet' ? BULLET_CHARACTERS[level % BULLET_CHARACTERS.length] : `%${level + 1}.`
+      return (
+        `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/>` +
+        `<w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+        `<w:pPr><w:ind w:left="${(level + 1) * INDENT_STEP}" w:hanging="360"/></w:pPr></w:lvl>`
+      )
+    }).join('')
+
+  const orderedNums = orderedLists
+    .map(
+      (list) =>
+        `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="1"/>` +
+        `<w:lvlOverride w:ilvl="${list.level}"><w:startOverride w:val="${list.start}"/></w:lvlOverride></w:num>`
+    )
+    .join('')
+
+  return (
+    XML_DECLARATION +
+    `<w:numbering ${NAMESPACES}>` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${levels('bullet')}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${levels('decimal')}</w:abstractNum>` +
+    `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>` +
+    orderedNums +
+    '</w:numbering>'
+  )
+}
+
+function stylesXml(lang: string | undefined): string {
+  const headingSizes = [32, 28, 26, 24, 22, 22]
+  const headings = headingSizes
+    .map(
+      (size, i) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${i + 1}"><w:name w:val="heading ${i + 1}"/>` +
+        '<w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>' +
+        `<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="${i < 2 ? 360 : 240}" w:after="120"/>` +
+        `<w:outlineLvl w:val="${i}"/></w:pPr>` +
+        `<w:rPr><w:b/><w:color w:val="1F3864"/><w:sz w:val="${size}"/></w:rPr></w:style>`
+    )
+    .join('')
+
+  return (
+    XML_DECLARATION +
+    `<w:styles ${NAMESPACES}>` +
+    '<w:docDefaults><w:rPrDefault><w:rPr>' +
+    '<w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+    `<w:sz w:val="22"/>${lang ? `<w:lang w:val="${escapeXml(lang)}"/>` : ''}` +
+    '</w:rPr></w:rPrDefault>' +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault>' +
+    '</w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="120"/><w:jc w:val="center"/></w:pPr>' +
+    '<w:rPr><w:sz w:val="52"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Author"><w:name w:val="Author"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:jc w:val="center"/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Date"><w:name w:val="Date"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:pPr><w:spacing w:after="360"/><w:jc w:val="center"/></w:pPr></w:style>' +
+    headings +
+    '<w:style w:type="paragraph" w:styleId="BlockText"><w:name w:val="Block Text"/><w:basedOn w:val="Normal"/>' +
+    '<w:pPr><w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="D0D7DE"/></w:pBdr></w:pPr>' +
+    '<w:rPr><w:color w:val="57606A"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:customStyle="1" w:styleId="SourceCode"><w:name w:val="Source Code"/>' +
+    '<w:basedOn w:val="Normal"/><w:pPr><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/>' +
+    '<w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="19"/></w:rPr></w:style>' +
+    '<w:style w:type="paragraph" w:customStyle="1" w:styleId="Compact"><w:name w:val="Compact"/>' +
+    '<w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="40" w:after="40"/></w:pPr></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="FootnoteText"><w:name w:val="footnote text"/>' +
+    '<w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="18"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:customStyle="1" w:styleId="VerbatimChar"><w:name w:val="Verbatim Char"/>' +
+    '<w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/>' +
+    '<w:shd w:val="clear" w:color="auto" w:fill="F0F0F0"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/>' +
+    '<w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>' +
+    '<w:style w:type="character" w:styleId="FootnoteReference"><w:name w:val="footnote reference"/>' +
+    '<w:rPr><w:vertAlign w:val="superscript"/></w:rPr></w:style>' +
+    '</w:styles>'
+  )
+}
+
+function footnotesXml(notes: string): string {
+  return (
+    XML_DECLARATION +
+    `<w:footnotes ${NAMESPACES}>` +
+    '<w:footnote w:type="separator" w:id="-1"><w:p><w:r><w:separator/></w:r></w:p></w:footnote>' +
+    '<w:footnote w:type="continuationSeparator" w:id="0"><w:p><w:r><w:continuationSeparator/></w:r></w:p></w:footnote>' +
+    notes +
+    '</w:footnotes>'
+  )
+}
+
+function corePropertiesXml(title: string, metadata: ExportMetadata): string {
+  const date = metadata.date ? new Date(metadata.date) : null
+  return (
+    XML_DECLARATION +
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ' +
+    'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    `<dc:title>${escapeXml(title)}</dc:title>` +
+    (metadata.author ? `<dc:creator>${escapeXml(metadata.author)}</dc:creator>` : '') +
+    (metadata.lang ? `<dc:language>${escapeXml(metadata.lang)}</dc:language>` : '') +
+    (date && !isNaN(date.getTime())
+      ? `<dcterms:created xsi:type="dcterms:W3CDTF">${date.toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+      : '') +
+    '</cp:coreProperties>'
+  )
+}
+
+/**
+ * Write a markdown document as a Word (.docx) file, with headings as Word
+ * heading styles, math as editable equations and local images embedded
+ */
+export async function writeDocx(document: ExportDocument): Promise<Buffer> {
+  const index = indexDocument(document.tree)
+  const context: DocxContext = {
+    index,
+    images: await loadImages(document.tree, index, document.baseDir),
+    slug: createSlugger(),
+    relationships: [],
+    media: [],
+    mediaRelationships: new Map(),
+    orderedLists: [],
+    footnoteIds: new Map(),
+    footnotes: [],
+    drawingCount: 0,
+    bookmarkCount: 0
+  }
+
+  const body = titleBlock(document.metadata) + convertBlocks(document.tree.children, context, { indent: 0, listLevel: 0 })
+
+  // Footnotes can reference further footnotes, so the list grows while converting
+  let notes = ''
+  for (let i = 0; i < context.footnotes.length; i++) {
+    const mark = '<w:r><w:rPr><w:rStyle w:val="FootnoteReference"/></w:rPr><w:footnoteRef/></w:r><w:r><w:t xml:space="preserve"> </w:t></w:r>'
+    const content = convertBlocks(
+      context.footnotes[i].children,
+      context,
+      { style: 'FootnoteText', indent: 0, listLevel: 0 },
+      { runs: mark }
+    )
+    notes += `<w:footnote w:id="${i + 1}">${content}</w:footnote>`
+  }
+
+  const documentXml =
+    XML_DECLARATION +
+    `<w:document ${NAMESPACES}><w:body>${body}` +
+    '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+    '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/>' +
+    '</w:sectPr></w:body></w:document>'
+
+  const imageTypes = [...new Set(context.media.map((m) => m.name.split('.').pop()!))]
+    .map((extension) => {
+      const mimeType = extension === 'jpg' ? 'image/jpeg' : `image/${extension}`
+      return `<Default Extension="${extension}" ContentType="${mimeType}"/>`
+    })
+    .join('')
+  const wordprocessing = 'application/vnd.openxmlformats-officedocument.wordprocessingml'
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data:
+        XML_DECLARATION +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        imageTypes +
+        `<Override PartName="/word/document.xml" ContentType="${wordprocessing}.document.main+xml"/>` +
+        `<Override PartName="/word/styles.xml" ContentType="${wordprocessing}.styles+xml"/>` +
+        `<Override PartName="/word/numbering.xml" ContentType="${wordprocessing}.numbering+xml"/>` +
+        `<Override PartName="/word/footnotes.xml" ContentType="${wordprocessing}.footnotes+xml"/>` +
+        `<Override PartName="/word/settings.xml" ContentType="${wordprocessing}.settings+xml"/>` +
+        '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data:
+        XML_DECLARATION +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/officeDocument" Target="word/document.xml"/>` +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>' +
+        '</Relationships>'
+    },
+    { name: 'docProps/core.xml', data: corePropertiesXml(document.metadata.title ?? document.name, document.metadata) },
+    { name: 'word/document.xml', data: documentXml },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data:
+        XML_DECLARATION +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_TYPE}/styles" Target="styles.xml"/>` +
+        `<Relationship Id="rId2" Type="${RELATIONSHIP_TYPE}/numbering" Target="numbering.xml"/>` +
+        `<Relationship Id="rId3" Type="${RELATIONSHIP_TYPE}/footnotes" Target="footnotes.xml"/>` +
+        `<Relationship Id="rId4" Type="${RELATIONSHIP_TYPE}/settings" Target="settings.xml"/>` +
+        context.relationships.join('') +
+        '</Relationships>'
+    },
+    { name: 'word/styles.xml', data: stylesXml(document.metadata.lang) },
+    { name: 'word/numbering.xml', data: numberingXml(context.orderedLists) },
+    { name: 'word/footnotes.xml', data: footnotesXml(notes) },
+    {
+      name: 'word/settings.xml',
+      data:
+        XML_DECLARATION +
+        `<w:settings ${NAMESPACES}>` +
+        '<w:footnotePr><w:footnote w:id="-1"/><w:footnote w:id="0"/></w:footnotePr>' +
+        '<w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat>' +
+        '</w:settings>'
+    },
+    ...context.media.map((m) => ({ name: `word/media/${m.name}`, data: m.data, store: true }))
+  ])
+}
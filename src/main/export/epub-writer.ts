@@ -0,0 +1,312 @@
+import { randomUUID } from 'crypto'
+import type { Table } from 'mdast'
+import { ExportDocument, ExportMetadata } from '../../shared/types'
+import { createZip } from './zip'
+import { texToMathML } from './math'
+import {
+  MarkdownNode,
+  DocumentIndex,
+  LocalImage,
+  escapeXml,
+  getChildren,
+  toPlainText,
+  indexDocument,
+  resolveUrl,
+  createSlugger,
+  loadImages
+} from './markdown-ast'
+
+const CHAPTER_FILE = 'text.xhtml'
+
+// Headings deeper than this are left out of the table of contents
+const TOC_DEPTH = 3
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.25; }
+header.title-block { text-align: center; margin-bottom: 2em; }
+header.title-block p { margin: 0.25em 0; }
+pre { background: #f6f8fa; padding: 0.75em; white-space: pre-wrap; font-size: 0.85em; }
+code { font-family: monospace; }
+blockquote { margin-left: 0; padding-left: 1em; border-left: 0.25em solid #d0d7de; color: #57606a; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #bfbfbf; padding: 0.25em 0.5em; }
+th { background: #f2f2f2; }
+img { max-width: 100%; }
+li.task { list-style: none; }
+math[display="block"] { display: block; margin: 1em 0; }
+section.footnotes { font-size: 0.9em; border-top: 1px solid #bfbfbf; margin-top: 2em; }
+`
+
+interface Heading {
+  depth: number
+  id: string
+  text: string
+}
+
+interface EpubContext {
+  index: DocumentIndex
+  images: Map<string, LocalImage>
+  slug: (text: string) => string
+  imageFiles: Map<string, { name: string; image: LocalImage }> // By image path
+  headings: Heading[]
+  footnoteNumbers: Map<string, number>
+  hasMath: boolean
+}
+
+function convertChildren(node: MarkdownNode, context: EpubContext): string {
+  return getChildren(node)
+    .map((child) => convertNode(child, context))
+    .join('')
+}
+
+function convertImage(node: MarkdownNode, context: EpubContext): string {
+  const url = resolveUrl(node, context.index)
+  const image = url ? context.images.get(url) : undefined
+  const alt = escapeXml(toPlainText(node))
+  if (!image) {
+    // Books cannot show remote images; keep the description
+    return alt ? `<em>${alt}</em>` : ''
+  }
+
+  let file = context.imageFiles.get(image.path)
+  if (!file) {
+    file = { name: `images/image${context.imageFiles.size + 1}.${image.extension}`, image }
+    context.imageFiles.set(image.path, file)
+  }
+  const title = 'title' in node && node.title ? ` title="${escapeXml(node.title)}"` : ''
+  return `<img src="${file.name}" alt="${alt}"${title}/>`
+}
+
+function convertTable(node: Table, context: EpubContext): string {
+  const rows = node.children.map((row, rowIndex) => {
+    const tag = rowIndex === 0 ? 'th' : 'td'
+    const cells = row.children.map((cell, column) => {
+      const align = node.align?.[column]
+      const style = align ? ` style="text-align: ${align}"` : ''
+      return `<${tag}${style}>${convertChildren(cell, context)}</${tag}>`
+    })
+    return `<tr>${cells.join('')}</tr>`
+  })
+  const [head, ...body] = rows
+  return `<table><thead>${head}</thead>${body.length > 0 ? `<tbody>${body.join('')}</tbody>` : ''}</table>\n`
+}
+
+function convertNode(node: MarkdownNode, context: EpubContext): string {
+  switch (node.type) {
+    case 'root':
+      return convertChildren(node, context)
+    case 'paragraph':
+      return `<p>${convertChildren(node, context)}</p>\n`
+    case 'heading': {
+      const text = toPlainText(node)
+      const id = context.slug(text)
+      context.headings.push({ depth: node.depth, id, text })
+      return `<h${node.depth} id="${escapeXml(id)}">${convertChildren(node, context)}</h${node.depth}>\n`
+    }
+    case 'thematicBreak':
+      return '<hr/>\n'
+    case 'blockquote':
+      return `<blockquote>\n${convertChildren(node, context)}</blockquote>\n`
+    case 'list': {
+      const tag = node.ordered ? 'ol' : 'ul'
+      const start = node.ordered && node.start !== null && node.start !== undefined && node.start !== 1 ? ` start="${node.start}"` : ''
+      return `<${tag}${start}>\n${convertChildren(node, context)}</${tag}>\n`
+    }
+    case 'listItem': {
+      // Tight list items hold their text directly, as in the preview
+      const content = node.children
+        .map((child) =>
+          !node.spread && child.type === 'paragraph' ? convertChildren(child, context) : convertNode(child, context)
+        )
+        .join('')
+      if (typeof node.checked === 'boolean') {
+        return `<li class="task">${node.checked ? '☒' : '☐'} ${content}</li>\n`
+      }
+      return `<li>${content}</li>\n`
+    }
+    case 'code': {
+      const language = node.lang ? ` class="language-${escapeXml(node.lang)}"` : ''
+      return `<pre><code${language}>${escapeXml(node.value)}</code></pre>\n`
+    }
+    case 'math':
+      context.hasMath = true
+      return `${texToMathML(node.value, true)}\n`
+    case 'inlineMath':
+      context.hasMath = true
+      return texToMathML(node.value, false)
+    case 'table':
+      return convertTable(node, context)
+    case 'text':
+      return escapeXml(node.value)
+    case 'emphasis':
+      return `<em>${convertChildren(node, context)}</em>`
+    case 'strong':
+      return `<strong>${convertChildren(node, context)}</strong>`
+    case 'delete':
+      return `<del>${convertChildren(node, context)}</del>`
+    case 'inlineCode':
+      return `<code>${escapeXml(node.value)}</code>`
+    case 'break':
+      return '<br/>\n'
+    case 'link':
+    case 'linkReference': {
+      const url = resolveUrl(node, context.index)
+      const content = convertChildren(node, context)
+      return url ? `<a href="${escapeXml(url)}">${content}</a>` : content
+    }
+    case 'image':
+    case 'imageReference':
+      return convertImage(node, context)
+    case 'footnoteReference': {
+      if (!context.index.footnotes.has(node.identifier)) return ''
+      let number = context.footnoteNumbers.get(node.identifier)
+      if (number === undefined) {
+        number = context.footnoteNumbers.size + 1
+        context.footnoteNumbers.set(node.identifier, number)
+      }
+      return `<sup><a epub:type="noteref" href="#fn-${number}">${number}</a></sup>`
+    }
+    case 'html': {
+      // Raw HTML need not be well-formed XHTML; keep line breaks and text only
+      if (/^<br\s*\/?>$/i.test(node.value.trim())) return '<br/>'
+      const text = node.value.replace(/<!--[\s\S]*?-->/g, '').replace(/<[^>]+>/g, '')
+      return text.trim() ? escapeXml(text) : ''
+    }
+    case 'definition':
+    case 'footnoteDefinition':
+    case 'yaml':
+      return ''
+    default:
+      return convertChildren(node, context)
+  }
+}
+
+function titleBlock(metadata: ExportMetadata): string {
+  if (!metadata.title && !metadata.author && !metadata.date) return ''
+  return (
+    '<header class="title-block">\n' +
+    (metadata.title ? `<h1 class="title">${escapeXml(metadata.title)}</h1>\n` : '') +
+    (metadata.author ? `<p class="author">${escapeXml(metadata.author)}</p>\n` : '') +
+    (metadata.date ? `<p class="date">${escapeXml(metadata.date)}</p>\n` : '') +
+    '</header>\n'
+  )
+}
+
+/**
+ * Nested list of links to the headings, for the navigation document
+ */
+function tableOfContents(headings: Heading[], title: string): string {
+  const entries = headings.filter((h) => h.depth <= TOC_DEPTH)
+  if (entries.length === 0) {
+    return `<ol><li><a href="${CHAPTER_FILE}">${escapeXml(title)}</a></li></ol>`
+  }
+
+  // Each list item closes when a heading at the same or a higher level follows
+  let xml = ''
+  const depths: number[] = []
+  for (const heading of entries) {
+    if (depths.length === 0 || heading.depth > depths[depths.length - 1]) {
+      xml += '<ol>'
+      depths.push(heading.depth)
+    } else {
+      xml += '</li>'
+      while (depths.length > 1 && heading.depth < depths[depths.length - 1]) {
+        xml += '</ol></li>'
+        depths.pop()
+      }
+    }
+    xml += `<li><a href="${CHAPTER_FILE}#${escapeXml(heading.id)}">${escapeXml(heading.text)}</a>`
+  }
+  xml += '</li>' + '</ol></li>'.repeat(depths.length - 1) + '</ol>'
+  return xml
+}
+
+function xhtmlPage(title: string, lang: string, body: string): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE html>\n' +
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" ' +
+    `xml:lang="${escapeXml(lang)}" lang="${escapeXml(lang)}">\n` +
+    `<head>\n<meta charset="UTF-8"/>\n<title>${escapeXml(title)}</title>\n` +
+    '<link rel="stylesheet" type="text/css" href="style.css"/>\n</head>\n' +
+    `<body>\n${body}</body>\n</html>\n`
+  )
+}
+
+/**
+ * Write a markdown document as an EPUB 3 book with one chapter, math as
+ * MathML and local images included
+ */
+export async function writeEpub(document: ExportDocument): Promise<Buffer> {
+  const { metadata } = document
+  const index = indexDocument(document.tree)
+  const context: EpubContext = {
+    index,
+    images: await loadImages(document.tree, index, document.baseDir),
+    slug: createSlugger(),
+    imageFiles: new Map(),
+    headings: [],
+    footnoteNumbers: new Map(),
+    hasMath: false
+  }
+
+  const title = metadata.title ?? document.name
+  const lang = metadata.lang ?? 'en'
+  let body = titleBlock(metadata) + convertNode(document.tree, context)
+
+  // Footnotes can reference further footnotes, so numbers are handed out while converting
+  const notes: string[] = []
+  for (const [identifier, number] of context.footnoteNumbers) {
+    const content = convertChildren(context.index.footnotes.get(identifier)!, context)
+    notes.push(`<aside epub:type="footnote" id="fn-${number}"><p>${number}.</p>\n${content}</aside>\n`)
+  }
+  if (notes.length > 0) {
+    body += `<section class="footnotes" epub:type="footnotes">\n${notes.join('')}</section>\n`
+  }
+
+  const imageFiles = [...context.imageFiles.values()]
+  const imageItems = imageFiles
+    .map((file, i) => `<item id="image${i + 1}" href="${file.name}" media-type="${file.image.mimeType}"/>`)
+    .join('\n')
+
+  const date = metadata.date ? new Date(metadata.date) : null
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z')
+  const packageDocument =
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">\n' +
+    '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">\n' +
+    `<dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>\n` +
+    `<dc:title>${escapeXml(title)}</dc:title>\n` +
+    `<dc:language>${escapeXml(lang)}</dc:language>\n` +
+    (metadata.author ? `<dc:creator>${escapeXml(metadata.author)}</dc:creator>\n` : '') +
+    (date && !isNaN(date.getTime()) ? `<dc:date>${date.toISOString().slice(0, 10)}</dc:date>\n` : '') +
+    `<meta property="dcterms:modified">${modified}</meta>\n` +
+    '</metadata>\n<manifest>\n' +
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>\n' +
+    `<item id="text" href="${CHAPTER_FILE}" media-type="application/xhtml+xml"${context.hasMath ? ' properties="mathml"' : ''}/>\n` +
+    '<item id="style" href="style.css" media-type="text/css"/>\n' +
+    (imageItems ? `${imageItems}\n` : '') +
+    '</manifest>\n<spine>\n<itemref idref="text"/>\n</spine>\n</package>\n'
+
+  const navigation = xhtmlPage(
+    title,
+    lang,
+    `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n${tableOfContents(context.headings, title)}\n</nav>\n`
+  )
+
+  return createZip([
+    { name: 'mimetype', data: 'application/epub+zip', store: true },
+    {
+      name: 'META-INF/container.xml',
+      data:
+        '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n' +
+        '<rootfiles><rootfile full-path="EPUB/content.opf" media-type="application/oebps-package+xml"/></rootfiles>\n' +
+        '</container>\n'
+    },
+    { name: 'EPUB/content.opf', data: packageDocument },
+    { name: 'EPUB/nav.xhtml', data: navigation },
+    { name: `EPUB/${CHAPTER_FILE}`, data: xhtmlPage(title, lang, body) },
+    { name: 'EPUB/style.css', data: STYLESHEET },
+    ...imageFiles.map((file) => ({ name: `EPUB/${file.name}`, data: file.image.data, store: true }))
+  ])
+}
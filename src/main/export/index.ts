@@ -0,0 +1,33 @@
+import { writeFile } from 'fs/promises'
+import { DocumentExportFormat, ExportDocument } from '../../shared/types'
+import { writeDocx } from './docx-writer'
+import { writeEpub } from './epub-writer'
+import { writeLatex } from './latex-writer'
+
+// Save dialog details per format
+export const EXPORT_FORMATS: Record<DocumentExportFormat, { title: string; name: string; extension: string }> = {
+  docx: { title: 'Export as Word Document', name: 'Word Documents', extension: 'docx' },
+  epub: { title: 'Export as EPUB', name: 'EPUB Books', extension: 'epub' },
+  latex: { title: 'Export as LaTeX', name: 'LaTeX Files', extension: 'tex' }
+}
+
+/**
+ * Write a parsed markdown document to outputPath in the given format
+ */
+export async function exportDocument(
+  format: DocumentExportFormat,
+  document: ExportDocument,
+  outputPath: string
+): Promise<void> {
+  switch (format) {
+    case 'docx':
+      await writeFile(outputPath, await writeDocx(document))
+      break
+    case 'epub':
+      await writeFile(outputPath, await writeEpub(document))
+      break
+    case 'latex':
+      await writeFile(outputPath, await writeLatex(document, outputPath), 'utf-8')
+      break
+  }
+}
@@ -0,0 +1,235 @@
+import { dirname, relative, sep } from 'path'
+import type { Table } from 'mdast'
+import { ExportDocument } from '../../shared/types'
+import {
+  MarkdownNode,
+  DocumentIndex,
+  LocalImage,
+  getChildren,
+  toPlainText,
+  indexDocument,
+  resolveUrl,
+  createSlugger,
+  loadImages
+} from './markdown-ast'
+
+const PREAMBLE = `\\usepackage[T1]{fontenc}
+\\usepackage[utf8]{inputenc}
+\\usepackage{lmodern}
+\\usepackage[margin=1in]{geometry}
+\\usepackage{amsmath,amssymb}
+\\usepackage{graphicx}
+\\usepackage{longtable,booktabs,array}
+\\usepackage{listings}
+\\usepackage{xcolor}
+\\usepackage[normalem]{ulem}
+\\usepackage{hyperref}
+\\lstset{basicstyle=\\ttfamily\\small,breaklines=true,columns=fullflexible,backgroundcolor=\\color[gray]{0.96},frame=none}
+\\setkeys{Gin}{width=\\linewidth,height=\\textheight,keepaspectratio}
+\\setlength{\\parindent}{0pt}
+\\setlength{\\parskip}{6pt plus 2pt minus 1pt}`
+
+const SECTION_COMMANDS = ['section', 'subsection', 'subsubsection', 'paragraph', 'subparagraph', 'subparagraph']
+
+// Languages listings highlights, by the names code fences use
+const LISTINGS_LANGUAGES: Record<string, string> = {
+  bash: 'bash',
+  sh: 'bash',
+  shell: 'bash',
+  c: 'C',
+  cpp: 'C++',
+  'c++': 'C++',
+  java: 'Java',
+  python: 'Python',
+  py: 'Python',
+  ruby: 'Ruby',
+  sql: 'SQL',
+  html: 'HTML',
+  xml: 'XML',
+  tex: 'TeX',
+  latex: 'TeX',
+  matlab: 'Matlab',
+  perl: 'Perl',
+  php: 'PHP'
+}
+
+// Image formats pdfLaTeX includes directly
+const LATEX_IMAGE_TYPES = new Set(['png', 'jpg', 'jpeg', 'pdf'])
+
+interface LatexContext {
+  index: DocumentIndex
+  images: Map<string, LocalImage>
+  slug: (text: string) => string
+  outputDir: string
+}
+
+const SPECIAL_CHARACTERS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  $: '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '%': '\\%',
+  _: '\\_',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+  '<': '\\textless{}',
+  '>': '\\textgreater{}',
+  '|': '\\textbar{}'
+}
+
+function escapeLatex(text: string): string {
+  return text.replace(/[\\{}$&#%_^~<>|]/g, (character) => SPECIAL_CHARACTERS[character])
+}
+
+// Heading slugs are safe in \label; links to other anchors are reduced to match
+function toLabel(slug: string): string {
+  return slug.replace(/[^\p{L}\p{N}_-]/gu, '')
+}
+
+function convertChildren(node: MarkdownNode, context: LatexContext): string {
+  return getChildren(node)
+    .map((child) => convertNode(child, context))
+    .join('')
+}
+
+function convertImage(node: MarkdownNode, context: LatexContext): string {
+  const url = resolveUrl(node, context.index)
+  const image = url ? context.images.get(url) : undefined
+  const alt = escapeLatex(toPlainText(node))
+  if (!image || !LATEX_IMAGE_TYPES.has(image.extension)) {
+    return alt ? `\\emph{${alt}}` : ''
+  }
+  // Relative to the .tex file, with forward slashes on every platform
+  const imagePath = relative(context.outputDir, image.path).split(sep).join('/')
+  return `\\includegraphics{${imagePath}}`
+}
+
+function convertTable(node: Table, context: LatexContext): string {
+  const columns = Math.max(...node.children.map((row) => row.children.length))
+  const spec = Array.from({ length: columns }, (_, i) => {
+    const align = node.align?.[i]
+    return align === 'center' ? 'c' : align === 'right' ? 'r' : 'l'
+  }).join('')
+
+  const rows = node.children.map((row) => {
+    const cells = Array.from({ length: columns }, (_, i) => (row.children[i] ? convertChildren(row.children[i], context) : ''))
+    return `${cells.join(' & ')} \\\\`
+  })
+  const [head, ...body] = rows
+  return `\\begin{longtable}{${spec}}\n\\toprule\n${head}\n\\midrule\n\\endhead\n${body.join('\n')}${body.length > 0 ? '\n' : ''}\\bottomrule\n\\end{longtable}\n\n`
+}
+
+function convertNode(node: MarkdownNode, context: LatexContext): string {
+  switch (node.type) {
+    case 'root':
+      return convertChildren(node, context)
+    case 'paragraph':
+      return `${convertChildren(node, context)}\n\n`
+    case 'heading': {
+      const label = context.slug(toPlainText(node))
+      const command = SECTION_COMMANDS[node.depth - 1]
+      return `\\${command}{${convertChildren(node, context)}}\\label{${toLabel(label)}}\n\n`
+    }
+    case 'thematicBreak':
+      return '\\noindent\\rule{\\linewidth}{0.4pt}\n\n'
+    case 'blockquote':
+      return `\\begin{quote}\n${convertChildren(node, context).trimEnd()}\n\\end{quote}\n\n`
+    case 'list': {
+      const environment = node.ordered ? 'enumerate' : 'itemize'
+      const start = node.ordered && node.start && node.start !== 1 ? `\\setcounter{enumi}{${node.start - 1}}\n` : ''
+      return `\\begin{${environment}}\n${start}${convertChildren(node, context)}\\end{${environment}}\n\n`
+    }
+    case 'listItem': {
+      const content = convertChildren(node, context).trimEnd()
+      if (typeof node.checked === 'boolean') {
+        return `\\item[${node.checked ? '$\\boxtimes$' : '$\\square$'}] ${content}\n`
+      }
+      // Text starting with [ would be read as a custom item label
+      return `\\item ${content.startsWith('[') ? '{}' : ''}${content}\n`
+    }
+    case 'code': {
+      const language = node.lang ? LISTINGS_LANGUAGES[node.lang.toLowerCase()] : undefined
+      const options = language ? `[language=${language}]` : ''
+      return `\\begin{lstlisting}${options}\n${node.value}\n\\end{lstlisting}\n\n`
+    }
+    case 'math':
+      return `\\[\n${node.value}\n\\]\n\n`
+    case 'inlineMath':
+      return `$${node.value}$`
+    case 'table':
+      return convertTable(node, context)
+    case 'text':
+      return escapeLatex(node.value)
+    case 'emphasis':
+      return `\\emph{${convertChildren(node, context)}}`
+    case 'strong':
+      return `\\textbf{${convertChildren(node, context)}}`
+    case 'delete':
+      return `\\sout{${convertChildren(node, context)}}`
+    case 'inlineCode':
+      return `\\texttt{${escapeLatex(node.value)}}`
+    case 'break':
+      return '\\\\\n'
+    case 'link':
+    case 'linkReference': {
+      const url = resolveUrl(node, context.index)
+      const content = convertChildren(node, context)
+      if (!url) return content
+      if (url.startsWith('#')) return `\\hyperref[${toLabel(url.slice(1))}]{${content}}`
+      // \href takes the URL nearly verbatim; only these need escaping
+      return `\\href{${url.replace(/[\\#%{}]/g, (c) => `\\${c}`)}}{${content}}`
+    }
+    case 'image':
+    case 'imageReference':
+      return convertImage(node, context)
+    case 'footnoteReference': {
+      const definition = context.index.footnotes.get(node.identifier)
+      return definition ? `\\footnote{${convertChildren(definition, context).trim()}}` : ''
+    }
+    case 'html':
+      return /^<br\s*\/?>$/i.test(node.value.trim()) ? '\\\\\n' : ''
+    case 'definition':
+    case 'footnoteDefinition':
+    case 'yaml':
+      return ''
+    default:
+      return convertChildren(node, context)
+  }
+}
+
+/**
+ * Write a markdown document as a standalone LaTeX file. Math is kept as
+ * written; images are referenced relative to outputPath.
+ */
+export async function writeLatex(document: ExportDocument, outputPath: string): Promise<string> {
+  const { metadata } = document
+  const index = indexDocument(document.tree)
+  const context: LatexContext = {
+    index,
+    images: await loadImages(document.tree, index, document.baseDir),
+    slug: createSlugger(),
+    outputDir: dirname(outputPath)
+  }
+
+  const hasTitle = Boolean(metadata.title || metadata.author || metadata.date)
+  const titleCommands = hasTitle
+    ? `\\title{${escapeLatex(metadata.title ?? '')}}\n` +
+      `\\author{${escapeLatex(metadata.author ?? '')}}\n` +
+      `\\date{${escapeLatex(metadata.date ?? '')}}\n`
+    : ''
+
+  return (
+    '\\documentclass[11pt]{article}\n' +
+    `${PREAMBLE}\n` +
+    `\\hypersetup{pdftitle={${escapeLatex(metadata.title ?? document.name)}}` +
+    (metadata.author ? `,pdfauthor={${escapeLatex(metadata.author)}}` : '') +
+    ',colorlinks=true,linkcolor=blue,urlcolor=blue}\n' +
+    titleCommands +
+    '\n\\begin{document}\n\n' +
+    (hasTitle ? '\\maketitle\n\n' : '') +
+    convertNode(document.tree, context).trimEnd() +
+    '\n\n\\end{document}\n'
+  )
+}
@@ -0,0 +1,196 @@
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import type { Root, Content, Definition, FootnoteDefinition } from 'mdast'
+import { resolveImagePath } from '../utils/image-resolver'
+
+// remark-math nodes, which the mdast types do not include
+export interface MathNode {
+  type: 'math'
+  value: string
+}
+
+export interface InlineMathNode {
+  type: 'inlineMath'
+  value: string
+}
+
+export type MarkdownNode = Root | Content | MathNode | InlineMathNode
+
+export interface LocalImage {
+  path: string
+  data: Buffer
+  extension: string // Without the dot, lower case
+  mimeType: string
+  width: number | null // Pixels, when the format is understood
+  height: number | null
+}
+
+export interface DocumentIndex {
+  definitions: Map<string, Definition>
+  footnotes: Map<string, FootnoteDefinition>
+}
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp'
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+export function getChildren(node: MarkdownNode): MarkdownNode[] {
+  return 'children' in node ? (node.children as MarkdownNode[]) : []
+}
+
+/**
+ * Plain text of a node and its descendants, for alt text, bookmarks and titles
+ */
+export function toPlainText(node: MarkdownNode): string {
+  if ('value' in node && typeof node.value === 'string' && node.type !== 'html') {
+    return node.value
+  }
+  if (node.type === 'image' || node.type === 'imageReference') {
+    return node.alt ?? ''
+  }
+  return getChildren(node).map(toPlainText).join('')
+}
+
+/**
+ * Link definitions and footnotes by identifier, so references can be resolved
+ */
+export function indexDocument(root: Root): DocumentIndex {
+  const index: DocumentIndex = { definitions: new Map(), footnotes: new Map() }
+  const visit = (node: MarkdownNode) => {
+    if (node.type === 'definition' && !index.definitions.has(node.identifier)) {
+      index.definitions.set(node.identifier, node)
+    } else if (node.type === 'footnoteDefinition' && !index.footnotes.has(node.identifier)) {
+      index.footnotes.set(node.identifier, node)
+    }
+    getChildren(node).forEach(visit)
+  }
+  visit(root)
+  return index
+}
+
+/**
+ * URL of a link or image, following reference-style links to their definition
+ */
+export function resolveUrl(node: MarkdownNode, index: DocumentIndex): string | null {
+  if (node.type === 'link' || node.type === 'image') return node.url
+  if (node.type === 'linkReference' || node.type === 'imageReference') {
+    return index.definitions.get(node.identifier)?.url ?? null
+  }
+  return null
+}
+
+/**
+ * Heading ids in the GitHub form links use (#my-heading, #my-heading-1),
+ * numbering repeats in document order
+ */
+export function createSlugger(): (text: string) => string {
+  const seen = new Map<string, number>()
+  return (text) => {
+    const slug = text
+      .toLowerCase()
+      .trim()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .replace(/\s/g, '-')
+    const count = seen.get(slug) ?? 0
+    seen.set(slug, count + 1)
+    return count === 0 ? slug : `${slug}-${count}`
+  }
+}
+
+/**
+ * Width and height of a PNG, GIF or JPEG image
+ */
+function readImageSize(data: Buffer, extension: string): { width: number; height: number } | null {
+  try {
+    if (extension === 'png' && data.length >= 24) {
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) }
+    }
+    if (extension === 'gif' && data.length >= 10) {
+      return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) }
+    }
+    if (extension === 'jpg' || extension === 'jpeg') {
+      // Walk the segments to the first start-of-frame marker
+      let offset = 2
+      while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) return null
+        const marker = data[offset + 1]
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+          return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) }
+        }
+        offset += 2 + data.readUInt16BE(offset + 2)
+      }
+    }
+  } catch {
+    // Truncated or corrupt image
+  }
+  return null
+}
+
+/**
+ * Read an image referenced by a local path, relative to baseDir. Remote and
+ * data: URLs, and files that are missing or not images, give null.
+ */
+async function readLocalImage(url: string, baseDir: string | null): Promise<LocalImage | null> {
+  const imagePath = resolveImagePath(url, baseDir)
+  if (!imagePath) return null
+
+  const extension = extname(imagePath).slice(1).toLowerCase()
+  const mimeType = IMAGE_MIME_TYPES[extension]
+  if (!mimeType) return null
+
+  try {
+    const data = await readFile(imagePath)
+    const size = readImageSize(data, extension)
+    return {
+      path: imagePath,
+      data,
+      extension,
+      mimeType,
+      width: size?.width ?? null,
+      height: size?.height ?? null
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read every local image the document shows, keyed by URL as written
+ */
+export async function loadImages(
+  root: Root,
+  index: DocumentIndex,
+  baseDir: string | null
+): Promise<Map<string, LocalImage>> {
+  const urls = new Set<string>()
+  const visit = (node: MarkdownNode) => {
+    if (node.type === 'image' || node.type === 'imageReference') {
+      const url = resolveUrl(node, index)
+      if (url) urls.add(url)
+    }
+    getChildren(node).forEach(visit)
+  }
+  visit(root)
+
+  const images = new Map<string, LocalImage>()
+  for (const url of urls) {
+    const image = await readLocalImage(url, baseDir)
+    if (image) images.set(url, image)
+  }
+  return images
+}
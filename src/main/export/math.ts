@@ -0,0 +1,149 @@
+import katex from 'katex'
+import { escapeXml } from './markdown-ast'
+
+interface MathElement {
+  name: string
+  attributes: Record<string, string>
+  children: MathElement[]
+  text: string // Text content of token elements (mi, mn, mo, mtext)
+}
+
+// Elements whose content is text rather than child elements
+const TOKEN_ELEMENTS = new Set(['mi', 'mn', 'mo', 'mtext', 'ms'])
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return String.fromCodePoint(value)
+    }
+    return ENTITIES[code] ?? entity
+  })
+}
+
+/**
+ * Parse the well-formed MathML KaTeX produces into an element tree
+ */
+function parseMathML(markup: string): MathElement {
+  const root: MathElement = { name: '#root', attributes: {}, children: [], text: '' }
+  const stack: MathElement[] = [root]
+
+  for (const match of markup.matchAll(/<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const parent = stack[stack.length - 1]
+    if (match[5] !== undefined) {
+      parent.text += decodeEntities(match[5])
+      continue
+    }
+    if (match[1]) {
+      if (stack.length > 1) stack.pop()
+      continue
+    }
+
+    const attributes: Record<string, string> = {}
+    for (const attribute of match[3].matchAll(/([\w:-]+)="([^"]*)"/g)) {
+      attributes[attribute[1]] = decodeEntities(attribute[2])
+    }
+    const element: MathElement = { name: match[2], attributes, children: [], text: '' }
+    parent.children.push(element)
+    if (!match[4]) stack.push(element)
+  }
+
+  return root
+}
+
+/**
+ * Render TeX as a MathML <math> element, for EPUB. Invalid TeX is shown as
+ * KaTeX's error text rather than failing the export.
+ */
+export function texToMathML(tex: string, displayMode: boolean): string {
+  const markup = katex.renderToString(tex, { output: 'mathml', throwOnError: false, displayMode })
+  const match = markup.match(/<math[\s\S]*<\/math>/)
+  return match ? match[0] : `<math xmlns="http://www.w3.org/1998/Math/MathML"><mtext>${escapeXml(tex)}</mtext></math>`
+}
+
+function ommlRun(text: string, style: 'p' | 'i' | 'b' | 'bi' | null): string {
+  const properties = style ? `<m:rPr><m:sty m:val="${style}"/></m:rPr>` : ''
+  return `<m:r>${properties}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`
+}
+
+function ommlTokenStyle(element: MathElement): 'p' | 'i' | 'b' | 'bi' | null {
+  const variant = element.attributes.mathvariant
+  if (variant === 'bold') return 'b'
+  if (variant === 'bold-italic') return 'bi'
+  if (variant === 'normal') return 'p'
+  // Single-letter identifiers are italic by default, everything else upright
+  if (element.name === 'mi') return [...element.text].length === 1 ? null : 'p'
+  return 'p'
+}
+
+function convertChildren(element: MathElement): string {
+  return element.children.map(convertElement).join('')
+}
+
+function convertArgument(element: MathElement | undefined): string {
+  return element ? convertElement(element) : ''
+}
+
+/**
+ * Convert one MathML element to Office Math (OMML) markup
+ */
+function convertElement(element: MathElement): string {
+  const [first, second, third] = element.children
+
+  if (TOKEN_ELEMENTS.has(element.name)) {
+    return element.text ? ommlRun(element.text, ommlTokenStyle(element)) : ''
+  }
+
+  switch (element.name) {
+    case 'annotation':
+    case 'annotation-xml':
+    case 'mphantom':
+      return ''
+    case 'mspace':
+      return ommlRun(' ', 'p')
+    case 'msup':
+      return `<m:sSup><m:e>${convertArgument(first)}</m:e><m:sup>${convertArgument(second)}</m:sup></m:sSup>`
+    case 'msub':
+      return `<m:sSub><m:e>${convertArgument(first)}</m:e><m:sub>${convertArgument(second)}</m:sub></m:sSub>`
+    case 'msubsup':
+      return `<m:sSubSup><m:e>${convertArgument(first)}</m:e><m:sub>${convertArgument(second)}</m:sub><m:sup>${convertArgument(third)}</m:sup></m:sSubSup>`
+    case 'mfrac': {
+      const noBar = element.attributes.linethickness === '0' || element.attributes.linethickness === '0px'
+      const properties = noBar ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : ''
+      return `<m:f>${properties}<m:num>${convertArgument(first)}</m:num><m:den>${convertArgument(second)}</m:den></m:f>`
+    }
+    case 'msqrt':
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${convertChildren(element)}</m:e></m:rad>`
+    case 'mroot':
+      return `<m:rad><m:deg>${convertArgument(second)}</m:deg><m:e>${convertArgument(first)}</m:e></m:rad>`
+    case 'mover':
+      if (element.attributes.accent === 'true' && second?.name === 'mo') {
+        return `<m:acc><m:accPr><m:chr m:val="${escapeXml(second.text)}"/></m:accPr><m:e>${convertArgument(first)}</m:e></m:acc>`
+      }
+      return `<m:limUpp><m:e>${convertArgument(first)}</m:e><m:lim>${convertArgument(second)}</m:lim></m:limUpp>`
+    case 'munder':
+      return `<m:limLow><m:e>${convertArgument(first)}</m:e><m:lim>${convertArgument(second)}</m:lim></m:limLow>`
+    case 'munderover':
+      return `<m:limUpp><m:e><m:limLow><m:e>${convertArgument(first)}</m:e><m:lim>${convertArgument(second)}</m:lim></m:limLow></m:e><m:lim>${convertArgument(third)}</m:lim></m:limUpp>`
+    case 'mtable':
+      return `<m:m>${element.children
+        .filter((row) => row.name === 'mtr' || row.name === 'mlabeledtr')
+        .map((row) => `<m:mr>${row.children.map((cell) => `<m:e>${convertChildren(cell)}</m:e>`).join('')}</m:mr>`)
+        .join('')}</m:m>`
+    default:
+      // math, semantics, mrow, mstyle, menclose and anything else: just the content
+      return convertChildren(element)
+  }
+}
+
+/**
+ * Render TeX as Office Math (OMML) for DOCX. Display math is wrapped in an
+ * <m:oMathPara> and must be placed in its own paragraph.
+ */
+export function texToOmml(tex: string, displayMode: boolean): string {
+  const math = parseMathML(texToMathML(tex, displayMode))
+  const omml = `<m:oMath>${convertChildren(math)}</m:oMath>`
+  return displayMode ? `<m:oMathPara>${omml}</m:oMathPara>` : omml
+}
@@ -0,0 +1,113 @@
+import { BrowserWindow } from 'electron'
+import { randomUUID } from 'crypto'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { pathToFileURL } from 'url'
+import { writeFile, rm } from 'fs/promises'
+import { PdfExportOptions } from '../../shared/types'
+import { escapeXml } from './markdown-ast'
+import { resolveImagePath } from '../utils/image-resolver'
+import { fromAssetUrl } from '../utils/asset-protocol'
+
+// Give up waiting for images and fonts after this long and print what there is
+const ASSET_TIMEOUT_MS = 15000
+
+// Page scripts never run; the sanitized preview markup should have none anyway
+const CONTENT_SECURITY_POLICY = "default-src 'none'; img-src file: data: https: http:; style-src 'unsafe-inline' file:; font-src file: data:"
+
+// Resolves once every image has loaded (or failed) and every font in use is ready
+const WAIT_FOR_ASSETS_SCRIPT = `Promise.all([
+  document.fonts.ready,
+  ...Array.from(document.images, (img) =>
+    img.complete ? null : new Promise((done) => {
+      img.addEventListener('load', done)
+      img.addEventListener('error', done)
+    })
+  )
+]).then(() => true)`
+
+/**
+ * Turn a header or footer template with {title}, {page}, {pages} and {date}
+ * placeholders into the markup Chromium fills in on each page
+ */
+function toPrintTemplate(template: string): string {
+  const content = escapeXml(template)
+    .replace(/\{title\}/g, '<span class="title"></span>')
+    .replace(/\{page\}/g, '<span class="pageNumber"></span>')
+    .replace(/\{pages\}/g, '<span class="totalPages"></span>')
+    .replace(/\{date\}/g, '<span class="date"></span>')
+  return `<div style="width: 100%; padding: 0 0.4in; font-size: 9px; color: #666; text-align: center; font-family: sans-serif;">${content}</div>`
+}
+
+/**
+ * Point preview image URLs and relative sources at the files themselves; the
+ * page is loaded from a temporary file elsewhere
+ */
+function resolveImageSources(html: string, baseDir: string | null): string {
+  return html.replace(/(<img\b[^>]*?\ssrc=")([^"]*)(")/gi, (match, before: string, src: string, after: string) => {
+    const url = src.replace(/&amp;/g, '&')
+    const imagePath = fromAssetUrl(url) ?? resolveImagePath(url, baseDir)
+    return imagePath ? `${before}${pathToFileURL(imagePath).href}${after}` : match
+  })
+}
+
+/**
+ * Add the KaTeX stylesheet and a script-blocking content security policy to
+ * the exported page
+ */
+function prepareHtml(html: string, baseDir: string | null): string {
+  const katexStylesheet = pathToFileURL(require.resolve('katex/dist/katex.min.css')).href
+  const head =
+    `<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">` +
+    `<link rel="stylesheet" href="${katexStylesheet}">`
+  return resolveImageSources(html, baseDir).replace(/<head>/i, `<head>${head}`)
+}
+
+/**
+ * Render a standalone HTML document to PDF in a hidden window, once its
+ * images, math fonts and styles have loaded
+ */
+export async function printHtmlToPdf(html: string, options: PdfExportOptions, baseDir: string | null): Promise<Buffer> {
+  // Loaded from a file rather than a data: URL so local images are allowed to load
+  const pagePath = join(tmpdir(), `wrangle-pdf-${randomUUID()}.html`)
+  await writeFile(pagePath, prepareHtml(html, baseDir), 'utf-8')
+
+  const hiddenWindow = new BrowserWindow({
+    show: false,
+    width: 816, // US Letter width at 96 DPI
+    height: 1056, // US Letter height at 96 DPI
+    webPreferences: {
+      offscreen: true,
+      sandbox: true
+    }
+  })
+  hiddenWindow.webContents.setWindowOpenHandler(() => ({ action: 'deny' }))
+
+  try {
+    await hiddenWindow.loadFile(pagePath)
+
+    // Checked from an isolated world, which the page's CSP does not apply to
+    let timer: NodeJS.Timeout | undefined
+    await Promise.race([
+      hiddenWindow.webContents.executeJavaScriptInIsolatedWorld(1, [{ code: WAIT_FOR_ASSETS_SCRIPT }]),
+      new Promise((done) => {
+        timer = setTimeout(done, ASSET_TIMEOUT_MS)
+      })
+    ])
+    clearTimeout(timer)
+
+    const hasHeaderFooter = Boolean(options.headerTemplate.trim() || options.footerTemplate.trim())
+    return await hiddenWindow.webContents.printToPDF({
+      pageSize: options.pageSize,
+      landscape: options.landscape,
+      printBackground: true,
+      margins: options.margins,
+      displayHeaderFooter: hasHeaderFooter,
+      headerTemplate: toPrintTemplate(options.headerTemplate),
+      footerTemplate: toPrintTemplate(options.footerTemplate)
+    })
+  } finally {
+    hiddenWindow.destroy()
+    await rm(pagePath, { force: true })
+  }
+}
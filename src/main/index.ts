@@ -1,11 +1,19 @@
 import { app, shell, BrowserWindow, Menu, globalShortcut } from 'electron'
 import { join } from 'path'
 import { existsSync } from 'fs'
-import { readFile } from 'fs/promises'
 import { registerAllHandlers } from './ipc'
 import { initTempRoot } from './utils/temp-dir-manager'
 import { didCrashLastSession, createRunningMarker, clearRunningMarker, findOrphanedDrafts } from './utils/crash-recovery'
 import { setCrashRecoveryInfo } from './ipc/crash-recovery-handler'
+import { guardWindowClose, disableCloseGuard } from './ipc/window-handler'
+import { unwatchAllFolders } from './utils/folder-watcher'
+import { recordOpenedVersion, unwatchAllOpenFiles } from './utils/file-tracker'
+import { loadTextFile } from './utils/text-encoding'
+import { clearFileOperationHistory } from './utils/file-operations'
+import { registerAssetScheme, registerAssetProtocol, unwatchAllAssets } from './utils/asset-protocol'
+
+// Custom schemes must be registered before the app is ready
+registerAssetScheme()
 
 // Module-level reference so second-instance handler can access it
 let mainWindow: BrowserWindow | null = null
@@ -52,7 +60,8 @@ function createWindow(): BrowserWindow {
     const filePath = getFilePathFromArgs()
     if (filePath) {
       try {
-        const content = await readFile(filePath, 'utf-8')
+        const content = await loadTextFile(filePath)
+        await recordOpenedVersion(filePath, content)
         win.webContents.send('file:openFromPath', { path: filePath, content })
       } catch (error) {
         console.error('Error reading file from command line:', error)
@@ -60,6 +69,9 @@ function createWindow(): BrowserWindow {
     }
   })
 
+  // Unsaved changes are saved or discarded before the window closes
+  guardWindowClose(win)
+
   win.webContents.setWindowOpenHandler((details) => {
     shell.openExternal(details.url)
     return { action: 'deny' }
@@ -90,7 +102,8 @@ if (!gotLock) {
     const filePath = getFilePathFromArgs(argv)
     if (filePath && mainWindow && !mainWindow.isDestroyed()) {
       try {
-        const content = await readFile(filePath, 'utf-8')
+        const content = await loadTextFile(filePath)
+        await recordOpenedVersion(filePath, content)
         mainWindow.webContents.send('file:openFromPath', { path: filePath, content })
       } catch (error) {
         console.error('Error reading file from second instance:', error)
@@ -129,8 +142,9 @@ app.whenReady().then(async () => {
     console.error('Failed to initialize temp directory:', error)
   }
 
-  // Register IPC handlers
+  // Register IPC handlers and the protocol the preview loads local images from
   registerAllHandlers()
+  registerAssetProtocol()
 
   mainWindow = createWindow()
 
@@ -167,20 +181,26 @@ app.whenReady().then(async () => {
   })
 })
 
-// Unregister global shortcuts and clear crash marker when quitting
+// Unregister global shortcuts, stop file/folder watchers, drop undo backups and clear crash marker when quitting
 app.on('will-quit', () => {
   globalShortcut.unregisterAll()
+  unwatchAllFolders()
+  unwatchAllOpenFiles()
+  unwatchAllAssets()
+  clearFileOperationHistory().catch(() => {})
   clearRunningMarker().catch(() => {})
 })
 
 // Handle SIGINT/SIGTERM for graceful shutdown
 process.on('SIGINT', () => {
   clearRunningMarker().catch(() => {})
+  disableCloseGuard()
   app.quit()
 })
 
 process.on('SIGTERM', () => {
   clearRunningMarker().catch(() => {})
+  disableCloseGuard()
   app.quit()
 })
 
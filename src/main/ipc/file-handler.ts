@@ -1,17 +1,55 @@
-import { ipcMain, dialog } from 'electron'
-import { readFile, writeFile, copyFile, mkdir, open } from 'fs/promises'
-import { FileData } from '../../shared/types'
+import { ipcMain, dialog, shell, WebContents } from 'electron'
+import { readFile, writeFile, copyFile, open, stat } from 'fs/promises'
+import {
+  FileData,
+  FileEncoding,
+  FileOperationResult,
+  SnapshotSource,
+  ResolvedImage,
+  ImageInfo,
+  ImageProcessingOptions,
+  AssetPathOptions
+} from '../../shared/types'
 import * as path from 'path'
 import { existsSync } from 'fs'
 import {
   getTempDir,
-  getTempAssetDir,
   getTempDraftPath,
   ensureTempDir,
-  ensureTempAssetDir,
   moveTempToSaved,
   cleanupTempDir
 } from '../utils/temp-dir-manager'
+import {
+  recordLoadedVersion,
+  recordOpenedVersion,
+  hasExternalChange,
+  getExternalChange,
+  watchOpenFile,
+  unwatchOpenFile,
+  acceptDiskVersion
+} from '../utils/file-tracker'
+import { loadTextFile, writeTextFile, getFileEncoding, setFileEncoding } from '../utils/text-encoding'
+import {
+  createEntry,
+  renameEntry,
+  moveToFolder,
+  duplicateEntry,
+  trashEntry,
+  overwriteFile,
+  undoLastOperation,
+  getFileOperationUndoLabel
+} from '../utils/file-operations'
+import { recordSnapshot } from '../utils/local-history'
+import {
+  getAssetTarget,
+  getAvailableAssetName,
+  getImageLinkPath,
+  resolveAssetPath,
+  rewriteMovedAssetLinks
+} from '../utils/asset-files'
+import { processImage, isProcessableImage, getImageInfo, ProcessedImage } from '../utils/image-processing'
+import { resolveImagePath, isAllowedImagePath } from '../utils/image-resolver'
+import { toAssetUrl, watchAsset, releaseAsset } from '../utils/asset-protocol'
 
 // Extensions known to be text files
 const TEXT_EXTENSIONS = new Set([
@@ -73,6 +111,80 @@ async function isBinaryFile(filePath: string): Promise<boolean> {
   }
 }
 
+// Refuse to overwrite a file that changed on disk since it was loaded, and
+// send the change to the renderer so it can show the conflict banner
+async function refuseIfChangedOnDisk(sender: WebContents, filePath: string): Promise<boolean> {
+  if (!(await hasExternalChange(filePath))) {
+    return false
+  }
+
+  const change = await getExternalChange(filePath)
+  if (change && !sender.isDestroyed()) {
+    sender.send('file:externalChange', change)
+  }
+  return true
+}
+
+// Keep the content about to be written in local history, and let the
+// renderer refresh its timeline when a snapshot was taken
+async function recordHistory(
+  sender: WebContents,
+  filePath: string,
+  content: string,
+  source: SnapshotSource
+): Promise<void> {
+  if ((await recordSnapshot(filePath, content, source)) && !sender.isDestroyed()) {
+    sender.send('history:changed', filePath)
+  }
+}
+
+// Process an image about to be added to a document. Without options (the user
+// held Shift) or when the image can't be decoded, the original is kept.
+async function processAddedImage(
+  data: Buffer,
+  fileName: string,
+  processing: ImageProcessingOptions | null
+): Promise<ProcessedImage> {
+  if (!processing) {
+    return { data, fileName }
+  }
+  try {
+    return await processImage(data, fileName, processing)
+  } catch (error) {
+    console.error('Error processing image, keeping the original:', error)
+    return { data, fileName }
+  }
+}
+
+// Write an image added to a document where the asset path template puts it,
+// and return the link to insert. Identical content-hash named files are reused.
+async function writeAddedImage(
+  image: ProcessedImage,
+  tabId: string,
+  markdownFilePath: string | null,
+  assetPath: AssetPathOptions | null
+): Promise<string> {
+  const target = await getAssetTarget(image.data, image.fileName, tabId, markdownFilePath, assetPath)
+  if (!target.existing) {
+    await writeFile(target.filePath, image.data)
+  }
+  return getImageLinkPath(target.filePath, tabId, markdownFilePath)
+}
+
+/**
+ * Run a file tree operation, reporting failures to the user
+ */
+async function runFileOperation(operation: () => Promise<FileOperationResult>): Promise<FileOperationResult> {
+  try {
+    return await operation()
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    console.error('File operation failed:', error)
+    dialog.showErrorBox('File Operation Error', message)
+    return { success: false, error: message, undoLabel: getFileOperationUndoLabel() }
+  }
+}
+
 export function registerFileHandlers(): void {
   // Handle file open (supports multiple selection)
   ipcMain.handle('file:open', async () => {
@@ -92,7 +204,8 @@ export function registerFileHandlers(): void {
     const files: FileData[] = []
     for (const filePath of result.filePaths) {
       try {
-        const content = await readFile(filePath, 'utf-8')
+        const content = await loadTextFile(filePath)
+        await recordOpenedVersion(filePath, content)
         files.push({ path: filePath, content })
       } catch (error) {
         console.error('Error reading file:', filePath, error)
@@ -110,7 +223,8 @@ export function registerFileHandlers(): void {
         return { error: 'binary' }
       }
 
-      const content = await readFile(filePath, 'utf-8')
+      const content = await loadTextFile(filePath)
+      await recordOpenedVersion(filePath, content)
       return {
         path: filePath,
         content
@@ -122,9 +236,15 @@ export function registerFileHandlers(): void {
   })
 
   // Handle file save
-  ipcMain.handle('file:save', async (_event, path: string, content: string) => {
+  ipcMain.handle('file:save', async (event, path: string, content: string) => {
     try {
-      await writeFile(path, content, 'utf-8')
+      if (await refuseIfChangedOnDisk(event.sender, path)) {
+        return false
+      }
+
+      await recordHistory(event.sender, path, content, 'save')
+      await writeTextFile(path, content)
+      await recordLoadedVersion(path, content)
       return true
     } catch (error) {
       console.error('Error saving file:', error)
@@ -133,8 +253,17 @@ export function registerFileHandlers(): void {
     }
   })
 
+  // The encoding an open file is saved in
+  ipcMain.handle('file:getEncoding', (_event, filePath: string) => getFileEncoding(filePath))
+
+  // Save a file in another encoding from now on; the content is unchanged
+  ipcMain.handle('file:setEncoding', (_event, filePath: string, encoding: FileEncoding) => {
+    setFileEncoding(filePath, encoding)
+    return true
+  })
+
   // Handle file save as
-  ipcMain.handle('file:saveAs', async (_event, content: string, suggestedName?: string) => {
+  ipcMain.handle('file:saveAs', async (event, content: string, suggestedName?: string) => {
     // Use suggested name if provided, otherwise default to 'untitled'
     const defaultName = suggestedName ? `${suggestedName}.md` : 'untitled.md'
     const result = await dialog.showSaveDialog({
@@ -151,7 +280,9 @@ export function registerFileHandlers(): void {
     }
 
     try {
-      await writeFile(result.filePath, content, 'utf-8')
+      await recordHistory(event.sender, result.filePath, content, 'save')
+      await writeTextFile(result.filePath, content)
+      await recordLoadedVersion(result.filePath, content)
       return result.filePath
     } catch (error) {
       console.error('Error saving file:', error)
@@ -163,50 +294,135 @@ export function registerFileHandlers(): void {
   // Handle image copy for drag & drop
   ipcMain.handle(
     'file:copyImage',
-    async (_event, sourcePath: string, tabId: string, markdownFilePath: string | null) => {
+    async (
+      _event,
+      sourcePath: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null = null,
+      assetPath: AssetPathOptions | null = null
+    ) => {
+      try {
+        const image = await processAddedImage(await readFile(sourcePath), path.basename(sourcePath), processing)
+
+        // Return relative path for markdown
+        return await writeAddedImage(image, tabId, markdownFilePath, assetPath)
+      } catch (error) {
+        console.error('Error copying image:', error)
+        dialog.showErrorBox('Image Copy Error', `Could not copy image: ${error}`)
+        return null
+      }
+    }
+  )
+
+  // Handle saving image data (e.g. embedded in pasted HTML) to assets folder
+  ipcMain.handle(
+    'file:saveImage',
+    async (
+      _event,
+      data: Uint8Array,
+      fileName: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null = null,
+      assetPath: AssetPathOptions | null = null
+    ) => {
       try {
-        let assetsDir: string
+        const image = await processAddedImage(Buffer.from(data), fileName, processing)
 
-        if (markdownFilePath) {
-          // If file is saved, use the directory of the markdown file
-          const markdownDir = path.dirname(markdownFilePath)
-          assetsDir = path.join(markdownDir, 'assets')
+        // Return relative path for markdown
+        return await writeAddedImage(image, tabId, markdownFilePath, assetPath)
+      } catch (error) {
+        console.error('Error saving image:', error)
+        return null
+      }
+    }
+  )
 
-          // Create assets directory if it doesn't exist
-          if (!existsSync(assetsDir)) {
-            await mkdir(assetsDir, { recursive: true })
-          }
-        } else {
-          // If file is not saved, use temp assets directory
-          await ensureTempAssetDir(tabId)
-          assetsDir = getTempAssetDir(tabId)
+  // Handle saving image bytes under a name and folder the user picks
+  ipcMain.handle(
+    'file:saveImageAs',
+    async (
+      _event,
+      data: Uint8Array,
+      suggestedName: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null = null,
+      assetPath: AssetPathOptions | null = null
+    ) => {
+      try {
+        // Processed first, so the dialog suggests the converted format
+        const image = await processAddedImage(Buffer.from(data), suggestedName, processing)
+        const target = await getAssetTarget(image.data, image.fileName, tabId, markdownFilePath, assetPath)
+        const extension = path.extname(image.fileName).slice(1)
+        const result = await dialog.showSaveDialog({
+          title: 'Save Pasted Image',
+          defaultPath: target.filePath,
+          filters: [
+            { name: 'Images', extensions: [extension] },
+            { name: 'All Files', extensions: ['*'] }
+          ]
+        })
+
+        if (result.canceled || !result.filePath) {
+          return null
         }
 
-        // Get the image filename
-        const imageExt = path.extname(sourcePath)
-        let imageBasename = path.basename(sourcePath, imageExt)
-
-        // Sanitize filename
-        imageBasename = imageBasename.replace(/[^a-zA-Z0-9-_]/g, '_')
+        await writeFile(result.filePath, image.data)
+        return getImageLinkPath(result.filePath, tabId, markdownFilePath)
+      } catch (error) {
+        console.error('Error saving image:', error)
+        return null
+      }
+    }
+  )
 
-        // Check for conflicts and add number suffix if needed
-        let targetFilename = imageBasename + imageExt
-        let counter = 1
-        while (existsSync(path.join(assetsDir, targetFilename))) {
-          targetFilename = `${imageBasename}_${counter}${imageExt}`
-          counter++
+  // Handle reading the size and format of an image linked from a document
+  ipcMain.handle(
+    'file:getImageInfo',
+    async (_event, src: string, tabId: string, markdownFilePath: string | null) => {
+      try {
+        const imagePath = await resolveAssetPath(src, tabId, markdownFilePath)
+        if (!imagePath || !isProcessableImage(imagePath)) {
+          return null
         }
+        const info: ImageInfo = await getImageInfo(await readFile(imagePath))
+        return info
+      } catch (error) {
+        console.error('Error reading image:', error)
+        return null
+      }
+    }
+  )
 
-        const targetPath = path.join(assetsDir, targetFilename)
+  // Handle rewriting an image linked from a document at a new size or format.
+  // Returns the link to use: the same one, or a new file name when the format changed.
+  // Other documents may link to the image too, so a resize in place can be undone
+  // from the file tree, and a conversion leaves the original file where it is.
+  ipcMain.handle(
+    'file:resizeImage',
+    async (_event, src: string, tabId: string, markdownFilePath: string | null, options: ImageProcessingOptions) => {
+      try {
+        const imagePath = await resolveAssetPath(src, tabId, markdownFilePath)
+        if (!imagePath || !isProcessableImage(imagePath)) {
+          return null
+        }
 
-        // Copy the image
-        await copyFile(sourcePath, targetPath)
+        const fileName = path.basename(imagePath)
+        const image = await processImage(await readFile(imagePath), fileName, options)
+        if (image.fileName === fileName) {
+          await overwriteFile(imagePath, image.data, 'Undo Resize Image')
+          return src
+        }
 
-        // Return relative path for markdown
-        return `./assets/${targetFilename}`
+        const imageDir = path.dirname(imagePath)
+        const targetPath = path.join(imageDir, getAvailableAssetName(imageDir, image.fileName))
+        await writeFile(targetPath, image.data)
+        return getImageLinkPath(targetPath, tabId, markdownFilePath)
       } catch (error) {
-        console.error('Error copying image:', error)
-        dialog.showErrorBox('Image Copy Error', `Could not copy image: ${error}`)
+        console.error('Error resizing image:', error)
+        dialog.showErrorBox('Resize Image Error', `Could not resize image: ${error}`)
         return null
       }
     }
@@ -241,23 +457,66 @@ export function registerFileHandlers(): void {
     }
   )
 
+  // File tree operations (all undoable)
+  ipcMain.handle(
+    'file:createEntry',
+    async (_event, parentDir: string, name: string, isDirectory: boolean) =>
+      runFileOperation(() => createEntry(parentDir, name, isDirectory))
+  )
+
+  ipcMain.handle('file:renameEntry', async (_event, filePath: string, newName: string) =>
+    runFileOperation(() => renameEntry(filePath, newName))
+  )
+
+  ipcMain.handle('file:moveEntry', async (_event, filePath: string, targetDir: string) =>
+    runFileOperation(() => moveToFolder(filePath, targetDir))
+  )
+
+  ipcMain.handle('file:duplicateEntry', async (_event, filePath: string) =>
+    runFileOperation(() => duplicateEntry(filePath))
+  )
+
+  ipcMain.handle('file:trashEntry', async (_event, filePath: string) =>
+    runFileOperation(() => trashEntry(filePath))
+  )
+
+  ipcMain.handle('file:undoOperation', async () => runFileOperation(undoLastOperation))
+
+  ipcMain.handle('file:getUndoLabel', async () => getFileOperationUndoLabel())
+
+  // Show a file or folder in the system file manager
+  ipcMain.handle('file:revealInFolder', async (_event, filePath: string) => {
+    shell.showItemInFolder(filePath)
+    return true
+  })
+
   // Handle auto-save
   ipcMain.handle(
     'file:autoSave',
-    async (_event, tabId: string, content: string, filePath: string | null) => {
+    async (event, tabId: string, content: string, filePath: string | null) => {
       try {
         let savePath: string
 
         if (filePath) {
+          // Never auto-save over changes made by another program
+          if (await refuseIfChangedOnDisk(event.sender, filePath)) {
+            return null
+          }
+
           // If file has a path, save to that location
           savePath = filePath
+          await recordHistory(event.sender, filePath, content, 'autoSave')
         } else {
           // If file doesn't have a path, save to temp directory
           await ensureTempDir(tabId)
           savePath = getTempDraftPath(tabId)
         }
 
-        await writeFile(savePath, content, 'utf-8')
+        // Drafts in the temp directory are always UTF-8
+        await writeTextFile(savePath, content)
+        if (filePath) {
+          await recordLoadedVersion(filePath, content)
+        }
         return savePath
       } catch (error) {
         console.error('Error during auto-save:', error)
@@ -266,22 +525,62 @@ export function registerFileHandlers(): void {
     }
   )
 
+  // Poll a file open in a tab and notify the renderer when it changes on disk
+  ipcMain.handle('file:watchExternal', async (event, filePath: string) => {
+    const sender = event.sender
+    watchOpenFile(filePath, (change) => {
+      if (!sender.isDestroyed()) {
+        sender.send('file:externalChange', change)
+      }
+    })
+    return true
+  })
+
+  // Stop polling a file when its tab closes
+  ipcMain.handle('file:unwatchExternal', async (_event, filePath: string) => {
+    unwatchOpenFile(filePath)
+    return true
+  })
+
+  // Accept the on-disk version as the tab's new base (reload, take theirs, keep mine)
+  ipcMain.handle(
+    'file:acceptDiskVersion',
+    async (_event, filePath: string, diskHash: string | null) => {
+      try {
+        return await acceptDiskVersion(filePath, diskHash)
+      } catch (error) {
+        console.error('Error accepting disk version:', error)
+        return false
+      }
+    }
+  )
+
   // Handle getting temp directory path
   ipcMain.handle('file:getTempDir', async (_event, tabId: string) => {
     return getTempDir(tabId)
   })
 
-  // Handle moving temp files to saved location
-  ipcMain.handle('file:moveTempFiles', async (_event, tabId: string, savedPath: string) => {
-    try {
-      await moveTempToSaved(tabId, savedPath)
-      return true
-    } catch (error) {
-      console.error('Error moving temp files:', error)
-      dialog.showErrorBox('File Migration Error', `Could not move temporary files: ${error}`)
-      return false
+  // Handle moving temp files to saved location. Links to moved assets are
+  // rewritten in the saved file; returns its content, or null on failure.
+  ipcMain.handle(
+    'file:moveTempFiles',
+    async (_event, tabId: string, savedPath: string, assetPath: AssetPathOptions | null = null) => {
+      try {
+        const moved = await moveTempToSaved(tabId, savedPath, assetPath)
+        const content = await loadTextFile(savedPath)
+        const updated = rewriteMovedAssetLinks(content, tabId, moved, savedPath)
+        if (updated !== content) {
+          await writeTextFile(savedPath, updated)
+          await recordLoadedVersion(savedPath, updated)
+        }
+        return updated
+      } catch (error) {
+        console.error('Error moving temp files:', error)
+        dialog.showErrorBox('File Migration Error', `Could not move temporary files: ${error}`)
+        return null
+      }
     }
-  })
+  )
 
   // Handle cleanup of temp directory
   ipcMain.handle('file:cleanupTemp', async (_event, tabId: string) => {
@@ -294,27 +593,64 @@ export function registerFileHandlers(): void {
     }
   })
 
-  // Handle reading image as data URL
-  ipcMain.handle('file:readImageAsDataURL', async (_event, imagePath: string) => {
-    try {
-      const imageBuffer = await readFile(imagePath)
-      const ext = path.extname(imagePath).toLowerCase()
-
-      // Determine MIME type
-      const mimeTypes: Record<string, string> = {
-        '.png': 'image/png',
-        '.jpg': 'image/jpeg',
-        '.jpeg': 'image/jpeg',
-        '.gif': 'image/gif',
-        '.svg': 'image/svg+xml',
-        '.webp': 'image/webp'
+  // Resolve an image src from the preview to a wrangle-asset:// URL and watch it for changes
+  ipcMain.handle('file:resolveImage', async (event, src: string, baseDir: string | null) => {
+    const imagePath = resolveImagePath(src, baseDir)
+    if (!imagePath || !(await isAllowedImagePath(imagePath))) {
+      return null
+    }
+
+    const mtimeMs = await stat(imagePath).then((stats) => stats.mtimeMs, () => 0)
+    const sender = event.sender
+    watchAsset(imagePath, mtimeMs, (changedPath, url) => {
+      if (!sender.isDestroyed()) {
+        sender.send('file:assetChanged', { path: changedPath, url })
+      }
+    })
+    const resolved: ResolvedImage = { path: imagePath, url: toAssetUrl(imagePath, mtimeMs) }
+    return resolved
+  })
+
+  // Stop watching an image the preview no longer shows
+  ipcMain.handle('file:releaseImage', async (_event, imagePath: string) => {
+    releaseAsset(imagePath)
+    return true
+  })
+
+  // Choose a custom preview stylesheet; files inside baseDir come back relative to it
+  ipcMain.handle('file:pickStyleSheet', async (_event, baseDir: string | null) => {
+    const result = await dialog.showOpenDialog({
+      properties: ['openFile'],
+      defaultPath: baseDir ?? undefined,
+      filters: [
+        { name: 'Stylesheets', extensions: ['css'] },
+        { name: 'All Files', extensions: ['*'] }
+      ]
+    })
+    if (result.canceled || result.filePaths.length === 0) {
+      return null
+    }
+
+    const filePath = result.filePaths[0]
+    if (baseDir) {
+      const relative = path.relative(baseDir, filePath)
+      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        return relative.split(path.sep).join('/')
       }
+    }
+    return filePath
+  })
 
-      const mimeType = mimeTypes[ext] || 'image/png'
-      const base64 = imageBuffer.toString('base64')
-      return `data:${mimeType};base64,${base64}`
+  // Read a custom preview stylesheet; relative paths resolve against baseDir
+  ipcMain.handle('file:readStyleSheet', async (_event, filePath: string, baseDir: string | null) => {
+    const resolved = baseDir ? path.resolve(baseDir, filePath) : filePath
+    if (!path.isAbsolute(resolved)) {
+      return null
+    }
+    try {
+      return await readFile(resolved, 'utf-8')
     } catch (error) {
-      console.error('Error reading image as data URL:', error)
+      console.error('Error reading stylesheet:', error)
       return null
     }
   })
@@ -0,0 +1,52 @@
+import { ipcMain } from 'electron'
+import { getGitStatus, getHeadContent, stageFiles, unstageFiles, commitStaged } from '../utils/git'
+import { readTextFile } from '../utils/text-encoding'
+
+export function registerGitHandlers(): void {
+  // Status of the files in a workspace folder, or null outside a repository
+  ipcMain.handle('git:status', async (_event, rootPath: string) => {
+    try {
+      return await getGitStatus(rootPath)
+    } catch (error) {
+      console.error(`Error reading git status of ${rootPath}:`, error)
+      return null
+    }
+  })
+
+  // Committed content of a file, for the diff gutter and diff view
+  ipcMain.handle('git:headContent', async (_event, filePath: string) => getHeadContent(filePath))
+
+  // Working copy of a file for the diff view; unlike file:readByPath it is not
+  // tracked for external changes, since no tab holds it
+  ipcMain.handle('git:workingContent', async (_event, filePath: string) => {
+    try {
+      return (await readTextFile(filePath)).content
+    } catch {
+      return null
+    }
+  })
+
+  ipcMain.handle('git:stage', async (_event, rootPath: string, paths: string[]) => {
+    try {
+      await stageFiles(rootPath, paths)
+      return true
+    } catch (error) {
+      console.error('Error staging files:', error)
+      return false
+    }
+  })
+
+  ipcMain.handle('git:unstage', async (_event, rootPath: string, paths: string[]) => {
+    try {
+      await unstageFiles(rootPath, paths)
+      return true
+    } catch (error) {
+      console.error('Error unstaging files:', error)
+      return false
+    }
+  })
+
+  ipcMain.handle('git:commit', async (_event, rootPath: string, message: string) =>
+    commitStaged(rootPath, message)
+  )
+}
@@ -0,0 +1,41 @@
+import { ipcMain } from 'electron'
+import { listSnapshots, readSnapshot, restoreSnapshot } from '../utils/local-history'
+
+export function registerHistoryHandlers(): void {
+  // List the local history snapshots of a file, newest first
+  ipcMain.handle('history:list', async (_event, filePath: string) => {
+    try {
+      return await listSnapshots(filePath)
+    } catch (error) {
+      console.error('Error listing local history:', error)
+      return []
+    }
+  })
+
+  // Read one snapshot, for the diff view
+  ipcMain.handle('history:read', async (_event, filePath: string, snapshotId: string) => {
+    try {
+      return await readSnapshot(filePath, snapshotId)
+    } catch (error) {
+      console.error('Error reading snapshot:', error)
+      return null
+    }
+  })
+
+  // Keep the current content as a snapshot, then return the one to restore
+  ipcMain.handle(
+    'history:restore',
+    async (event, filePath: string, snapshotId: string, currentContent: string) => {
+      try {
+        const content = await restoreSnapshot(filePath, snapshotId, currentContent)
+        if (content !== null && !event.sender.isDestroyed()) {
+          event.sender.send('history:changed', filePath)
+        }
+        return content
+      } catch (error) {
+        console.error('Error restoring snapshot:', error)
+        return null
+      }
+    }
+  )
+}
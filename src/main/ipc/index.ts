@@ -3,6 +3,9 @@ import { registerWindowHandlers } from './window-handler'
 import { registerSettingsHandlers } from './settings-handler'
 import { registerWorkspaceHandlers } from './workspace-handler'
 import { registerCrashRecoveryHandlers } from './crash-recovery-handler'
+import { registerHistoryHandlers } from './history-handler'
+import { registerGitHandlers } from './git-handler'
+import { registerSpellHandlers } from './spell-handler'
 
 export function registerAllHandlers(): void {
   registerFileHandlers()
@@ -10,4 +13,7 @@ export function registerAllHandlers(): void {
   registerSettingsHandlers()
   registerWorkspaceHandlers()
   registerCrashRecoveryHandlers()
+  registerHistoryHandlers()
+  registerGitHandlers()
+  registerSpellHandlers()
 }
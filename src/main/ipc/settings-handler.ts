@@ -1,5 +1,15 @@
 import { ipcMain } from 'electron'
 import Store from 'electron-store'
+import {
+  PdfExportOptions,
+  DEFAULT_PDF_EXPORT_OPTIONS,
+  EditorOptions,
+  DEFAULT_EDITOR_OPTIONS,
+  PreviewTypography,
+  DEFAULT_PREVIEW_TYPOGRAPHY,
+  ImageSettings,
+  DEFAULT_IMAGE_SETTINGS
+} from '../../shared/types'
 
 // Settings schema definition
 interface SettingsSchema {
@@ -15,9 +25,18 @@ interface SettingsSchema {
     previewSyncLocked: boolean
     splitRatio: number
   }
-  editor: {
+  editor: EditorOptions & {
     vimMode: boolean
   }
+  preview: {
+    htmlSanitization: 'strict' | 'github'
+    typography: PreviewTypography
+    customCssPath: string // Stylesheet applied to every preview; empty for none
+  }
+  images: ImageSettings
+  export: {
+    pdf: PdfExportOptions
+  }
 }
 
 // Default settings values
@@ -35,7 +54,17 @@ const defaults: SettingsSchema = {
     splitRatio: 0.5
   },
   editor: {
+    ...DEFAULT_EDITOR_OPTIONS,
     vimMode: false
+  },
+  preview: {
+    htmlSanitization: 'github',
+    typography: DEFAULT_PREVIEW_TYPOGRAPHY,
+    customCssPath: ''
+  },
+  images: DEFAULT_IMAGE_SETTINGS,
+  export: {
+    pdf: DEFAULT_PDF_EXPORT_OPTIONS
   }
 }
 
@@ -0,0 +1,37 @@
+import { ipcMain } from 'electron'
+import { checkWords, suggestWords, addWord } from '../utils/spell-checker'
+
+export function registerSpellHandlers(): void {
+  // Return the words not found in the dictionary for lang or the custom dictionaries
+  ipcMain.handle(
+    'spell:check',
+    async (_event, words: string[], lang: string | null, workspaceRoot: string | null) => {
+      try {
+        return await checkWords(words, lang, workspaceRoot)
+      } catch (error) {
+        console.error('Error checking spelling:', error)
+        return null
+      }
+    }
+  )
+
+  ipcMain.handle('spell:suggest', async (_event, word: string, lang: string | null) => {
+    try {
+      return await suggestWords(word, lang)
+    } catch (error) {
+      console.error('Error suggesting spellings:', error)
+      return []
+    }
+  })
+
+  // Add to the workspace dictionary, or to the user dictionary when workspaceRoot is null
+  ipcMain.handle('spell:addWord', async (_event, word: string, workspaceRoot: string | null) => {
+    try {
+      await addWord(word, workspaceRoot)
+      return true
+    } catch (error) {
+      console.error('Error adding word to dictionary:', error)
+      return false
+    }
+  })
+}
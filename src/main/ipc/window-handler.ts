@@ -1,5 +1,36 @@
 import { ipcMain, BrowserWindow, dialog } from 'electron'
 import { writeFile } from 'fs/promises'
+import { DocumentExportFormat, ExportDocument, PdfExportOptions } from '../../shared/types'
+import { EXPORT_FORMATS, exportDocument } from '../export'
+import { printHtmlToPdf } from '../export/pdf-writer'
+
+// Windows the renderer has cleared to close
+const closeConfirmed = new WeakSet<BrowserWindow>()
+
+// Tests close the app with documents left unsaved
+let closeGuardDisabled = process.env.NODE_ENV === 'test'
+
+/**
+ * Ask the renderer about unsaved changes before a window closes. It closes
+ * the window again through window:close once they are saved or discarded.
+ */
+export function guardWindowClose(window: BrowserWindow): void {
+  window.on('close', (event) => {
+    // A crashed renderer can't answer
+    if (closeGuardDisabled || closeConfirmed.has(window) || window.webContents.isCrashed()) {
+      return
+    }
+    event.preventDefault()
+    window.webContents.send('window:closeRequested')
+  })
+}
+
+/**
+ * Let windows close without asking, e.g. when the process is told to stop
+ */
+export function disableCloseGuard(): void {
+  closeGuardDisabled = true
+}
 
 export function registerWindowHandlers(): void {
   ipcMain.on('window:minimize', (event) => {
@@ -16,9 +47,13 @@ export function registerWindowHandlers(): void {
     }
   })
 
+  // The renderer has already checked for unsaved changes
   ipcMain.on('window:close', (event) => {
     const window = BrowserWindow.fromWebContents(event.sender)
-    window?.close()
+    if (window) {
+      closeConfirmed.add(window)
+      window.close()
+    }
   })
 
   // Zoom handlers
@@ -61,7 +96,7 @@ export function registerWindowHandlers(): void {
 
   ipcMain.handle(
     'window:exportPdf',
-    async (event, html: string, title: string) => {
+    async (event, html: string, title: string, options: PdfExportOptions, baseDir: string | null) => {
       const parentWindow = BrowserWindow.fromWebContents(event.sender)
       if (!parentWindow) return null
 
@@ -73,42 +108,13 @@ export function registerWindowHandlers(): void {
 
       if (result.canceled || !result.filePath) return null
 
-      // Create a hidden window to render the HTML for PDF export
-      const hiddenWindow = new BrowserWindow({
-        show: false,
-        width: 816, // US Letter width at 96 DPI
-        height: 1056, // US Letter height at 96 DPI
-        webPreferences: {
-          offscreen: true
-        }
-      })
-
       try {
-        // Load the HTML content
-        await hiddenWindow.loadURL(
-          `data:text/html;charset=utf-8,${encodeURIComponent(html)}`
-        )
-
-        // Wait for content to render
-        await new Promise((resolve) => setTimeout(resolve, 500))
-
-        const pdfBuffer = await hiddenWindow.webContents.printToPDF({
-          printBackground: true,
-          margins: {
-            top: 0.5,
-            bottom: 0.5,
-            left: 0.5,
-            right: 0.5
-          }
-        })
-
+        const pdfBuffer = await printHtmlToPdf(html, options, baseDir)
         await writeFile(result.filePath, pdfBuffer)
         return result.filePath
       } catch (error) {
         console.error('Failed to export PDF:', error)
         return null
-      } finally {
-        hiddenWindow.destroy()
       }
     }
   )
@@ -136,4 +142,29 @@ export function registerWindowHandlers(): void {
       }
     }
   )
+
+  ipcMain.handle(
+    'window:exportDocument',
+    async (event, format: DocumentExportFormat, document: ExportDocument) => {
+      const parentWindow = BrowserWindow.fromWebContents(event.sender)
+      const exportFormat = EXPORT_FORMATS[format]
+      if (!parentWindow || !exportFormat) return null
+
+      const result = await dialog.showSaveDialog(parentWindow, {
+        title: exportFormat.title,
+        defaultPath: `${document.name}.${exportFormat.extension}`,
+        filters: [{ name: exportFormat.name, extensions: [exportFormat.extension] }]
+      })
+
+      if (result.canceled || !result.filePath) return null
+
+      try {
+        await exportDocument(format, document, result.filePath)
+        return result.filePath
+      } catch (error) {
+        console.error(`Failed to export ${exportFormat.extension.toUpperCase()}:`, error)
+        return null
+      }
+    }
+  )
 }
@@ -1,4 +1,4 @@
-import { ipcMain, dialog } from 'electron'
+import { ipcMain, dialog, shell } from 'electron'
 import {
   loadWorkspaceConfig,
   saveWorkspaceConfig,
@@ -16,10 +16,23 @@ import {
   saveDefaultSession,
   AppSession
 } from '../utils/workspace-manager'
-import { WorkspaceConfig, WorkspaceSession } from '../../shared/workspace-types'
+import { watchFolder, unwatchFolder } from '../utils/folder-watcher'
+import { allowAssetRoot } from '../utils/image-resolver'
+import { searchWorkspace, previewReplace, applyReplace } from '../utils/workspace-search'
+import { listWikiPages, getBacklinks } from '../utils/wiki-index'
+import { previewLinkUpdates } from '../utils/link-refactor'
+import { checkWorkspaceLinks } from '../utils/link-checker'
+import { scanWorkspaceAssets } from '../utils/asset-scanner'
+import {
+  WorkspaceConfig,
+  WorkspaceSession,
+  WorkspaceSearchQuery,
+  PathMove,
+  LinkCheckOptions
+} from '../../shared/workspace-types'
 
-// File watching will be implemented in Phase 2 with the file tree UI
-// For now, the renderer can manually refresh when needed
+// Searches still running, by renderer-chosen search ID
+const activeSearches = new Map<number, { cancelled: boolean }>()
 
 export function registerWorkspaceHandlers(): void {
   // Open folder dialog and return workspace info
@@ -48,6 +61,7 @@ export function registerWorkspaceHandlers(): void {
         config.lastOpenedAt = Date.now()
         await saveWorkspaceConfig(folderPath, config)
       }
+      allowAssetRoot(folderPath)
 
       return {
         path: folderPath,
@@ -63,7 +77,11 @@ export function registerWorkspaceHandlers(): void {
   // Load workspace config from path
   ipcMain.handle('workspace:loadConfig', async (_event, folderPath: string) => {
     try {
-      return await loadWorkspaceConfig(folderPath)
+      const config = await loadWorkspaceConfig(folderPath)
+      if (config) {
+        allowAssetRoot(folderPath)
+      }
+      return config
     } catch (error) {
       console.error(`Error loading workspace config for ${folderPath}:`, error)
       return null
@@ -129,17 +147,158 @@ export function registerWorkspaceHandlers(): void {
     }
   )
 
-  // Stub for folder watching - will be implemented in Phase 2
-  ipcMain.handle('workspace:watchFolder', async (_event, _folderPath: string) => {
-    // File watching will be added in Phase 2 with the file tree UI
+  // Watch a folder recursively and push batched changes to the requesting window
+  ipcMain.handle(
+    'workspace:watchFolder',
+    async (event, folderPath: string, showHidden?: boolean) => {
+      const sender = event.sender
+      allowAssetRoot(folderPath)
+      try {
+        return await watchFolder(folderPath, !!showHidden, (changes) => {
+          if (sender.isDestroyed()) {
+            unwatchFolder(folderPath)
+            return
+          }
+          sender.send('workspace:folderChanged', folderPath, changes)
+        })
+      } catch (error) {
+        console.error(`Error watching folder ${folderPath}:`, error)
+        return false
+      }
+    }
+  )
+
+  // Stop watching a folder
+  ipcMain.handle('workspace:unwatchFolder', async (_event, folderPath: string) => {
+    unwatchFolder(folderPath)
     return true
   })
 
-  // Stub for stopping folder watch
-  ipcMain.handle('workspace:unwatchFolder', async (_event, _folderPath: string) => {
+  // Search all files in a workspace; each file with hits is streamed as it is found
+  ipcMain.handle(
+    'workspace:search',
+    async (event, folderPath: string, query: WorkspaceSearchQuery, searchId: number) => {
+      const sender = event.sender
+      const state = { cancelled: false }
+      activeSearches.set(searchId, state)
+      try {
+        return await searchWorkspace(
+          folderPath,
+          query,
+          (result) => {
+            if (!sender.isDestroyed()) {
+              sender.send('workspace:searchResult', searchId, result)
+            }
+          },
+          () => state.cancelled || sender.isDestroyed()
+        )
+      } catch (error) {
+        console.error(`Error searching workspace ${folderPath}:`, error)
+        return { fileCount: 0, matchCount: 0, limitHit: false, cancelled: false, error: String(error) }
+      } finally {
+        activeSearches.delete(searchId)
+      }
+    }
+  )
+
+  // Stop a running search
+  ipcMain.handle('workspace:cancelSearch', async (_event, searchId: number) => {
+    const state = activeSearches.get(searchId)
+    if (state) {
+      state.cancelled = true
+    }
     return true
   })
 
+  // Compute replace-all results for review without writing
+  ipcMain.handle(
+    'workspace:previewReplace',
+    async (_event, query: WorkspaceSearchQuery, replacement: string, filePaths: string[]) => {
+      try {
+        return await previewReplace(query, replacement, filePaths)
+      } catch (error) {
+        console.error('Error previewing replace:', error)
+        return []
+      }
+    }
+  )
+
+  // Write reviewed replace-all results
+  ipcMain.handle(
+    'workspace:applyReplace',
+    async (_event, edits: { path: string; hash: string; content: string }[]) => {
+      return applyReplace(edits)
+    }
+  )
+
+  // List pages for [[wiki link]] resolution and autocomplete
+  ipcMain.handle('workspace:listWikiPages', async (_event, folderPath: string) => {
+    try {
+      return await listWikiPages(folderPath)
+    } catch (error) {
+      console.error(`Error listing wiki pages in ${folderPath}:`, error)
+      return []
+    }
+  })
+
+  // Find files whose wiki links resolve to filePath
+  ipcMain.handle('workspace:getBacklinks', async (_event, folderPath: string, filePath: string) => {
+    try {
+      return await getBacklinks(folderPath, filePath)
+    } catch (error) {
+      console.error(`Error finding backlinks to ${filePath}:`, error)
+      return []
+    }
+  })
+
+  // Compute link updates for files and folders that were moved, without writing
+  ipcMain.handle('workspace:previewLinkUpdates', async (_event, folderPath: string, moves: PathMove[]) => {
+    try {
+      return await previewLinkUpdates(folderPath, moves)
+    } catch (error) {
+      console.error(`Error previewing link updates in ${folderPath}:`, error)
+      return []
+    }
+  })
+
+  // Check links, images and anchors in every markdown file
+  ipcMain.handle('workspace:checkLinks', async (_event, folderPath: string, options: LinkCheckOptions) => {
+    try {
+      return await checkWorkspaceLinks(folderPath, options)
+    } catch (error) {
+      console.error(`Error checking links in ${folderPath}:`, error)
+      return { fileCount: 0, linkCount: 0, problems: [] }
+    }
+  })
+
+  // Find asset files no markdown file links to, and links to missing files
+  ipcMain.handle(
+    'workspace:scanAssets',
+    async (_event, folderPath: string, assetPathTemplate: string, openDocuments: Record<string, string>) => {
+      try {
+        return await scanWorkspaceAssets(folderPath, assetPathTemplate, openDocuments)
+      } catch (error) {
+        console.error(`Error scanning assets in ${folderPath}:`, error)
+        return { fileCount: 0, assetCount: 0, orphans: [], missing: [] }
+      }
+    }
+  )
+
+  // Move asset files in a workspace to the trash; returns the ones that were moved
+  ipcMain.handle('workspace:trashAssets', async (_event, folderPath: string, filePaths: string[]) => {
+    const trashed: string[] = []
+    for (const filePath of filePaths) {
+      if (!isInsideWorkspace(filePath, folderPath)) continue
+      try {
+        await shell.trashItem(filePath)
+        trashed.push(filePath)
+      } catch (error) {
+        console.error(`Error moving ${filePath} to the trash:`, error)
+      }
+    }
+    return trashed
+  })
+
   // Create .wrangle directory for a folder
   ipcMain.handle('workspace:createWorkspaceDir', async (_event, folderPath: string) => {
     try {
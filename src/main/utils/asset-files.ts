@@ -0,0 +1,109 @@
+import { mkdir } from 'fs/promises'
+import { existsSync } from 'fs'
+import * as path from 'path'
+import { AssetPathOptions } from '../../shared/types'
+import { ensureTempAssetDir, getTempAssetDir, getTempDir } from './temp-dir-manager'
+import { resolveImagePath, isAllowedImagePath } from './image-resolver'
+import { resolveAssetTarget, AssetTarget } from './asset-path-template'
+import { findLinkReferences } from './markdown-links'
+
+/**
+ * Get the file an image added to a document is written to, and create its
+ * folder: where the asset path template puts it for a saved file, or the
+ * tab's temp assets folder (moved by the template on Save As)
+ */
+export async function getAssetTarget(
+  data: Buffer,
+  fileName: string,
+  tabId: string,
+  markdownFilePath: string | null,
+  options: AssetPathOptions | null
+): Promise<AssetTarget> {
+  if (markdownFilePath) {
+    const target = await resolveAssetTarget(data, fileName, markdownFilePath, options)
+    await mkdir(path.dirname(target.filePath), { recursive: true })
+    return target
+  }
+
+  await ensureTempAssetDir(tabId)
+  const assetsDir = getTempAssetDir(tabId)
+  return { filePath: path.join(assetsDir, getAvailableAssetName(assetsDir, fileName)), existing: false }
+}
+
+/**
+ * Get a sanitized file name that doesn't exist yet in the assets folder,
+ * adding a number suffix on conflicts
+ */
+export function getAvailableAssetName(assetsDir: string, fileName: string): string {
+  const imageExt = path.extname(fileName)
+  const imageBasename = path.basename(fileName, imageExt).replace(/[^a-zA-Z0-9-_]/g, '_')
+
+  let targetFilename = imageBasename + imageExt
+  let counter = 1
+  while (existsSync(path.join(assetsDir, targetFilename))) {
+    targetFilename = `${imageBasename}_${counter}${imageExt}`
+    counter++
+  }
+  return targetFilename
+}
+
+/**
+ * Get the markdown link to an image saved at a path the user chose: relative
+ * to the document's folder, or absolute when an unsaved tab's image is outside
+ * its temp folder (the relative link would break once the tab is saved)
+ */
+export function getImageLinkPath(imagePath: string, tabId: string, markdownFilePath: string | null): string {
+  const documentDir = markdownFilePath ? path.dirname(markdownFilePath) : getTempDir(tabId)
+  const relativePath = path.relative(documentDir, imagePath)
+  if (path.isAbsolute(relativePath) || (!markdownFilePath && relativePath.startsWith('..'))) {
+    return encodeURI(imagePath.replace(/\\/g, '/'))
+  }
+
+  const linkPath = encodeURI(relativePath.split(path.sep).join('/'))
+  return linkPath.startsWith('../') ? linkPath : `./${linkPath}`
+}
+
+/**
+ * Get the local file an image link in a document points to; null for remote
+ * images and files outside the folders images may be read from
+ */
+export async function resolveAssetPath(
+  src: string,
+  tabId: string,
+  markdownFilePath: string | null
+): Promise<string | null> {
+  const documentDir = markdownFilePath ? path.dirname(markdownFilePath) : getTempDir(tabId)
+  const imagePath = resolveImagePath(src, documentDir)
+  return imagePath && (await isAllowedImagePath(imagePath)) ? imagePath : null
+}
+
+/**
+ * Point the links in a newly saved document at the files its temp assets
+ * were moved to. Links were written relative to the tab's temp folder.
+ */
+export function rewriteMovedAssetLinks(
+  content: string,
+  tabId: string,
+  moved: Map<string, string>,
+  markdownFilePath: string
+): string {
+  const tempDir = getTempDir(tabId)
+  let result = content
+
+  // Back to front, so earlier offsets stay valid
+  for (const reference of findLinkReferences(content).reverse()) {
+    const angled = reference.url.startsWith('<')
+    const url = angled ? reference.url.slice(1, -1) : reference.url
+    const sourcePath = resolveImagePath(url, tempDir)
+    const targetPath = sourcePath && moved.get(sourcePath)
+    if (!targetPath) continue
+
+    const link = getImageLinkPath(targetPath, tabId, markdownFilePath)
+    if (link === url) continue
+    result =
+      result.slice(0, reference.start) +
+      (angled ? `<${link}>` : link) +
+      result.slice(reference.start + reference.url.length)
+  }
+  return result
+}
@@ -0,0 +1,102 @@
+import { createHash } from 'crypto'
+import { readFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import * as path from 'path'
+import { AssetPathOptions, DEFAULT_ASSET_PATH_TEMPLATE, ASSET_PATH_VARIABLES } from '../../shared/types'
+import { isInsideWorkspace } from './workspace-manager'
+
+const TEMPLATE_VARIABLE_PATTERN = /\$\{([^}]*)\}/g
+
+export interface AssetTarget {
+  filePath: string
+  existing: boolean // An identical file is already there (content-hash names only)
+}
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9-_]/g, '_')
+}
+
+/**
+ * Fill in an asset path template; null when it uses a variable that doesn't exist
+ */
+export function expandAssetPathTemplate(template: string, values: Record<string, string>): string | null {
+  let valid = true
+  const expanded = template.replace(TEMPLATE_VARIABLE_PATTERN, (match, name: string) => {
+    if (!ASSET_PATH_VARIABLES.includes(name)) {
+      valid = false
+      return match
+    }
+    return values[name]
+  })
+  return valid ? expanded : null
+}
+
+// Expand a template for one image into an absolute path, or null when the
+// template is unusable or leaves the folders it may write to
+function getTemplatePath(template: string, values: Record<string, string>, options: AssetPathOptions | null): string | null {
+  const expanded = expandAssetPathTemplate(template, values)
+  if (!expanded || /[\\/]$/.test(expanded)) {
+    return null
+  }
+
+  const filePath = path.resolve(values.docdir, expanded)
+  if (options?.confineToWorkspace) {
+    const root = options.workspaceRoot
+    if (!root || path.isAbsolute(path.relative(root, filePath)) || !isInsideWorkspace(filePath, root)) {
+      return null
+    }
+  }
+  return filePath
+}
+
+/**
+ * Get the path an image added to a saved document is written to, following
+ * the asset path template. Name conflicts get a number suffix; with ${hash} in
+ * the template, an existing file with the same bytes is reused instead.
+ * Templates that can't be used fall back to assets/ next to the document.
+ */
+export async function resolveAssetTarget(
+  data: Buffer,
+  fileName: string,
+  markdownFilePath: string,
+  options: AssetPathOptions | null,
+  date: Date = new Date()
+): Promise<AssetTarget> {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const extension = path.extname(fileName)
+  const docdir = path.dirname(markdownFilePath)
+  const template = options?.template.trim() || DEFAULT_ASSET_PATH_TEMPLATE
+  const usesHash = template.includes('${hash}')
+
+  const values: Record<string, string> = {
+    docdir,
+    docname: sanitizeName(path.basename(markdownFilePath, path.extname(markdownFilePath))),
+    workspace: options?.workspaceRoot ?? docdir,
+    name: sanitizeName(path.basename(fileName, extension)),
+    ext: extension.slice(1),
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    hash: usesHash ? createHash('sha256').update(data).digest('hex').slice(0, 8) : ''
+  }
+
+  const filePath =
+    getTemplatePath(template, values, options) ?? getTemplatePath(DEFAULT_ASSET_PATH_TEMPLATE, values, null)!
+
+  if (!existsSync(filePath)) {
+    return { filePath, existing: false }
+  }
+  if (usesHash && data.equals(await readFile(filePath))) {
+    return { filePath, existing: true }
+  }
+
+  const targetDir = path.dirname(filePath)
+  const targetExt = path.extname(filePath)
+  const targetBasename = path.basename(filePath, targetExt)
+  let counter = 1
+  let candidate = filePath
+  while (existsSync(candidate)) {
+    candidate = path.join(targetDir, `${targetBasename}_${counter}${targetExt}`)
+    counter++
+  }
+  return { filePath: candidate, existing: false }
+}
@@ -0,0 +1,188 @@
+import { protocol } from 'electron'
+import { watchFile, unwatchFile } from 'fs'
+import { readFile, stat } from 'fs/promises'
+import { extname } from 'path'
+import { isAllowedImagePath } from './image-resolver'
+
+export const ASSET_PROTOCOL = 'wrangle-asset'
+
+// How often images shown in the preview are polled for changes
+const POLL_INTERVAL_MS = 1000
+
+// Total size of image data kept in memory, and the largest single image cached
+const CACHE_LIMIT_BYTES = 64 * 1024 * 1024
+const CACHE_ENTRY_LIMIT_BYTES = 8 * 1024 * 1024
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon'
+}
+
+interface CachedAsset {
+  mtimeMs: number
+  data: Buffer
+}
+
+interface WatchedAsset {
+  mtimeMs: number
+  refCount: number
+}
+
+type AssetChangeListener = (filePath: string, url: string) => void
+
+// Least recently used first
+const cache = new Map<string, CachedAsset>()
+let cacheBytes = 0
+
+const watchedAssets = new Map<string, WatchedAsset>()
+
+/**
+ * Register the scheme as standard and fetchable; must run before the app is ready
+ */
+export function registerAssetScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    { scheme: ASSET_PROTOCOL, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+  ])
+}
+
+/**
+ * URL the preview loads a local image from. The version changes with the
+ * file's modification time, so an edited image is never served from cache.
+ */
+export function toAssetUrl(filePath: string, mtimeMs: number): string {
+  return `${ASSET_PROTOCOL}://local/${encodeURIComponent(filePath)}?v=${Math.floor(mtimeMs)}`
+}
+
+/**
+ * File path an asset URL points at, or null for any other URL
+ */
+export function fromAssetUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url)
+    if (parsed.protocol !== `${ASSET_PROTOCOL}:`) return null
+    return decodeURIComponent(parsed.pathname.slice(1))
+  } catch {
+    return null
+  }
+}
+
+function evictCached(filePath: string): void {
+  const cached = cache.get(filePath)
+  if (cached) {
+    cacheBytes -= cached.data.length
+    cache.delete(filePath)
+  }
+}
+
+/**
+ * Read an image, from memory if it hasn't changed since it was last read
+ */
+async function readAsset(filePath: string): Promise<Buffer> {
+  const { mtimeMs } = await stat(filePath)
+  const cached = cache.get(filePath)
+  if (cached && cached.mtimeMs === mtimeMs) {
+    // Move to the most recently used end
+    cache.delete(filePath)
+    cache.set(filePath, cached)
+    return cached.data
+  }
+
+  evictCached(filePath)
+  const data = await readFile(filePath)
+  if (data.length <= CACHE_ENTRY_LIMIT_BYTES) {
+    cache.set(filePath, { mtimeMs, data })
+    cacheBytes += data.length
+    for (const oldest of cache.keys()) {
+      if (cacheBytes <= CACHE_LIMIT_BYTES) break
+      evictCached(oldest)
+    }
+  }
+  return data
+}
+
+async function handleAssetRequest(request: Request): Promise<Response> {
+  const filePath = fromAssetUrl(request.url)
+  if (!filePath || !(await isAllowedImagePath(filePath))) {
+    return new Response(null, { status: 403 })
+  }
+
+  const mimeType = IMAGE_MIME_TYPES[extname(filePath).toLowerCase()]
+  if (!mimeType) {
+    return new Response(null, { status: 415 })
+  }
+
+  try {
+    const data = await readAsset(filePath)
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': mimeType,
+        // Safe to keep: the URL changes when the file does
+        'Cache-Control': 'max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch {
+    return new Response(null, { status: 404 })
+  }
+}
+
+/**
+ * Serve local images to the preview over wrangle-asset://
+ */
+export function registerAssetProtocol(): void {
+  protocol.handle(ASSET_PROTOCOL, handleAssetRequest)
+}
+
+/**
+ * Start (or keep) polling an image shown in the preview; the listener is told
+ * its new URL when it changes, appears or is deleted
+ */
+export function watchAsset(filePath: string, mtimeMs: number, listener: AssetChangeListener): void {
+  const watched = watchedAssets.get(filePath)
+  if (watched) {
+    watched.refCount++
+    return
+  }
+
+  const asset: WatchedAsset = { mtimeMs, refCount: 1 }
+  watchedAssets.set(filePath, asset)
+  watchFile(filePath, { interval: POLL_INTERVAL_MS }, (current) => {
+    if (current.mtimeMs === asset.mtimeMs) return
+    asset.mtimeMs = current.mtimeMs
+    evictCached(filePath)
+    listener(filePath, toAssetUrl(filePath, current.mtimeMs))
+  })
+}
+
+/**
+ * Stop polling an image once nothing shows it any more
+ */
+export function releaseAsset(filePath: string): void {
+  const watched = watchedAssets.get(filePath)
+  if (!watched) return
+
+  watched.refCount--
+  if (watched.refCount <= 0) {
+    unwatchFile(filePath)
+    watchedAssets.delete(filePath)
+  }
+}
+
+/**
+ * Stop polling all images (on app quit)
+ */
+export function unwatchAllAssets(): void {
+  for (const filePath of Array.from(watchedAssets.keys())) {
+    unwatchFile(filePath)
+  }
+  watchedAssets.clear()
+  cache.clear()
+  cacheBytes = 0
+}
@@ -0,0 +1,161 @@
+import { dirname, isAbsolute, join, resolve } from 'path'
+import { readdir, stat } from 'fs/promises'
+import { existsSync } from 'fs'
+import { shouldSkipEntry } from './workspace-manager'
+import { findLinkReferences, decodeUrlPath } from './markdown-links'
+import { toAssetUrl } from './asset-protocol'
+import { readTextFile } from './text-encoding'
+import { AssetScanResult, OrphanedAsset } from '../../shared/workspace-types'
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdown|mkd|mdwn)$/i
+
+// Files the preview can show, so the list can too
+const THUMBNAIL_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|avif|bmp|ico)$/i
+
+// Directories that never contain pages or assets
+const ALWAYS_EXCLUDED = new Set(['node_modules', '.git'])
+
+// Paths are compared case-insensitively where the file system is
+function pathKey(filePath: string): string {
+  return process.platform === 'win32' || process.platform === 'darwin' ? filePath.toLowerCase() : filePath
+}
+
+interface AssetFolders {
+  names: Set<string> // Folders with these names, anywhere in the workspace
+  paths: Set<string> // Folders at these paths
+}
+
+/**
+ * Work out which folders hold assets from the workspace's asset path template:
+ * assets/ always, plus the template's first fixed folder, e.g. images/ for
+ * images/${name}.${ext} or <workspace>/_static for ${workspace}/_static/...
+ */
+function getAssetFolders(rootPath: string, template: string): AssetFolders {
+  const folders: AssetFolders = { names: new Set(['assets']), paths: new Set() }
+  const segments = template.trim().replace(/\\/g, '/').split('/')
+
+  const fromWorkspace = segments[0] === '${workspace}'
+  if (fromWorkspace || segments[0] === '${docdir}') {
+    segments.shift()
+  } else if (isAbsolute(template.trim())) {
+    return folders
+  }
+
+  // The last segment is the file name
+  const folder = segments.length > 1 ? segments[0] : ''
+  if (!folder || folder === '.' || folder === '..' || folder.includes('${')) {
+    return folders
+  }
+
+  if (fromWorkspace) {
+    folders.paths.add(pathKey(join(rootPath, folder)))
+  } else {
+    folders.names.add(folder)
+  }
+  return folders
+}
+
+/**
+ * Find the files in a workspace's asset folders that no markdown file links
+ * to (as a markdown image or link, or an HTML src/href), and the local links
+ * whose files are missing. Documents open with unsaved edits are scanned from
+ * their tab content, so images only the edits link to are not orphans.
+ */
+export async function scanWorkspaceAssets(
+  rootPath: string,
+  template: string,
+  openDocuments: Record<string, string> = {}
+): Promise<AssetScanResult> {
+  const assetFolders = getAssetFolders(rootPath, template)
+  const openContents = new Map(Object.entries(openDocuments).map(([filePath, content]) => [pathKey(filePath), content]))
+  const markdownFiles: string[] = []
+  const assetFiles: string[] = []
+
+  const walk = async (dirPath: string, inAssetFolder: boolean): Promise<void> => {
+    let entries
+    try {
+      entries = await readdir(dirPath, { withFileTypes: true })
+    } catch {
+      return
+    }
+
+    for (const entry of entries) {
+      if (shouldSkipEntry(entry.name) || ALWAYS_EXCLUDED.has(entry.name)) {
+        continue
+      }
+
+      const fullPath = join(dirPath, entry.name)
+      if (entry.isDirectory()) {
+        const isAssetFolder = assetFolders.names.has(entry.name) || assetFolders.paths.has(pathKey(fullPath))
+        await walk(fullPath, inAssetFolder || isAssetFolder)
+      } else if (entry.isFile()) {
+        if (MARKDOWN_EXTENSIONS.test(entry.name)) {
+          markdownFiles.push(fullPath)
+        } else if (inAssetFolder) {
+          assetFiles.push(fullPath)
+        }
+      }
+    }
+  }
+
+  await walk(rootPath, false)
+
+  const result: AssetScanResult = { fileCount: 0, assetCount: assetFiles.length, orphans: [], missing: [] }
+  const referenced = new Set<string>()
+
+  for (const filePath of markdownFiles) {
+    let content = openContents.get(pathKey(filePath))
+    try {
+      content ??= (await readTextFile(filePath)).content
+    } catch (error) {
+      console.error(`Error reading ${filePath} for asset scan:`, error)
+      continue
+    }
+    result.fileCount++
+
+    for (const reference of findLinkReferences(content)) {
+      const url = reference.url.replace(/^<(.*)>$/, '$1')
+      // External URLs, mailto: and other schemes are not files
+      if (!url || url.startsWith('//') || /^[a-z][a-z0-9+.-]*:/i.test(url)) continue
+
+      const urlPath = url.replace(/[?#].*$/, '')
+      if (!urlPath) continue
+
+      // Root-relative links resolve against the workspace folder
+      const decodedPath = decodeUrlPath(urlPath)
+      const targetPath = decodedPath.startsWith('/')
+        ? resolve(rootPath, `.${decodedPath}`)
+        : resolve(dirname(filePath), decodedPath)
+
+      referenced.add(pathKey(targetPath))
+      if (!existsSync(targetPath)) {
+        result.missing.push({
+          path: filePath,
+          lineNumber: reference.lineNumber,
+          column: reference.column,
+          endColumn: reference.column + reference.url.length,
+          url
+        })
+      }
+    }
+  }
+
+  for (const assetPath of assetFiles) {
+    if (referenced.has(pathKey(assetPath))) continue
+    try {
+      const stats = await stat(assetPath)
+      const orphan: OrphanedAsset = {
+        path: assetPath,
+        size: stats.size,
+        thumbnailUrl: THUMBNAIL_EXTENSIONS.test(assetPath) ? toAssetUrl(assetPath, stats.mtimeMs) : null
+      }
+      result.orphans.push(orphan)
+    } catch (error) {
+      console.error(`Error reading ${assetPath} for asset scan:`, error)
+    }
+  }
+
+  result.orphans.sort((a, b) => a.path.localeCompare(b.path))
+  result.missing.sort((a, b) => a.path.localeCompare(b.path) || a.lineNumber - b.lineNumber || a.column - b.column)
+  return result
+}
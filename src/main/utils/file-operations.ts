@@ -0,0 +1,230 @@
+import { shell } from 'electron'
+import { tmpdir } from 'os'
+import { join, dirname, basename, extname, sep } from 'path'
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile, rename, cp, rm, stat } from 'fs/promises'
+import { existsSync } from 'fs'
+import { moveTrackedFiles } from './file-tracker'
+import { moveFileEncodings } from './text-encoding'
+import { moveFileHistory } from './local-history'
+import { FileOperationResult } from '../../shared/types'
+
+// Deleted and overwritten items are copied here first so the operation can be undone
+const UNDO_BACKUP_DIR = join(tmpdir(), 'wrangle-undo')
+
+// Oldest operations are forgotten beyond this
+const MAX_UNDO_OPERATIONS = 50
+
+type UndoableOperation =
+  | { type: 'create'; label: string; path: string }
+  | { type: 'move'; label: string; from: string; to: string }
+  | { type: 'delete'; label: string; path: string; backupPath: string }
+  | { type: 'overwrite'; label: string; path: string; backupPath: string }
+
+const undoStack: UndoableOperation[] = []
+
+/**
+ * Label for the operation Undo would revert, or null
+ */
+export function getFileOperationUndoLabel(): string | null {
+  return undoStack.length > 0 ? undoStack[undoStack.length - 1].label : null
+}
+
+function pushUndo(operation: UndoableOperation): void {
+  undoStack.push(operation)
+  while (undoStack.length > MAX_UNDO_OPERATIONS) {
+    const dropped = undoStack.shift()
+    if (dropped?.type === 'delete' || dropped?.type === 'overwrite') {
+      rm(dirname(dropped.backupPath), { recursive: true, force: true }).catch(() => {})
+    }
+  }
+}
+
+/**
+ * Reject names that are empty or would escape the target folder
+ */
+function validateName(name: string): string {
+  const trimmed = name.trim()
+  if (!trimmed || trimmed === '.' || trimmed === '..' || /[\\/\0]/.test(trimmed)) {
+    throw new Error(`"${name}" is not a valid name`)
+  }
+  return trimmed
+}
+
+function assertAvailable(targetPath: string): void {
+  if (existsSync(targetPath)) {
+    throw new Error(`"${basename(targetPath)}" already exists in ${dirname(targetPath)}`)
+  }
+}
+
+/**
+ * Move a file or folder, keeping change tracking and local history attached
+ */
+async function moveEntry(fromPath: string, toPath: string): Promise<void> {
+  await rename(fromPath, toPath)
+  moveTrackedFiles(fromPath, toPath)
+  moveFileEncodings(fromPath, toPath)
+  await moveFileHistory(fromPath, toPath)
+}
+
+/**
+ * Create an empty file or a folder inside parentDir
+ */
+export async function createEntry(
+  parentDir: string,
+  name: string,
+  isDirectory: boolean
+): Promise<FileOperationResult> {
+  const targetPath = join(parentDir, validateName(name))
+  assertAvailable(targetPath)
+
+  if (isDirectory) {
+    await mkdir(targetPath)
+  } else {
+    await writeFile(targetPath, '', { encoding: 'utf-8', flag: 'wx' })
+  }
+
+  pushUndo({ type: 'create', label: `Undo New ${isDirectory ? 'Folder' : 'File'}`, path: targetPath })
+  return { success: true, path: targetPath, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Rename a file or folder in place
+ */
+export async function renameEntry(filePath: string, newName: string): Promise<FileOperationResult> {
+  const targetPath = join(dirname(filePath), validateName(newName))
+  if (targetPath === filePath) {
+    return { success: true, path: filePath, undoLabel: getFileOperationUndoLabel() }
+  }
+  // A case-only rename on a case-insensitive file system finds the file itself
+  const isSameFile =
+    existsSync(targetPath) && (await stat(targetPath)).ino === (await stat(filePath)).ino
+  if (!isSameFile) {
+    assertAvailable(targetPath)
+  }
+
+  await moveEntry(filePath, targetPath)
+  pushUndo({ type: 'move', label: 'Undo Rename', from: filePath, to: targetPath })
+  return { success: true, path: targetPath, moved: { from: filePath, to: targetPath }, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Move a file or folder into another folder
+ */
+export async function moveToFolder(filePath: string, targetDir: string): Promise<FileOperationResult> {
+  const targetPath = join(targetDir, basename(filePath))
+  if (targetPath === filePath) {
+    return { success: true, path: filePath, undoLabel: getFileOperationUndoLabel() }
+  }
+  if (targetDir === filePath || targetDir.startsWith(filePath + sep)) {
+    throw new Error(`Cannot move "${basename(filePath)}" into itself`)
+  }
+  assertAvailable(targetPath)
+
+  await moveEntry(filePath, targetPath)
+  pushUndo({ type: 'move', label: 'Undo Move', from: filePath, to: targetPath })
+  return { success: true, path: targetPath, moved: { from: filePath, to: targetPath }, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Copy a file or folder next to itself as "name copy", "name copy 2", ...
+ */
+export async function duplicateEntry(filePath: string): Promise<FileOperationResult> {
+  const ext = extname(filePath)
+  const baseName = basename(filePath, ext)
+
+  let targetPath = join(dirname(filePath), `${baseName} copy${ext}`)
+  let counter = 2
+  while (existsSync(targetPath)) {
+    targetPath = join(dirname(filePath), `${baseName} copy ${counter}${ext}`)
+    counter++
+  }
+
+  await cp(filePath, targetPath, { recursive: true, errorOnExist: true, force: false })
+  pushUndo({ type: 'create', label: 'Undo Duplicate', path: targetPath })
+  return { success: true, path: targetPath, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Move a file or folder to the system trash, keeping a private copy for undo
+ */
+export async function trashEntry(filePath: string): Promise<FileOperationResult> {
+  const backupPath = join(UNDO_BACKUP_DIR, randomUUID(), basename(filePath))
+  await mkdir(dirname(backupPath), { recursive: true })
+  await cp(filePath, backupPath, { recursive: true })
+
+  try {
+    await shell.trashItem(filePath)
+  } catch (error) {
+    await rm(dirname(backupPath), { recursive: true, force: true })
+    throw error
+  }
+
+  pushUndo({ type: 'delete', label: 'Undo Delete', path: filePath, backupPath })
+  return { success: true, path: filePath, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Replace a file's content, keeping a private copy of the old content for undo
+ */
+export async function overwriteFile(filePath: string, data: Buffer, label: string): Promise<FileOperationResult> {
+  const backupPath = join(UNDO_BACKUP_DIR, randomUUID(), basename(filePath))
+  await mkdir(dirname(backupPath), { recursive: true })
+  await cp(filePath, backupPath)
+
+  try {
+    await writeFile(filePath, data)
+  } catch (error) {
+    await rm(dirname(backupPath), { recursive: true, force: true })
+    throw error
+  }
+
+  pushUndo({ type: 'overwrite', label, path: filePath, backupPath })
+  return { success: true, path: filePath, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Revert the most recent file tree operation
+ */
+export async function undoLastOperation(): Promise<FileOperationResult> {
+  const operation = undoStack[undoStack.length - 1]
+  if (!operation) {
+    return { success: false, error: 'Nothing to undo', undoLabel: null }
+  }
+
+  let result: FileOperationResult
+  switch (operation.type) {
+    case 'create':
+      await shell.trashItem(operation.path)
+      result = { success: true, path: operation.path, undoLabel: null }
+      break
+    case 'move':
+      assertAvailable(operation.from)
+      await moveEntry(operation.to, operation.from)
+      result = { success: true, path: operation.from, moved: { from: operation.to, to: operation.from }, undoLabel: null }
+      break
+    case 'delete':
+      assertAvailable(operation.path)
+      await cp(operation.backupPath, operation.path, { recursive: true, errorOnExist: true, force: false })
+      await rm(dirname(operation.backupPath), { recursive: true, force: true })
+      result = { success: true, path: operation.path, undoLabel: null }
+      break
+    case 'overwrite':
+      await cp(operation.backupPath, operation.path, { force: true })
+      await rm(dirname(operation.backupPath), { recursive: true, force: true })
+      result = { success: true, path: operation.path, undoLabel: null }
+      break
+  }
+
+  // Only forget the operation once it has actually been reverted
+  undoStack.pop()
+  return { ...result, undoLabel: getFileOperationUndoLabel() }
+}
+
+/**
+ * Remove undo backups (on app quit)
+ */
+export async function clearFileOperationHistory(): Promise<void> {
+  undoStack.length = 0
+  await rm(UNDO_BACKUP_DIR, { recursive: true, force: true })
+}
@@ -0,0 +1,222 @@
+import { createHash } from 'crypto'
+import { watchFile, unwatchFile, Stats } from 'fs'
+import { stat } from 'fs/promises'
+import { sep, dirname } from 'path'
+import { existsSync } from 'fs'
+import { readTextFile } from './text-encoding'
+import { ExternalFileChange } from '../../shared/types'
+
+// How often open files are polled for external changes
+const POLL_INTERVAL_MS = 1000
+
+type ExternalChangeListener = (change: ExternalFileChange) => void
+
+interface TrackedFile {
+  // Hash and content of the version the renderer last loaded or saved
+  hash: string
+  content: string
+  mtimeMs: number
+  // Last on-disk hash reported to the renderer (null = deleted), to avoid repeat notifications
+  notifiedHash?: string | null
+  listener: ExternalChangeListener | null
+}
+
+const trackedFiles = new Map<string, TrackedFile>()
+
+/**
+ * Hash file content for change detection
+ */
+export function hashContent(content: string): string {
+  return createHash('sha1').update(content, 'utf8').digest('hex')
+}
+
+/**
+ * Record the version of a file the renderer now holds (after a save)
+ */
+export async function recordLoadedVersion(filePath: string, content: string): Promise<void> {
+  let mtimeMs = 0
+  try {
+    mtimeMs = (await stat(filePath)).mtimeMs
+  } catch {
+    // File may not exist yet
+  }
+
+  const existing = trackedFiles.get(filePath)
+  trackedFiles.set(filePath, {
+    hash: hashContent(content),
+    content,
+    mtimeMs,
+    listener: existing?.listener ?? null
+  })
+}
+
+/**
+ * Record a file read for opening in a tab. If the file is already tracked, its
+ * tab keeps the version it was loaded from so pending conflicts are not masked.
+ */
+export async function recordOpenedVersion(filePath: string, content: string): Promise<void> {
+  if (!trackedFiles.has(filePath)) {
+    await recordLoadedVersion(filePath, content)
+  }
+}
+
+/**
+ * Check whether a file changed on disk since the renderer loaded it.
+ * Files that were never loaded, or no longer exist, are not in conflict.
+ */
+export async function hasExternalChange(filePath: string): Promise<boolean> {
+  const tracked = trackedFiles.get(filePath)
+  if (!tracked || !existsSync(filePath)) {
+    return false
+  }
+
+  try {
+    const { content: diskContent } = await readTextFile(filePath)
+    return hashContent(diskContent) !== tracked.hash
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Build the change payload sent to the renderer for a file
+ */
+export async function getExternalChange(filePath: string): Promise<ExternalFileChange | null> {
+  const tracked = trackedFiles.get(filePath)
+  if (!tracked) {
+    return null
+  }
+
+  if (!existsSync(filePath)) {
+    return { path: filePath, diskContent: null, diskHash: null, baseContent: tracked.content }
+  }
+
+  const { content: diskContent } = await readTextFile(filePath)
+  return {
+    path: filePath,
+    diskContent,
+    diskHash: hashContent(diskContent),
+    baseContent: tracked.content
+  }
+}
+
+/**
+ * Notify the listener of a tracked file if it changed on disk
+ */
+async function checkForChange(filePath: string, current: Stats): Promise<void> {
+  const tracked = trackedFiles.get(filePath)
+  if (!tracked?.listener || current.mtimeMs === tracked.mtimeMs) {
+    return
+  }
+
+  try {
+    const change = await getExternalChange(filePath)
+    if (!change || trackedFiles.get(filePath) !== tracked) {
+      return
+    }
+
+    // Touched but unchanged (e.g. our own save, or a no-op write)
+    if (change.diskHash === tracked.hash) {
+      tracked.mtimeMs = current.mtimeMs
+      return
+    }
+    if (change.diskHash === tracked.notifiedHash) {
+      return
+    }
+
+    tracked.notifiedHash = change.diskHash
+    tracked.listener(change)
+  } catch (error) {
+    console.error(`Error checking ${filePath} for external changes:`, error)
+  }
+}
+
+/**
+ * Start polling an open file for external changes
+ */
+export function watchOpenFile(filePath: string, listener: ExternalChangeListener): void {
+  const tracked = trackedFiles.get(filePath)
+  if (!tracked) {
+    return
+  }
+
+  const alreadyWatching = tracked.listener !== null
+  tracked.listener = listener
+  if (alreadyWatching) {
+    return
+  }
+
+  watchFile(filePath, { interval: POLL_INTERVAL_MS }, (current) => {
+    checkForChange(filePath, current)
+  })
+}
+
+/**
+ * Stop polling a file and forget its loaded version
+ */
+export function unwatchOpenFile(filePath: string): void {
+  const tracked = trackedFiles.get(filePath)
+  if (tracked?.listener) {
+    unwatchFile(filePath)
+  }
+  trackedFiles.delete(filePath)
+}
+
+/**
+ * Carry loaded versions over when a file or folder is renamed or moved.
+ * Polling stops for the old paths; the renderer watches the new ones again.
+ */
+export function moveTrackedFiles(fromPath: string, toPath: string): void {
+  for (const [filePath, tracked] of Array.from(trackedFiles.entries())) {
+    if (filePath !== fromPath && !filePath.startsWith(fromPath + sep)) {
+      continue
+    }
+    if (tracked.listener) {
+      unwatchFile(filePath)
+    }
+    trackedFiles.delete(filePath)
+    trackedFiles.set(toPath + filePath.slice(fromPath.length), { ...tracked, listener: null })
+  }
+}
+
+/**
+ * Accept the on-disk version the user has seen as the new base, so the next
+ * save may overwrite it. Returns false if the file changed again since.
+ */
+export async function acceptDiskVersion(filePath: string, diskHash: string | null): Promise<boolean> {
+  const tracked = trackedFiles.get(filePath)
+  if (!tracked) {
+    return false
+  }
+
+  const change = await getExternalChange(filePath)
+  if (!change || change.diskHash !== diskHash) {
+    return false
+  }
+
+  tracked.hash = diskHash ?? tracked.hash
+  tracked.content = change.diskContent ?? tracked.content
+  tracked.notifiedHash = undefined
+  try {
+    tracked.mtimeMs = (await stat(filePath)).mtimeMs
+  } catch {
+    // Deleted file: the next save recreates it
+  }
+  return true
+}
+
+/**
+ * Folders of all files loaded into tabs
+ */
+export function getTrackedFolders(): string[] {
+  return Array.from(new Set(Array.from(trackedFiles.keys(), (filePath) => dirname(filePath))))
+}
+
+/**
+ * Stop polling all open files (on app quit)
+ */
+export function unwatchAllOpenFiles(): void {
+  for (const filePath of Array.from(trackedFiles.keys())) {
+    unwatchOpenFile(filePath)
+  }
+}
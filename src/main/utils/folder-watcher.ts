@@ -0,0 +1,248 @@
+import { watch, FSWatcher } from 'fs'
+import { readdir, stat } from 'fs/promises'
+import { join, relative, sep } from 'path'
+import { FolderChange } from '../../shared/workspace-types'
+import { shouldSkipEntry } from './workspace-manager'
+
+// Bursts of events (git checkout, atomic saves, folder copies) are sent as one batch
+const DEBOUNCE_MS = 150
+
+// Recursive fs.watch is not available on Linux in Electron's Node version,
+// so there every directory gets its own watcher instead
+const SUPPORTS_RECURSIVE = process.platform === 'darwin' || process.platform === 'win32'
+
+type FolderChangeListener = (changes: FolderChange[]) => void
+type WatchEventType = 'rename' | 'change'
+
+interface FolderWatch {
+  rootPath: string
+  showHidden: boolean
+  listener: FolderChangeListener
+  watchers: Map<string, FSWatcher>
+  knownDirs: Set<string>
+  pending: Map<string, WatchEventType>
+  timer: NodeJS.Timeout | null
+}
+
+const folderWatches = new Map<string, FolderWatch>()
+
+/**
+ * Check if a path should be ignored (.wrangle, or hidden unless showHidden is set)
+ */
+function isIgnoredPath(state: FolderWatch, fullPath: string): boolean {
+  const relativePath = relative(state.rootPath, fullPath)
+  if (!relativePath || relativePath.startsWith('..')) {
+    return true
+  }
+  return relativePath.split(sep).some((segment) => shouldSkipEntry(segment, state.showHidden))
+}
+
+/**
+ * Attach a non-recursive watcher to a single directory (Linux only)
+ */
+function watchDirectory(state: FolderWatch, dirPath: string): void {
+  if (SUPPORTS_RECURSIVE || state.watchers.has(dirPath)) {
+    return
+  }
+
+  try {
+    const watcher = watch(dirPath, (eventType, filename) => {
+      if (filename) {
+        queueChange(state, join(dirPath, filename.toString()), eventType)
+      }
+    })
+    watcher.on('error', () => {
+      watcher.close()
+      state.watchers.delete(dirPath)
+    })
+    state.watchers.set(dirPath, watcher)
+  } catch (error) {
+    // Usually the inotify watch limit; the rest of the tree is still watched
+    console.warn(`Could not watch directory: ${dirPath}`, error)
+  }
+}
+
+/**
+ * Record a directory and all of its visible subdirectories
+ */
+async function trackDirectory(state: FolderWatch, dirPath: string): Promise<void> {
+  state.knownDirs.add(dirPath)
+  watchDirectory(state, dirPath)
+
+  let entries: string[]
+  try {
+    entries = await readdir(dirPath)
+  } catch {
+    return
+  }
+
+  for (const entry of entries) {
+    if (shouldSkipEntry(entry, state.showHidden)) {
+      continue
+    }
+
+    const fullPath = join(dirPath, entry)
+    try {
+      const stats = await stat(fullPath)
+      if (stats.isDirectory()) {
+        await trackDirectory(state, fullPath)
+      }
+    } catch {
+      // Removed while scanning
+    }
+  }
+}
+
+/**
+ * Forget a removed directory and everything below it
+ */
+function untrackDirectory(state: FolderWatch, dirPath: string): void {
+  for (const knownDir of state.knownDirs) {
+    if (knownDir === dirPath || knownDir.startsWith(dirPath + sep)) {
+      state.knownDirs.delete(knownDir)
+      state.watchers.get(knownDir)?.close()
+      state.watchers.delete(knownDir)
+    }
+  }
+}
+
+/**
+ * Queue a raw fs.watch event and restart the debounce timer
+ */
+function queueChange(state: FolderWatch, fullPath: string, eventType: WatchEventType): void {
+  if (isIgnoredPath(state, fullPath)) {
+    return
+  }
+
+  // A rename (add/remove) outranks a content change for the same path
+  if (state.pending.get(fullPath) !== 'rename') {
+    state.pending.set(fullPath, eventType)
+  }
+
+  if (state.timer) {
+    clearTimeout(state.timer)
+  }
+  state.timer = setTimeout(() => {
+    state.timer = null
+    flushChanges(state)
+  }, DEBOUNCE_MS)
+}
+
+/**
+ * Resolve queued events against the file system and send them as one batch
+ */
+async function flushChanges(state: FolderWatch): Promise<void> {
+  const pending = Array.from(state.pending.entries())
+  state.pending.clear()
+
+  const changes: FolderChange[] = []
+
+  for (const [fullPath, eventType] of pending) {
+    try {
+      const stats = await stat(fullPath)
+      if (stats.isDirectory()) {
+        // Events on an existing directory only mean its contents changed
+        if (!state.knownDirs.has(fullPath)) {
+          await trackDirectory(state, fullPath)
+          changes.push({ type: 'addDir', path: fullPath })
+        }
+      } else {
+        changes.push({ type: eventType === 'rename' ? 'add' : 'change', path: fullPath })
+      }
+    } catch {
+      if (state.knownDirs.has(fullPath)) {
+        untrackDirectory(state, fullPath)
+        changes.push({ type: 'unlinkDir', path: fullPath })
+      } else {
+        changes.push({ type: 'unlink', path: fullPath })
+      }
+    }
+  }
+
+  // Stopped watching while the batch was being resolved
+  if (folderWatches.get(state.rootPath) !== state) {
+    return
+  }
+
+  // Children of a removed directory are implied by the unlinkDir
+  const removedDirs = changes.filter((c) => c.type === 'unlinkDir').map((c) => c.path + sep)
+  const batch = changes.filter(
+    (change) => !removedDirs.some((dir) => change.path.startsWith(dir))
+  )
+
+  if (batch.length > 0) {
+    state.listener(batch)
+  }
+}
+
+/**
+ * Start watching a workspace folder recursively. Any existing watch on the
+ * same folder is replaced, so this can be called again when options change.
+ */
+export async function watchFolder(
+  rootPath: string,
+  showHidden: boolean,
+  listener: FolderChangeListener
+): Promise<boolean> {
+  unwatchFolder(rootPath)
+
+  const state: FolderWatch = {
+    rootPath,
+    showHidden,
+    listener,
+    watchers: new Map(),
+    knownDirs: new Set(),
+    pending: new Map(),
+    timer: null
+  }
+  folderWatches.set(rootPath, state)
+
+  if (SUPPORTS_RECURSIVE) {
+    try {
+      const watcher = watch(rootPath, { recursive: true }, (eventType, filename) => {
+        if (filename) {
+          queueChange(state, join(rootPath, filename.toString()), eventType)
+        }
+      })
+      watcher.on('error', (error) => {
+        console.error(`Folder watcher error for ${rootPath}:`, error)
+      })
+      state.watchers.set(rootPath, watcher)
+    } catch (error) {
+      console.error(`Failed to watch folder ${rootPath}:`, error)
+      folderWatches.delete(rootPath)
+      return false
+    }
+  }
+
+  await trackDirectory(state, rootPath)
+  return true
+}
+
+/**
+ * Stop watching a workspace folder
+ */
+export function unwatchFolder(rootPath: string): boolean {
+  const state = folderWatches.get(rootPath)
+  if (!state) {
+    return false
+  }
+
+  if (state.timer) {
+    clearTimeout(state.timer)
+  }
+  for (const watcher of state.watchers.values()) {
+    watcher.close()
+  }
+  folderWatches.delete(rootPath)
+  return true
+}
+
+/**
+ * Stop all folder watchers (on app quit)
+ */
+export function unwatchAllFolders(): void {
+  for (const rootPath of Array.from(folderWatches.keys())) {
+    unwatchFolder(rootPath)
+  }
+}
@@ -0,0 +1,179 @@
+import { execFile } from 'child_process'
+import { join, dirname, basename, resolve, relative, sep } from 'path'
+import { GitStatus, GitFileStatus, GitFileState, GitCommitResult } from '../../shared/workspace-types'
+
+// Give up on a git command after this long
+const GIT_TIMEOUT_MS = 30000
+
+// Status output of large repositories can be several megabytes
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+
+// Index/work tree status pairs that mean an unresolved merge conflict
+const CONFLICT_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU'])
+
+/**
+ * Run the local git binary in cwd and resolve with its output. Rejects with
+ * git's own error message when it exits non-zero or is not installed.
+ */
+function runGit(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER, windowsHide: true },
+      (error, stdout, stderr) => {
+        if (error) {
+          // Some commands, like commit with nothing staged, explain on stdout
+          reject(new Error(stderr.trim() || stdout.trim() || error.message))
+        } else {
+          resolvePromise(stdout)
+        }
+      }
+    )
+  })
+}
+
+function toFileState(code: string): GitFileState | null {
+  switch (code) {
+    case 'M':
+    case 'T':
+      return 'modified'
+    case 'A':
+    case 'C':
+      return 'added'
+    case 'D':
+      return 'deleted'
+    case 'R':
+      return 'renamed'
+    default:
+      return null
+  }
+}
+
+/**
+ * Parse `git status --porcelain=v1 -z --branch` output; paths in it are
+ * relative to the repository root
+ */
+function parseStatus(output: string, repoRoot: string): { branch: string | null; files: GitFileStatus[] } {
+  const entries = output.split('\0')
+  const files: GitFileStatus[] = []
+  let branch: string | null = null
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    if (!entry) continue
+
+    if (entry.startsWith('## ')) {
+      const header = entry.slice(3)
+      const unborn = header.match(/^No commits yet on (.+)$/)
+      branch = unborn ? unborn[1] : header.startsWith('HEAD (no branch)') ? null : header.split('...')[0]
+      continue
+    }
+
+    const code = entry.slice(0, 2)
+    const relativePath = entry.slice(3)
+    const isDirectory = relativePath.endsWith('/')
+    const path = join(repoRoot, isDirectory ? relativePath.slice(0, -1) : relativePath)
+
+    // Renames and copies are followed by the original path
+    let originalPath: string | undefined
+    if (code[0] === 'R' || code[0] === 'C') {
+      originalPath = join(repoRoot, entries[++i])
+    }
+
+    let file: GitFileStatus
+    if (code === '??') {
+      file = { path, isDirectory, state: 'untracked', staged: null, unstaged: 'untracked' }
+    } else if (code === '!!') {
+      file = { path, isDirectory, state: 'ignored', staged: null, unstaged: null }
+    } else if (CONFLICT_CODES.has(code)) {
+      file = { path, isDirectory, state: 'conflicted', staged: null, unstaged: 'conflicted' }
+    } else {
+      const staged = toFileState(code[0])
+      const unstaged = toFileState(code[1])
+      file = { path, isDirectory, state: unstaged ?? staged ?? 'modified', staged, unstaged }
+    }
+    if (originalPath) {
+      file.originalPath = originalPath
+    }
+    files.push(file)
+  }
+
+  return { branch, files }
+}
+
+/**
+ * Git status of the files under rootPath, or null when it is not inside a
+ * repository or git is not installed
+ */
+export async function getGitStatus(rootPath: string): Promise<GitStatus | null> {
+  let repoRoot: string
+  try {
+    // Relative to rootPath, so paths keep the spelling the renderer uses
+    // even when the folder is reached through a symlink
+    repoRoot = resolve(rootPath, (await runGit(rootPath, ['rev-parse', '--show-cdup'])).trim())
+  } catch {
+    return null
+  }
+
+  const output = await runGit(rootPath, [
+    'status',
+    '--porcelain=v1',
+    '-z',
+    '--branch',
+    '--untracked-files=normal',
+    '--ignored=matching',
+    '--',
+    '.'
+  ])
+  return { repoRoot, ...parseStatus(output, repoRoot) }
+}
+
+/**
+ * Content of a file as committed in HEAD, with the same line ending and
+ * filter conversions a checkout would apply. Null when the file is not in
+ * HEAD or not in a repository.
+ */
+export async function getHeadContent(filePath: string): Promise<string | null> {
+  try {
+    return await runGit(dirname(filePath), ['cat-file', '--filters', `HEAD:./${basename(filePath)}`])
+  } catch {
+    return null
+  }
+}
+
+// Paths as git arguments, relative to the folder git runs in
+function toPathspecs(rootPath: string, paths: string[]): string[] {
+  return paths.map((p) => relative(rootPath, p).split(sep).join('/') || '.')
+}
+
+/**
+ * Add files (or deletions) to the index
+ */
+export async function stageFiles(rootPath: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) return
+  await runGit(rootPath, ['add', '--all', '--', ...toPathspecs(rootPath, paths)])
+}
+
+/**
+ * Take files out of the index, keeping their working tree changes
+ */
+export async function unstageFiles(rootPath: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) return
+  await runGit(rootPath, ['reset', '--quiet', '--', ...toPathspecs(rootPath, paths)])
+}
+
+/**
+ * Commit what is staged
+ */
+export async function commitStaged(rootPath: string, message: string): Promise<GitCommitResult> {
+  if (!message.trim()) {
+    return { success: false, error: 'Enter a commit message' }
+  }
+  try {
+    await runGit(rootPath, ['commit', '--quiet', '-m', message])
+    return { success: true }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+}
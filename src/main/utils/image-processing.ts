@@ -0,0 +1,96 @@
+import sharp from 'sharp'
+import * as path from 'path'
+import { ImageInfo, ImageProcessingOptions } from '../../shared/types'
+
+// Formats that are processed; everything else is written unchanged
+const PROCESSED_FORMATS: Record<string, 'png' | 'jpeg' | 'webp'> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.webp': 'webp'
+}
+
+const FORMAT_EXTENSIONS = {
+  png: '.png',
+  jpeg: '.jpg',
+  webp: '.webp'
+}
+
+export interface ProcessedImage {
+  data: Buffer
+  fileName: string // The extension changes only with the format
+}
+
+/**
+ * Check whether an image file is one processImage changes
+ */
+export function isProcessableImage(fileName: string): boolean {
+  return path.extname(fileName).toLowerCase() in PROCESSED_FORMATS
+}
+
+/**
+ * Scale an image down to the max width, convert it to the chosen format and
+ * drop its metadata. EXIF orientation is applied first, so photos stay upright
+ * once the tag is gone. Images that need none of this are returned unchanged.
+ */
+export async function processImage(
+  data: Buffer,
+  fileName: string,
+  options: ImageProcessingOptions
+): Promise<ProcessedImage> {
+  const extension = path.extname(fileName).toLowerCase()
+  const sourceFormat = PROCESSED_FORMATS[extension]
+  if (!sourceFormat) {
+    return { data, fileName }
+  }
+
+  const metadata = await sharp(data).metadata()
+  // Orientations 5-8 turn the image on its side
+  const width = (metadata.orientation ?? 1) >= 5 ? metadata.height : metadata.width
+  const resize = options.maxWidth > 0 && (width ?? 0) > options.maxWidth
+  const format = options.format === 'original' ? sourceFormat : options.format
+  const hasMetadata = !!(metadata.exif || metadata.icc || metadata.iptc || metadata.xmp)
+
+  if (!resize && format === sourceFormat && !(options.stripMetadata && hasMetadata)) {
+    return { data, fileName }
+  }
+
+  let image = sharp(data).rotate()
+  if (!options.stripMetadata) {
+    image = image.withMetadata()
+  }
+  if (resize) {
+    image = image.resize({ width: options.maxWidth, withoutEnlargement: true })
+  }
+
+  if (format === 'jpeg') {
+    // JPEG has no transparency; transparent areas become white instead of black
+    image = image.flatten({ background: '#ffffff' }).jpeg({ quality: options.quality, mozjpeg: true })
+  } else if (format === 'webp') {
+    image = image.webp({ quality: options.quality })
+  } else {
+    image = image.png({ compressionLevel: 9 })
+  }
+
+  // photo.jpeg and Shot.PNG keep their names when only resized
+  return {
+    data: await image.toBuffer(),
+    fileName: format === sourceFormat
+      ? fileName
+      : path.basename(fileName, path.extname(fileName)) + FORMAT_EXTENSIONS[format]
+  }
+}
+
+/**
+ * Read an image's dimensions (after EXIF orientation), format and file size
+ */
+export async function getImageInfo(data: Buffer): Promise<ImageInfo> {
+  const metadata = await sharp(data).metadata()
+  const sideways = (metadata.orientation ?? 1) >= 5
+  return {
+    width: (sideways ? metadata.height : metadata.width) ?? 0,
+    height: (sideways ? metadata.width : metadata.height) ?? 0,
+    format: metadata.format ?? 'unknown',
+    size: data.length
+  }
+}
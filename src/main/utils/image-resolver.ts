@@ -0,0 +1,89 @@
+import { realpath } from 'fs/promises'
+import { isAbsolute, normalize, relative, resolve, sep } from 'path'
+import { fileURLToPath } from 'url'
+import { getDraftsDir } from './temp-dir-manager'
+import { getTrackedFolders } from './file-tracker'
+
+// Workspace folders images may be served from, besides open files' folders
+const allowedRoots = new Set<string>()
+
+function decodePath(urlPath: string): string {
+  try {
+    return decodeURIComponent(urlPath)
+  } catch {
+    // Not valid percent-encoding: a literal % in the name
+    return urlPath
+  }
+}
+
+/**
+ * Turn an image src into an absolute file path. Handles ./ and ../ paths,
+ * bare relative paths, absolute paths, file:// URLs and percent-encoded
+ * names. Returns null for remote and data URLs, and for relative paths
+ * without a base directory.
+ */
+export function resolveImagePath(src: string, baseDir: string | null): string | null {
+  const trimmed = src.trim()
+  if (!trimmed || trimmed.startsWith('#')) {
+    return null
+  }
+
+  if (/^file:/i.test(trimmed)) {
+    try {
+      return fileURLToPath(trimmed.split(/[?#]/)[0])
+    } catch {
+      return null
+    }
+  }
+
+  // Any other scheme, except a Windows drive letter (C:\ or C:/)
+  if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed) && !/^[a-z]:[\\/]/i.test(trimmed)) {
+    return null
+  }
+
+  const imagePath = decodePath(trimmed.split(/[?#]/)[0])
+  if (isAbsolute(imagePath)) {
+    return normalize(imagePath)
+  }
+  return baseDir ? resolve(baseDir, imagePath) : null
+}
+
+/**
+ * Allow images inside a workspace folder to be served
+ */
+export function allowAssetRoot(rootPath: string): void {
+  allowedRoots.add(normalize(rootPath))
+}
+
+function isInsideRoot(filePath: string, rootPath: string): boolean {
+  const relativePath = relative(rootPath, filePath)
+  return relativePath.split(sep)[0] !== '..' && !isAbsolute(relativePath)
+}
+
+/**
+ * Check that an image lies inside an open workspace, the folder of a file
+ * open in a tab, or the temporary folder of an unsaved tab. Symlinks are
+ * followed, so a link cannot point out of the allowed folders.
+ */
+export async function isAllowedImagePath(filePath: string): Promise<boolean> {
+  const roots = [getDraftsDir(), ...allowedRoots, ...getTrackedFolders()]
+  if (!roots.some((root) => isInsideRoot(filePath, root))) {
+    return false
+  }
+
+  let realFilePath: string
+  try {
+    realFilePath = await realpath(filePath)
+  } catch {
+    // Missing files can't escape; they are served once they exist
+    return true
+  }
+
+  for (const root of roots) {
+    const realRoot = await realpath(root).catch(() => root)
+    if (isInsideRoot(realFilePath, realRoot)) {
+      return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,194 @@
+import { dirname, resolve } from 'path'
+import { readFile } from 'fs/promises'
+import { existsSync } from 'fs'
+import { Marked } from 'marked'
+import { gfmHeadingId, getHeadingList } from 'marked-gfm-heading-id'
+import { listWikiPages } from './wiki-index'
+import { findLinkReferences, decodeUrlPath, LinkReference } from './markdown-links'
+import { LinkCheckOptions, LinkCheckResult, LinkProblem } from '../../shared/workspace-types'
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdown|mkd|mdwn)$/i
+
+// External URLs are fetched this many at a time
+const EXTERNAL_CONCURRENCY = 6
+
+// Give up on an external URL after this long
+const EXTERNAL_TIMEOUT_MS = 10000
+
+// Explicit anchors written as HTML: <a name="x"> or <span id="x">
+const HTML_ANCHOR_PATTERN = /\s(?:id|name)\s*=\s*(["'])([^"'\n]+)\1/gi
+
+// Same heading ids as exported HTML and GitHub
+const headingParser = new Marked(gfmHeadingId())
+
+/**
+ * Collect the anchors a #fragment can point at in a markdown file
+ */
+function getAnchors(content: string): Set<string> {
+  headingParser.parse(content)
+  const anchors = new Set(getHeadingList().map((heading) => heading.id))
+  for (const match of content.matchAll(HTML_ANCHOR_PATTERN)) {
+    anchors.add(match[2])
+  }
+  return anchors
+}
+
+function decodeFragment(fragment: string): string {
+  try {
+    return decodeURIComponent(fragment)
+  } catch {
+    return fragment
+  }
+}
+
+/**
+ * Check that a URL answers, trying HEAD first and falling back to GET for
+ * servers that reject HEAD. Returns an error message, or null when reachable.
+ */
+async function checkExternalUrl(url: string): Promise<string | null> {
+  const request = async (method: 'HEAD' | 'GET'): Promise<Response> => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), EXTERNAL_TIMEOUT_MS)
+    try {
+      return await fetch(url, { method, redirect: 'follow', signal: controller.signal })
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  try {
+    let response = await request('HEAD')
+    if (response.status === 405 || response.status === 403 || response.status === 501) {
+      response = await request('GET')
+    }
+    return response.ok ? null : `External link returned ${response.status} ${response.statusText}`.trim()
+  } catch (error) {
+    const reason = error instanceof Error && error.name === 'AbortError' ? 'timed out' : 'could not be reached'
+    return `External link ${reason}`
+  }
+}
+
+/**
+ * Check every link, image and #anchor in the markdown files under rootPath.
+ * External URLs are fetched unless options.offlineOnly is set, in which case
+ * they are reported as unchecked.
+ */
+export async function checkWorkspaceLinks(rootPath: string, options: LinkCheckOptions): Promise<LinkCheckResult> {
+  const result: LinkCheckResult = { fileCount: 0, linkCount: 0, problems: [] }
+  const anchorCache = new Map<string, Set<string>>()
+  const externalLinks = new Map<string, { path: string; reference: LinkReference }[]>()
+
+  const getFileAnchors = async (filePath: string, content?: string): Promise<Set<string>> => {
+    let anchors = anchorCache.get(filePath)
+    if (!anchors) {
+      anchors = getAnchors(content ?? (await readFile(filePath, 'utf-8')))
+      anchorCache.set(filePath, anchors)
+    }
+    return anchors
+  }
+
+  const report = (
+    filePath: string,
+    reference: LinkReference,
+    kind: LinkProblem['kind'],
+    severity: LinkProblem['severity'],
+    message: string
+  ) => {
+    result.problems.push({
+      path: filePath,
+      lineNumber: reference.lineNumber,
+      column: reference.column,
+      endColumn: reference.column + reference.url.length,
+      url: reference.url,
+      kind,
+      severity,
+      message
+    })
+  }
+
+  for (const { path: filePath } of await listWikiPages(rootPath)) {
+    let content: string
+    try {
+      content = await readFile(filePath, 'utf-8')
+    } catch (error) {
+      console.error(`Error reading ${filePath} for link check:`, error)
+      continue
+    }
+    result.fileCount++
+
+    for (const reference of findLinkReferences(content)) {
+      const url = reference.url.replace(/^<(.*)>$/, '$1')
+      if (!url) continue
+      result.linkCount++
+
+      if (/^(https?:)?\/\//i.test(url)) {
+        const absoluteUrl = url.startsWith('//') ? `https:${url}` : url
+        const uses = externalLinks.get(absoluteUrl) ?? []
+        uses.push({ path: filePath, reference })
+        externalLinks.set(absoluteUrl, uses)
+        continue
+      }
+      // mailto:, tel:, data: and other schemes are not checked
+      if (/^[a-z][a-z0-9+.-]*:/i.test(url)) continue
+
+      const hashIndex = url.indexOf('#')
+      const urlPath = (hashIndex === -1 ? url : url.slice(0, hashIndex)).replace(/\?.*$/, '')
+      const fragment = hashIndex === -1 ? '' : decodeFragment(url.slice(hashIndex + 1))
+
+      // Root-relative links resolve against the workspace folder
+      const decodedPath = decodeUrlPath(urlPath)
+      const targetPath = !urlPath
+        ? filePath
+        : decodedPath.startsWith('/')
+          ? resolve(rootPath, `.${decodedPath}`)
+          : resolve(dirname(filePath), decodedPath)
+
+      if (!existsSync(targetPath)) {
+        if (reference.isImage) {
+          report(filePath, reference, 'image', 'error', `Image not found: ${decodedPath}`)
+        } else {
+          report(filePath, reference, 'file', 'error', `File not found: ${decodedPath}`)
+        }
+        continue
+      }
+
+      if (fragment && MARKDOWN_EXTENSIONS.test(targetPath)) {
+        try {
+          const anchors = await getFileAnchors(targetPath, targetPath === filePath ? content : undefined)
+          if (!anchors.has(fragment) && !anchors.has(fragment.toLowerCase())) {
+            report(filePath, reference, 'anchor', 'warning', `No heading matches #${fragment}`)
+          }
+        } catch (error) {
+          console.error(`Error reading headings of ${targetPath}:`, error)
+        }
+      }
+    }
+  }
+
+  const externalUrls = [...externalLinks.keys()]
+  if (options.offlineOnly) {
+    for (const url of externalUrls) {
+      for (const { path, reference } of externalLinks.get(url)!) {
+        report(path, reference, 'external', 'info', 'External link not checked (offline mode)')
+      }
+    }
+  } else {
+    // A fixed number of workers share the queue of unique URLs
+    let next = 0
+    const worker = async () => {
+      while (next < externalUrls.length) {
+        const url = externalUrls[next++]
+        const message = await checkExternalUrl(url)
+        if (message) {
+          for (const { path, reference } of externalLinks.get(url)!) {
+            report(path, reference, 'external', 'warning', message)
+          }
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(EXTERNAL_CONCURRENCY, externalUrls.length) }, worker))
+  }
+
+  result.problems.sort((a, b) => a.path.localeCompare(b.path) || a.lineNumber - b.lineNumber || a.column - b.column)
+  return result
+}
@@ -0,0 +1,103 @@
+import { dirname, resolve, relative, sep } from 'path'
+import { existsSync } from 'fs'
+import { hashContent } from './file-tracker'
+import { readTextFile } from './text-encoding'
+import { listWikiPages } from './wiki-index'
+import { findLinkReferences, decodeUrlPath } from './markdown-links'
+import { PathMove, LinkUpdateEdit, LinkUpdatePreview } from '../../shared/workspace-types'
+
+/**
+ * Map a path through the moves; paths inside a moved folder follow it
+ */
+function applyMoves(filePath: string, moves: PathMove[]): string {
+  for (const move of moves) {
+    if (filePath === move.from) return move.to
+    if (filePath.startsWith(move.from + sep)) return move.to + filePath.slice(move.from.length)
+  }
+  return filePath
+}
+
+function reverseMoves(moves: PathMove[]): PathMove[] {
+  return moves.map((move) => ({ from: move.to, to: move.from }))
+}
+
+/**
+ * Work out the new URL for a link in a file that may itself have moved,
+ * or null when the link does not need to change
+ */
+function rewriteUrl(url: string, filePath: string, moves: PathMove[]): string | null {
+  const isBracketed = url.startsWith('<') && url.endsWith('>')
+  const rawUrl = isBracketed ? url.slice(1, -1) : url
+
+  // Leave external, absolute and same-document links alone
+  if (!rawUrl || /^[a-z][a-z0-9+.-]*:/i.test(rawUrl) || /^[#/\\]/.test(rawUrl)) {
+    return null
+  }
+
+  const suffixIndex = rawUrl.search(/[?#]/)
+  const urlPath = suffixIndex === -1 ? rawUrl : rawUrl.slice(0, suffixIndex)
+  const suffix = suffixIndex === -1 ? '' : rawUrl.slice(suffixIndex)
+  if (!urlPath) return null
+
+  const decodedPath = decodeUrlPath(urlPath)
+  const oldFilePath = applyMoves(filePath, reverseMoves(moves))
+  const oldTarget = resolve(dirname(oldFilePath), decodedPath)
+  const newTarget = applyMoves(oldTarget, moves)
+
+  if (oldFilePath === filePath && oldTarget === newTarget) return null
+  // Links that were already broken stay as they are
+  if (!existsSync(newTarget)) return null
+
+  let newPath = relative(dirname(filePath), newTarget).split(sep).join('/')
+  if (urlPath.startsWith('./') && !newPath.startsWith('../')) {
+    newPath = `./${newPath}`
+  }
+  if (!isBracketed) {
+    newPath = decodedPath !== urlPath ? encodeURI(newPath) : newPath.replace(/ /g, '%20')
+  }
+
+  const newUrl = isBracketed ? `<${newPath}${suffix}>` : `${newPath}${suffix}`
+  return newUrl === url ? null : newUrl
+}
+
+/**
+ * Compute the link updates that keep every markdown file in the workspace
+ * pointing at the same files after the given moves, without writing anything
+ */
+export async function previewLinkUpdates(rootPath: string, moves: PathMove[]): Promise<LinkUpdatePreview[]> {
+  const previews: LinkUpdatePreview[] = []
+  const pages = await listWikiPages(rootPath)
+
+  for (const { path: filePath } of pages) {
+    try {
+      const { content: original } = await readTextFile(filePath)
+      const edits: (LinkUpdateEdit & { start: number })[] = []
+
+      for (const reference of findLinkReferences(original)) {
+        const newUrl = rewriteUrl(reference.url, filePath, moves)
+        if (newUrl !== null) {
+          edits.push({ lineNumber: reference.lineNumber, oldUrl: reference.url, newUrl, start: reference.start })
+        }
+      }
+      if (edits.length === 0) continue
+
+      // Apply from the end so earlier offsets stay valid
+      let updated = original
+      for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+        updated = updated.slice(0, edit.start) + edit.newUrl + updated.slice(edit.start + edit.oldUrl.length)
+      }
+
+      previews.push({
+        path: filePath,
+        original,
+        updated,
+        edits: edits.map(({ lineNumber, oldUrl, newUrl }) => ({ lineNumber, oldUrl, newUrl })),
+        hash: hashContent(original)
+      })
+    } catch (error) {
+      console.error(`Error checking links in ${filePath}:`, error)
+    }
+  }
+
+  return previews
+}
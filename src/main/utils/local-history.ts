@@ -0,0 +1,206 @@
+import { homedir } from 'os'
+import { join, dirname, sep } from 'path'
+import { createHash } from 'crypto'
+import { mkdir, readFile, writeFile, readdir, rm, rename, stat } from 'fs/promises'
+import { existsSync } from 'fs'
+import { hashContent } from './file-tracker'
+import { readTextFile } from './text-encoding'
+import { getWorkspaceDir } from './workspace-manager'
+import { FileSnapshot, SnapshotSource } from '../../shared/types'
+
+const HISTORY_DIR = 'history'
+
+// Files outside any workspace keep their history here
+const APP_HISTORY_DIR = join(homedir(), '.wrangle', HISTORY_DIR)
+
+// Each file's history folder records which file it belongs to
+const META_FILE = 'meta.json'
+
+// Retention limits per file; the newest snapshot is always kept, and the
+// original is only dropped by count since it is dated by the file's mtime
+const MAX_SNAPSHOTS_PER_FILE = 100
+const MAX_SNAPSHOT_AGE_MS = 30 * 24 * 60 * 60 * 1000
+
+// Auto-saves closer together than this share one snapshot
+const AUTOSAVE_SNAPSHOT_INTERVAL_MS = 30 * 1000
+
+const SNAPSHOT_FILE_PATTERN = /^(\d+)-(original|save|autoSave|beforeRestore)\.snap$/
+
+// Hash of the newest snapshot per file, so unchanged saves are skipped cheaply
+const latestHashes = new Map<string, string>()
+
+/**
+ * History lives in the .wrangle folder of the workspace containing the file,
+ * or in ~/.wrangle/history for files outside any workspace
+ */
+function getHistoryRoot(filePath: string): string {
+  const home = homedir()
+  let dir = dirname(filePath)
+  for (;;) {
+    // ~/.wrangle is the app data folder, not a workspace
+    if (dir !== home && existsSync(getWorkspaceDir(dir))) {
+      return join(getWorkspaceDir(dir), HISTORY_DIR)
+    }
+    const parent = dirname(dir)
+    if (parent === dir) return APP_HISTORY_DIR
+    dir = parent
+  }
+}
+
+function getBucketDir(filePath: string): string {
+  const key = createHash('sha1').update(filePath).digest('hex').slice(0, 16)
+  return join(getHistoryRoot(filePath), key)
+}
+
+/**
+ * List the snapshots in a history folder, newest first
+ */
+async function readSnapshots(bucketDir: string): Promise<FileSnapshot[]> {
+  if (!existsSync(bucketDir)) return []
+
+  const snapshots: FileSnapshot[] = []
+  for (const name of await readdir(bucketDir)) {
+    const match = name.match(SNAPSHOT_FILE_PATTERN)
+    if (!match) continue
+    const stats = await stat(join(bucketDir, name))
+    snapshots.push({ id: name, timestamp: Number(match[1]), source: match[2] as SnapshotSource, size: stats.size })
+  }
+  return snapshots.sort((a, b) => b.timestamp - a.timestamp)
+}
+
+async function writeSnapshot(
+  bucketDir: string,
+  filePath: string,
+  content: string,
+  source: SnapshotSource,
+  timestamp: number
+): Promise<FileSnapshot> {
+  await mkdir(bucketDir, { recursive: true })
+  await writeFile(join(bucketDir, META_FILE), JSON.stringify({ path: filePath }), 'utf-8')
+
+  // Two snapshots in the same millisecond must not overwrite each other
+  while (existsSync(join(bucketDir, `${timestamp}-${source}.snap`))) {
+    timestamp++
+  }
+  const id = `${timestamp}-${source}.snap`
+  await writeFile(join(bucketDir, id), content, 'utf-8')
+  return { id, timestamp, source, size: Buffer.byteLength(content) }
+}
+
+/**
+ * Drop snapshots beyond the retention limits, keeping the newest
+ */
+async function pruneSnapshots(bucketDir: string, snapshots: FileSnapshot[]): Promise<void> {
+  const cutoff = Date.now() - MAX_SNAPSHOT_AGE_MS
+  const isExpired = (s: FileSnapshot) => s.source !== 'original' && s.timestamp < cutoff
+  const stale = snapshots.filter((s, i) => i > 0 && (i >= MAX_SNAPSHOTS_PER_FILE || isExpired(s)))
+  await Promise.all(stale.map((s) => rm(join(bucketDir, s.id), { force: true })))
+}
+
+/**
+ * Keep a snapshot of content about to be written to filePath. The first
+ * snapshot of a file also keeps the version already on disk. Returns
+ * whether a snapshot was taken; failures never block the save.
+ */
+export async function recordSnapshot(filePath: string, content: string, source: SnapshotSource): Promise<boolean> {
+  try {
+    const bucketDir = getBucketDir(filePath)
+    const snapshots = await readSnapshots(bucketDir)
+    const latest = snapshots[0]
+    const hash = hashContent(content)
+
+    if (latest) {
+      let latestHash = latestHashes.get(filePath)
+      if (latestHash === undefined) {
+        latestHash = hashContent(await readFile(join(bucketDir, latest.id), 'utf-8'))
+      }
+      if (latestHash === hash) return false
+      if (
+        source === 'autoSave' &&
+        latest.source === 'autoSave' &&
+        Date.now() - latest.timestamp < AUTOSAVE_SNAPSHOT_INTERVAL_MS
+      ) {
+        return false
+      }
+    } else if (existsSync(filePath)) {
+      // Keep the version that was there before Wrangle first wrote the file.
+      // Snapshots hold decoded text, so they are UTF-8 whatever the file's encoding.
+      const { content: diskContent } = await readTextFile(filePath)
+      if (diskContent !== content) {
+        const { mtimeMs } = await stat(filePath)
+        snapshots.push(await writeSnapshot(bucketDir, filePath, diskContent, 'original', Math.floor(mtimeMs)))
+      }
+    }
+
+    snapshots.unshift(await writeSnapshot(bucketDir, filePath, content, source, Date.now()))
+    latestHashes.set(filePath, hash)
+    await pruneSnapshots(bucketDir, snapshots)
+    return true
+  } catch (error) {
+    console.error(`Error recording history for ${filePath}:`, error)
+    return false
+  }
+}
+
+/**
+ * List the snapshots kept for a file, newest first
+ */
+export async function listSnapshots(filePath: string): Promise<FileSnapshot[]> {
+  return readSnapshots(getBucketDir(filePath))
+}
+
+/**
+ * Read the content of one snapshot
+ */
+export async function readSnapshot(filePath: string, snapshotId: string): Promise<string | null> {
+  // Ids come from the renderer; only accept snapshot file names
+  if (!SNAPSHOT_FILE_PATTERN.test(snapshotId)) return null
+  const snapshotPath = join(getBucketDir(filePath), snapshotId)
+  return existsSync(snapshotPath) ? readFile(snapshotPath, 'utf-8') : null
+}
+
+/**
+ * Keep the current content, then return a snapshot's content to restore
+ */
+export async function restoreSnapshot(
+  filePath: string,
+  snapshotId: string,
+  currentContent: string
+): Promise<string | null> {
+  const content = await readSnapshot(filePath, snapshotId)
+  if (content === null) return null
+  await recordSnapshot(filePath, currentContent, 'beforeRestore')
+  return content
+}
+
+/**
+ * Move the history of a renamed or moved file, or of every file in a moved folder
+ */
+export async function moveFileHistory(fromPath: string, toPath: string): Promise<void> {
+  const historyRoot = getHistoryRoot(fromPath)
+  if (!existsSync(historyRoot)) return
+
+  for (const key of await readdir(historyRoot)) {
+    const bucketDir = join(historyRoot, key)
+    try {
+      const meta = JSON.parse(await readFile(join(bucketDir, META_FILE), 'utf-8')) as { path: string }
+      if (meta.path !== fromPath && !meta.path.startsWith(fromPath + sep)) continue
+
+      const newPath = toPath + meta.path.slice(fromPath.length)
+      const newBucketDir = getBucketDir(newPath)
+      if (existsSync(newBucketDir)) continue
+
+      await mkdir(dirname(newBucketDir), { recursive: true })
+      await rename(bucketDir, newBucketDir)
+      await writeFile(join(newBucketDir, META_FILE), JSON.stringify({ path: newPath }), 'utf-8')
+
+      const latestHash = latestHashes.get(meta.path)
+      latestHashes.delete(meta.path)
+      if (latestHash) {
+        latestHashes.set(newPath, latestHash)
+      }
+    } catch {
+      // Not a history folder, or unreadable; leave it alone
+    }
+  }
+}
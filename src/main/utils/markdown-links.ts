@@ -0,0 +1,89 @@
+// Inline links and images: [text](url "title") / ![alt](<url with spaces>)
+const INLINE_LINK_PATTERN = /\]\(\s*(<[^>\n]*>|[^\s)]+)/g
+
+// Reference definitions: [label]: url "title"
+const REFERENCE_DEFINITION_PATTERN = /^ {0,3}\[(?!\^)[^\]\n]+\]:\s*(<[^>\n]*>|\S+)/g
+
+// HTML tags, and src/href attributes inside them
+const HTML_TAG_PATTERN = /<([a-zA-Z][a-zA-Z0-9]*)[^>]*>/g
+const HTML_URL_ATTRIBUTE_PATTERN = /\s(?:src|href)\s*=\s*(["'])([^"'\n]*)\1/gi
+
+// HTML tags whose src points at an image
+const HTML_IMAGE_TAGS = new Set(['img', 'source'])
+
+export interface LinkReference {
+  start: number // Offset of the URL in the file content
+  url: string // As written, including any <angle brackets>
+  lineNumber: number
+  column: number // 1-based column of the URL on its line
+  isImage: boolean
+}
+
+/**
+ * Whether the inline link whose text ends at closeIndex is an image (![alt](url))
+ */
+function isInlineImage(text: string, closeIndex: number): boolean {
+  let depth = 0
+  for (let i = closeIndex; i >= 0; i--) {
+    if (text[i] === ']' && text[i - 1] !== '\\') depth++
+    if (text[i] === '[' && text[i - 1] !== '\\') depth--
+    if (depth === 0) return text[i - 1] === '!'
+  }
+  return false
+}
+
+/**
+ * Find link and image URLs line by line, ignoring fenced code blocks and inline code
+ */
+export function findLinkReferences(content: string): LinkReference[] {
+  const references: LinkReference[] = []
+  let fence: string | null = null
+  let lineStart = 0
+
+  content.split('\n').forEach((line, index) => {
+    const offset = lineStart
+    lineStart += line.length + 1
+
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/)
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1]
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null
+      }
+      return
+    }
+    if (fence !== null) return
+
+    // Blank out code spans so offsets stay valid
+    const text = line.replace(/`[^`]*`/g, (code) => ' '.repeat(code.length))
+    const add = (url: string, start: number, isImage: boolean) => {
+      references.push({ start: offset + start, url, lineNumber: index + 1, column: start + 1, isImage })
+    }
+
+    for (const match of text.matchAll(INLINE_LINK_PATTERN)) {
+      add(match[1], match.index! + match[0].length - match[1].length, isInlineImage(text, match.index!))
+    }
+    for (const match of text.matchAll(REFERENCE_DEFINITION_PATTERN)) {
+      add(match[1], match.index! + match[0].length - match[1].length, false)
+    }
+
+    for (const tag of text.matchAll(HTML_TAG_PATTERN)) {
+      const isImage = HTML_IMAGE_TAGS.has(tag[1].toLowerCase())
+      for (const attr of tag[0].matchAll(HTML_URL_ATTRIBUTE_PATTERN)) {
+        const valueStart = attr.index! + attr[0].length - attr[2].length - 1
+        add(attr[2], tag.index! + valueStart, isImage)
+      }
+    }
+  })
+
+  return references
+}
+
+export function decodeUrlPath(urlPath: string): string {
+  try {
+    return decodeURI(urlPath)
+  } catch {
+    return urlPath
+  }
+}
@@ -0,0 +1,149 @@
+import { homedir } from 'os'
+import { join, dirname } from 'path'
+import { mkdir, readFile, appendFile, stat } from 'fs/promises'
+import nspell from 'nspell'
+import { getWorkspaceDir } from './workspace-manager'
+import { DEFAULT_SPELL_CHECK_LANGUAGE, SpellCheckResult } from '../../shared/types'
+
+// Bundled Hunspell dictionaries, by language tag
+const DICTIONARY_PACKAGES: Record<string, string> = {
+  en: 'dictionary-en',
+  'en-gb': 'dictionary-en-gb',
+  de: 'dictionary-de',
+  fr: 'dictionary-fr',
+  es: 'dictionary-es'
+}
+
+const DICTIONARY_FILE = 'dictionary.txt'
+
+// Words the user added for every workspace
+const USER_DICTIONARY_PATH = join(homedir(), '.wrangle', DICTIONARY_FILE)
+
+const MAX_SUGGESTIONS = 5
+
+// Loading a dictionary takes a moment, so each one is loaded once
+const checkers = new Map<string, Promise<nspell>>()
+
+// Custom word lists with the modification time they were read at
+const wordLists = new Map<string, { mtimeMs: number; words: Set<string> }>()
+
+/**
+ * The bundled dictionary for a language tag such as "en-US" or "de": an exact
+ * match, then the primary language, then the default
+ */
+export function resolveDictionaryLanguage(lang: string | null | undefined): string {
+  const tag = (lang ?? '').trim().toLowerCase().replace(/_/g, '-')
+  if (tag in DICTIONARY_PACKAGES) return tag
+  const primary = tag.split('-')[0]
+  return primary in DICTIONARY_PACKAGES ? primary : DEFAULT_SPELL_CHECK_LANGUAGE
+}
+
+async function loadChecker(language: string): Promise<nspell> {
+  // The packages are ES modules that only export a loader, so read their files directly
+  const dir = dirname(require.resolve(DICTIONARY_PACKAGES[language]))
+  const [aff, dic] = await Promise.all([readFile(join(dir, 'index.aff')), readFile(join(dir, 'index.dic'))])
+  return nspell(aff, dic)
+}
+
+function getChecker(language: string): Promise<nspell> {
+  let checker = checkers.get(language)
+  if (!checker) {
+    checker = loadChecker(language)
+    checkers.set(language, checker)
+    // Let a failed load be tried again
+    checker.catch(() => checkers.delete(language))
+  }
+  return checker
+}
+
+function getWorkspaceDictionaryPath(workspaceRoot: string): string {
+  return join(getWorkspaceDir(workspaceRoot), DICTIONARY_FILE)
+}
+
+/**
+ * Read a custom dictionary, one word per line. Lists are re-read only when
+ * the file changes, so edits made by hand are picked up.
+ */
+async function readWordList(filePath: string): Promise<Set<string>> {
+  let mtimeMs: number
+  try {
+    mtimeMs = (await stat(filePath)).mtimeMs
+  } catch {
+    return new Set()
+  }
+
+  const cached = wordLists.get(filePath)
+  if (cached && cached.mtimeMs === mtimeMs) return cached.words
+
+  const content = await readFile(filePath, 'utf-8')
+  const words = new Set(
+    content
+      .split(/\r?\n/)
+      .map((line) => normalizeWord(line.trim()))
+      .filter((line) => line && !line.startsWith('#'))
+  )
+  wordLists.set(filePath, { mtimeMs, words })
+  return words
+}
+
+// Typographic apostrophes are spelled with the ASCII one in the dictionaries
+function normalizeWord(word: string): string {
+  return word.replace(/’/g, "'")
+}
+
+/**
+ * Return the words that are neither in the dictionary for the language nor
+ * in the user or workspace dictionary
+ */
+export async function checkWords(
+  words: string[],
+  lang: string | null,
+  workspaceRoot: string | null
+): Promise<SpellCheckResult> {
+  const language = resolveDictionaryLanguage(lang)
+  const [checker, userWords, workspaceWords] = await Promise.all([
+    getChecker(language),
+    readWordList(USER_DICTIONARY_PATH),
+    workspaceRoot ? readWordList(getWorkspaceDictionaryPath(workspaceRoot)) : new Set<string>()
+  ])
+
+  const isKnown = (word: string) =>
+    userWords.has(word) ||
+    workspaceWords.has(word) ||
+    userWords.has(word.toLowerCase()) ||
+    workspaceWords.has(word.toLowerCase()) ||
+    checker.correct(word)
+
+  const misspelled = Array.from(new Set(words)).filter((word) => !isKnown(normalizeWord(word)))
+  return { language, misspelled }
+}
+
+/**
+ * Suggested corrections for a word, best first
+ */
+export async function suggestWords(word: string, lang: string | null): Promise<string[]> {
+  const checker = await getChecker(resolveDictionaryLanguage(lang))
+  return checker.suggest(normalizeWord(word)).slice(0, MAX_SUGGESTIONS)
+}
+
+/**
+ * Add a word to the workspace dictionary, or to the user dictionary when no
+ * workspace is given
+ */
+export async function addWord(word: string, workspaceRoot: string | null): Promise<void> {
+  const normalized = normalizeWord(word.trim())
+  if (!normalized || /\s/.test(normalized)) {
+    throw new Error(`Not a single word: ${word}`)
+  }
+
+  const filePath = workspaceRoot ? getWorkspaceDictionaryPath(workspaceRoot) : USER_DICTIONARY_PATH
+  const words = await readWordList(filePath)
+  if (words.has(normalized)) return
+
+  // A file edited by hand may not end with a line break
+  const existing = await readFile(filePath, 'utf-8').catch(() => '')
+  const separator = existing && !existing.endsWith('\n') ? '\n' : ''
+
+  await mkdir(dirname(filePath), { recursive: true })
+  await appendFile(filePath, `${separator}${normalized}\n`, 'utf-8')
+}
@@ -1,11 +1,20 @@
 import { homedir } from 'os'
-import { join } from 'path'
-import { mkdir, rm, readdir, stat, cp } from 'fs/promises'
+import { join, dirname } from 'path'
+import { mkdir, rm, readdir, stat, readFile, writeFile } from 'fs/promises'
 import { existsSync } from 'fs'
+import { AssetPathOptions } from '../../shared/types'
+import { resolveAssetTarget } from './asset-path-template'
 
 const TEMP_ROOT_DIR = join(homedir(), '.wrangle')
 const DRAFTS_DIR = join(TEMP_ROOT_DIR, 'drafts')
 
+/**
+ * Get the directory holding every tab's temporary files
+ */
+export function getDraftsDir(): string {
+  return DRAFTS_DIR
+}
+
 /**
  * Get the temporary directory path for a specific tab
  */
@@ -97,43 +106,47 @@ async function cleanupOldDrafts(): Promise<void> {
 }
 
 /**
- * Move temp files (including assets) from temp directory to saved file location
+ * Move temp files (including assets) from temp directory to saved file location,
+ * placing each asset where the asset path template puts it. Returns the new path
+ * of each moved asset, keyed by its temp path.
  */
-export async function moveTempToSaved(tabId: string, savedPath: string): Promise<void> {
+export async function moveTempToSaved(
+  tabId: string,
+  savedPath: string,
+  assetPath: AssetPathOptions | null = null
+): Promise<Map<string, string>> {
   const tempAssetDir = getTempAssetDir(tabId)
+  const moved = new Map<string, string>()
 
   // Check if temp assets directory exists
   if (!existsSync(tempAssetDir)) {
-    return // Nothing to move
+    return moved // Nothing to move
   }
 
-  // Get the directory where the file was saved
-  const savedDir = join(savedPath, '..')
-  const targetAssetDir = join(savedDir, 'assets')
-
   try {
-    // Create target assets directory if it doesn't exist
-    if (!existsSync(targetAssetDir)) {
-      await mkdir(targetAssetDir, { recursive: true })
-    }
-
-    // Copy all files from temp assets to target assets
+    // Copy all files from temp assets to their templated paths
     const assetFiles = await readdir(tempAssetDir)
 
     for (const file of assetFiles) {
       const sourcePath = join(tempAssetDir, file)
-      const targetPath = join(targetAssetDir, file)
 
       // Check if it's a file (not a directory)
       const stats = await stat(sourcePath)
 
       if (stats.isFile()) {
-        await cp(sourcePath, targetPath, { force: true })
+        const data = await readFile(sourcePath)
+        const target = await resolveAssetTarget(data, file, savedPath, assetPath)
+        if (!target.existing) {
+          await mkdir(dirname(target.filePath), { recursive: true })
+          await writeFile(target.filePath, data)
+        }
+        moved.set(sourcePath, target.filePath)
       }
     }
 
     // Clean up temp directory after successful move
     await cleanupTempDir(tabId)
+    return moved
   } catch (error) {
     console.error('Failed to move temp files to saved location:', error)
     throw error
@@ -0,0 +1,115 @@
+import { readFile, writeFile } from 'fs/promises'
+import { sep } from 'path'
+import { FileEncoding } from '../../shared/types'
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf])
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe])
+const UTF16BE_BOM = Buffer.from([0xfe, 0xff])
+
+// Encoding of each open file, used when it is saved
+const fileEncodings = new Map<string, FileEncoding>()
+
+/**
+ * Detect a text encoding from the byte order mark. Without one, text that
+ * is not valid UTF-8 is taken as ISO 8859-1.
+ */
+export function detectEncoding(data: Buffer): FileEncoding {
+  if (data.subarray(0, 3).equals(UTF8_BOM)) return 'utf8bom'
+  if (data.subarray(0, 2).equals(UTF16LE_BOM)) return 'utf16le'
+  if (data.subarray(0, 2).equals(UTF16BE_BOM)) return 'utf16be'
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data)
+    return 'utf8'
+  } catch {
+    return 'latin1'
+  }
+}
+
+export function decodeText(data: Buffer, encoding: FileEncoding): string {
+  switch (encoding) {
+    case 'utf8bom':
+      return data.subarray(3).toString('utf8')
+    case 'utf16le':
+      return data.subarray(2).toString('utf16le')
+    case 'utf16be':
+      // swap16 works in place, so copy first
+      return Buffer.from(data.subarray(2)).swap16().toString('utf16le')
+    case 'latin1':
+      return data.toString('latin1')
+    default:
+      return data.toString('utf8')
+  }
+}
+
+export function encodeText(content: string, encoding: FileEncoding): Buffer {
+  switch (encoding) {
+    case 'utf8bom':
+      return Buffer.concat([UTF8_BOM, Buffer.from(content, 'utf8')])
+    case 'utf16le':
+      return Buffer.concat([UTF16LE_BOM, Buffer.from(content, 'utf16le')])
+    case 'utf16be':
+      return Buffer.concat([UTF16BE_BOM, Buffer.from(content, 'utf16le').swap16()])
+    case 'latin1':
+      return Buffer.from(content, 'latin1')
+    default:
+      return Buffer.from(content, 'utf8')
+  }
+}
+
+/**
+ * Read a text file in whatever encoding it was saved in
+ */
+export async function readTextFile(filePath: string): Promise<{ content: string; encoding: FileEncoding }> {
+  const data = await readFile(filePath)
+  const encoding = detectEncoding(data)
+  return { content: decodeText(data, encoding), encoding }
+}
+
+/**
+ * Read a file for opening in a tab; later saves keep its encoding
+ */
+export async function loadTextFile(filePath: string): Promise<string> {
+  const { content, encoding } = await readTextFile(filePath)
+  fileEncodings.set(filePath, encoding)
+  return content
+}
+
+/**
+ * Write a file in the encoding it was opened in, or UTF-8 for new files
+ */
+export async function writeTextFile(filePath: string, content: string): Promise<void> {
+  await writeFile(filePath, encodeText(content, getFileEncoding(filePath)))
+}
+
+/**
+ * Rewrite a file that may not be open in a tab, e.g. for replace-all. Open
+ * files keep the encoding they are saved in, others the one they were read in.
+ */
+export async function rewriteTextFile(filePath: string, content: string, readEncoding: FileEncoding): Promise<void> {
+  await writeFile(filePath, encodeText(content, fileEncodings.get(filePath) ?? readEncoding))
+}
+
+export function getFileEncoding(filePath: string): FileEncoding {
+  return fileEncodings.get(filePath) ?? 'utf8'
+}
+
+/**
+ * Change the encoding a file is saved in. The file itself is rewritten on
+ * the next save.
+ */
+export function setFileEncoding(filePath: string, encoding: FileEncoding): void {
+  fileEncodings.set(filePath, encoding)
+}
+
+/**
+ * Carry encodings over when a file or folder is renamed or moved
+ */
+export function moveFileEncodings(fromPath: string, toPath: string): void {
+  for (const [filePath, encoding] of Array.from(fileEncodings.entries())) {
+    if (filePath === fromPath || filePath.startsWith(fromPath + sep)) {
+      fileEncodings.delete(filePath)
+      fileEncodings.set(toPath + filePath.slice(fromPath.length), encoding)
+    }
+  }
+}
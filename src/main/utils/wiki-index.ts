@@ -0,0 +1,136 @@
+import { join, relative, sep, basename, extname } from 'path'
+import { readFile, readdir, stat } from 'fs/promises'
+import { shouldSkipEntry } from './workspace-manager'
+import { findWikiLinks, resolveWikiLink } from '../../shared/wiki-links'
+import { WikiPage, WikiBacklink } from '../../shared/workspace-types'
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdown|mkd|mdwn)$/i
+
+// Directories that never contain pages
+const ALWAYS_EXCLUDED = new Set(['node_modules', '.git'])
+
+// Longest line text sent to the renderer for a backlink
+const MAX_LINE_TEXT = 300
+
+interface IndexedLink {
+  target: string
+  lineNumber: number
+  lineText: string
+}
+
+// Links found in each file, reused until the file's mtime changes
+const linkCache = new Map<string, { mtimeMs: number; links: IndexedLink[] }>()
+
+/**
+ * Extract wiki links line by line, ignoring fenced code blocks and inline code
+ */
+function extractLinks(content: string): IndexedLink[] {
+  const links: IndexedLink[] = []
+  let fence: string | null = null
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/)
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1]
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null
+      }
+      return
+    }
+    if (fence !== null) return
+
+    const text = line.replace(/`[^`]*`/g, (code) => ' '.repeat(code.length))
+    for (const link of findWikiLinks(text)) {
+      if (!link.target) continue
+      links.push({ target: link.target, lineNumber: index + 1, lineText: line.trim().slice(0, MAX_LINE_TEXT) })
+    }
+  })
+
+  return links
+}
+
+async function getFileLinks(filePath: string): Promise<IndexedLink[]> {
+  const stats = await stat(filePath)
+  const cached = linkCache.get(filePath)
+  if (cached && cached.mtimeMs === stats.mtimeMs) {
+    return cached.links
+  }
+
+  const links = extractLinks(await readFile(filePath, 'utf-8'))
+  linkCache.set(filePath, { mtimeMs: stats.mtimeMs, links })
+  return links
+}
+
+/**
+ * List every markdown file under rootPath that a wiki link can point at
+ */
+export async function listWikiPages(rootPath: string): Promise<WikiPage[]> {
+  const pages: WikiPage[] = []
+
+  const walk = async (dirPath: string): Promise<void> => {
+    let entries
+    try {
+      entries = await readdir(dirPath, { withFileTypes: true })
+    } catch {
+      return
+    }
+
+    for (const entry of entries) {
+      if (shouldSkipEntry(entry.name) || ALWAYS_EXCLUDED.has(entry.name)) {
+        continue
+      }
+
+      const fullPath = join(dirPath, entry.name)
+      if (entry.isDirectory()) {
+        await walk(fullPath)
+      } else if (entry.isFile() && MARKDOWN_EXTENSIONS.test(entry.name)) {
+        const relativePath = relative(rootPath, fullPath).split(sep).join('/')
+        pages.push({
+          path: fullPath,
+          name: basename(entry.name, extname(entry.name)),
+          relativePath: relativePath.replace(MARKDOWN_EXTENSIONS, '')
+        })
+      }
+    }
+  }
+
+  await walk(rootPath)
+  return pages.sort((a, b) => a.relativePath.localeCompare(b.relativePath))
+}
+
+/**
+ * Find every wiki link in the workspace that resolves to filePath
+ */
+export async function getBacklinks(rootPath: string, filePath: string): Promise<WikiBacklink[]> {
+  const pages = await listWikiPages(rootPath)
+  const backlinks: WikiBacklink[] = []
+
+  // Drop cached files that no longer exist
+  const pagePaths = new Set(pages.map((page) => page.path))
+  for (const cachedPath of linkCache.keys()) {
+    if (cachedPath.startsWith(rootPath) && !pagePaths.has(cachedPath)) {
+      linkCache.delete(cachedPath)
+    }
+  }
+
+  for (const page of pages) {
+    if (page.path === filePath) continue
+
+    try {
+      const links = await getFileLinks(page.path)
+      let lastLine = 0
+      for (const link of links) {
+        // One entry per line, even if it links here more than once
+        if (link.lineNumber !== lastLine && resolveWikiLink(pages, link.target)?.path === filePath) {
+          lastLine = link.lineNumber
+          backlinks.push({ path: page.path, name: page.name, lineNumber: link.lineNumber, lineText: link.lineText })
+        }
+      }
+    } catch (error) {
+      console.error(`Error indexing wiki links in ${page.path}:`, error)
+    }
+  }
+
+  return backlinks
+}
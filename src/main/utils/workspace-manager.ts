@@ -175,6 +175,18 @@ export function isInsideWorkspace(filePath: string, workspacePath: string): bool
   return !relativePath.startsWith('..') && !relativePath.startsWith(sep + '..')
 }
 
+/**
+ * Check if a directory entry should be hidden from the file tree
+ */
+export function shouldSkipEntry(entry: string, showHidden?: boolean): boolean {
+  // Always skip .wrangle directory (internal config)
+  if (entry === WRANGLE_DIR) {
+    return true
+  }
+  // Skip hidden files unless showHidden is true
+  return !showHidden && entry.startsWith('.')
+}
+
 /**
  * List files in a directory recursively (for file tree)
  */
@@ -192,12 +204,7 @@ export async function listFilesRecursive(
   const nodes: FileTreeNode[] = []
 
   for (const entry of entries) {
-    // Always skip .wrangle directory (internal config)
-    if (entry === WRANGLE_DIR) {
-      continue
-    }
-    // Skip hidden files unless showHidden is true
-    if (!showHidden && entry.startsWith('.')) {
+    if (shouldSkipEntry(entry, showHidden)) {
       continue
     }
 
@@ -242,12 +249,7 @@ export async function listFiles(dirPath: string, showHidden?: boolean): Promise<
   const nodes: FileTreeNode[] = []
 
   for (const entry of entries) {
-    // Always skip .wrangle directory (internal config)
-    if (entry === WRANGLE_DIR) {
-      continue
-    }
-    // Skip hidden files unless showHidden is true
-    if (!showHidden && entry.startsWith('.')) {
+    if (shouldSkipEntry(entry, showHidden)) {
       continue
     }
 
@@ -0,0 +1,303 @@
+import { join, relative, sep } from 'path'
+import { readdir, stat } from 'fs/promises'
+import { shouldSkipEntry } from './workspace-manager'
+import { hashContent } from './file-tracker'
+import { readTextFile, rewriteTextFile } from './text-encoding'
+import {
+  WorkspaceSearchQuery,
+  WorkspaceSearchMatch,
+  WorkspaceSearchFileResult,
+  WorkspaceSearchSummary,
+  WorkspaceReplacePreview,
+  WorkspaceReplaceResult
+} from '../../shared/workspace-types'
+
+// Directories that are never worth searching
+const ALWAYS_EXCLUDED = new Set(['node_modules', '.git'])
+
+// Skip files larger than this (likely generated or binary)
+const MAX_FILE_SIZE = 2 * 1024 * 1024
+
+// Stop collecting after this many matches
+const MAX_MATCHES = 10000
+
+// Longest line text sent to the renderer for a match
+const MAX_LINE_TEXT = 1000
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Convert a glob to a RegExp over '/'-separated workspace-relative paths.
+ * Globs without a slash match at any depth, and a glob that matches a
+ * folder also matches everything inside it.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/\\/g, '/').replace(/^\.\//, '')
+  if (pattern.endsWith('/')) {
+    pattern += '**'
+  }
+  if (!pattern.includes('/')) {
+    pattern = `**/${pattern}`
+  }
+
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?'
+          i += 2
+        } else {
+          source += '.*'
+          i++
+        }
+      } else {
+        source += '[^/]*'
+      }
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '{' && pattern.indexOf('}', i) !== -1) {
+      const end = pattern.indexOf('}', i)
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`
+      i = end
+    } else {
+      source += escapeRegExp(char)
+    }
+  }
+
+  return new RegExp(`^${source}(?:/.*)?$`, process.platform === 'win32' ? 'i' : '')
+}
+
+function parseGlobs(list: string): RegExp[] {
+  return list
+    .split(',')
+    .map((glob) => glob.trim())
+    .filter((glob) => glob.length > 0)
+    .map(globToRegExp)
+}
+
+/**
+ * Build the RegExp for a query (throws on an invalid regular expression)
+ */
+export function buildSearchRegExp(query: WorkspaceSearchQuery): RegExp {
+  let source = query.isRegex ? query.pattern : escapeRegExp(query.pattern)
+  if (query.wholeWord) {
+    source = `\\b(?:${source})\\b`
+  }
+  return new RegExp(source, query.matchCase ? 'gm' : 'gim')
+}
+
+/**
+ * Escape a literal replacement so `$` isn't treated as a group reference
+ */
+function toReplacementString(query: WorkspaceSearchQuery, replacement: string): string {
+  return query.isRegex ? replacement : replacement.replace(/\$/g, '$$$$')
+}
+
+/**
+ * Read a file for searching, or null if it is too large or looks binary
+ */
+async function readSearchableFile(filePath: string): Promise<string | null> {
+  const stats = await stat(filePath)
+  if (stats.size > MAX_FILE_SIZE) {
+    return null
+  }
+  const { content } = await readTextFile(filePath)
+  return content.includes('\u0000') ? null : content
+}
+
+/**
+ * Find every match in a file's content, converting offsets to line/column
+ */
+function findMatches(content: string, regex: RegExp, limit: number): WorkspaceSearchMatch[] {
+  const lineStarts = [0]
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      lineStarts.push(i + 1)
+    }
+  }
+
+  const toPosition = (offset: number): { line: number; column: number } => {
+    let low = 0
+    let high = lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (lineStarts[mid] <= offset) {
+        low = mid
+      } else {
+        high = mid - 1
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 }
+  }
+
+  const matches: WorkspaceSearchMatch[] = []
+  regex.lastIndex = 0
+  let match: RegExpExecArray | null
+  while (matches.length < limit && (match = regex.exec(content)) !== null) {
+    if (match[0].length === 0) {
+      // Skip empty matches (e.g. `^`) so the loop always advances
+      regex.lastIndex++
+      continue
+    }
+
+    const start = toPosition(match.index)
+    const end = toPosition(match.index + match[0].length)
+    const lineEnd = content.indexOf('\n', lineStarts[start.line - 1])
+    const lineText = content
+      .slice(lineStarts[start.line - 1], lineEnd === -1 ? content.length : lineEnd)
+      .replace(/\r$/, '')
+
+    matches.push({
+      lineNumber: start.line,
+      column: start.column,
+      endLineNumber: end.line,
+      endColumn: end.column,
+      lineText: lineText.slice(0, MAX_LINE_TEXT)
+    })
+  }
+  return matches
+}
+
+/**
+ * Search every text file under rootPath, reporting each file with matches as it is found
+ */
+export async function searchWorkspace(
+  rootPath: string,
+  query: WorkspaceSearchQuery,
+  onFile: (result: WorkspaceSearchFileResult) => void,
+  isCancelled: () => boolean
+): Promise<WorkspaceSearchSummary> {
+  const summary: WorkspaceSearchSummary = {
+    fileCount: 0,
+    matchCount: 0,
+    limitHit: false,
+    cancelled: false
+  }
+
+  let regex: RegExp
+  try {
+    regex = buildSearchRegExp(query)
+  } catch (error) {
+    return { ...summary, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const includes = parseGlobs(query.include)
+  const excludes = parseGlobs(query.exclude)
+  const toRelative = (fullPath: string): string => relative(rootPath, fullPath).split(sep).join('/')
+
+  const walk = async (dirPath: string): Promise<void> => {
+    let entries
+    try {
+      entries = await readdir(dirPath, { withFileTypes: true })
+    } catch {
+      return
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      if (isCancelled()) {
+        summary.cancelled = true
+        return
+      }
+      if (summary.limitHit) {
+        return
+      }
+      if (shouldSkipEntry(entry.name, query.showHidden) || ALWAYS_EXCLUDED.has(entry.name)) {
+        continue
+      }
+
+      const fullPath = join(dirPath, entry.name)
+      const relativePath = toRelative(fullPath)
+      if (excludes.some((glob) => glob.test(relativePath))) {
+        continue
+      }
+
+      if (entry.isDirectory()) {
+        await walk(fullPath)
+        continue
+      }
+      if (!entry.isFile() || (includes.length > 0 && !includes.some((glob) => glob.test(relativePath)))) {
+        continue
+      }
+
+      try {
+        const content = await readSearchableFile(fullPath)
+        if (content === null) continue
+
+        const matches = findMatches(content, regex, MAX_MATCHES - summary.matchCount)
+        if (matches.length === 0) continue
+
+        summary.fileCount++
+        summary.matchCount += matches.length
+        summary.limitHit = summary.matchCount >= MAX_MATCHES
+        onFile({ path: fullPath, matches })
+      } catch (error) {
+        console.error(`Error searching ${fullPath}:`, error)
+      }
+    }
+  }
+
+  await walk(rootPath)
+  return summary
+}
+
+/**
+ * Compute the replace-all result for each file without writing anything
+ */
+export async function previewReplace(
+  query: WorkspaceSearchQuery,
+  replacement: string,
+  filePaths: string[]
+): Promise<WorkspaceReplacePreview[]> {
+  const regex = buildSearchRegExp(query)
+  const replaceWith = toReplacementString(query, replacement)
+  const previews: WorkspaceReplacePreview[] = []
+
+  for (const filePath of filePaths) {
+    try {
+      const original = await readSearchableFile(filePath)
+      if (original === null) continue
+
+      const count = original.match(regex)?.length ?? 0
+      const replaced = original.replace(regex, replaceWith)
+
+      if (count > 0) {
+        previews.push({ path: filePath, original, replaced, count, hash: hashContent(original) })
+      }
+    } catch (error) {
+      console.error(`Error previewing replace in ${filePath}:`, error)
+    }
+  }
+
+  return previews
+}
+
+/**
+ * Write replace-all results, skipping files that changed since the preview
+ */
+export async function applyReplace(
+  edits: { path: string; hash: string; content: string }[]
+): Promise<WorkspaceReplaceResult> {
+  const result: WorkspaceReplaceResult = { written: [], skipped: [] }
+
+  for (const edit of edits) {
+    try {
+      const { content: current, encoding } = await readTextFile(edit.path)
+      if (hashContent(current) !== edit.hash) {
+        result.skipped.push(edit.path)
+        continue
+      }
+      await rewriteTextFile(edit.path, edit.content, encoding)
+      result.written.push(edit.path)
+    } catch (error) {
+      console.error(`Error replacing in ${edit.path}:`, error)
+      result.skipped.push(edit.path)
+    }
+  }
+
+  return result
+}
@@ -1,13 +1,89 @@
-import { FileData, SaveResult } from '../shared/types'
+import {
+  FileData,
+  SaveResult,
+  ExternalFileChange,
+  FileOperationResult,
+  FileSnapshot,
+  ResolvedImage,
+  DocumentExportFormat,
+  ExportDocument,
+  PdfExportOptions,
+  EditorOptions,
+  PreviewTypography,
+  SpellCheckResult,
+  FileEncoding,
+  ImageSettings,
+  ImageProcessingOptions,
+  ImageInfo,
+  AssetPathOptions
+} from '../shared/types'
 import {
   WorkspaceConfig,
   WorkspaceSession,
   FileTreeNode,
-  FolderChange
+  FolderChange,
+  WorkspaceSearchQuery,
+  WorkspaceSearchFileResult,
+  WorkspaceSearchSummary,
+  WorkspaceReplacePreview,
+  WorkspaceReplaceResult,
+  WikiPage,
+  WikiBacklink,
+  PathMove,
+  LinkUpdatePreview,
+  LinkCheckOptions,
+  LinkCheckResult,
+  LinkProblem,
+  OrphanedAsset,
+  MissingAssetReference,
+  AssetScanResult,
+  GitFileState,
+  GitFileStatus,
+  GitStatus,
+  GitCommitResult
 } from '../shared/workspace-types'
 
 // Re-export for convenience
-export type { WorkspaceConfig, WorkspaceSession, FileTreeNode, FolderChange }
+export type {
+  WorkspaceConfig,
+  WorkspaceSession,
+  FileTreeNode,
+  FolderChange,
+  ExternalFileChange,
+  FileOperationResult,
+  FileSnapshot,
+  ResolvedImage,
+  DocumentExportFormat,
+  ExportDocument,
+  PdfExportOptions,
+  EditorOptions,
+  PreviewTypography,
+  SpellCheckResult,
+  FileEncoding,
+  ImageSettings,
+  ImageProcessingOptions,
+  ImageInfo,
+  AssetPathOptions,
+  WorkspaceSearchQuery,
+  WorkspaceSearchFileResult,
+  WorkspaceSearchSummary,
+  WorkspaceReplacePreview,
+  WorkspaceReplaceResult,
+  WikiPage,
+  WikiBacklink,
+  PathMove,
+  LinkUpdatePreview,
+  LinkCheckOptions,
+  LinkCheckResult,
+  LinkProblem,
+  OrphanedAsset,
+  MissingAssetReference,
+  AssetScanResult,
+  GitFileState,
+  GitFileStatus,
+  GitStatus,
+  GitCommitResult
+}
 
 // App-level session for restoring workspaces across app restarts
 export interface AppSession {
@@ -44,9 +120,18 @@ export interface SettingsSchema {
     previewSyncLocked: boolean
     splitRatio: number
   }
-  editor: {
+  editor: EditorOptions & {
     vimMode: boolean
   }
+  preview: {
+    htmlSanitization: 'strict' | 'github'
+    typography: PreviewTypography
+    customCssPath: string
+  }
+  images: ImageSettings
+  export: {
+    pdf: PdfExportOptions
+  }
 }
 
 export interface ElectronAPI {
@@ -54,30 +139,92 @@ export interface ElectronAPI {
     open: () => Promise<FileData[]>
     readByPath: (filePath: string) => Promise<FileData | null>
     save: (path: string, content: string) => Promise<boolean>
+    // Encoding the file was opened in and is saved in (UTF-8 for new files)
+    getEncoding: (filePath: string) => Promise<FileEncoding>
+    // Save in another encoding from the next save on
+    setEncoding: (filePath: string, encoding: FileEncoding) => Promise<boolean>
     saveAs: (content: string, suggestedName?: string) => Promise<string | null>
+    // Image adders process the image first unless processing is null, and write
+    // it where the asset path template puts it (the default template without one)
     copyImage: (
       sourcePath: string,
       tabId: string,
-      markdownFilePath: string | null
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null,
+      assetPath: AssetPathOptions | null
+    ) => Promise<string | null>
+    // Write image bytes to the same place copyImage would; returns the relative path
+    saveImage: (
+      data: Uint8Array,
+      fileName: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null,
+      assetPath: AssetPathOptions | null
+    ) => Promise<string | null>
+    // Like saveImage, but asks where to save first; null if cancelled
+    saveImageAs: (
+      data: Uint8Array,
+      suggestedName: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null,
+      assetPath: AssetPathOptions | null
+    ) => Promise<string | null>
+    // Size of a PNG, JPEG or WebP image linked from a document; null for other images
+    getImageInfo: (src: string, tabId: string, markdownFilePath: string | null) => Promise<ImageInfo | null>
+    // Rewrite a linked image; returns the link to use, which changes with the format.
+    // A resize in place can be reverted with undoOperation.
+    resizeImage: (
+      src: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      options: ImageProcessingOptions
     ) => Promise<string | null>
     autoSave: (tabId: string, content: string, filePath: string | null) => Promise<string | null>
     getTempDir: (tabId: string) => Promise<string>
-    moveTempFiles: (tabId: string, savedPath: string) => Promise<boolean>
+    // Move an unsaved tab's assets next to where it was saved; returns the saved
+    // content with the asset links updated, or null on failure
+    moveTempFiles: (tabId: string, savedPath: string, assetPath: AssetPathOptions | null) => Promise<string | null>
     cleanupTemp: (tabId: string) => Promise<boolean>
-    readImageAsDataURL: (imagePath: string) => Promise<string | null>
+    // Local images for the preview, served over wrangle-asset://; null if outside open folders
+    resolveImage: (src: string, baseDir: string | null) => Promise<ResolvedImage | null>
+    releaseImage: (imagePath: string) => Promise<boolean>
+    // Custom preview CSS; paths inside baseDir are kept relative to it
+    pickStyleSheet: (baseDir: string | null) => Promise<string | null>
+    readStyleSheet: (filePath: string, baseDir: string | null) => Promise<string | null>
+    onAssetChanged: (callback: (image: ResolvedImage) => void) => () => void
     copyToWorkspace: (sourcePath: string, workspaceRootPath: string) => Promise<string | null>
+    // File tree operations; each can be reverted with undoOperation
+    createEntry: (parentDir: string, name: string, isDirectory: boolean) => Promise<FileOperationResult>
+    renameEntry: (filePath: string, newName: string) => Promise<FileOperationResult>
+    moveEntry: (filePath: string, targetDir: string) => Promise<FileOperationResult>
+    duplicateEntry: (filePath: string) => Promise<FileOperationResult>
+    trashEntry: (filePath: string) => Promise<FileOperationResult>
+    undoOperation: () => Promise<FileOperationResult>
+    getUndoLabel: () => Promise<string | null>
+    // Show a file in the system file manager
+    revealInFolder: (filePath: string) => Promise<boolean>
+    watchExternal: (filePath: string) => Promise<boolean>
+    unwatchExternal: (filePath: string) => Promise<boolean>
+    acceptDiskVersion: (filePath: string, diskHash: string | null) => Promise<boolean>
+    onExternalChange: (callback: (change: ExternalFileChange) => void) => () => void
   }
   window: {
     minimize: () => void
     maximize: () => void
+    // Close the window; callers check for unsaved changes first
     close: () => void
+    // Called when the window is asked to close from outside the app, e.g. Alt+F4
+    onCloseRequested: (callback: () => void) => () => void
     zoom: (delta: number) => void
     resetZoom: () => void
     getZoom: () => Promise<number>
     isMaximized: () => Promise<boolean>
     print: () => void
-    exportPdf: (html: string, title: string) => Promise<string | null>
+    exportPdf: (html: string, title: string, options: PdfExportOptions, baseDir: string | null) => Promise<string | null>
     exportHtml: (html: string, title: string) => Promise<string | null>
+    exportDocument: (format: DocumentExportFormat, document: ExportDocument) => Promise<string | null>
     toggleDevTools: () => void
   }
   settings: {
@@ -104,7 +251,7 @@ export interface ElectronAPI {
     // List files recursively
     listFilesRecursive: (folderPath: string, maxDepth?: number, showHidden?: boolean) => Promise<FileTreeNode[]>
     // Start watching a folder for changes
-    watchFolder: (folderPath: string) => Promise<boolean>
+    watchFolder: (folderPath: string, showHidden?: boolean) => Promise<boolean>
     // Stop watching a folder
     unwatchFolder: (folderPath: string) => Promise<boolean>
     // Create .wrangle directory
@@ -121,6 +268,36 @@ export interface ElectronAPI {
     loadDefaultSession: () => Promise<WorkspaceSession | null>
     // Save default workspace session
     saveDefaultSession: (session: WorkspaceSession) => Promise<boolean>
+    // Search file contents; matching files arrive through onSearchResult
+    search: (folderPath: string, query: WorkspaceSearchQuery, searchId: number) => Promise<WorkspaceSearchSummary>
+    // Stop a running search
+    cancelSearch: (searchId: number) => Promise<boolean>
+    // Compute replace-all results for review
+    previewReplace: (
+      query: WorkspaceSearchQuery,
+      replacement: string,
+      filePaths: string[]
+    ) => Promise<WorkspaceReplacePreview[]>
+    // Write reviewed replace-all results
+    applyReplace: (edits: { path: string; hash: string; content: string }[]) => Promise<WorkspaceReplaceResult>
+    // List markdown files that [[wiki links]] can point at
+    listWikiPages: (folderPath: string) => Promise<WikiPage[]>
+    // Find wiki links in other files that resolve to filePath
+    getBacklinks: (folderPath: string, filePath: string) => Promise<WikiBacklink[]>
+    // Compute link rewrites that follow moved files; written with applyReplace
+    previewLinkUpdates: (folderPath: string, moves: PathMove[]) => Promise<LinkUpdatePreview[]>
+    // Check links, images and #anchors in every markdown file
+    checkLinks: (folderPath: string, options: LinkCheckOptions) => Promise<LinkCheckResult>
+    // Find files in asset folders that no markdown file links to, and links to missing files.
+    // Asset folders are assets/ plus the first folder of the asset path template.
+    // openDocuments maps paths of documents with unsaved edits to their tab content.
+    scanAssets: (folderPath: string, assetPathTemplate: string, openDocuments: Record<string, string>) => Promise<AssetScanResult>
+    // Move files inside the workspace to the trash; returns the ones that were moved
+    trashAssets: (folderPath: string, filePaths: string[]) => Promise<string[]>
+    // Listen for streamed search results
+    onSearchResult: (
+      callback: (searchId: number, result: WorkspaceSearchFileResult) => void
+    ) => () => void
     // Listen for folder changes
     onFolderChanged: (
       callback: (folderPath: string, changes: FolderChange[]) => void
@@ -129,6 +306,34 @@ export interface ElectronAPI {
   crashRecovery: {
     check: () => Promise<CrashRecoveryInfo>
   }
+  history: {
+    // Snapshots of a file kept on save and auto-save, newest first
+    list: (filePath: string) => Promise<FileSnapshot[]>
+    read: (filePath: string, snapshotId: string) => Promise<string | null>
+    // Keeps currentContent as a snapshot and returns the content to restore
+    restore: (filePath: string, snapshotId: string, currentContent: string) => Promise<string | null>
+    // Listen for new snapshots of a file
+    onChanged: (callback: (filePath: string) => void) => () => void
+  }
+  git: {
+    // Null when the folder is not in a git repository or git is not installed
+    status: (rootPath: string) => Promise<GitStatus | null>
+    // Null when the file is not committed
+    headContent: (filePath: string) => Promise<string | null>
+    // Content of the file on disk, null when it was deleted
+    workingContent: (filePath: string) => Promise<string | null>
+    stage: (rootPath: string, paths: string[]) => Promise<boolean>
+    unstage: (rootPath: string, paths: string[]) => Promise<boolean>
+    commit: (rootPath: string, message: string) => Promise<GitCommitResult>
+  }
+  spell: {
+    // lang is a tag such as "en-US"; null uses the default dictionary. Null on failure.
+    check: (words: string[], lang: string | null, workspaceRoot: string | null) => Promise<SpellCheckResult | null>
+    // Suggested corrections, best first
+    suggest: (word: string, lang: string | null) => Promise<string[]>
+    // Adds to .wrangle/dictionary.txt in workspaceRoot, or to the user dictionary when null
+    addWord: (word: string, workspaceRoot: string | null) => Promise<boolean>
+  }
   onMenuCommand: (callback: (command: string) => void) => () => void
   onFileOpenedFromPath: (callback: (fileData: { path: string; content: string }) => void) => () => void
 }
@@ -6,7 +6,19 @@ import {
   WorkspaceSession,
   AppSession,
   FolderChange,
-  CrashRecoveryInfo
+  WorkspaceSearchQuery,
+  WorkspaceSearchFileResult,
+  CrashRecoveryInfo,
+  ExternalFileChange,
+  ResolvedImage,
+  PathMove,
+  LinkCheckOptions,
+  DocumentExportFormat,
+  ExportDocument,
+  PdfExportOptions,
+  FileEncoding,
+  ImageProcessingOptions,
+  AssetPathOptions
 } from './electron'
 
 const electronAPI: ElectronAPI = {
@@ -14,32 +26,109 @@ const electronAPI: ElectronAPI = {
     open: () => ipcRenderer.invoke('file:open'),
     readByPath: (filePath: string) => ipcRenderer.invoke('file:readByPath', filePath),
     save: (path: string, content: string) => ipcRenderer.invoke('file:save', path, content),
+    getEncoding: (filePath: string) => ipcRenderer.invoke('file:getEncoding', filePath),
+    setEncoding: (filePath: string, encoding: FileEncoding) => ipcRenderer.invoke('file:setEncoding', filePath, encoding),
     saveAs: (content: string, suggestedName?: string) =>
       ipcRenderer.invoke('file:saveAs', content, suggestedName),
-    copyImage: (sourcePath: string, tabId: string, markdownFilePath: string | null) =>
-      ipcRenderer.invoke('file:copyImage', sourcePath, tabId, markdownFilePath),
+    copyImage: (
+      sourcePath: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null,
+      assetPath: AssetPathOptions | null
+    ) => ipcRenderer.invoke('file:copyImage', sourcePath, tabId, markdownFilePath, processing, assetPath),
+    saveImage: (
+      data: Uint8Array,
+      fileName: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null,
+      assetPath: AssetPathOptions | null
+    ) => ipcRenderer.invoke('file:saveImage', data, fileName, tabId, markdownFilePath, processing, assetPath),
+    saveImageAs: (
+      data: Uint8Array,
+      suggestedName: string,
+      tabId: string,
+      markdownFilePath: string | null,
+      processing: ImageProcessingOptions | null,
+      assetPath: AssetPathOptions | null
+    ) => ipcRenderer.invoke('file:saveImageAs', data, suggestedName, tabId, markdownFilePath, processing, assetPath),
+    getImageInfo: (src: string, tabId: string, markdownFilePath: string | null) =>
+      ipcRenderer.invoke('file:getImageInfo', src, tabId, markdownFilePath),
+    resizeImage: (src: string, tabId: string, markdownFilePath: string | null, options: ImageProcessingOptions) =>
+      ipcRenderer.invoke('file:resizeImage', src, tabId, markdownFilePath, options),
     autoSave: (tabId: string, content: string, filePath: string | null) =>
       ipcRenderer.invoke('file:autoSave', tabId, content, filePath),
     getTempDir: (tabId: string) => ipcRenderer.invoke('file:getTempDir', tabId),
-    moveTempFiles: (tabId: string, savedPath: string) =>
-      ipcRenderer.invoke('file:moveTempFiles', tabId, savedPath),
+    moveTempFiles: (tabId: string, savedPath: string, assetPath: AssetPathOptions | null) =>
+      ipcRenderer.invoke('file:moveTempFiles', tabId, savedPath, assetPath),
     cleanupTemp: (tabId: string) => ipcRenderer.invoke('file:cleanupTemp', tabId),
-    readImageAsDataURL: (imagePath: string) =>
-      ipcRenderer.invoke('file:readImageAsDataURL', imagePath),
+    resolveImage: (src: string, baseDir: string | null) =>
+      ipcRenderer.invoke('file:resolveImage', src, baseDir),
+    releaseImage: (imagePath: string) => ipcRenderer.invoke('file:releaseImage', imagePath),
+    pickStyleSheet: (baseDir: string | null) => ipcRenderer.invoke('file:pickStyleSheet', baseDir),
+    readStyleSheet: (filePath: string, baseDir: string | null) =>
+      ipcRenderer.invoke('file:readStyleSheet', filePath, baseDir),
+    onAssetChanged: (callback: (image: ResolvedImage) => void) => {
+      const subscription = (_event: Electron.IpcRendererEvent, image: ResolvedImage) => callback(image)
+      ipcRenderer.on('file:assetChanged', subscription)
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener('file:assetChanged', subscription)
+      }
+    },
     copyToWorkspace: (sourcePath: string, workspaceRootPath: string) =>
-      ipcRenderer.invoke('file:copyToWorkspace', sourcePath, workspaceRootPath)
+      ipcRenderer.invoke('file:copyToWorkspace', sourcePath, workspaceRootPath),
+    createEntry: (parentDir: string, name: string, isDirectory: boolean) =>
+      ipcRenderer.invoke('file:createEntry', parentDir, name, isDirectory),
+    renameEntry: (filePath: string, newName: string) =>
+      ipcRenderer.invoke('file:renameEntry', filePath, newName),
+    moveEntry: (filePath: string, targetDir: string) =>
+      ipcRenderer.invoke('file:moveEntry', filePath, targetDir),
+    duplicateEntry: (filePath: string) => ipcRenderer.invoke('file:duplicateEntry', filePath),
+    trashEntry: (filePath: string) => ipcRenderer.invoke('file:trashEntry', filePath),
+    undoOperation: () => ipcRenderer.invoke('file:undoOperation'),
+    getUndoLabel: () => ipcRenderer.invoke('file:getUndoLabel'),
+    revealInFolder: (filePath: string) => ipcRenderer.invoke('file:revealInFolder', filePath),
+    watchExternal: (filePath: string) => ipcRenderer.invoke('file:watchExternal', filePath),
+    unwatchExternal: (filePath: string) => ipcRenderer.invoke('file:unwatchExternal', filePath),
+    acceptDiskVersion: (filePath: string, diskHash: string | null) =>
+      ipcRenderer.invoke('file:acceptDiskVersion', filePath, diskHash),
+    onExternalChange: (callback: (change: ExternalFileChange) => void) => {
+      const subscription = (_event: Electron.IpcRendererEvent, change: ExternalFileChange) =>
+        callback(change)
+      ipcRenderer.on('file:externalChange', subscription)
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener('file:externalChange', subscription)
+      }
+    }
   },
   window: {
     minimize: () => ipcRenderer.send('window:minimize'),
     maximize: () => ipcRenderer.send('window:maximize'),
     close: () => ipcRenderer.send('window:close'),
+    onCloseRequested: (callback: () => void) => {
+      const subscription = () => callback()
+      ipcRenderer.on('window:closeRequested', subscription)
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener('window:closeRequested', subscription)
+      }
+    },
     zoom: (delta: number) => ipcRenderer.send('window:zoom', delta),
     resetZoom: () => ipcRenderer.send('window:resetZoom'),
     getZoom: () => ipcRenderer.invoke('window:getZoom'),
     isMaximized: () => ipcRenderer.invoke('window:isMaximized'),
     print: () => ipcRenderer.send('window:print'),
-    exportPdf: (html: string, title: string) => ipcRenderer.invoke('window:exportPdf', html, title),
+    exportPdf: (html: string, title: string, options: PdfExportOptions, baseDir: string | null) =>
+      ipcRenderer.invoke('window:exportPdf', html, title, options, baseDir),
     exportHtml: (html: string, title: string) => ipcRenderer.invoke('window:exportHtml', html, title),
+    exportDocument: (format: DocumentExportFormat, document: ExportDocument) =>
+      ipcRenderer.invoke('window:exportDocument', format, document),
     toggleDevTools: () => ipcRenderer.send('window:toggleDevTools')
   },
   settings: {
@@ -67,8 +156,8 @@ const electronAPI: ElectronAPI = {
       ipcRenderer.invoke('workspace:listFiles', folderPath, showHidden),
     listFilesRecursive: (folderPath: string, maxDepth?: number, showHidden?: boolean) =>
       ipcRenderer.invoke('workspace:listFilesRecursive', folderPath, maxDepth, showHidden),
-    watchFolder: (folderPath: string) =>
-      ipcRenderer.invoke('workspace:watchFolder', folderPath),
+    watchFolder: (folderPath: string, showHidden?: boolean) =>
+      ipcRenderer.invoke('workspace:watchFolder', folderPath, showHidden),
     unwatchFolder: (folderPath: string) =>
       ipcRenderer.invoke('workspace:unwatchFolder', folderPath),
     createWorkspaceDir: (folderPath: string) =>
@@ -83,6 +172,37 @@ const electronAPI: ElectronAPI = {
     loadDefaultSession: () => ipcRenderer.invoke('workspace:loadDefaultSession'),
     saveDefaultSession: (session: WorkspaceSession) =>
       ipcRenderer.invoke('workspace:saveDefaultSession', session),
+    search: (folderPath: string, query: WorkspaceSearchQuery, searchId: number) =>
+      ipcRenderer.invoke('workspace:search', folderPath, query, searchId),
+    cancelSearch: (searchId: number) => ipcRenderer.invoke('workspace:cancelSearch', searchId),
+    previewReplace: (query: WorkspaceSearchQuery, replacement: string, filePaths: string[]) =>
+      ipcRenderer.invoke('workspace:previewReplace', query, replacement, filePaths),
+    applyReplace: (edits: { path: string; hash: string; content: string }[]) =>
+      ipcRenderer.invoke('workspace:applyReplace', edits),
+    listWikiPages: (folderPath: string) => ipcRenderer.invoke('workspace:listWikiPages', folderPath),
+    getBacklinks: (folderPath: string, filePath: string) =>
+      ipcRenderer.invoke('workspace:getBacklinks', folderPath, filePath),
+    previewLinkUpdates: (folderPath: string, moves: PathMove[]) =>
+      ipcRenderer.invoke('workspace:previewLinkUpdates', folderPath, moves),
+    checkLinks: (folderPath: string, options: LinkCheckOptions) =>
+      ipcRenderer.invoke('workspace:checkLinks', folderPath, options),
+    scanAssets: (folderPath: string, assetPathTemplate: string, openDocuments: Record<string, string>) =>
+      ipcRenderer.invoke('workspace:scanAssets', folderPath, assetPathTemplate, openDocuments),
+    trashAssets: (folderPath: string, filePaths: string[]) =>
+      ipcRenderer.invoke('workspace:trashAssets', folderPath, filePaths),
+    onSearchResult: (callback: (searchId: number, result: WorkspaceSearchFileResult) => void) => {
+      const subscription = (
+        _event: Electron.IpcRendererEvent,
+        searchId: number,
+        result: WorkspaceSearchFileResult
+      ) => callback(searchId, result)
+      ipcRenderer.on('workspace:searchResult', subscription)
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener('workspace:searchResult', subscription)
+      }
+    },
     onFolderChanged: (callback: (folderPath: string, changes: FolderChange[]) => void) => {
       const subscription = (
         _event: Electron.IpcRendererEvent,
@@ -100,6 +220,35 @@ const electronAPI: ElectronAPI = {
   crashRecovery: {
     check: (): Promise<CrashRecoveryInfo> => ipcRenderer.invoke('crashRecovery:check')
   },
+  history: {
+    list: (filePath: string) => ipcRenderer.invoke('history:list', filePath),
+    read: (filePath: string, snapshotId: string) => ipcRenderer.invoke('history:read', filePath, snapshotId),
+    restore: (filePath: string, snapshotId: string, currentContent: string) =>
+      ipcRenderer.invoke('history:restore', filePath, snapshotId, currentContent),
+    onChanged: (callback: (filePath: string) => void) => {
+      const subscription = (_event: Electron.IpcRendererEvent, filePath: string) => callback(filePath)
+      ipcRenderer.on('history:changed', subscription)
+
+      // Return unsubscribe function
+      return () => {
+        ipcRenderer.removeListener('history:changed', subscription)
+      }
+    }
+  },
+  git: {
+    status: (rootPath: string) => ipcRenderer.invoke('git:status', rootPath),
+    headContent: (filePath: string) => ipcRenderer.invoke('git:headContent', filePath),
+    workingContent: (filePath: string) => ipcRenderer.invoke('git:workingContent', filePath),
+    stage: (rootPath: string, paths: string[]) => ipcRenderer.invoke('git:stage', rootPath, paths),
+    unstage: (rootPath: string, paths: string[]) => ipcRenderer.invoke('git:unstage', rootPath, paths),
+    commit: (rootPath: string, message: string) => ipcRenderer.invoke('git:commit', rootPath, message)
+  },
+  spell: {
+    check: (words: string[], lang: string | null, workspaceRoot: string | null) =>
+      ipcRenderer.invoke('spell:check', words, lang, workspaceRoot),
+    suggest: (word: string, lang: string | null) => ipcRenderer.invoke('spell:suggest', word, lang),
+    addWord: (word: string, workspaceRoot: string | null) => ipcRenderer.invoke('spell:addWord', word, workspaceRoot)
+  },
   onMenuCommand: (callback: (command: string) => void) => {
     const subscription = (_event: Electron.IpcRendererEvent, command: string) => callback(command)
     ipcRenderer.on('menu:command', subscription)
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback, useRef as useReactRef } from 'react'
+import { useEffect, useState, useCallback, useMemo, useRef as useReactRef } from 'react'
 import { useSelector, useDispatch, Provider } from 'react-redux'
 import { store, RootState, AppDispatch } from './store/store'
 import { setViewMode, zoomIn, zoomOut, resetZoom, toggleOutline, setWorkspaceSidebar, toggleMultiPane, setFocusedPane, addVisiblePane } from './store/layoutSlice'
@@ -6,16 +6,25 @@ import {
   addTab,
   updateTab,
   setActiveTab,
-  closeTab,
   nextTab,
   previousTab,
   selectAllTabs,
-  markSessionRestored
+  markSessionRestored,
+  revealInTab,
+  saveTabAs,
+  EditorRange
 } from './store/tabsSlice'
-import { selectActiveWorkspaceId, selectAllWorkspaces, addWorkspace, setActiveWorkspace } from './store/workspacesSlice'
-import { loadSettings, setCurrentTheme } from './store/settingsSlice'
+import { selectActiveWorkspaceId, selectAllWorkspaces, selectWorkspaceById, addWorkspace, setActiveWorkspace } from './store/workspacesSlice'
+import {
+  loadSettings,
+  setCurrentTheme,
+  selectHtmlSanitizationPolicy,
+  selectEditorOptions
+} from './store/settingsSlice'
+import { requestClose } from './store/closeGuardSlice'
 import { DEFAULT_WORKSPACE_ID } from '../../shared/workspace-types'
 import { EditorLayout } from './components/Layout/EditorLayout'
+import { StatusBar } from './components/Layout/StatusBar'
 import { TabBar } from './components/Tabs/TabBar'
 import { MarkdownToolbar } from './components/UI/MarkdownToolbar'
 import { TitleBar } from './components/TitleBar/TitleBar'
@@ -25,16 +34,37 @@ import { PreferencesDialog } from './components/Preferences/PreferencesDialog'
 import { EmptyState } from './components/EmptyState'
 import { WorkspaceBar } from './components/Workspace/WorkspaceBar'
 import { WorkspaceSidebar } from './components/Workspace/WorkspaceSidebar'
+import { SearchSidebar } from './components/Search/SearchSidebar'
+import { ProblemsPanel } from './components/Problems/ProblemsPanel'
+import { HistoryPanel } from './components/History/HistoryPanel'
+import { GitDiffDialog } from './components/Git/GitDiffDialog'
+import { ResizeImageDialog } from './components/Editor/ResizeImageDialog'
+import { OrphanedAssetsDialog } from './components/Workspace/OrphanedAssetsDialog'
+import { UnsavedChangesDialog } from './components/Tabs/UnsavedChangesDialog'
+import { PdfExportDialog } from './components/Export/PdfExportDialog'
 import { MultiPaneContainer } from './components/Layout/MultiPaneContainer'
 import { CommandPalette } from './components/CommandPalette/CommandPalette'
+import { ExternalChangeBanner } from './components/Editor/ExternalChangeBanner'
 import { CommandDefinition } from './commands/registry'
 import { ErrorBoundary } from './components/ErrorBoundary'
 import { useImageDrop } from './hooks/useImageDrop'
+import { useHtmlPaste } from './hooks/useHtmlPaste'
+import { useImagePaste } from './hooks/useImagePaste'
+import { useCustomPreviewCss } from './hooks/useCustomPreviewCss'
 import { useEditorPane } from './hooks/useEditorPane'
 import { useSessionPersistence } from './hooks/useSessionPersistence'
 import { useWindowDrag } from './hooks/useWindowDrag'
 import { useVimMode } from './hooks/useVimMode'
+import { useExternalFileChanges } from './hooks/useExternalFileChanges'
+import { useWikiLinks } from './hooks/useWikiLinks'
+import { useGitHeadContent } from './hooks/useGitHeadContent'
 import { getMonacoThemeName } from './utils/monaco-theme-generator'
+import { createExportDocument } from './utils/export-document'
+import { createPdfHtml } from './utils/pdf-export'
+import { buildExportStyles } from './utils/preview-styles'
+import { cloneWithInlineImages } from './utils/asset-images'
+import { sanitizeEditorOverrides } from './utils/editor-options'
+import type { DocumentExportFormat, PdfExportOptions } from '../../shared/types'
 import * as monaco from 'monaco-editor'
 
 // Module-level flag to prevent double session restore in React Strict Mode
@@ -49,6 +79,9 @@ function AppContent() {
   const theme = useSelector((state: RootState) => state.settings.theme.current)
   const showOutline = useSelector((state: RootState) => state.layout.showOutline)
   const showWorkspaceSidebar = useSelector((state: RootState) => state.layout.showWorkspaceSidebar)
+  const showSearch = useSelector((state: RootState) => state.layout.showSearch)
+  const showProblems = useSelector((state: RootState) => state.layout.showProblems)
+  const showHistory = useSelector((state: RootState) => state.layout.showHistory)
   const multiPaneEnabled = useSelector((state: RootState) => state.layout.multiPaneEnabled)
   const focusedPaneId = useSelector((state: RootState) => state.layout.focusedPaneId)
   const workspaces = useSelector(selectAllWorkspaces)
@@ -61,11 +94,41 @@ function AppContent() {
     baseDir,
     currentFilePath,
     activeTab,
+    cursorPosition,
+    selection,
     handleChange,
     handleCursorPositionChange,
+    handleSelectionChange,
     handleScrollTopChange
   } = useEditorPane(activeWorkspaceId)
+  const htmlPolicy = useSelector((state: RootState) =>
+    selectHtmlSanitizationPolicy(state, activeTab?.workspaceId)
+  )
+  const editorOptions = useSelector((state: RootState) =>
+    selectEditorOptions(state, activeTab?.workspaceId)
+  )
+  const workspaceRoot = useSelector((state: RootState) =>
+    activeTab ? selectWorkspaceById(state, activeTab.workspaceId)?.rootPath ?? null : null
+  )
+  const previewTypography = useSelector((state: RootState) => state.settings.preview.typography)
+  const customPreviewCss = useCustomPreviewCss(activeTab?.workspaceId)
+
+  // [[wiki links]] resolve against the active workspace's folder
+  const { rootPath: wikiRootPath, pages: wikiPages, openWikiLink } = useWikiLinks(activeWorkspaceId)
+  const wikiLinks = useMemo(
+    () => ({ pages: wikiPages, currentPath: currentFilePath ?? null, onOpen: openWikiLink }),
+    [wikiPages, currentFilePath, openWikiLink]
+  )
 
+  // Check Links results for the open file, shown as editor markers
+  const allLinkProblems = useSelector((state: RootState) => state.problems.problems)
+  const linkProblems = useMemo(
+    () => allLinkProblems.filter((problem) => problem.path === currentFilePath),
+    [allLinkProblems, currentFilePath]
+  )
+
+  // Committed version of the open file, for the diff gutter
+  const gitHeadContent = useGitHeadContent(currentFilePath)
 
   // Preferences dialog state
   const [preferencesOpen, setPreferencesOpen] = useState(false)
@@ -73,6 +136,9 @@ function AppContent() {
   // Command palette state
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false)
 
+  // PDF export dialog state
+  const [pdfExportOpen, setPdfExportOpen] = useState(false)
+
   // Preview selection for WYSIWYG editing
   const [previewSelection, setPreviewSelection] = useState<{ start: number; end: number } | null>(null)
 
@@ -141,7 +207,11 @@ function AppContent() {
               color: config.color,
               rootPath: workspacePath,
               isExpanded: false,
-              showHiddenFiles: config.showHiddenFiles !== false
+              showHiddenFiles: config.showHiddenFiles !== false,
+              trustHtml: config.trustHtml === true,
+              editorOverrides: sanitizeEditorOverrides(config.editor),
+              previewCss: config.previewCss || null,
+              assetPathTemplate: config.assetPath || null
             }))
 
             // Load workspace session (tabs)
@@ -258,6 +328,9 @@ function AppContent() {
   // Auto-save session state (guarded until session restore completes)
   useSessionPersistence()
 
+  // Reload or flag open files changed by other programs
+  useExternalFileChanges()
+
 
   // Ctrl+Scroll wheel zoom - use capture phase to intercept before Monaco
   useEffect(() => {
@@ -297,14 +370,11 @@ function AppContent() {
   }, [dispatch, viewMode, activeWorkspaceId])
 
   // Close tab handler
-  const handleCloseTab = useCallback(async () => {
+  const handleCloseTab = useCallback(() => {
     if (!activeTab) return
 
-    // Close tab and cleanup temp files if unsaved
-    if (!activeTab.path) {
-      await window.electron.file.cleanupTemp(activeTab.id)
-    }
-    dispatch(closeTab(activeTab.id))
+    // Close tab, asking about unsaved changes first
+    dispatch(requestClose({ kind: 'tab', tabId: activeTab.id }))
   }, [activeTab, dispatch])
 
   // Detect workspace for a file path
@@ -359,12 +429,15 @@ function AppContent() {
     }
   }, [tabs, dispatch, detectWorkspaceForPath])
 
-  // Handle opening a file from the workspace file tree
-  const handleFileOpenFromTree = useCallback(async (filePath: string) => {
+  // Handle opening a file from the workspace file tree (or a search hit, which also reveals a range)
+  const handleFileOpenFromTree = useCallback(async (filePath: string, reveal?: EditorRange) => {
     // Check if file is already open
     const existingTab = tabs.find(t => t.path === filePath)
     if (existingTab) {
       dispatch(setActiveTab(existingTab.id))
+      if (reveal) {
+        dispatch(revealInTab({ id: existingTab.id, range: reveal }))
+      }
       return
     }
 
@@ -388,6 +461,9 @@ function AppContent() {
         isDirty: false
       }))
       dispatch(setActiveTab(newTabId))
+      if (reveal) {
+        dispatch(revealInTab({ id: newTabId, range: reveal }))
+      }
     } catch (error) {
       console.error('Failed to open file:', error)
     }
@@ -406,7 +482,11 @@ function AppContent() {
         color: result.config.color,
         rootPath: result.path,
         isExpanded: true,
-        showHiddenFiles: result.config.showHiddenFiles !== false
+        showHiddenFiles: result.config.showHiddenFiles !== false,
+        trustHtml: result.config.trustHtml === true,
+        editorOverrides: sanitizeEditorOverrides(result.config.editor),
+        previewCss: result.config.previewCss || null,
+        assetPathTemplate: result.config.assetPath || null
       })
     )
     dispatch(setWorkspaceSidebar(true))
@@ -414,31 +494,7 @@ function AppContent() {
 
   const handleSaveAs = useCallback(async () => {
     if (!activeTab) return
-
-    const wasUnsaved = !activeTab.path
-
-    // Extract first H1 heading for suggested filename
-    const h1Match = content.match(/^#\s+(.+)$/m)
-    const suggestedName = h1Match
-      ? h1Match[1].trim().replace(/[^a-zA-Z0-9-_ ]/g, '').substring(0, 50)
-      : undefined
-
-    const filePath = await window.electron.file.saveAs(content, suggestedName)
-    if (filePath) {
-      // If this was previously an unsaved file, move temp files to saved location
-      if (wasUnsaved) {
-        await window.electron.file.moveTempFiles(activeTab.id, filePath)
-      }
-
-      const filename = filePath.split(/[\\/]/).pop() || 'Untitled'
-      dispatch(updateTab({
-        id: activeTab.id,
-        filename,
-        content,
-        path: filePath,
-        isDirty: false
-      }))
-    }
+    await dispatch(saveTabAs({ tabId: activeTab.id, content }))
   }, [activeTab, content, dispatch])
 
   const handleSave = useCallback(async () => {
@@ -522,6 +578,11 @@ function AppContent() {
         e.preventDefault()
         handleCloseTab()
       }
+      // Ctrl+Q: Quit, asking about unsaved changes first
+      if ((e.ctrlKey || e.metaKey) && e.key === 'q') {
+        e.preventDefault()
+        dispatch(requestClose({ kind: 'window' }))
+      }
       // Ctrl+Shift+P: Command Palette
       if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key === 'P') {
         e.preventDefault()
@@ -717,6 +778,10 @@ function AppContent() {
     return unsubscribe
   }, [activeTab, content, dispatch, handleAddWorkspace])
 
+  // Rich HTML paste converted to markdown, pasted images saved to assets
+  useHtmlPaste({ editorRef, tabId: activeTab?.id, currentFilePath })
+  useImagePaste({ editorRef, tabId: activeTab?.id, currentFilePath })
+
   // Image and markdown file drop support
   const { isDragging } = useImageDrop({
     editorRef,
@@ -793,6 +858,13 @@ function AppContent() {
     return unsubscribe
   }, [tabs, dispatch, activeWorkspaceId])
 
+  // Handle the window being closed from outside the app (e.g. Alt+F4, the taskbar)
+  useEffect(() => {
+    return window.electron.window.onCloseRequested(() => {
+      dispatch(requestClose({ kind: 'window' }))
+    })
+  }, [dispatch])
+
   // Undo/Redo handlers for Monaco editor
   const handleUndo = useCallback(() => {
     editorRef.current?.trigger('keyboard', 'undo', null)
@@ -809,7 +881,7 @@ function AppContent() {
     const previewElement = document.querySelector('.markdown-body')
     if (!previewElement) return
 
-    const html = previewElement.innerHTML
+    const html = (await cloneWithInlineImages(previewElement)).innerHTML
     try {
       await navigator.clipboard.write([
         new ClipboardItem({
@@ -824,13 +896,14 @@ function AppContent() {
 
   // Export as HTML - creates a standalone HTML file
   const handleExportHtml = useCallback(async () => {
+    // The preview markup has already been sanitized with the document's HTML policy
     const previewElement = document.querySelector('.markdown-body')
     if (!previewElement) return
 
-    const html = previewElement.innerHTML
+    const html = (await cloneWithInlineImages(previewElement)).innerHTML
     const title = activeTab?.filename?.replace(/\.md$/, '') || 'Document'
 
-    // Create standalone HTML document with embedded styles
+    // Create standalone HTML document with embedded styles and images
     const htmlDoc = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -841,11 +914,11 @@ function AppContent() {
     body {
       font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
       line-height: 1.6;
-      max-width: 800px;
-      margin: 0 auto;
+      margin: 0;
       padding: 40px 20px;
       color: #333;
     }
+    .markdown-body { max-width: 800px; margin: 0 auto; }
     h1, h2, h3, h4, h5, h6 { margin-top: 24px; margin-bottom: 16px; font-weight: 600; line-height: 1.25; }
     h1 { font-size: 2em; border-bottom: 1px solid #eaecef; padding-bottom: .3em; }
     h2 { font-size: 1.5em; border-bottom: 1px solid #eaecef; padding-bottom: .3em; }
@@ -865,69 +938,41 @@ function AppContent() {
     tr:nth-child(2n) { background-color: #f6f8fa; }
     img { max-width: 100%; height: auto; }
     hr { height: .25em; padding: 0; margin: 24px 0; background-color: #e1e4e8; border: 0; }
+${buildExportStyles(previewTypography, customPreviewCss)}
   </style>
 </head>
 <body>
-  ${html}
+  <div class="markdown-body">${html}</div>
 </body>
 </html>`
 
     // Use file save dialog to save as HTML
     await window.electron.window.exportHtml(htmlDoc, title)
-  }, [activeTab?.filename])
+  }, [activeTab?.filename, previewTypography, customPreviewCss])
+
+  // Export as PDF - asks for page setup first
+  const handleExportPdf = useCallback(() => {
+    if (document.querySelector('.markdown-body')) setPdfExportOpen(true)
+  }, [])
 
-  // Export as PDF - renders markdown to a hidden window for clean output
-  const handleExportPdf = useCallback(async () => {
+  // Renders the preview to a hidden window for clean output
+  const handlePdfExport = useCallback(async (options: PdfExportOptions) => {
+    setPdfExportOpen(false)
+    // The preview markup has already been sanitized with the document's HTML policy
     const previewElement = document.querySelector('.markdown-body')
     if (!previewElement) return
 
-    const html = previewElement.innerHTML
     const title = activeTab?.filename?.replace(/\.md$/, '') || 'Document'
+    const htmlDoc = await createPdfHtml(previewElement, title, options, previewTypography, customPreviewCss)
+    await window.electron.window.exportPdf(htmlDoc, title, options, baseDir)
+  }, [activeTab?.filename, baseDir, previewTypography, customPreviewCss])
 
-    // Create standalone HTML document with embedded styles for PDF
-    const htmlDoc = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1">
-  <title>${title}</title>
-  <style>
-    body {
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
-      line-height: 1.6;
-      max-width: 100%;
-      margin: 0;
-      padding: 20px;
-      color: #333;
-      background-color: white;
-    }
-    h1, h2, h3, h4, h5, h6 { margin-top: 24px; margin-bottom: 16px; font-weight: 600; line-height: 1.25; color: black; }
-    h1 { font-size: 2em; border-bottom: 1px solid #eaecef; padding-bottom: .3em; }
-    h2 { font-size: 1.5em; border-bottom: 1px solid #eaecef; padding-bottom: .3em; }
-    h3 { font-size: 1.25em; }
-    p { margin-top: 0; margin-bottom: 16px; }
-    a { color: #0366d6; text-decoration: none; }
-    code { padding: .2em .4em; margin: 0; font-size: 85%; background-color: rgba(27,31,35,.05); border-radius: 3px; font-family: 'Consolas', 'Monaco', 'Courier New', monospace; }
-    pre { padding: 16px; overflow: auto; font-size: 85%; line-height: 1.45; background-color: #f6f8fa; border-radius: 3px; }
-    pre code { padding: 0; background-color: transparent; }
-    blockquote { padding: 0 1em; color: #6a737d; border-left: .25em solid #dfe2e5; margin: 0 0 16px 0; }
-    ul, ol { padding-left: 2em; margin-top: 0; margin-bottom: 16px; }
-    li { margin-top: .25em; }
-    table { border-spacing: 0; border-collapse: collapse; margin-bottom: 16px; }
-    th, td { padding: 6px 13px; border: 1px solid #dfe2e5; }
-    th { font-weight: 600; background-color: #f6f8fa; }
-    tr:nth-child(2n) { background-color: #f6f8fa; }
-    img { max-width: 100%; height: auto; }
-    hr { height: .25em; padding: 0; margin: 24px 0; background-color: #e1e4e8; border: 0; }
-  </style>
-</head>
-<body>
-  ${html}
-</body>
-</html>`
-
-    await window.electron.window.exportPdf(htmlDoc, title)
-  }, [activeTab?.filename])
+  // Export as Word, EPUB or LaTeX - written from the markdown itself, not the preview
+  const handleExportDocument = useCallback(async (format: DocumentExportFormat) => {
+    if (!activeTab) return
+    const exportDoc = createExportDocument(activeTab.content, activeTab.filename, baseDir)
+    await window.electron.window.exportDocument(format, exportDoc)
+  }, [activeTab, baseDir])
 
   // Monaco theme based on app theme
   const monacoTheme = getMonacoThemeName(theme)
@@ -946,19 +991,10 @@ function AppContent() {
         onCopyRichText={handleCopyRichText}
         onExportHtml={handleExportHtml}
         onExportPdf={handleExportPdf}
+        onExportDocument={handleExportDocument}
         onOpenPreferences={() => setPreferencesOpen(true)}
       >
-        {!multiPaneEnabled && (
-          <TabBar
-            onCloseTab={async (tabId) => {
-              // Clean up temp directory if tab was never saved
-              const tabToClose = tabs.find((t) => t.id === tabId)
-              if (tabToClose && !tabToClose.path) {
-                await window.electron.file.cleanupTemp(tabId)
-              }
-            }}
-          />
-        )}
+        {!multiPaneEnabled && <TabBar />}
       </TitleBar>
       {tabs.length > 0 && !multiPaneEnabled && <MarkdownToolbar editorRef={editorRef} previewSelection={previewSelection} />}
       <div style={{ flex: 1, position: 'relative', overflow: 'hidden', display: 'flex' }}>
@@ -970,21 +1006,47 @@ function AppContent() {
           <WorkspaceSidebar onFileOpen={handleFileOpenFromTree} />
         )}
 
+        {/* Search sidebar - workspace-wide find and replace */}
+        {showSearch && (
+          <SearchSidebar onFileOpen={handleFileOpenFromTree} />
+        )}
+
+        {/* Problems panel - results of Check Links */}
+        {showProblems && (
+          <ProblemsPanel onFileOpen={handleFileOpenFromTree} />
+        )}
+
+        {/* Local history - snapshots of the active file */}
+        {showHistory && <HistoryPanel />}
+
         {tabs.length === 0 ? (
           <EmptyState onNewFile={handleNewFile} onOpenFile={handleOpen} />
         ) : multiPaneEnabled ? (
           <>
             {showOutline && (
-              <OutlineSidebar content={content} editorRef={editorRef} />
+              <OutlineSidebar
+                content={content}
+                editorRef={editorRef}
+                rootPath={wikiRootPath}
+                filePath={currentFilePath}
+                onFileOpen={handleFileOpenFromTree}
+              />
             )}
             <MultiPaneContainer />
           </>
         ) : (
           <>
             {showOutline && (
-              <OutlineSidebar content={content} editorRef={editorRef} />
+              <OutlineSidebar
+                content={content}
+                editorRef={editorRef}
+                rootPath={wikiRootPath}
+                filePath={currentFilePath}
+                onFileOpen={handleFileOpenFromTree}
+              />
             )}
-            <div style={{ flex: 1, position: 'relative', overflow: 'hidden' }}>
+            <div style={{ flex: 1, position: 'relative', overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
+              <ExternalChangeBanner tab={activeTab} />
               {isDragging && (
                 <div
                   style={{
@@ -1007,17 +1069,38 @@ function AppContent() {
                   Drop images here
                 </div>
               )}
-              <EditorLayout
-                content={content}
-                onChange={handleChange}
-                baseDir={baseDir}
-                theme={monacoTheme}
-                editorRef={editorRef}
-                onCursorPositionChange={handleCursorPositionChange}
-                onScrollTopChange={handleScrollTopChange}
-                onPreviewSelectionChange={setPreviewSelection}
-                vimStatusBarRef={vimStatusBarRef}
-              />
+              <div style={{ flex: 1, minHeight: 0 }}>
+                <EditorLayout
+                  content={content}
+                  onChange={handleChange}
+                  baseDir={baseDir}
+                  theme={monacoTheme}
+                  editorRef={editorRef}
+                  onCursorPositionChange={handleCursorPositionChange}
+                  onScrollTopChange={handleScrollTopChange}
+                  onEditorSelectionChange={handleSelectionChange}
+                  onPreviewSelectionChange={setPreviewSelection}
+                  htmlPolicy={htmlPolicy}
+                  wikiLinks={wikiLinks}
+                  linkProblems={linkProblems}
+                  gitHeadContent={gitHeadContent}
+                  editorOptions={editorOptions}
+                  workspaceRoot={workspaceRoot}
+                  previewTypography={previewTypography}
+                  customPreviewCss={customPreviewCss}
+                  vimStatusBarRef={vimStatusBarRef}
+                />
+              </div>
+              {activeTab && (
+                <StatusBar
+                  workspaceId={activeTab.workspaceId}
+                  tab={activeTab}
+                  content={content}
+                  cursorPosition={cursorPosition}
+                  selection={selection}
+                  editorRef={editorRef}
+                />
+              )}
             </div>
           </>
         )}
@@ -1047,6 +1130,13 @@ function AppContent() {
           })
         }}
       />
+      <GitDiffDialog />
+      <ResizeImageDialog />
+      <OrphanedAssetsDialog onFileOpen={handleFileOpenFromTree} />
+      <UnsavedChangesDialog />
+      {pdfExportOpen && (
+        <PdfExportDialog onExport={handlePdfExport} onClose={() => setPdfExportOpen(false)} />
+      )}
     </div>
   )
 }
@@ -1,4 +1,14 @@
 import * as monaco from 'monaco-editor'
+import {
+  formatTableAtCursor,
+  insertTableRow,
+  deleteTableRow,
+  insertTableColumn,
+  deleteTableColumn,
+  sortTable,
+  insertDelimitedTable
+} from '../utils/table-commands'
+import { findImageLinkAt } from '../utils/image-links'
 
 export type CommandCategory = 'file' | 'edit' | 'view' | 'navigation' | 'markdown' | 'app'
 
@@ -392,6 +402,80 @@ export const commands: CommandDefinition[] = [
       ctx.dispatch(toggleWorkspaceSidebar())
     }
   },
+  {
+    id: 'view.search',
+    label: 'Search in Workspace',
+    category: 'view',
+    defaultBinding: 'Ctrl+Shift+F',
+    execute: (ctx) => {
+      const { toggleSearch } = require('../store/layoutSlice')
+      ctx.dispatch(toggleSearch())
+    }
+  },
+  {
+    id: 'view.problems',
+    label: 'Toggle Problems Panel',
+    category: 'view',
+    defaultBinding: 'Ctrl+Shift+M',
+    execute: (ctx) => {
+      const { toggleProblems } = require('../store/layoutSlice')
+      ctx.dispatch(toggleProblems())
+    }
+  },
+  {
+    id: 'view.checkLinks',
+    label: 'Check Links',
+    category: 'view',
+    defaultBinding: null,
+    execute: (ctx) => {
+      const { setProblemsPanel } = require('../store/layoutSlice')
+      const { checkLinks } = require('../store/problemsSlice')
+      const { selectToolRootPath } = require('../store/workspacesSlice')
+      ctx.dispatch(setProblemsPanel(true))
+      const rootPath = selectToolRootPath(ctx.getState())
+      if (rootPath) {
+        ctx.dispatch(checkLinks(rootPath))
+      }
+    }
+  },
+  {
+    id: 'view.findOrphanedAssets',
+    label: 'Find Orphaned Assets...',
+    category: 'view',
+    defaultBinding: null,
+    execute: (ctx) => {
+      const { scanAssets } = require('../store/assetsSlice')
+      const { selectToolRootPath } = require('../store/workspacesSlice')
+      const rootPath = selectToolRootPath(ctx.getState())
+      if (rootPath) {
+        ctx.dispatch(scanAssets(rootPath))
+      }
+    }
+  },
+  {
+    id: 'view.history',
+    label: 'Toggle Local History',
+    category: 'view',
+    defaultBinding: null,
+    execute: (ctx) => {
+      const { toggleHistory } = require('../store/layoutSlice')
+      ctx.dispatch(toggleHistory())
+    }
+  },
+  {
+    id: 'view.gitDiff',
+    label: 'Compare with Last Commit',
+    category: 'view',
+    defaultBinding: null,
+    execute: (ctx) => {
+      const { openGitDiff } = require('../store/gitSlice')
+      const { selectActiveTab } = require('../store/tabsSlice')
+      const activeTab = selectActiveTab(ctx.getState())
+      if (activeTab?.path) {
+        ctx.dispatch(openGitDiff(activeTab.path))
+      }
+    }
+  },
   {
     id: 'view.zoomScroll',
     label: 'Zoom (Mouse Wheel)',
@@ -500,6 +584,83 @@ export const commands: CommandDefinition[] = [
       insertText(ctx.editor, table, 2, ctx.previewSelection)
     }
   },
+  {
+    id: 'markdown.tableFormat',
+    label: 'Table: Align Columns',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => formatTableAtCursor(ctx.editor)
+  },
+  {
+    id: 'markdown.tableInsertRowAbove',
+    label: 'Table: Insert Row Above',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => insertTableRow(ctx.editor, false)
+  },
+  {
+    id: 'markdown.tableInsertRowBelow',
+    label: 'Table: Insert Row Below',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => insertTableRow(ctx.editor, true)
+  },
+  {
+    id: 'markdown.tableInsertColumnLeft',
+    label: 'Table: Insert Column Left',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => insertTableColumn(ctx.editor, false)
+  },
+  {
+    id: 'markdown.tableInsertColumnRight',
+    label: 'Table: Insert Column Right',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => insertTableColumn(ctx.editor, true)
+  },
+  {
+    id: 'markdown.tableDeleteRow',
+    label: 'Table: Delete Row',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => deleteTableRow(ctx.editor)
+  },
+  {
+    id: 'markdown.tableDeleteColumn',
+    label: 'Table: Delete Column',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => deleteTableColumn(ctx.editor)
+  },
+  {
+    id: 'markdown.tableSortAscending',
+    label: 'Table: Sort by Column (Ascending)',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => sortTable(ctx.editor, false)
+  },
+  {
+    id: 'markdown.tableSortDescending',
+    label: 'Table: Sort by Column (Descending)',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => sortTable(ctx.editor, true)
+  },
+  {
+    id: 'markdown.tablePaste',
+    label: 'Paste CSV/TSV as Table',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: async (ctx) => {
+      const editor = ctx.editor
+      if (!editor) return
+      const text = await navigator.clipboard.readText()
+      if (!insertDelimitedTable(editor, text)) {
+        console.warn('Clipboard text is not CSV or TSV')
+      }
+    }
+  },
   {
     id: 'markdown.heading1',
     label: 'Heading 1',
@@ -600,6 +761,33 @@ export const commands: CommandDefinition[] = [
     defaultBinding: null,
     execute: (ctx) => insertText(ctx.editor, '![alt text](image-url)', 2, ctx.previewSelection)
   },
+  {
+    id: 'markdown.resizeImage',
+    label: 'Resize Image...',
+    category: 'markdown',
+    defaultBinding: null,
+    execute: (ctx) => {
+      const model = ctx.editor?.getModel()
+      const position = ctx.editor?.getPosition()
+      if (!model || !position) return
+      const link = findImageLinkAt(model.getLineContent(position.lineNumber), position.column)
+      if (!link) return
+
+      const { openImageResize } = require('../store/assetsSlice')
+      const { selectActiveTab } = require('../store/tabsSlice')
+      const activeTab = selectActiveTab(ctx.getState())
+      if (!activeTab) return
+      ctx.dispatch(openImageResize({
+        tabId: activeTab.id,
+        filePath: activeTab.path ?? null,
+        src: link.src,
+        modelUri: model.uri.toString(),
+        lineNumber: position.lineNumber,
+        startColumn: link.startColumn,
+        endColumn: link.endColumn
+      }))
+    }
+  },
   {
     id: 'markdown.hr',
     label: 'Horizontal Rule',
@@ -719,6 +907,16 @@ export const commands: CommandDefinition[] = [
     defaultBinding: 'Ctrl+,',
     execute: (ctx) => ctx.handlers.onOpenPreferences()
   },
+  {
+    id: 'app.quit',
+    label: 'Exit',
+    category: 'app',
+    defaultBinding: 'Ctrl+Q',
+    execute: (ctx) => {
+      const { requestClose } = require('../store/closeGuardSlice')
+      ctx.dispatch(requestClose({ kind: 'window' }))
+    }
+  },
   {
     id: 'app.closeDialog',
     label: 'Close Dialog',
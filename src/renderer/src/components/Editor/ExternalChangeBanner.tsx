@@ -0,0 +1,111 @@
+import { useState, useCallback } from 'react'
+import { useDispatch } from 'react-redux'
+import { AppDispatch } from '../../store/store'
+import {
+  TabDocument,
+  closeTab,
+  replaceTabContent,
+  setTabExternalChange,
+  updateTab
+} from '../../store/tabsSlice'
+import { MergeDialog } from './MergeDialog'
+import '../UI/dialog.css'
+import './external-change.css'
+
+interface ExternalChangeBannerProps {
+  tab: TabDocument | null
+}
+
+/**
+ * Banner shown above a dirty tab whose file was changed or deleted by another program.
+ * Saving stays blocked until the user picks which version wins.
+ */
+export function ExternalChangeBanner({ tab }: ExternalChangeBannerProps) {
+  const dispatch = useDispatch<AppDispatch>()
+  const [mergeOpen, setMergeOpen] = useState(false)
+
+  const change = tab?.externalChange
+
+  // Keep the editor content; the next save overwrites the file on disk
+  const handleKeepMine = useCallback(async () => {
+    if (!tab || !change) return
+    const accepted = await window.electron.file.acceptDiskVersion(change.path, change.diskHash)
+    if (accepted) {
+      dispatch(setTabExternalChange({ id: tab.id, change: undefined }))
+      dispatch(updateTab({ id: tab.id, isDirty: true }))
+    }
+  }, [tab, change, dispatch])
+
+  // Discard local edits and load the file from disk
+  const handleTakeTheirs = useCallback(async () => {
+    if (!tab || !change || change.diskContent === null) return
+    const accepted = await window.electron.file.acceptDiskVersion(change.path, change.diskHash)
+    if (accepted) {
+      dispatch(replaceTabContent({ id: tab.id, content: change.diskContent, isDirty: false }))
+    }
+  }, [tab, change, dispatch])
+
+  // Apply the result of the three-way merge as unsaved edits
+  const handleApplyMerge = useCallback(
+    async (merged: string) => {
+      if (!tab || !change) return
+      const accepted = await window.electron.file.acceptDiskVersion(change.path, change.diskHash)
+      if (accepted) {
+        dispatch(replaceTabContent({ id: tab.id, content: merged, isDirty: true }))
+      }
+      setMergeOpen(false)
+    },
+    [tab, change, dispatch]
+  )
+
+  const handleCloseTab = useCallback(() => {
+    if (tab) {
+      dispatch(closeTab(tab.id))
+    }
+  }, [tab, dispatch])
+
+  if (!tab || !change) return null
+
+  const deleted = change.diskContent === null
+
+  return (
+    <>
+      <div className="external-change-banner" role="alert">
+        <span className="external-change-message">
+          {deleted
+            ? `${tab.filename} was deleted on disk.`
+            : `${tab.filename} was changed on disk and has unsaved edits here.`}
+        </span>
+        <div className="external-change-actions">
+          <button className="dialog-btn" onClick={handleKeepMine}>
+            Keep Mine
+          </button>
+          {deleted ? (
+            <button className="dialog-btn" onClick={handleCloseTab}>
+              Close Tab
+            </button>
+          ) : (
+            <>
+              <button className="dialog-btn" onClick={handleTakeTheirs}>
+                Take Theirs
+              </button>
+              <button className="dialog-btn primary" onClick={() => setMergeOpen(true)}>
+                Compare &amp; Merge...
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {mergeOpen && change.diskContent !== null && (
+        <MergeDialog
+          filename={tab.filename}
+          base={change.baseContent}
+          mine={tab.content}
+          theirs={change.diskContent}
+          onApply={handleApplyMerge}
+          onClose={() => setMergeOpen(false)}
+        />
+      )}
+    </>
+  )
+}
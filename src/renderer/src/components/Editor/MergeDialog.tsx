@@ -0,0 +1,114 @@
+import { useState, useMemo, useRef, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { DiffEditor } from '@monaco-editor/react'
+import type * as monaco from 'monaco-editor'
+import { RootState } from '../../store/store'
+import { getMonacoThemeName } from '../../utils/monaco-theme-generator'
+import { threeWayMerge } from '../../utils/three-way-merge'
+import '../UI/dialog.css'
+import './external-change.css'
+
+type CompareSide = 'base' | 'mine' | 'theirs'
+
+const COMPARE_LABELS: Record<CompareSide, string> = {
+  base: 'Original',
+  mine: 'Mine',
+  theirs: 'Theirs'
+}
+
+interface MergeDialogProps {
+  filename: string
+  base: string
+  mine: string
+  theirs: string
+  onApply: (merged: string) => void
+  onClose: () => void
+}
+
+/**
+ * Three-way merge view: the editable result on the right starts as an
+ * automatic merge of both sides, and can be compared against the original,
+ * local, or on-disk version on the left.
+ */
+export function MergeDialog({ filename, base, mine, theirs, onApply, onClose }: MergeDialogProps) {
+  const theme = useSelector((state: RootState) => state.settings.theme.current)
+  const [compareWith, setCompareWith] = useState<CompareSide>('theirs')
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null)
+
+  // Computed once so edits to the result survive switching the compared side
+  const merged = useMemo(() => threeWayMerge(base, mine, theirs), [base, mine, theirs])
+
+  const versions: Record<CompareSide, string> = { base, mine, theirs }
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleApply = () => {
+    const result = diffEditorRef.current?.getModifiedEditor().getValue() ?? merged.content
+    onApply(result)
+  }
+
+  return (
+    <div className="dialog-overlay" onMouseDown={onClose}>
+      <div className="dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Merge {filename}</span>
+          <span className="dialog-status">
+            {merged.conflicts === 0
+              ? 'No conflicts'
+              : `${merged.conflicts} conflict${merged.conflicts === 1 ? '' : 's'} marked in the result`}
+          </span>
+        </div>
+        <div className="merge-dialog-toolbar">
+          <span>Compare result with:</span>
+          {(Object.keys(COMPARE_LABELS) as CompareSide[]).map((side) => (
+            <button
+              key={side}
+              className={`dialog-btn ${compareWith === side ? 'active' : ''}`}
+              onClick={() => setCompareWith(side)}
+            >
+              {COMPARE_LABELS[side]}
+            </button>
+          ))}
+        </div>
+        <div className="merge-dialog-editor">
+          <DiffEditor
+            height="100%"
+            language="markdown"
+            theme={getMonacoThemeName(theme)}
+            original={versions[compareWith]}
+            modified={merged.content}
+            onMount={(editor) => {
+              diffEditorRef.current = editor
+            }}
+            options={{
+              automaticLayout: true,
+              renderSideBySide: true,
+              originalEditable: false,
+              wordWrap: 'on',
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false
+            }}
+          />
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="dialog-btn primary" onClick={handleApply}>
+            Apply Result
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -5,6 +5,30 @@ import { useSelector } from 'react-redux'
 import { selectCurrentBindings, ShortcutBindings } from '../../store/settingsSlice'
 import { parseShortcutToMonaco } from '../../utils/shortcut-parser'
 import { commandMap } from '../../commands/registry'
+import { getLineChanges, LineChange } from '../../utils/git-line-changes'
+import { registerTableEditing } from '../../utils/table-commands'
+import { registerSpellCheck, SpellCheckHandle } from '../../utils/spell-check'
+import type { WikiPage, LinkProblem } from '../../../../shared/workspace-types'
+import { DEFAULT_EDITOR_OPTIONS, EditorOptions } from '../../../../shared/types'
+import './git-gutter.css'
+
+// Marker owner for problems found by Check Links
+const LINK_PROBLEM_OWNER = 'link-check'
+
+const MARKER_SEVERITY: Record<LinkProblem['severity'], monaco.MarkerSeverity> = {
+  error: monaco.MarkerSeverity.Error,
+  warning: monaco.MarkerSeverity.Warning,
+  info: monaco.MarkerSeverity.Info
+}
+
+const GIT_GUTTER_CLASSES: Record<LineChange['kind'], string> = {
+  added: 'git-gutter-added',
+  modified: 'git-gutter-modified',
+  deleted: 'git-gutter-deleted'
+}
+
+// Recompute the diff gutter once typing pauses
+const GIT_GUTTER_DELAY_MS = 300
 
 interface MonacoEditorProps {
   value: string
@@ -16,19 +40,114 @@ interface MonacoEditorProps {
   onScroll?: (offset: number) => void  // Character offset of first visible line
   onScrollTopChange?: (scrollTop: number) => void
   onSelectionChange?: (selection: { start: number; end: number } | null) => void  // Selection range in character offsets
+  wikiPages?: WikiPage[]  // Page names offered after [[
+  linkProblems?: LinkProblem[]  // Check Links results for the open file, shown as markers
+  gitHeadContent?: string | null  // Committed version of the file; null hides the diff gutter
+  editorOptions?: EditorOptions  // Preferences > Editor, with workspace overrides applied
+  workspaceRoot?: string | null  // Folder of the document's workspace, for its spelling dictionary
+}
+
+function setLinkProblemMarkers(editor: monaco.editor.IStandaloneCodeEditor, problems: LinkProblem[]): void {
+  const model = editor.getModel()
+  if (!model) return
+  monaco.editor.setModelMarkers(model, LINK_PROBLEM_OWNER, problems.map((problem) => ({
+    severity: MARKER_SEVERITY[problem.severity],
+    message: problem.message,
+    source: 'Check Links',
+    startLineNumber: problem.lineNumber,
+    startColumn: problem.column,
+    endLineNumber: problem.lineNumber,
+    endColumn: problem.endColumn
+  })))
+}
+
+function getGitGutterDecorations(
+  model: monaco.editor.ITextModel,
+  headContent: string | null
+): monaco.editor.IModelDeltaDecoration[] {
+  if (headContent === null) return []
+  return getLineChanges(headContent, model.getValue()).map((change) => ({
+    range: new monaco.Range(change.startLineNumber, 1, change.endLineNumber, 1),
+    options: { isWholeLine: true, linesDecorationsClassName: GIT_GUTTER_CLASSES[change.kind] }
+  }))
+}
+
+/**
+ * Register [[wiki link]] completions for one editor. Providers are global per
+ * language, so each one only answers for its own editor's model.
+ */
+function registerWikiLinkCompletion(
+  editor: monaco.editor.IStandaloneCodeEditor,
+  getPages: () => WikiPage[]
+): monaco.IDisposable {
+  return monaco.languages.registerCompletionItemProvider('markdown', {
+    triggerCharacters: ['['],
+    provideCompletionItems: (model, position) => {
+      if (model !== editor.getModel()) return { suggestions: [] }
+
+      const line = model.getLineContent(position.lineNumber)
+      const match = line.slice(0, position.column - 1).match(/\[\[([^[\]|#]*)$/)
+      if (!match) return { suggestions: [] }
+
+      const pages = getPages()
+      const range = new monaco.Range(
+        position.lineNumber,
+        position.column - match[1].length,
+        position.lineNumber,
+        position.column
+      )
+      // Auto-closed brackets already supply the ]]
+      const closing = line.slice(position.column - 1).startsWith(']]') ? '' : ']]'
+      const nameCounts = new Map<string, number>()
+      for (const page of pages) {
+        const key = page.name.toLowerCase()
+        nameCounts.set(key, (nameCounts.get(key) ?? 0) + 1)
+      }
+
+      return {
+        suggestions: pages.map((page) => {
+          // Ambiguous names are inserted as paths so they resolve to this page
+          const target = (nameCounts.get(page.name.toLowerCase()) ?? 0) > 1 ? page.relativePath : page.name
+          return {
+            label: page.name,
+            kind: monaco.languages.CompletionItemKind.File,
+            detail: page.relativePath,
+            filterText: `${page.name} ${page.relativePath}`,
+            insertText: target + closing,
+            range
+          }
+        })
+      }
+    }
+  })
 }
 
 export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor | null, MonacoEditorProps>(
-  ({ value, onChange, theme = 'vs-dark', fontSize = 14, onCursorChange, onCursorPositionChange, onScroll, onScrollTopChange, onSelectionChange }, ref) => {
+  ({ value, onChange, theme = 'vs-dark', fontSize = 14, onCursorChange, onCursorPositionChange, onScroll, onScrollTopChange, onSelectionChange, wikiPages, linkProblems, gitHeadContent, editorOptions = DEFAULT_EDITOR_OPTIONS, workspaceRoot = null }, ref) => {
     const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null)
     const disposablesRef = useRef<monaco.IDisposable[]>([])
     const cursorDisposableRef = useRef<monaco.IDisposable | null>(null)
     const scrollDisposableRef = useRef<monaco.IDisposable | null>(null)
     const selectionDisposableRef = useRef<monaco.IDisposable | null>(null)
+    const completionDisposableRef = useRef<monaco.IDisposable | null>(null)
+    const tableDisposableRef = useRef<monaco.IDisposable | null>(null)
+    const spellCheckRef = useRef<SpellCheckHandle | null>(null)
+    const spellCheckSettingsRef = useRef({
+      enabled: editorOptions.spellCheck,
+      language: editorOptions.spellCheckLanguage,
+      workspaceRoot
+    })
     const onScrollRef = useRef(onScroll)
     const onScrollTopChangeRef = useRef(onScrollTopChange)
     const onCursorPositionChangeRef = useRef(onCursorPositionChange)
     const onSelectionChangeRef = useRef(onSelectionChange)
+    const wikiPagesRef = useRef(wikiPages ?? [])
+    const linkProblemsRef = useRef(linkProblems ?? [])
+    const gitHeadContentRef = useRef(gitHeadContent ?? null)
+    const gitDecorationsRef = useRef<monaco.editor.IEditorDecorationsCollection | null>(null)
+    const gitGutterTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const contentDisposableRef = useRef<monaco.IDisposable | null>(null)
+    const indentationRef = useRef({ tabSize: editorOptions.tabSize, insertSpaces: editorOptions.insertSpaces })
     const bindings = useSelector(selectCurrentBindings)
 
     // Keep refs up to date
@@ -48,6 +167,49 @@ export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor
       onSelectionChangeRef.current = onSelectionChange
     }, [onSelectionChange])
 
+    useEffect(() => {
+      wikiPagesRef.current = wikiPages ?? []
+    }, [wikiPages])
+
+    useEffect(() => {
+      linkProblemsRef.current = linkProblems ?? []
+      if (editorRef.current) {
+        setLinkProblemMarkers(editorRef.current, linkProblemsRef.current)
+      }
+    }, [linkProblems])
+
+    // Indentation is a model option; set on the editor it would change every editor
+    useEffect(() => {
+      indentationRef.current = { tabSize: editorOptions.tabSize, insertSpaces: editorOptions.insertSpaces }
+      editorRef.current?.getModel()?.updateOptions(indentationRef.current)
+    }, [editorOptions.tabSize, editorOptions.insertSpaces])
+
+    useEffect(() => {
+      spellCheckSettingsRef.current = {
+        enabled: editorOptions.spellCheck,
+        language: editorOptions.spellCheckLanguage,
+        workspaceRoot
+      }
+      spellCheckRef.current?.refresh()
+    }, [editorOptions.spellCheck, editorOptions.spellCheckLanguage, workspaceRoot])
+
+    // Character widths are cached per font, so measure again once a new font loads
+    useEffect(() => {
+      document.fonts.ready.then(() => monaco.editor.remeasureFonts())
+    }, [editorOptions.fontFamily])
+
+    const updateGitGutter = useCallback(() => {
+      const model = editorRef.current?.getModel()
+      if (model && gitDecorationsRef.current) {
+        gitDecorationsRef.current.set(getGitGutterDecorations(model, gitHeadContentRef.current))
+      }
+    }, [])
+
+    useEffect(() => {
+      gitHeadContentRef.current = gitHeadContent ?? null
+      updateGitGutter()
+    }, [gitHeadContent, updateGitGutter])
+
     // Register editor actions based on current bindings
     const registerEditorActions = useCallback(
       (editor: monaco.editor.IStandaloneCodeEditor, currentBindings: ShortcutBindings) => {
@@ -65,6 +227,16 @@ export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor
           'markdown.code',
           'markdown.link',
           'markdown.table',
+          'markdown.tableFormat',
+          'markdown.tableInsertRowAbove',
+          'markdown.tableInsertRowBelow',
+          'markdown.tableInsertColumnLeft',
+          'markdown.tableInsertColumnRight',
+          'markdown.tableDeleteRow',
+          'markdown.tableDeleteColumn',
+          'markdown.tableSortAscending',
+          'markdown.tableSortDescending',
+          'markdown.tablePaste',
           'markdown.heading1',
           'markdown.heading2',
           'markdown.heading3',
@@ -133,6 +305,8 @@ export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor
       // Register actions with current bindings
       registerEditorActions(editor, bindings)
 
+      editor.getModel()?.updateOptions(indentationRef.current)
+
       // Set up scroll listener - must be done here since editor isn't available in useEffect
       scrollDisposableRef.current = editor.onDidScrollChange(() => {
         // Report scrollTop for session persistence
@@ -155,6 +329,26 @@ export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor
         onScrollRef.current(offset)
       })
 
+      // Offer page names after [[
+      completionDisposableRef.current = registerWikiLinkCompletion(editor, () => wikiPagesRef.current)
+
+      // Tab, Shift+Tab and Enter move between table cells and align columns
+      tableDisposableRef.current = registerTableEditing(editor)
+
+      // Mark misspelled words, with corrections as quick fixes
+      spellCheckRef.current = registerSpellCheck(editor, () => spellCheckSettingsRef.current)
+
+      // Show problems from a check that ran before the editor mounted
+      setLinkProblemMarkers(editor, linkProblemsRef.current)
+
+      // Mark lines changed since the last commit
+      gitDecorationsRef.current = editor.createDecorationsCollection()
+      updateGitGutter()
+      contentDisposableRef.current = editor.onDidChangeModelContent(() => {
+        if (gitGutterTimerRef.current) clearTimeout(gitGutterTimerRef.current)
+        gitGutterTimerRef.current = setTimeout(updateGitGutter, GIT_GUTTER_DELAY_MS)
+      })
+
       // Set up selection change listener
       selectionDisposableRef.current = editor.onDidChangeCursorSelection((e) => {
         if (!onSelectionChangeRef.current) return
@@ -222,6 +416,15 @@ export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor
         scrollDisposableRef.current = null
         selectionDisposableRef.current?.dispose()
         selectionDisposableRef.current = null
+        completionDisposableRef.current?.dispose()
+        completionDisposableRef.current = null
+        tableDisposableRef.current?.dispose()
+        tableDisposableRef.current = null
+        spellCheckRef.current?.dispose()
+        spellCheckRef.current = null
+        contentDisposableRef.current?.dispose()
+        contentDisposableRef.current = null
+        if (gitGutterTimerRef.current) clearTimeout(gitGutterTimerRef.current)
       }
     }, [])
 
@@ -235,18 +438,23 @@ export const MonacoEditor = memo(forwardRef<monaco.editor.IStandaloneCodeEditor
         onMount={handleEditorDidMount}
         options={{
           automaticLayout: true,
-          wordWrap: 'on',
-          minimap: { enabled: false },
+          wordWrap: editorOptions.wordWrap,
+          wordWrapColumn: editorOptions.wordWrapColumn,
+          rulers: editorOptions.rulers,
+          minimap: { enabled: editorOptions.minimap },
           fontSize,
-          lineNumbers: 'on',
-          renderWhitespace: 'selection',
+          // An empty family falls back to Monaco's platform default
+          fontFamily: editorOptions.fontFamily || monaco.editor.EditorOptions.fontFamily.defaultValue,
+          fontLigatures: editorOptions.fontLigatures,
+          lineNumbers: editorOptions.lineNumbers,
+          renderWhitespace: editorOptions.renderWhitespace,
+          cursorStyle: editorOptions.cursorStyle,
+          smoothScrolling: editorOptions.smoothScrolling,
           scrollBeyondLastLine: false,
           folding: true,
           quickSuggestions: false,
           multiCursorModifier: 'ctrlCmd',
           mouseWheelZoom: false,
-          tabSize: 2,
-          insertSpaces: true,
           detectIndentation: false,
           find: {
             seedSearchStringFromSelection: 'always',
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import * as monaco from 'monaco-editor'
+import { RootState } from '../../store/store'
+import { closeImageResize } from '../../store/assetsSlice'
+import type { ImageInfo, ImageOutputFormat } from '../../../../shared/types'
+import '../UI/dialog.css'
+import './resize-image.css'
+
+const FORMAT_OPTIONS: { value: ImageOutputFormat; label: string }[] = [
+  { value: 'original', label: 'Keep format' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'jpeg', label: 'JPEG' }
+]
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Rewrites the image linked at the cursor at a smaller width or in another
+ * format, then points the link at the result. A new format means a new file;
+ * the original is left for any other documents that use it.
+ */
+export function ResizeImageDialog() {
+  const dispatch = useDispatch()
+  const target = useSelector((state: RootState) => state.assets.resizeTarget)
+  const processing = useSelector((state: RootState) => state.settings.images.processing)
+  const [info, setInfo] = useState<ImageInfo | null | undefined>(undefined)
+  const [width, setWidth] = useState(0)
+  const [format, setFormat] = useState<ImageOutputFormat>('original')
+  const [quality, setQuality] = useState(processing.quality)
+  const [resizing, setResizing] = useState(false)
+
+  const handleClose = useCallback(() => dispatch(closeImageResize()), [dispatch])
+
+  useEffect(() => {
+    if (!target) return
+    let cancelled = false
+    setInfo(undefined)
+    window.electron.file.getImageInfo(target.src, target.tabId, target.filePath).then((imageInfo) => {
+      if (cancelled) return
+      setInfo(imageInfo)
+      setWidth(imageInfo?.width ?? 0)
+      setFormat('original')
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [target])
+
+  // Escape closes the dialog
+  useEffect(() => {
+    if (!target) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        handleClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [target, handleClose])
+
+  if (!target) return null
+
+  const handleResize = async () => {
+    if (!info || width < 1) return
+    setResizing(true)
+    const src = await window.electron.file.resizeImage(target.src, target.tabId, target.filePath, {
+      maxWidth: Math.min(width, info.width),
+      format,
+      quality,
+      stripMetadata: processing.stripMetadata
+    })
+    setResizing(false)
+    if (src === null) return
+
+    const model = monaco.editor.getModel(monaco.Uri.parse(target.modelUri))
+    const range = new monaco.Range(target.lineNumber, target.startColumn, target.lineNumber, target.endColumn)
+    // Don't write over a link that changed while the dialog was open
+    if (src !== target.src && model && !model.isDisposed() && model.getValueInRange(range) === target.src) {
+      model.pushStackElement()
+      model.pushEditOperations([], [{ range, text: src }], () => null)
+      model.pushStackElement()
+    }
+    handleClose()
+  }
+
+  const height = info ? Math.round((info.height * Math.min(width, info.width)) / info.width) : 0
+
+  return (
+    <div className="dialog-overlay" onMouseDown={handleClose}>
+      <div className="dialog resize-image-dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Resize Image</span>
+          <span className="dialog-status">{target.src}</span>
+        </div>
+        <div className="resize-image-body">
+          {info === undefined ? (
+            <div className="resize-image-hint">Reading image...</div>
+          ) : info === null ? (
+            <div className="resize-image-hint">
+              Only PNG, JPEG and WebP files inside the document's folders can be resized.
+            </div>
+          ) : (
+            <>
+              <div className="resize-image-row">
+                <span className="resize-image-label">Current</span>
+                <span className="resize-image-current">
+                  {info.width} × {info.height} {info.format.toUpperCase()}, {formatSize(info.size)}
+                </span>
+              </div>
+              <div className="resize-image-row">
+                <label htmlFor="resize-image-width">Width (px)</label>
+                <input
+                  id="resize-image-width"
+                  type="number"
+                  min={1}
+                  max={info.width}
+                  value={width}
+                  onChange={(e) => setWidth(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                />
+                <span className="resize-image-height">× {height}</span>
+              </div>
+              <div className="resize-image-row">
+                <label htmlFor="resize-image-format">Format</label>
+                <select
+                  id="resize-image-format"
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as ImageOutputFormat)}
+                >
+                  {FORMAT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="resize-image-row">
+                <label htmlFor="resize-image-quality">Quality</label>
+                <input
+                  id="resize-image-quality"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={quality}
+                  onChange={(e) => setQuality(Math.min(100, Math.max(1, Math.round(Number(e.target.value) || 1))))}
+                />
+              </div>
+              <div className="resize-image-hint">
+                Quality applies to JPEG and WebP. Images are never made wider than they are.
+              </div>
+            </>
+          )}
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={handleClose}>
+            Cancel
+          </button>
+          <button
+            className="dialog-btn primary"
+            onClick={handleResize}
+            disabled={!info || width < 1 || resizing}
+          >
+            Resize
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+  MarkdownTable,
+  TableAlignment,
+  insertRow,
+  deleteRow,
+  insertColumn,
+  deleteColumn,
+  sortRows
+} from '../../utils/markdown-table'
+import '../UI/dialog.css'
+import './table-editor.css'
+
+const ALIGNMENT_LABELS: Record<TableAlignment, string> = {
+  none: 'Default',
+  left: 'Left',
+  center: 'Center',
+  right: 'Right'
+}
+
+// Pipes are escaped in the markdown, but typed plainly in the grid
+const unescapeCell = (text: string) => text.replace(/\\\|/g, '|')
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|')
+
+function mapCells(table: MarkdownTable, map: (text: string) => string): MarkdownTable {
+  return {
+    ...table,
+    header: table.header.map(map),
+    rows: table.rows.map((row) => row.map(map))
+  }
+}
+
+interface CellPosition {
+  // Body row index; -1 is the header
+  row: number
+  column: number
+}
+
+interface TableEditorDialogProps {
+  table: MarkdownTable
+  onApply: (table: MarkdownTable) => void
+  onClose: () => void
+}
+
+/**
+ * Spreadsheet-style editor for a GFM table, opened from the preview
+ */
+export function TableEditorDialog({ table: initialTable, onApply, onClose }: TableEditorDialogProps) {
+  const [table, setTable] = useState(() => mapCells(initialTable, unescapeCell))
+  const [active, setActive] = useState<CellPosition>({ row: -1, column: 0 })
+  const [pendingFocus, setPendingFocus] = useState<CellPosition | null>({ row: -1, column: 0 })
+  const gridRef = useRef<HTMLTableElement>(null)
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  // Focus a cell once rows or columns added for it have rendered
+  useEffect(() => {
+    if (!pendingFocus) return
+    const input = gridRef.current?.querySelector<HTMLInputElement>(
+      `input[data-row="${pendingFocus.row}"][data-column="${pendingFocus.column}"]`
+    )
+    input?.focus()
+    setPendingFocus(null)
+  }, [pendingFocus, table])
+
+  const moveTo = (position: CellPosition) => {
+    setActive(position)
+    setPendingFocus(position)
+  }
+
+  const setCell = (row: number, column: number, value: string) => {
+    setTable((prev) => row < 0
+      ? { ...prev, header: prev.header.map((cell, i) => (i === column ? value : cell)) }
+      : { ...prev, rows: prev.rows.map((cells, r) => (r === row ? cells.map((cell, i) => (i === column ? value : cell)) : cells)) }
+    )
+  }
+
+  const setAlignment = (column: number, alignment: TableAlignment) => {
+    setTable((prev) => ({ ...prev, alignments: prev.alignments.map((a, i) => (i === column ? alignment : a)) }))
+  }
+
+  const handleAddRow = () => {
+    const row = active.row + 1
+    setTable((prev) => insertRow(prev, row))
+    moveTo({ row, column: active.column })
+  }
+
+  const handleDeleteRow = () => {
+    if (active.row < 0) return
+    setTable((prev) => deleteRow(prev, active.row))
+    moveTo({ row: Math.min(active.row, table.rows.length - 2), column: active.column })
+  }
+
+  const handleAddColumn = () => {
+    const column = active.column + 1
+    setTable((prev) => insertColumn(prev, column))
+    moveTo({ row: active.row, column })
+  }
+
+  const handleDeleteColumn = () => {
+    if (table.header.length <= 1) return
+    setTable((prev) => deleteColumn(prev, active.column))
+    moveTo({ row: active.row, column: Math.min(active.column, table.header.length - 2) })
+  }
+
+  const handleSort = (descending: boolean) => {
+    setTable((prev) => sortRows(prev, active.column, descending))
+  }
+
+  // Enter moves down a row, adding one at the bottom
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, column: number) => {
+    if (e.key !== 'Enter') return
+    e.preventDefault()
+    if (row + 1 >= table.rows.length) {
+      setTable((prev) => insertRow(prev, prev.rows.length))
+    }
+    moveTo({ row: row + 1, column })
+  }
+
+  const renderCell = (text: string, row: number, column: number) => (
+    <input
+      type="text"
+      value={text}
+      data-row={row}
+      data-column={column}
+      className={row === active.row && column === active.column ? 'active' : ''}
+      style={{ textAlign: table.alignments[column] === 'none' ? undefined : table.alignments[column] }}
+      onFocus={() => setActive({ row, column })}
+      onChange={(e) => setCell(row, column, e.target.value)}
+      onKeyDown={(e) => handleCellKeyDown(e, row, column)}
+    />
+  )
+
+  return (
+    <div className="dialog-overlay" onMouseDown={onClose}>
+      <div className="dialog table-editor-dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Edit Table</span>
+          <span className="dialog-status">
+            {table.rows.length} row{table.rows.length === 1 ? '' : 's'}, {table.header.length} column{table.header.length === 1 ? '' : 's'}
+          </span>
+        </div>
+        <div className="table-editor-toolbar">
+          <button className="dialog-btn" onClick={handleAddRow}>Add Row</button>
+          <button className="dialog-btn" onClick={handleDeleteRow} disabled={active.row < 0}>Delete Row</button>
+          <button className="dialog-btn" onClick={handleAddColumn}>Add Column</button>
+          <button className="dialog-btn" onClick={handleDeleteColumn} disabled={table.header.length <= 1}>Delete Column</button>
+          <button className="dialog-btn" onClick={() => handleSort(false)}>Sort Ascending</button>
+          <button className="dialog-btn" onClick={() => handleSort(true)}>Sort Descending</button>
+        </div>
+        <div className="table-editor-body">
+          <table ref={gridRef} className="table-editor-grid">
+            <thead>
+              <tr className="table-editor-alignments">
+                {table.alignments.map((alignment, column) => (
+                  <th key={column}>
+                    <select
+                      aria-label={`Column ${column + 1} alignment`}
+                      value={alignment}
+                      onChange={(e) => setAlignment(column, e.target.value as TableAlignment)}
+                    >
+                      {(Object.keys(ALIGNMENT_LABELS) as TableAlignment[]).map((value) => (
+                        <option key={value} value={value}>
+                          {ALIGNMENT_LABELS[value]}
+                        </option>
+                      ))}
+                    </select>
+                  </th>
+                ))}
+              </tr>
+              <tr>
+                {table.header.map((text, column) => (
+                  <th key={column}>{renderCell(text, -1, column)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((cells, row) => (
+                <tr key={row}>
+                  {cells.map((text, column) => (
+                    <td key={column}>{renderCell(text, row, column)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="dialog-btn primary" onClick={() => onApply(mapCells(table, escapeCell))}>
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { AppDispatch, RootState } from '../../store/store'
+import { setPdfExportOptions, saveExportSettings } from '../../store/settingsSlice'
+import type { PdfExportOptions, PdfPageSize } from '../../../../shared/types'
+import '../UI/dialog.css'
+import './export.css'
+
+const PAGE_SIZES: PdfPageSize[] = ['Letter', 'Legal', 'Tabloid', 'A3', 'A4', 'A5']
+
+const MARGIN_SIDES: { key: keyof PdfExportOptions['margins']; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+  { key: 'right', label: 'Right' }
+]
+
+interface PdfExportDialogProps {
+  onExport: (options: PdfExportOptions) => void
+  onClose: () => void
+}
+
+/**
+ * Page setup for PDF export. The chosen options are remembered for next time.
+ */
+export function PdfExportDialog({ onExport, onClose }: PdfExportDialogProps) {
+  const dispatch = useDispatch<AppDispatch>()
+  const savedOptions = useSelector((state: RootState) => state.settings.export.pdf)
+  const [options, setOptions] = useState<PdfExportOptions>(savedOptions)
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const update = (changes: Partial<PdfExportOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }))
+  }
+
+  const updateMargin = (side: keyof PdfExportOptions['margins'], value: string) => {
+    const inches = Number(value)
+    if (!Number.isFinite(inches) || inches < 0) return
+    setOptions((prev) => ({ ...prev, margins: { ...prev.margins, [side]: inches } }))
+  }
+
+  const handleExport = () => {
+    dispatch(setPdfExportOptions(options))
+    dispatch(saveExportSettings())
+    onExport(options)
+  }
+
+  return (
+    <div className="dialog-overlay" onMouseDown={onClose}>
+      <div className="dialog pdf-export-dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Export as PDF</span>
+        </div>
+        <div className="pdf-export-body">
+          <div className="pdf-export-row">
+            <label htmlFor="pdf-page-size">Paper size</label>
+            <select
+              id="pdf-page-size"
+              value={options.pageSize}
+              onChange={(e) => update({ pageSize: e.target.value as PdfPageSize })}
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="pdf-export-row">
+            <label htmlFor="pdf-orientation">Orientation</label>
+            <select
+              id="pdf-orientation"
+              value={options.landscape ? 'landscape' : 'portrait'}
+              onChange={(e) => update({ landscape: e.target.value === 'landscape' })}
+            >
+              <option value="portrait">Portrait</option>
+              <option value="landscape">Landscape</option>
+            </select>
+          </div>
+          <div className="pdf-export-row">
+            <span className="pdf-export-label">Margins (inches)</span>
+            <div className="pdf-export-margins">
+              {MARGIN_SIDES.map(({ key, label }) => (
+                <label key={key} className="pdf-export-margin">
+                  {label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={3}
+                    step={0.05}
+                    value={options.margins[key]}
+                    onChange={(e) => updateMargin(key, e.target.value)}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="pdf-export-row">
+            <label htmlFor="pdf-theme">Theme</label>
+            <select
+              id="pdf-theme"
+              value={options.theme}
+              onChange={(e) => update({ theme: e.target.value as PdfExportOptions['theme'] })}
+            >
+              <option value="print">Print (black on white)</option>
+              <option value="current">Current Wrangle theme</option>
+            </select>
+          </div>
+          <div className="pdf-export-row">
+            <label htmlFor="pdf-header">Header</label>
+            <input
+              id="pdf-header"
+              type="text"
+              value={options.headerTemplate}
+              placeholder="None"
+              onChange={(e) => update({ headerTemplate: e.target.value })}
+            />
+          </div>
+          <div className="pdf-export-row">
+            <label htmlFor="pdf-footer">Footer</label>
+            <input
+              id="pdf-footer"
+              type="text"
+              value={options.footerTemplate}
+              placeholder="None"
+              onChange={(e) => update({ footerTemplate: e.target.value })}
+            />
+          </div>
+          <div className="pdf-export-hint">
+            Headers and footers can use {'{title}'}, {'{page}'}, {'{pages}'} and {'{date}'}.
+          </div>
+          <label className="pdf-export-check">
+            <input
+              type="checkbox"
+              checked={options.tableOfContents}
+              onChange={(e) => update({ tableOfContents: e.target.checked })}
+            />
+            Table of contents
+          </label>
+          <label className="pdf-export-check">
+            <input
+              type="checkbox"
+              checked={options.pageBreakBeforeH1}
+              onChange={(e) => update({ pageBreakBeforeH1: e.target.checked })}
+            />
+            Start each top-level heading on a new page
+          </label>
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="dialog-btn primary" onClick={handleExport}>
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { DiffEditor } from '@monaco-editor/react'
+import { RootState } from '../../store/store'
+import { closeGitDiff } from '../../store/gitSlice'
+import { getMonacoThemeName } from '../../utils/monaco-theme-generator'
+import '../UI/dialog.css'
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * Side-by-side diff of a file's committed version (left) and its working
+ * copy (right). An open tab's unsaved content counts as the working copy.
+ */
+export function GitDiffDialog() {
+  const dispatch = useDispatch()
+  const theme = useSelector((state: RootState) => state.settings.theme.current)
+  const filePath = useSelector((state: RootState) => state.git.diffPath)
+  const tabContent = useSelector((state: RootState) =>
+    filePath ? state.tabs.tabs.find((t) => t.path === filePath)?.content : undefined
+  )
+  const [headContent, setHeadContent] = useState<string | null>(null)
+  const [diskContent, setDiskContent] = useState<string | null>(null)
+
+  const handleClose = useCallback(() => dispatch(closeGitDiff()), [dispatch])
+
+  useEffect(() => {
+    if (!filePath) return
+    let cancelled = false
+    Promise.all([
+      window.electron.git.headContent(filePath),
+      window.electron.git.workingContent(filePath)
+    ]).then(([head, working]) => {
+      if (!cancelled) {
+        setHeadContent(head)
+        setDiskContent(working)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath])
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        handleClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleClose])
+
+  if (!filePath) return null
+
+  const workingContent = tabContent ?? diskContent
+  let status = 'HEAD ↔ Working copy'
+  if (headContent === null) {
+    status = 'Not committed yet'
+  } else if (workingContent === null) {
+    status = 'Deleted in the working copy'
+  }
+
+  return (
+    <div className="dialog-overlay" onMouseDown={handleClose}>
+      <div className="dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">{getBaseName(filePath)}</span>
+          <span className="dialog-status">{status}</span>
+        </div>
+        <div className="dialog-body">
+          <div className="dialog-editor">
+            <DiffEditor
+              height="100%"
+              language="markdown"
+              theme={getMonacoThemeName(theme)}
+              original={headContent ?? ''}
+              modified={workingContent ?? ''}
+              options={{
+                automaticLayout: true,
+                renderSideBySide: true,
+                readOnly: true,
+                originalEditable: false,
+                wordWrap: 'on',
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false
+              }}
+            />
+          </div>
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={handleClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
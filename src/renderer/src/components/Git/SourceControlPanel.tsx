@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { useDispatch } from 'react-redux'
+import { AppDispatch } from '../../store/store'
+import { refreshGitStatus, openGitDiff } from '../../store/gitSlice'
+import { GIT_STATE_LETTERS } from '../../utils/git-status'
+import type { GitStatus, GitFileStatus, GitFileState } from '../../../../shared/workspace-types'
+import './git.css'
+
+interface SourceControlPanelProps {
+  rootPath: string
+  status: GitStatus
+}
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * Minimal git panel for the workspace sidebar: stage and unstage files,
+ * open their diff, and commit what is staged
+ */
+export function SourceControlPanel({ rootPath, status }: SourceControlPanelProps) {
+  const dispatch = useDispatch<AppDispatch>()
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [message, setMessage] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const staged = status.files.filter((f) => f.staged)
+  const changes = status.files.filter((f) => f.unstaged)
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await action()
+    } finally {
+      setIsBusy(false)
+      dispatch(refreshGitStatus(rootPath))
+    }
+  }
+
+  const stage = (files: GitFileStatus[]) =>
+    run(async () => {
+      await window.electron.git.stage(rootPath, files.map((f) => f.path))
+    })
+
+  // A staged rename also stages the removal of its original path
+  const unstage = (files: GitFileStatus[]) =>
+    run(async () => {
+      const paths = files.flatMap((f) => (f.originalPath ? [f.path, f.originalPath] : [f.path]))
+      await window.electron.git.unstage(rootPath, paths)
+    })
+
+  const commit = () =>
+    run(async () => {
+      const result = await window.electron.git.commit(rootPath, message)
+      if (result.success) {
+        setMessage('')
+      } else {
+        setError(result.error ?? 'Commit failed')
+      }
+    })
+
+  const getRelativeDir = (filePath: string): string => {
+    const relativePath = filePath.startsWith(rootPath) ? filePath.slice(rootPath.length + 1) : filePath
+    const lastSlash = Math.max(relativePath.lastIndexOf('/'), relativePath.lastIndexOf('\\'))
+    return lastSlash === -1 ? '' : relativePath.slice(0, lastSlash)
+  }
+
+  const renderFile = (file: GitFileStatus, state: GitFileState, isStaged: boolean) => (
+    <div
+      key={file.path}
+      className="scm-file"
+      onClick={file.isDirectory ? undefined : () => dispatch(openGitDiff(file.path))}
+      title={file.originalPath ? `${file.originalPath} → ${file.path}` : file.path}
+    >
+      <span className="scm-file-name">{getBaseName(file.path)}</span>
+      <span className="scm-file-dir">{getRelativeDir(file.path)}</span>
+      <button
+        className="scm-file-action"
+        onClick={(e) => {
+          e.stopPropagation()
+          if (isStaged) {
+            unstage([file])
+          } else {
+            stage([file])
+          }
+        }}
+        disabled={isBusy}
+        title={isStaged ? 'Unstage' : 'Stage'}
+      >
+        {isStaged ? '−' : '+'}
+      </button>
+      <span className={`scm-file-state git-${state}`}>{GIT_STATE_LETTERS[state]}</span>
+    </div>
+  )
+
+  return (
+    <div className={`scm-panel ${isExpanded ? 'expanded' : ''}`}>
+      <div className="scm-header" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className={`scm-chevron ${isExpanded ? 'expanded' : ''}`}>
+          <svg viewBox="0 0 16 16" width="10" height="10">
+            <path d="M6 4l4 4-4 4" fill="none" stroke="currentColor" strokeWidth="1.5" />
+          </svg>
+        </span>
+        <span className="scm-title">Source Control</span>
+        {status.branch && <span className="scm-branch">{status.branch}</span>}
+        {staged.length + changes.length > 0 && (
+          <span className="scm-count">{staged.length + changes.length}</span>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="scm-body">
+          <textarea
+            className="scm-message"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              // Ctrl/Cmd+Enter commits, like most git clients
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                e.preventDefault()
+                commit()
+              }
+            }}
+            placeholder="Commit message"
+            rows={3}
+          />
+          <button
+            className="scm-commit"
+            onClick={commit}
+            disabled={isBusy || staged.length === 0 || !message.trim()}
+          >
+            Commit {staged.length} File{staged.length === 1 ? '' : 's'}
+          </button>
+          {error && <div className="scm-error">{error}</div>}
+
+          <div className="scm-group">
+            <div className="scm-group-header">
+              <span>Staged Changes</span>
+              {staged.length > 0 && (
+                <button className="scm-group-action" onClick={() => unstage(staged)} disabled={isBusy}>
+                  Unstage All
+                </button>
+              )}
+            </div>
+            {staged.map((file) => renderFile(file, file.staged!, true))}
+          </div>
+
+          <div className="scm-group">
+            <div className="scm-group-header">
+              <span>Changes</span>
+              {changes.length > 0 && (
+                <button className="scm-group-action" onClick={() => stage(changes)} disabled={isBusy}>
+                  Stage All
+                </button>
+              )}
+            </div>
+            {changes.map((file) => renderFile(file, file.unstaged!, false))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
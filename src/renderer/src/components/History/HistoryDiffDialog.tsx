@@ -0,0 +1,83 @@
+import { useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { DiffEditor } from '@monaco-editor/react'
+import { RootState } from '../../store/store'
+import { getMonacoThemeName } from '../../utils/monaco-theme-generator'
+import type { FileSnapshot } from '../../../../shared/types'
+import '../UI/dialog.css'
+
+interface HistoryDiffDialogProps {
+  fileName: string
+  snapshot: FileSnapshot
+  snapshotContent: string
+  currentContent: string
+  onRestore: () => void
+  onClose: () => void
+}
+
+/**
+ * Compare a local history snapshot (left) with the tab's current content (right)
+ */
+export function HistoryDiffDialog({
+  fileName,
+  snapshot,
+  snapshotContent,
+  currentContent,
+  onRestore,
+  onClose
+}: HistoryDiffDialogProps) {
+  const theme = useSelector((state: RootState) => state.settings.theme.current)
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div className="dialog-overlay" onMouseDown={onClose}>
+      <div className="dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">{fileName}</span>
+          <span className="dialog-status">
+            {new Date(snapshot.timestamp).toLocaleString()} ↔ Current
+          </span>
+        </div>
+        <div className="dialog-body">
+          <div className="dialog-editor">
+            <DiffEditor
+              height="100%"
+              language="markdown"
+              theme={getMonacoThemeName(theme)}
+              original={snapshotContent}
+              modified={currentContent}
+              options={{
+                automaticLayout: true,
+                renderSideBySide: true,
+                readOnly: true,
+                originalEditable: false,
+                wordWrap: 'on',
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false
+              }}
+            />
+          </div>
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={onClose}>
+            Close
+          </button>
+          <button className="dialog-btn primary" onClick={onRestore}>
+            Restore This Version
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
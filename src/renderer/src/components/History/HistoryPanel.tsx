@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { AppDispatch } from '../../store/store'
+import { setHistoryPanel } from '../../store/layoutSlice'
+import { selectActiveTab, replaceTabContent } from '../../store/tabsSlice'
+import { HistoryDiffDialog } from './HistoryDiffDialog'
+import type { FileSnapshot, SnapshotSource } from '../../../../shared/types'
+import './history.css'
+
+const SOURCE_LABELS: Record<SnapshotSource, string> = {
+  original: 'Before first save',
+  save: 'Saved',
+  autoSave: 'Auto-saved',
+  beforeRestore: 'Before restore'
+}
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+/**
+ * Timeline of the active tab's local history. Each snapshot can be compared
+ * with the current content or restored into the tab in one click.
+ */
+export function HistoryPanel() {
+  const dispatch = useDispatch<AppDispatch>()
+  const activeTab = useSelector(selectActiveTab)
+  const filePath = activeTab?.path ?? null
+  const [snapshots, setSnapshots] = useState<FileSnapshot[]>([])
+  const [comparing, setComparing] = useState<{ snapshot: FileSnapshot; content: string } | null>(null)
+
+  const loadSnapshots = useCallback(async () => {
+    setSnapshots(filePath ? await window.electron.history.list(filePath) : [])
+  }, [filePath])
+
+  useEffect(() => {
+    loadSnapshots()
+  }, [loadSnapshots])
+
+  // Refresh when a save of this file takes a snapshot
+  useEffect(() => {
+    return window.electron.history.onChanged((changedPath) => {
+      if (changedPath === filePath) {
+        loadSnapshots()
+      }
+    })
+  }, [filePath, loadSnapshots])
+
+  const handleCompare = async (snapshot: FileSnapshot) => {
+    if (!filePath) return
+    const content = await window.electron.history.read(filePath, snapshot.id)
+    if (content !== null) {
+      setComparing({ snapshot, content })
+    }
+  }
+
+  const handleRestore = async (snapshot: FileSnapshot) => {
+    if (!activeTab || !filePath) return
+    const content = await window.electron.history.restore(filePath, snapshot.id, activeTab.content)
+    setComparing(null)
+    if (content !== null) {
+      dispatch(replaceTabContent({ id: activeTab.id, content, isDirty: true }))
+    }
+  }
+
+  let status: string | null = null
+  if (filePath) {
+    status =
+      snapshots.length === 0
+        ? `No history for ${getBaseName(filePath)} yet`
+        : `${snapshots.length} version${snapshots.length === 1 ? '' : 's'} of ${getBaseName(filePath)}`
+  }
+
+  return (
+    <div className="history-panel">
+      <div className="history-panel-header">
+        <span className="history-panel-title">Local History</span>
+        <button
+          className="history-panel-close"
+          onClick={() => dispatch(setHistoryPanel(false))}
+          title="Close local history"
+        >
+          <svg viewBox="0 0 10 10" width="10" height="10">
+            <path d="M1 0L0 1l4 4-4 4 1 1 4-4 4 4 1-1-4-4 4-4-1-1-4 4-4-4z" fill="currentColor" />
+          </svg>
+        </button>
+      </div>
+
+      {!filePath ? (
+        <div className="history-panel-empty">Save the file to start keeping its history.</div>
+      ) : (
+        <>
+          {status && <div className="history-panel-status">{status}</div>}
+
+          <div className="history-panel-list">
+            {snapshots.map((snapshot) => (
+              <div
+                key={snapshot.id}
+                className="history-item"
+                onClick={() => handleCompare(snapshot)}
+                title="Compare with current content"
+              >
+                <div className="history-item-info">
+                  <span className="history-item-time">{new Date(snapshot.timestamp).toLocaleString()}</span>
+                  <span className="history-item-meta">
+                    {SOURCE_LABELS[snapshot.source]} · {formatSize(snapshot.size)}
+                  </span>
+                </div>
+                <button
+                  className="history-item-restore"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    handleRestore(snapshot)
+                  }}
+                  title="Replace the tab's content with this version"
+                >
+                  Restore
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {comparing && activeTab && filePath && (
+        <HistoryDiffDialog
+          fileName={getBaseName(filePath)}
+          snapshot={comparing.snapshot}
+          snapshotContent={comparing.content}
+          currentContent={activeTab.content}
+          onRestore={() => handleRestore(comparing.snapshot)}
+          onClose={() => setComparing(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -2,9 +2,14 @@ import { useState, useCallback, useRef, memo } from 'react'
 import { Allotment } from 'allotment'
 import { MonacoEditor } from '../Editor/MonacoEditor'
 import { VimStatusBar } from '../Editor/VimStatusBar'
-import { MarkdownPreview, MarkdownPreviewHandle } from '../Preview/MarkdownPreview'
+import { MarkdownPreview, MarkdownPreviewHandle, WikiLinkContext } from '../Preview/MarkdownPreview'
 import { SyncLockIcon } from './SyncLockIcon'
+import { TableEditorDialog } from '../Editor/TableEditorDialog'
 import { SourceMap } from '../../utils/source-map'
+import { MarkdownTable, parseTable, formatTable } from '../../utils/markdown-table'
+import type { HtmlSanitizationPolicy } from '../../utils/html-sanitizer'
+import type { LinkProblem } from '../../../../shared/workspace-types'
+import { DEFAULT_EDITOR_OPTIONS, EditorOptions, PreviewTypography } from '../../../../shared/types'
 import { useSelector, useDispatch } from 'react-redux'
 import { RootState } from '../../store/store'
 import { setSplitRatio } from '../../store/layoutSlice'
@@ -19,7 +24,17 @@ interface EditorLayoutProps {
   editorRef?: React.MutableRefObject<monaco.editor.IStandaloneCodeEditor | null>
   onCursorPositionChange?: (position: { lineNumber: number; column: number }) => void
   onScrollTopChange?: (scrollTop: number) => void
+  onEditorSelectionChange?: (selection: { start: number; end: number } | null) => void
   onPreviewSelectionChange?: (selection: { start: number; end: number } | null) => void
+  htmlPolicy?: HtmlSanitizationPolicy
+  wikiLinks?: WikiLinkContext
+  linkProblems?: LinkProblem[]
+  gitHeadContent?: string | null
+  editorOptions?: EditorOptions
+  // Folder of the document's workspace, for its spelling dictionary
+  workspaceRoot?: string | null
+  previewTypography?: PreviewTypography
+  customPreviewCss?: string
   // Vim status bar ref for vim mode integration
   vimStatusBarRef?: React.RefObject<HTMLDivElement | null>
   // Optional overrides for multi-pane mode
@@ -28,9 +43,18 @@ interface EditorLayoutProps {
   onSplitRatioChange?: (ratio: number) => void
 }
 
-// Calculate font size based on zoom level (base 14px, 10% per level)
-function getZoomedFontSize(zoomLevel: number): number {
-  return Math.round(14 * Math.pow(1.1, zoomLevel))
+// A table opened from the preview in the grid editor
+interface TableEdit {
+  start: number
+  end: number
+  source: string
+  indent: string
+  table: MarkdownTable
+}
+
+// Calculate font size based on zoom level (10% per level)
+function getZoomedFontSize(baseSize: number, zoomLevel: number): number {
+  return Math.round(baseSize * Math.pow(1.1, zoomLevel))
 }
 
 /**
@@ -83,7 +107,16 @@ export const EditorLayout = memo(function EditorLayout({
   editorRef,
   onCursorPositionChange,
   onScrollTopChange,
+  onEditorSelectionChange,
   onPreviewSelectionChange,
+  htmlPolicy,
+  wikiLinks,
+  linkProblems,
+  gitHeadContent,
+  editorOptions = DEFAULT_EDITOR_OPTIONS,
+  workspaceRoot = null,
+  previewTypography,
+  customPreviewCss,
   vimStatusBarRef,
   viewModeOverride,
   splitRatioOverride,
@@ -99,6 +132,7 @@ export const EditorLayout = memo(function EditorLayout({
 
   // State for scroll sync
   const [sourceMap, setSourceMap] = useState<SourceMap | null>(null)
+  const [tableEdit, setTableEdit] = useState<TableEdit | null>(null)
 
   // Refs for scroll synchronization
   const previewRef = useRef<MarkdownPreviewHandle>(null)
@@ -114,7 +148,7 @@ export const EditorLayout = memo(function EditorLayout({
   contentRef.current = content
 
   // Calculate zoomed font size for editor
-  const fontSize = getZoomedFontSize(zoomLevel)
+  const fontSize = getZoomedFontSize(editorOptions.fontSize, zoomLevel)
 
   // Store sourceMap when preview renders
   const handleSourceMapReady = useCallback((map: SourceMap) => {
@@ -171,6 +205,47 @@ export const EditorLayout = memo(function EditorLayout({
     }, 100)
   }, [previewSync, content, editorRef])
 
+  const handleEditTable = useCallback((range: { start: number; end: number }) => {
+    const text = contentRef.current
+    const source = text.slice(range.start, range.end)
+    // Tables written as raw HTML can't be edited as a grid
+    const table = parseTable(source.split(/\r?\n/))
+    if (!table) return
+
+    // Tables indented in a list keep their indent on every row
+    const indent = text.slice(text.lastIndexOf('\n', range.start - 1) + 1, range.start)
+    setTableEdit({ ...range, source, indent: /^[ \t]*$/.test(indent) ? indent : '', table })
+  }, [])
+
+  const handleApplyTable = useCallback((table: MarkdownTable) => {
+    setTableEdit(null)
+    const editor = editorRef?.current
+    const model = editor?.getModel()
+    if (!tableEdit || !editor || !model) return
+
+    const start = model.getPositionAt(tableEdit.start)
+    const end = model.getPositionAt(tableEdit.end)
+    const range = {
+      startLineNumber: start.lineNumber,
+      startColumn: start.column,
+      endLineNumber: end.lineNumber,
+      endColumn: end.column
+    }
+    // Don't write over text that changed while the dialog was open
+    if (model.getValueInRange(range) !== tableEdit.source) return
+
+    const text = formatTable(table, tableEdit.indent).join(model.getEOL()).slice(tableEdit.indent.length)
+    editor.pushUndoStop()
+    editor.executeEdits('table-editor', [{ range, text }])
+    editor.pushUndoStop()
+  }, [tableEdit, editorRef])
+
+  const handleCloseTableEditor = useCallback(() => setTableEdit(null), [])
+
+  const tableEditor = tableEdit && (
+    <TableEditorDialog table={tableEdit.table} onApply={handleApplyTable} onClose={handleCloseTableEditor} />
+  )
+
   const handleSplitChange = (sizes: number[]) => {
     if (sizes.length === 2) {
       const total = sizes[0] + sizes[1]
@@ -189,7 +264,7 @@ export const EditorLayout = memo(function EditorLayout({
     return (
       <div style={{ height: '100%', width: '100%', display: 'flex', flexDirection: 'column' }}>
         <div style={{ flex: 1, overflow: 'hidden' }}>
-          <MonacoEditor ref={editorRef} value={content} onChange={onChange} theme={theme} fontSize={fontSize} onCursorPositionChange={onCursorPositionChange} onScrollTopChange={onScrollTopChange} />
+          <MonacoEditor ref={editorRef} value={content} onChange={onChange} theme={theme} fontSize={fontSize} onCursorPositionChange={onCursorPositionChange} onScrollTopChange={onScrollTopChange} onSelectionChange={onEditorSelectionChange} wikiPages={wikiLinks?.pages} linkProblems={linkProblems} gitHeadContent={gitHeadContent} editorOptions={editorOptions} workspaceRoot={workspaceRoot} />
         </div>
         <VimStatusBar ref={vimStatusBarRef} />
       </div>
@@ -201,7 +276,7 @@ export const EditorLayout = memo(function EditorLayout({
       <div style={{ height: '100%', width: '100%', position: 'relative' }}>
         {/* Hidden editor - keeps editorRef valid for WYSIWYG toolbar commands */}
         <div style={{ position: 'absolute', width: 1, height: 1, overflow: 'hidden', opacity: 0, pointerEvents: 'none' }}>
-          <MonacoEditor ref={editorRef} value={content} onChange={onChange} theme={theme} fontSize={fontSize} onCursorPositionChange={onCursorPositionChange} />
+          <MonacoEditor ref={editorRef} value={content} onChange={onChange} theme={theme} fontSize={fontSize} onCursorPositionChange={onCursorPositionChange} onSelectionChange={onEditorSelectionChange} wikiPages={wikiLinks?.pages} linkProblems={linkProblems} gitHeadContent={gitHeadContent} editorOptions={editorOptions} workspaceRoot={workspaceRoot} />
         </div>
         <MarkdownPreview
           content={content}
@@ -209,11 +284,17 @@ export const EditorLayout = memo(function EditorLayout({
           syncScroll={false}
           zoomLevel={zoomLevel}
           onSelectionChange={onPreviewSelectionChange}
+          htmlPolicy={htmlPolicy}
+          wikiLinks={wikiLinks}
+          onEditTable={handleEditTable}
+          typography={previewTypography}
+          customCss={customPreviewCss}
         />
         {/* Hidden vim status bar - keeps ref valid */}
         <div style={{ position: 'absolute', width: 1, height: 1, overflow: 'hidden', opacity: 0, pointerEvents: 'none' }}>
           <VimStatusBar ref={vimStatusBarRef} />
         </div>
+        {tableEditor}
       </div>
     )
   }
@@ -240,6 +321,12 @@ export const EditorLayout = memo(function EditorLayout({
             onScroll={handleEditorScroll}
             onCursorPositionChange={onCursorPositionChange}
             onScrollTopChange={onScrollTopChange}
+            onSelectionChange={onEditorSelectionChange}
+            wikiPages={wikiLinks?.pages}
+            linkProblems={linkProblems}
+            gitHeadContent={gitHeadContent}
+            editorOptions={editorOptions}
+            workspaceRoot={workspaceRoot}
           />
         </Allotment.Pane>
         <Allotment.Pane minSize={200}>
@@ -252,6 +339,11 @@ export const EditorLayout = memo(function EditorLayout({
             onSourceMapReady={handleSourceMapReady}
             onSelectionChange={onPreviewSelectionChange}
             zoomLevel={zoomLevel}
+            htmlPolicy={htmlPolicy}
+            wikiLinks={wikiLinks}
+            onEditTable={handleEditTable}
+            typography={previewTypography}
+            customCss={customPreviewCss}
           />
         </Allotment.Pane>
       </Allotment>
@@ -259,6 +351,7 @@ export const EditorLayout = memo(function EditorLayout({
         <VimStatusBar ref={vimStatusBarRef} />
       </div>
       <SyncLockIcon />
+      {tableEditor}
     </div>
   )
 })
@@ -1,14 +1,14 @@
 import { useSelector, useDispatch } from 'react-redux'
 import {
   setActiveTab,
-  closeTab,
   selectTabsByWorkspace,
   selectActiveTabIdByWorkspace
 } from '../../store/tabsSlice'
 import { setActiveWorkspace } from '../../store/workspacesSlice'
 import { setFocusedPane } from '../../store/layoutSlice'
+import { requestClose } from '../../store/closeGuardSlice'
 import { Tab } from '../Tabs/Tab'
-import type { RootState } from '../../store/store'
+import type { RootState, AppDispatch } from '../../store/store'
 import type { WorkspaceId } from '../../../../shared/workspace-types'
 
 interface PaneTabBarProps {
@@ -19,7 +19,7 @@ interface PaneTabBarProps {
 }
 
 export function PaneTabBar({ workspaceId, workspaceName, workspaceColor, isFocused }: PaneTabBarProps) {
-  const dispatch = useDispatch()
+  const dispatch = useDispatch<AppDispatch>()
   const tabs = useSelector((state: RootState) => selectTabsByWorkspace(state, workspaceId))
   const activeTabId = useSelector((state: RootState) => selectActiveTabIdByWorkspace(state, workspaceId))
 
@@ -29,20 +29,9 @@ export function PaneTabBar({ workspaceId, workspaceName, workspaceColor, isFocus
     dispatch(setFocusedPane(workspaceId))
   }
 
-  const handleTabClose = async (e: React.MouseEvent, tabId: string) => {
+  const handleTabClose = (e: React.MouseEvent, tabId: string) => {
     e.stopPropagation()
-
-    const tab = tabs.find(t => t.id === tabId)
-    if (tab?.isDirty) {
-      const shouldClose = window.confirm(`"${tab.filename}" has unsaved changes. Close anyway?`)
-      if (!shouldClose) return
-    }
-
-    if (tab && !tab.path) {
-      await window.electron.file.cleanupTemp(tabId)
-    }
-
-    dispatch(closeTab(tabId))
+    dispatch(requestClose({ kind: 'tab', tabId }))
   }
 
   if (tabs.length === 0) {
@@ -0,0 +1,110 @@
+import { useState, useEffect, useMemo, useDeferredValue } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import * as monaco from 'monaco-editor'
+import { RootState } from '../../store/store'
+import { selectWorkspaceById } from '../../store/workspacesSlice'
+import { updateTab, TabDocument } from '../../store/tabsSlice'
+import { getDocumentStats } from '../../utils/document-stats'
+import { FILE_ENCODINGS, FileEncoding } from '../../../../shared/types'
+import type { WorkspaceId } from '../../../../shared/workspace-types'
+import './StatusBar.css'
+
+interface StatusBarProps {
+  workspaceId: WorkspaceId
+  tab: TabDocument
+  content: string
+  cursorPosition: { lineNumber: number; column: number }
+  selection: { start: number; end: number } | null
+  editorRef: React.MutableRefObject<monaco.editor.IStandaloneCodeEditor | null>
+}
+
+/**
+ * Cursor, document statistics, encoding, line endings and workspace for the
+ * document in one pane. Encoding and line endings can be converted from here.
+ */
+export function StatusBar({ workspaceId, tab, content, cursorPosition, selection, editorRef }: StatusBarProps) {
+  const dispatch = useDispatch()
+  const workspace = useSelector((state: RootState) => selectWorkspaceById(state, workspaceId))
+  const [encoding, setEncoding] = useState<FileEncoding>('utf8')
+
+  // Counting parses the document, so let typing go first
+  const deferredContent = useDeferredValue(content)
+  const stats = useMemo(() => getDocumentStats(deferredContent), [deferredContent])
+
+  useEffect(() => {
+    if (!tab.path) {
+      setEncoding('utf8')
+      return
+    }
+    let cancelled = false
+    window.electron.file.getEncoding(tab.path).then((fileEncoding) => {
+      if (!cancelled) setEncoding(fileEncoding)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [tab.path])
+
+  const eol = content.includes('\r\n') ? 'CRLF' : 'LF'
+  const selectedLength = selection ? content.slice(selection.start, selection.end).replace(/\r\n/g, '\n').length : 0
+
+  const handleEncodingChange = async (newEncoding: FileEncoding) => {
+    if (!tab.path || !(await window.electron.file.setEncoding(tab.path, newEncoding))) return
+    setEncoding(newEncoding)
+    // The text is unchanged, but the file on disk now needs rewriting
+    dispatch(updateTab({ id: tab.id, isDirty: true }))
+  }
+
+  // Undoable like any edit; the content change marks the tab dirty
+  const handleToggleEol = () => {
+    const editor = editorRef.current
+    const model = editor?.getModel()
+    if (!editor || !model) return
+    model.pushEOL(eol === 'CRLF' ? monaco.editor.EndOfLineSequence.LF : monaco.editor.EndOfLineSequence.CRLF)
+    editor.focus()
+  }
+
+  return (
+    <div className="status-bar">
+      {workspace && (
+        <span className="status-bar-item status-bar-workspace" title={workspace.rootPath ?? undefined}>
+          <span className="status-bar-workspace-color" style={{ backgroundColor: workspace.color }} />
+          {workspace.name}
+        </span>
+      )}
+      <span className="status-bar-spacer" />
+      <span className="status-bar-item status-bar-position">
+        Ln {cursorPosition.lineNumber}, Col {cursorPosition.column}
+        {selectedLength > 0 && ` (${selectedLength} selected)`}
+      </span>
+      <span
+        className="status-bar-item status-bar-stats"
+        title="Counts leave out front matter, markdown syntax, HTML and math"
+      >
+        {stats.words} {stats.words === 1 ? 'word' : 'words'}, {stats.characters} chars
+        {stats.readingMinutes > 0 && `, ${stats.readingMinutes} min read`}
+      </span>
+      <select
+        className="status-bar-item status-bar-encoding"
+        value={encoding}
+        disabled={!tab.path}
+        title={tab.path ? 'Save with encoding' : 'New files are saved as UTF-8'}
+        onChange={(e) => handleEncodingChange(e.target.value as FileEncoding)}
+      >
+        {FILE_ENCODINGS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        className="status-bar-item status-bar-eol"
+        onClick={handleToggleEol}
+        title={`Convert line endings to ${eol === 'CRLF' ? 'LF' : 'CRLF'}`}
+      >
+        {eol}
+      </button>
+      <span className="status-bar-item status-bar-language">Markdown</span>
+    </div>
+  )
+}
@@ -1,13 +1,21 @@
-import { useCallback } from 'react'
+import { useCallback, useMemo } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
 import { RootState } from '../../store/store'
 import { setPaneSplitRatio, ViewMode } from '../../store/layoutSlice'
 import { selectWorkspaceById } from '../../store/workspacesSlice'
 import { useEditorPane } from '../../hooks/useEditorPane'
 import { useImageDrop } from '../../hooks/useImageDrop'
+import { useHtmlPaste } from '../../hooks/useHtmlPaste'
+import { useImagePaste } from '../../hooks/useImagePaste'
+import { useWikiLinks } from '../../hooks/useWikiLinks'
+import { useGitHeadContent } from '../../hooks/useGitHeadContent'
+import { useCustomPreviewCss } from '../../hooks/useCustomPreviewCss'
 import { updateTab } from '../../store/tabsSlice'
+import { selectHtmlSanitizationPolicy, selectEditorOptions } from '../../store/settingsSlice'
 import { getMonacoThemeName } from '../../utils/monaco-theme-generator'
 import { EditorLayout } from './EditorLayout'
+import { StatusBar } from './StatusBar'
+import { ExternalChangeBanner } from '../Editor/ExternalChangeBanner'
 import { PaneTabBar } from './PaneTabBar'
 import type { WorkspaceId } from '../../../../shared/workspace-types'
 
@@ -25,6 +33,10 @@ export function WorkspacePane({ workspaceId, isFocused, onFocus }: WorkspacePane
   const globalViewMode = useSelector((state: RootState) => state.layout.viewMode)
   const globalSplitRatio = useSelector((state: RootState) => state.layout.splitRatio)
   const theme = useSelector((state: RootState) => state.settings.theme.current)
+  const htmlPolicy = useSelector((state: RootState) => selectHtmlSanitizationPolicy(state, workspaceId))
+  const editorOptions = useSelector((state: RootState) => selectEditorOptions(state, workspaceId))
+  const previewTypography = useSelector((state: RootState) => state.settings.preview.typography)
+  const customPreviewCss = useCustomPreviewCss(workspaceId)
 
   const {
     editorRef,
@@ -32,11 +44,31 @@ export function WorkspacePane({ workspaceId, isFocused, onFocus }: WorkspacePane
     baseDir,
     currentFilePath,
     activeTab,
+    cursorPosition,
+    selection,
     handleChange,
     handleCursorPositionChange,
+    handleSelectionChange,
     handleScrollTopChange
   } = useEditorPane(workspaceId)
 
+  // [[wiki links]] open in this pane's workspace
+  const { pages: wikiPages, openWikiLink } = useWikiLinks(workspaceId)
+  const wikiLinks = useMemo(
+    () => ({ pages: wikiPages, currentPath: currentFilePath ?? null, onOpen: openWikiLink }),
+    [wikiPages, currentFilePath, openWikiLink]
+  )
+
+  // Check Links results for the open file, shown as editor markers
+  const allLinkProblems = useSelector((state: RootState) => state.problems.problems)
+  const linkProblems = useMemo(
+    () => allLinkProblems.filter((problem) => problem.path === currentFilePath),
+    [allLinkProblems, currentFilePath]
+  )
+
+  // Committed version of the open file, for the diff gutter
+  const gitHeadContent = useGitHeadContent(currentFilePath)
+
   // Image drop support
   const { isDragging } = useImageDrop({
     editorRef,
@@ -49,6 +81,10 @@ export function WorkspacePane({ workspaceId, isFocused, onFocus }: WorkspacePane
     }
   })
 
+  // Rich HTML paste converted to markdown
+  useHtmlPaste({ editorRef, tabId: activeTab?.id, currentFilePath })
+  useImagePaste({ editorRef, tabId: activeTab?.id, currentFilePath })
+
   const handlePaneClick = useCallback(() => {
     if (!isFocused) {
       onFocus()
@@ -75,6 +111,7 @@ export function WorkspacePane({ workspaceId, isFocused, onFocus }: WorkspacePane
         workspaceColor={workspace.color}
         isFocused={isFocused}
       />
+      <ExternalChangeBanner tab={activeTab} />
       <div className="workspace-pane-content">
         {isDragging && (
           <div className="workspace-pane-drop-overlay">
@@ -90,6 +127,15 @@ export function WorkspacePane({ workspaceId, isFocused, onFocus }: WorkspacePane
             editorRef={editorRef}
             onCursorPositionChange={handleCursorPositionChange}
             onScrollTopChange={handleScrollTopChange}
+            onEditorSelectionChange={handleSelectionChange}
+            htmlPolicy={htmlPolicy}
+            wikiLinks={wikiLinks}
+            linkProblems={linkProblems}
+            gitHeadContent={gitHeadContent}
+            editorOptions={editorOptions}
+            workspaceRoot={workspace?.rootPath ?? null}
+            previewTypography={previewTypography}
+            customPreviewCss={customPreviewCss}
             viewModeOverride={viewMode}
             splitRatioOverride={splitRatio}
             onSplitRatioChange={(ratio) => {
@@ -102,6 +148,16 @@ export function WorkspacePane({ workspaceId, isFocused, onFocus }: WorkspacePane
           </div>
         )}
       </div>
+      {activeTab && (
+        <StatusBar
+          workspaceId={workspaceId}
+          tab={activeTab}
+          content={content}
+          cursorPosition={cursorPosition}
+          selection={selection}
+          editorRef={editorRef}
+        />
+      )}
     </div>
   )
 }
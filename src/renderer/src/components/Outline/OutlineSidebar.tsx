@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef, memo } from 'react'
 import { useDispatch } from 'react-redux'
 import { toggleOutline } from '../../store/layoutSlice'
+import type { EditorRange } from '../../store/tabsSlice'
+import type { WikiBacklink } from '../../../../shared/workspace-types'
 import { marked } from 'marked'
 import * as monaco from 'monaco-editor'
 import './outline.css'
@@ -15,13 +17,45 @@ interface OutlineItem {
 interface OutlineSidebarProps {
   content: string
   editorRef: React.RefObject<monaco.editor.IStandaloneCodeEditor | null>
+  rootPath?: string | null // Workspace folder searched for backlinks
+  filePath?: string
+  onFileOpen?: (filePath: string, reveal?: EditorRange) => void
 }
 
-export const OutlineSidebar = memo(function OutlineSidebar({ content, editorRef }: OutlineSidebarProps) {
+export const OutlineSidebar = memo(function OutlineSidebar({ content, editorRef, rootPath, filePath, onFileOpen }: OutlineSidebarProps) {
   const dispatch = useDispatch()
   const [items, setItems] = useState<OutlineItem[]>([])
+  const [backlinks, setBacklinks] = useState<WikiBacklink[]>([])
   const debounceRef = useRef<NodeJS.Timeout | null>(null)
 
+  // Find [[wiki links]] in other files that point here; refresh when the workspace changes on disk
+  useEffect(() => {
+    if (!rootPath || !filePath) {
+      setBacklinks([])
+      return
+    }
+
+    let cancelled = false
+    const loadBacklinks = async () => {
+      const result = await window.electron.workspace.getBacklinks(rootPath, filePath)
+      if (!cancelled) {
+        setBacklinks(result)
+      }
+    }
+    loadBacklinks()
+
+    const unsubscribe = window.electron.workspace.onFolderChanged((folderPath) => {
+      if (folderPath === rootPath) {
+        loadBacklinks()
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [rootPath, filePath])
+
   // Parse headings from content using marked lexer (debounced)
   useEffect(() => {
     // Clear existing timeout
@@ -84,6 +118,15 @@ export const OutlineSidebar = memo(function OutlineSidebar({ content, editorRef
     editorRef.current.focus()
   }
 
+  const handleBacklinkClick = (backlink: WikiBacklink) => {
+    onFileOpen?.(backlink.path, {
+      startLineNumber: backlink.lineNumber,
+      startColumn: 1,
+      endLineNumber: backlink.lineNumber,
+      endColumn: 1
+    })
+  }
+
   const handleClose = () => {
     dispatch(toggleOutline())
   }
@@ -114,6 +157,31 @@ export const OutlineSidebar = memo(function OutlineSidebar({ content, editorRef
           ))
         )}
       </div>
+      {rootPath && filePath && (
+        <div className="outline-backlinks">
+          <div className="outline-backlinks-header">
+            <span className="outline-title">Backlinks</span>
+            <span className="outline-backlinks-count">{backlinks.length}</span>
+          </div>
+          <div className="outline-backlinks-list">
+            {backlinks.length === 0 ? (
+              <div className="outline-empty">No files link here</div>
+            ) : (
+              backlinks.map((backlink) => (
+                <button
+                  key={`${backlink.path}:${backlink.lineNumber}`}
+                  className="outline-backlink"
+                  onClick={() => handleBacklinkClick(backlink)}
+                  title={`${backlink.path}:${backlink.lineNumber}`}
+                >
+                  <span className="outline-backlink-name">{backlink.name}</span>
+                  <span className="outline-backlink-text">{backlink.lineText}</span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 })
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react'
+
+/**
+ * Text field that commits on blur or Enter, so typing a font name doesn't
+ * restyle (and save) on every keystroke
+ */
+export function DraftInput({ id, value, placeholder, onCommit }: {
+  id: string
+  value: string
+  placeholder?: string
+  onCommit: (value: string) => void
+}) {
+  const [draft, setDraft] = useState(value)
+  useEffect(() => setDraft(value), [value])
+
+  return (
+    <input
+      id={id}
+      type="text"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onCommit(draft)}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+    />
+  )
+}
@@ -0,0 +1,225 @@
+import { useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { AppDispatch, RootState } from '../../store/store'
+import { setEditorOptions, saveEditorSettings, selectEditorOptions } from '../../store/settingsSlice'
+import { updateWorkspace } from '../../store/workspacesSlice'
+import { parseRulers } from '../../utils/editor-options'
+import { DraftInput } from './DraftInput'
+import { SPELL_CHECK_LANGUAGES } from '../../../../shared/types'
+import type { EditorOptions } from '../../../../shared/types'
+import type { WorkspaceState } from '../../../../shared/workspace-types'
+
+const WORD_WRAP_OPTIONS: { value: EditorOptions['wordWrap']; label: string }[] = [
+  { value: 'on', label: 'Window width' },
+  { value: 'off', label: 'Off' },
+  { value: 'wordWrapColumn', label: 'Wrap column' },
+  { value: 'bounded', label: 'Window width or wrap column' }
+]
+
+const WHITESPACE_OPTIONS: { value: EditorOptions['renderWhitespace']; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'boundary', label: 'Boundary' },
+  { value: 'selection', label: 'Selection' },
+  { value: 'trailing', label: 'Trailing' },
+  { value: 'all', label: 'All' }
+]
+
+const LINE_NUMBER_OPTIONS: { value: EditorOptions['lineNumbers']; label: string }[] = [
+  { value: 'on', label: 'On' },
+  { value: 'relative', label: 'Relative' },
+  { value: 'off', label: 'Off' }
+]
+
+const CURSOR_STYLE_OPTIONS: { value: EditorOptions['cursorStyle']; label: string }[] = [
+  { value: 'line', label: 'Line' },
+  { value: 'line-thin', label: 'Thin line' },
+  { value: 'block', label: 'Block' },
+  { value: 'block-outline', label: 'Block outline' },
+  { value: 'underline', label: 'Underline' },
+  { value: 'underline-thin', label: 'Thin underline' }
+]
+
+const SPELL_CHECK_LANGUAGE_OPTIONS = SPELL_CHECK_LANGUAGES.map((l) => ({ value: l.code, label: l.label }))
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+export function EditorSettingsTab() {
+  const dispatch = useDispatch<AppDispatch>()
+  const workspaces = useSelector((state: RootState) => state.workspaces.workspaces)
+  const [scope, setScope] = useState<string>('')
+
+  const workspace: WorkspaceState | undefined = workspaces.find((w) => w.id === scope && w.rootPath)
+  const options = useSelector((state: RootState) => selectEditorOptions(state, workspace?.id))
+  const overrides = workspace?.editorOverrides ?? {}
+
+  // Persist a workspace's overrides to .wrangle/workspace.json
+  const saveOverrides = (target: WorkspaceState, editorOverrides: Partial<EditorOptions>) => {
+    dispatch(updateWorkspace({ id: target.id, changes: { editorOverrides } }))
+    window.electron.workspace.loadConfig(target.rootPath!).then((config) => {
+      if (config) {
+        const { editor: _editor, ...rest } = config
+        window.electron.workspace.saveConfig(
+          target.rootPath!,
+          Object.keys(editorOverrides).length > 0 ? { ...rest, editor: editorOverrides } : rest
+        )
+      }
+    })
+  }
+
+  const update = (changes: Partial<EditorOptions>) => {
+    if (workspace) {
+      saveOverrides(workspace, { ...workspace.editorOverrides, ...changes })
+    } else {
+      dispatch(setEditorOptions(changes))
+      dispatch(saveEditorSettings())
+    }
+  }
+
+  const resetOverride = (key: keyof EditorOptions) => {
+    if (!workspace) return
+    const { [key]: _removed, ...rest } = workspace.editorOverrides
+    saveOverrides(workspace, rest)
+  }
+
+  const renderSetting = (key: keyof EditorOptions, label: string, control: React.ReactNode) => {
+    const overridden = !!workspace && key in overrides
+    return (
+      <div className={`setting-row ${overridden ? 'overridden' : ''}`}>
+        <label className="setting-row-label" htmlFor={`editor-${key}`}>
+          {label}
+        </label>
+        <div className="setting-row-control">
+          {control}
+          {overridden && (
+            <button
+              className="setting-row-reset"
+              onClick={() => resetOverride(key)}
+              title="Use the value from All workspaces"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  const renderSelect = <K extends keyof EditorOptions>(
+    key: K,
+    choices: { value: EditorOptions[K]; label: string }[]
+  ) => (
+    <select
+      id={`editor-${key}`}
+      value={String(options[key])}
+      onChange={(e) => update({ [key]: e.target.value } as Partial<EditorOptions>)}
+    >
+      {choices.map((choice) => (
+        <option key={String(choice.value)} value={String(choice.value)}>
+          {choice.label}
+        </option>
+      ))}
+    </select>
+  )
+
+  const renderNumber = (key: 'fontSize' | 'tabSize' | 'wordWrapColumn', min: number, max: number) => (
+    <input
+      id={`editor-${key}`}
+      type="number"
+      min={min}
+      max={max}
+      value={options[key]}
+      onChange={(e) => {
+        const value = parseInt(e.target.value, 10)
+        if (!isNaN(value)) update({ [key]: clamp(value, min, max) })
+      }}
+    />
+  )
+
+  const renderCheckbox = (
+    key: 'fontLigatures' | 'insertSpaces' | 'minimap' | 'smoothScrolling' | 'spellCheck'
+  ) => (
+    <input
+      id={`editor-${key}`}
+      type="checkbox"
+      checked={options[key]}
+      onChange={(e) => update({ [key]: e.target.checked })}
+    />
+  )
+
+  const folderWorkspaces = workspaces.filter((w) => w.rootPath)
+
+  return (
+    <div className="preview-settings-tab editor-settings-tab">
+      <div className="preview-setting">
+        <label className="preview-setting-label" htmlFor="editor-settings-scope">
+          Apply to
+        </label>
+        <select id="editor-settings-scope" value={workspace?.id ?? ''} onChange={(e) => setScope(e.target.value)}>
+          <option value="">All workspaces</option>
+          {folderWorkspaces.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name}
+            </option>
+          ))}
+        </select>
+        <span className="preview-setting-description">
+          {workspace
+            ? `Changes are saved to .wrangle/workspace.json in ${workspace.name} and override the settings for all workspaces.`
+            : 'These settings apply to every editor. A workspace can override them in its .wrangle/workspace.json.'}
+        </span>
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Font</span>
+        {renderSetting('fontFamily', 'Font family', (
+          <DraftInput
+            id="editor-fontFamily"
+            value={options.fontFamily}
+            placeholder="Default monospace font"
+            onCommit={(fontFamily) => update({ fontFamily: fontFamily.trim() })}
+          />
+        ))}
+        {renderSetting('fontSize', 'Font size', renderNumber('fontSize', 6, 72))}
+        {renderSetting('fontLigatures', 'Font ligatures', renderCheckbox('fontLigatures'))}
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Indentation and wrapping</span>
+        {renderSetting('tabSize', 'Tab size', renderNumber('tabSize', 1, 16))}
+        {renderSetting('insertSpaces', 'Indent with spaces', renderCheckbox('insertSpaces'))}
+        {renderSetting('wordWrap', 'Word wrap', renderSelect('wordWrap', WORD_WRAP_OPTIONS))}
+        {renderSetting('wordWrapColumn', 'Wrap column', renderNumber('wordWrapColumn', 20, 400))}
+        {renderSetting('rulers', 'Rulers', (
+          <DraftInput
+            id="editor-rulers"
+            value={options.rulers.join(', ')}
+            placeholder="e.g. 80, 120"
+            onCommit={(text) => update({ rulers: parseRulers(text) })}
+          />
+        ))}
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Display</span>
+        {renderSetting('renderWhitespace', 'Show whitespace', renderSelect('renderWhitespace', WHITESPACE_OPTIONS))}
+        {renderSetting('lineNumbers', 'Line numbers', renderSelect('lineNumbers', LINE_NUMBER_OPTIONS))}
+        {renderSetting('cursorStyle', 'Cursor style', renderSelect('cursorStyle', CURSOR_STYLE_OPTIONS))}
+        {renderSetting('minimap', 'Minimap', renderCheckbox('minimap'))}
+        {renderSetting('smoothScrolling', 'Smooth scrolling', renderCheckbox('smoothScrolling'))}
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Spelling</span>
+        {renderSetting('spellCheck', 'Check spelling', renderCheckbox('spellCheck'))}
+        {renderSetting('spellCheckLanguage', 'Language', renderSelect('spellCheckLanguage', SPELL_CHECK_LANGUAGE_OPTIONS))}
+        <span className="preview-setting-description">
+          A document can choose its own language with lang in its front matter, e.g. lang: de. Code,
+          math, URLs and front matter are not checked. Words added from the quick fix menu (Ctrl+.) go
+          to ~/.wrangle/dictionary.txt or to the workspace's .wrangle/dictionary.txt.
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,255 @@
+import { useDispatch, useSelector } from 'react-redux'
+import { AppDispatch, RootState } from '../../store/store'
+import { setImageSettings, setImageProcessing, saveImageSettings } from '../../store/settingsSlice'
+import { updateWorkspace } from '../../store/workspacesSlice'
+import { DraftInput } from './DraftInput'
+import { DEFAULT_ASSET_PATH_TEMPLATE, ASSET_PATH_VARIABLES } from '../../../../shared/types'
+import type {
+  ImageSettings,
+  ImageProcessingOptions,
+  ImageOutputFormat,
+  PastedImageNaming
+} from '../../../../shared/types'
+import type { WorkspaceState } from '../../../../shared/workspace-types'
+
+const PASTE_NAMING_OPTIONS: { value: PastedImageNaming; label: string }[] = [
+  { value: 'timestamp', label: 'Name after the time pasted' },
+  { value: 'prompt', label: 'Ask for a name and folder' }
+]
+
+const FORMAT_OPTIONS: { value: ImageOutputFormat; label: string }[] = [
+  { value: 'original', label: 'Keep format' },
+  { value: 'webp', label: 'WebP' },
+  { value: 'jpeg', label: 'JPEG' }
+]
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+interface AssetPathRowProps {
+  id: string
+  label: string
+  template: string
+  placeholder: string
+  onChange: (template: string) => void
+}
+
+/**
+ * An asset path template field. Templates with unknown variables aren't used,
+ * so they are flagged here.
+ */
+function AssetPathRow({ id, label, template, placeholder, onChange }: AssetPathRowProps) {
+  const unknown = Array.from(template.matchAll(/\$\{([^}]*)\}/g))
+    .map((match) => match[1])
+    .filter((name) => !ASSET_PATH_VARIABLES.includes(name))
+
+  return (
+    <>
+      <div className="setting-row">
+        <label className="setting-row-label" htmlFor={id}>
+          {label}
+        </label>
+        <div className="setting-row-control">
+          <DraftInput id={id} value={template} placeholder={placeholder} onCommit={(value) => onChange(value.trim())} />
+        </div>
+      </div>
+      {unknown.length > 0 && (
+        <div className="theme-validation-error">
+          <strong>Not applied:</strong>
+          <ul>
+            {unknown.map((name) => (
+              <li key={name}>{'Unknown variable ${' + name + '}'}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  )
+}
+
+export function ImageSettingsTab() {
+  const dispatch = useDispatch<AppDispatch>()
+  const images = useSelector((state: RootState) => state.settings.images)
+  const workspaces = useSelector((state: RootState) => state.workspaces.workspaces)
+
+  const updateImages = (changes: Partial<ImageSettings>) => {
+    dispatch(setImageSettings(changes))
+    dispatch(saveImageSettings())
+  }
+
+  const updateProcessing = (changes: Partial<ImageProcessingOptions>) => {
+    dispatch(setImageProcessing(changes))
+    dispatch(saveImageSettings())
+  }
+
+  const handleWorkspaceTemplateChange = (workspace: WorkspaceState, template: string) => {
+    const assetPathTemplate = template || null
+    dispatch(updateWorkspace({ id: workspace.id, changes: { assetPathTemplate } }))
+
+    // Persist to config file
+    window.electron.workspace.loadConfig(workspace.rootPath!).then((config) => {
+      if (config) {
+        const { assetPath: _previous, ...rest } = config
+        window.electron.workspace.saveConfig(
+          workspace.rootPath!,
+          assetPathTemplate ? { ...rest, assetPath: assetPathTemplate } : rest
+        )
+      }
+    })
+  }
+
+  const { processing } = images
+
+  return (
+    <div className="preview-settings-tab">
+      <div className="preview-setting">
+        <label className="preview-setting-label" htmlFor="images-pasteNaming">
+          Pasted images
+        </label>
+        <select
+          id="images-pasteNaming"
+          value={images.pasteNaming}
+          onChange={(e) => updateImages({ pasteNaming: e.target.value as PastedImageNaming })}
+        >
+          {PASTE_NAMING_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="preview-setting-description">
+          Images pasted into the editor are saved where the asset location below puts them, named
+          e.g. image-20240131-154502.png, and linked at the cursor. Pasting the web address of an
+          image links it directly; hold Shift to paste the address as text.
+        </span>
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Optimization</span>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="images-optimize">
+            Optimize dropped and pasted images
+          </label>
+          <div className="setting-row-control">
+            <input
+              id="images-optimize"
+              type="checkbox"
+              checked={images.optimize}
+              onChange={(e) => updateImages({ optimize: e.target.checked })}
+            />
+          </div>
+        </div>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="images-maxWidth">
+            Max width (px)
+          </label>
+          <div className="setting-row-control">
+            <input
+              id="images-maxWidth"
+              type="number"
+              min={0}
+              max={10000}
+              step={100}
+              value={processing.maxWidth}
+              disabled={!images.optimize}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10)
+                if (!isNaN(value)) updateProcessing({ maxWidth: clamp(value, 0, 10000) })
+              }}
+            />
+          </div>
+        </div>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="images-format">
+            Convert to
+          </label>
+          <div className="setting-row-control">
+            <select
+              id="images-format"
+              value={processing.format}
+              disabled={!images.optimize}
+              onChange={(e) => updateProcessing({ format: e.target.value as ImageOutputFormat })}
+            >
+              {FORMAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="images-quality">
+            Quality
+          </label>
+          <div className="setting-row-control">
+            <input
+              id="images-quality"
+              type="number"
+              min={1}
+              max={100}
+              value={processing.quality}
+              disabled={!images.optimize}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10)
+                if (!isNaN(value)) updateProcessing({ quality: clamp(value, 1, 100) })
+              }}
+            />
+          </div>
+        </div>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="images-stripMetadata">
+            Remove EXIF and other metadata
+          </label>
+          <div className="setting-row-control">
+            <input
+              id="images-stripMetadata"
+              type="checkbox"
+              checked={processing.stripMetadata}
+              disabled={!images.optimize}
+              onChange={(e) => updateProcessing({ stripMetadata: e.target.checked })}
+            />
+          </div>
+        </div>
+        <span className="preview-setting-description">
+          PNG, JPEG and WebP images wider than the max width are scaled down (0 keeps every width), and
+          can be converted to WebP or JPEG. Quality applies to WebP and JPEG. GIFs and SVGs are added as
+          they are. Hold Shift while dropping or pasting to add an image unchanged. Resize Image... in the
+          command palette rewrites an image already in a document.
+        </span>
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Asset location</span>
+        <AssetPathRow
+          id="images-assetPathTemplate"
+          label="All workspaces"
+          template={images.assetPathTemplate}
+          placeholder={DEFAULT_ASSET_PATH_TEMPLATE}
+          onChange={(template) => updateImages({ assetPathTemplate: template || DEFAULT_ASSET_PATH_TEMPLATE })}
+        />
+        {workspaces
+          .filter((w) => w.rootPath)
+          .map((w) => (
+            <AssetPathRow
+              key={w.id}
+              id={`images-assetPath-${w.id}`}
+              label={w.name}
+              template={w.assetPathTemplate ?? ''}
+              placeholder="Same as all workspaces"
+              onChange={(template) => handleWorkspaceTemplateChange(w, template)}
+            />
+          ))}
+        <span className="preview-setting-description">
+          Where dropped and pasted images are written, e.g. {'${docdir}/assets/${docname}/${date}-${name}.${ext}'}.
+          Variables: {'${docdir}'} and {'${docname}'} (the document's folder and name), {'${workspace}'}, {'${name}'}
+          and {'${ext}'} (the image's name and extension), {'${date}'}, {'${time}'} and {'${hash}'} (from the
+          image's content; identical images share one file). Relative paths start in the document's folder.
+          Images in unsaved documents move there on Save As. A workspace template is saved to its
+          .wrangle/workspace.json and must stay inside the workspace folder.
+        </span>
+      </div>
+    </div>
+  )
+}
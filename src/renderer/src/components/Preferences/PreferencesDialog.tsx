@@ -4,6 +4,9 @@ import { AppDispatch, RootState } from '../../store/store'
 import { loadSettings, setPreferencesDialogBounds, saveLayoutSettings } from '../../store/settingsSlice'
 import { KeyboardShortcutsTab } from './KeyboardShortcutsTab'
 import { ThemeEditorTab } from './ThemeEditorTab'
+import { PreviewSettingsTab } from './PreviewSettingsTab'
+import { EditorSettingsTab } from './EditorSettingsTab'
+import { ImageSettingsTab } from './ImageSettingsTab'
 import './PreferencesDialog.css'
 
 interface PreferencesDialogProps {
@@ -11,7 +14,7 @@ interface PreferencesDialogProps {
   onClose: () => void
 }
 
-type TabId = 'shortcuts' | 'themes'
+type TabId = 'shortcuts' | 'themes' | 'editor' | 'preview' | 'images'
 
 const MIN_WIDTH = 400
 const MIN_HEIGHT = 300
@@ -264,6 +267,24 @@ export function PreferencesDialog({ isOpen, onClose }: PreferencesDialogProps) {
           >
             Keyboard Shortcuts
           </button>
+          <button
+            className={`preferences-tab ${activeTab === 'editor' ? 'active' : ''}`}
+            onClick={() => setActiveTab('editor')}
+          >
+            Editor
+          </button>
+          <button
+            className={`preferences-tab ${activeTab === 'preview' ? 'active' : ''}`}
+            onClick={() => setActiveTab('preview')}
+          >
+            Preview
+          </button>
+          <button
+            className={`preferences-tab ${activeTab === 'images' ? 'active' : ''}`}
+            onClick={() => setActiveTab('images')}
+          >
+            Images
+          </button>
         </div>
 
         <div className="preferences-content">
@@ -271,6 +292,12 @@ export function PreferencesDialog({ isOpen, onClose }: PreferencesDialogProps) {
             <div className="preferences-loading">Loading settings...</div>
           ) : activeTab === 'shortcuts' ? (
             <KeyboardShortcutsTab />
+          ) : activeTab === 'editor' ? (
+            <EditorSettingsTab />
+          ) : activeTab === 'preview' ? (
+            <PreviewSettingsTab />
+          ) : activeTab === 'images' ? (
+            <ImageSettingsTab />
           ) : (
             <ThemeEditorTab />
           )}
@@ -0,0 +1,271 @@
+import { useState, useEffect } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { AppDispatch, RootState } from '../../store/store'
+import {
+  setHtmlSanitization,
+  setPreviewTypography,
+  setCustomCssPath,
+  savePreviewSettings
+} from '../../store/settingsSlice'
+import { updateWorkspace } from '../../store/workspacesSlice'
+import { validatePreviewCSS } from '../../utils/css-validator'
+import { DraftInput } from './DraftInput'
+import type { PreviewTypography } from '../../../../shared/types'
+import type { WorkspaceState } from '../../../../shared/workspace-types'
+
+const SANITIZATION_OPTIONS: { value: 'strict' | 'github'; label: string; description: string }[] = [
+  {
+    value: 'github',
+    label: 'GitHub (default)',
+    description: 'Allows the same raw HTML as GitHub: basic formatting tags, details/summary, tables and images.'
+  },
+  {
+    value: 'strict',
+    label: 'Strict',
+    description: 'Only keeps elements that markdown itself produces. All other raw HTML is removed.'
+  }
+]
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+interface CustomCssRowProps {
+  id: string
+  label: string
+  path: string
+  baseDir: string | null
+  onChange: (path: string) => void
+}
+
+/**
+ * A custom stylesheet with Choose and Clear buttons. The file is checked the
+ * same way the preview checks it, so problems show up here.
+ */
+function CustomCssRow({ id, label, path, baseDir, onChange }: CustomCssRowProps) {
+  const [errors, setErrors] = useState<string[]>([])
+
+  useEffect(() => {
+    if (!path) {
+      setErrors([])
+      return
+    }
+
+    let cancelled = false
+    window.electron.file.readStyleSheet(path, baseDir).then((css) => {
+      if (cancelled) return
+      setErrors(css === null ? ['The file could not be read'] : validatePreviewCSS(css).errors)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [path, baseDir])
+
+  const handleChoose = async () => {
+    const chosen = await window.electron.file.pickStyleSheet(baseDir)
+    if (chosen) onChange(chosen)
+  }
+
+  return (
+    <>
+      <div className="setting-row">
+        <span className="setting-row-label">{label}</span>
+        <div className="setting-row-control">
+          <span id={id} className="custom-css-path" title={path}>
+            {path || 'None'}
+          </span>
+          <button className="setting-row-reset" onClick={handleChoose}>
+            Choose...
+          </button>
+          {path && (
+            <button className="setting-row-reset" onClick={() => onChange('')}>
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+      {errors.length > 0 && (
+        <div className="theme-validation-error">
+          <strong>Not applied:</strong>
+          <ul>
+            {errors.map((error, i) => (
+              <li key={i}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  )
+}
+
+export function PreviewSettingsTab() {
+  const dispatch = useDispatch<AppDispatch>()
+  const htmlSanitization = useSelector((state: RootState) => state.settings.preview.htmlSanitization)
+  const typography = useSelector((state: RootState) => state.settings.preview.typography)
+  const customCssPath = useSelector((state: RootState) => state.settings.preview.customCssPath)
+  const workspaces = useSelector((state: RootState) => state.workspaces.workspaces)
+
+  const selected = SANITIZATION_OPTIONS.find((o) => o.value === htmlSanitization) ?? SANITIZATION_OPTIONS[0]
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    dispatch(setHtmlSanitization(e.target.value as 'strict' | 'github'))
+    dispatch(savePreviewSettings())
+  }
+
+  const updateTypography = (changes: Partial<PreviewTypography>) => {
+    dispatch(setPreviewTypography(changes))
+    dispatch(savePreviewSettings())
+  }
+
+  const handleAppCssChange = (path: string) => {
+    dispatch(setCustomCssPath(path))
+    dispatch(savePreviewSettings())
+  }
+
+  const handleWorkspaceCssChange = (workspace: WorkspaceState, path: string) => {
+    const previewCss = path || null
+    dispatch(updateWorkspace({ id: workspace.id, changes: { previewCss } }))
+
+    // Persist to config file
+    window.electron.workspace.loadConfig(workspace.rootPath!).then((config) => {
+      if (config) {
+        const { previewCss: _previous, ...rest } = config
+        window.electron.workspace.saveConfig(workspace.rootPath!, previewCss ? { ...rest, previewCss } : rest)
+      }
+    })
+  }
+
+  const renderNumber = (
+    key: 'lineHeight' | 'paragraphSpacing' | 'maxWidth',
+    label: string,
+    min: number,
+    max: number,
+    step: number
+  ) => (
+    <div className="setting-row">
+      <label className="setting-row-label" htmlFor={`preview-${key}`}>
+        {label}
+      </label>
+      <div className="setting-row-control">
+        <input
+          id={`preview-${key}`}
+          type="number"
+          min={min}
+          max={max}
+          step={step}
+          value={typography[key]}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value)
+            if (!isNaN(value)) updateTypography({ [key]: clamp(value, min, max) })
+          }}
+        />
+      </div>
+    </div>
+  )
+
+  const renderCheckbox = (key: 'justify' | 'headingNumbers', label: string) => (
+    <div className="setting-row">
+      <label className="setting-row-label" htmlFor={`preview-${key}`}>
+        {label}
+      </label>
+      <div className="setting-row-control">
+        <input
+          id={`preview-${key}`}
+          type="checkbox"
+          checked={typography[key]}
+          onChange={(e) => updateTypography({ [key]: e.target.checked })}
+        />
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="preview-settings-tab">
+      <div className="preview-setting">
+        <label className="preview-setting-label" htmlFor="html-sanitization">
+          Raw HTML in markdown
+        </label>
+        <select id="html-sanitization" value={selected.value} onChange={handleChange}>
+          {SANITIZATION_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="preview-setting-description">
+          {selected.description} Scripts, event handlers and javascript: links are always removed.
+          Workspaces marked "Trust HTML" in the sidebar also allow embeds such as iframes and video.
+          Exports use the same policy as the preview.
+        </span>
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Typography</span>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="preview-bodyFont">
+            Body font
+          </label>
+          <div className="setting-row-control">
+            <DraftInput
+              id="preview-bodyFont"
+              value={typography.bodyFont}
+              placeholder="System font, e.g. Georgia, serif"
+              onCommit={(bodyFont) => updateTypography({ bodyFont: bodyFont.trim() })}
+            />
+          </div>
+        </div>
+        <div className="setting-row">
+          <label className="setting-row-label" htmlFor="preview-codeFont">
+            Code font
+          </label>
+          <div className="setting-row-control">
+            <DraftInput
+              id="preview-codeFont"
+              value={typography.codeFont}
+              placeholder="Consolas, monospace"
+              onCommit={(codeFont) => updateTypography({ codeFont: codeFont.trim() })}
+            />
+          </div>
+        </div>
+        {renderNumber('lineHeight', 'Line height', 1, 3, 0.1)}
+        {renderNumber('paragraphSpacing', 'Paragraph spacing (em)', 0, 3, 0.25)}
+        {renderNumber('maxWidth', 'Max content width (px)', 0, 3000, 50)}
+        {renderCheckbox('justify', 'Justify text')}
+        {renderCheckbox('headingNumbers', 'Number headings')}
+        <span className="preview-setting-description">
+          A max width of 0 fills the pane. Heading numbers start at H2 (1, 1.1, 1.1.1); each H1 starts
+          them again. HTML and PDF exports use the same settings, except that PDF pages set their own width.
+        </span>
+      </div>
+
+      <div className="preview-setting">
+        <span className="preview-setting-label">Custom CSS</span>
+        <CustomCssRow
+          id="preview-custom-css"
+          label="All workspaces"
+          path={customCssPath}
+          baseDir={null}
+          onChange={handleAppCssChange}
+        />
+        {workspaces
+          .filter((w) => w.rootPath)
+          .map((w) => (
+            <CustomCssRow
+              key={w.id}
+              id={`preview-custom-css-${w.id}`}
+              label={w.name}
+              path={w.previewCss ?? ''}
+              baseDir={w.rootPath}
+              onChange={(path) => handleWorkspaceCssChange(w, path)}
+            />
+          ))}
+        <span className="preview-setting-description">
+          Stylesheets only apply inside the preview and exports: :root, html and body rules style the
+          preview itself, and other selectors match within it. A workspace stylesheet is saved to its
+          .wrangle/workspace.json and comes after the one for all workspaces. Files are read again
+          when the window regains focus.
+        </span>
+      </div>
+    </div>
+  )
+}
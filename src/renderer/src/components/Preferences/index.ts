@@ -1,4 +1,7 @@
 export { PreferencesDialog } from './PreferencesDialog'
 export { KeyboardShortcutsTab } from './KeyboardShortcutsTab'
 export { ThemeEditorTab } from './ThemeEditorTab'
+export { EditorSettingsTab } from './EditorSettingsTab'
+export { PreviewSettingsTab } from './PreviewSettingsTab'
+export { ImageSettingsTab } from './ImageSettingsTab'
 export { ShortcutRecorder } from './ShortcutRecorder'
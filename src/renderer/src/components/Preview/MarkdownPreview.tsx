@@ -1,16 +1,22 @@
-import { Component, useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle, useMemo, memo } from 'react'
+import { Component, useEffect, useRef, useState, useCallback, forwardRef, useImperativeHandle, useMemo, useId, memo } from 'react'
 import type { ReactNode, ErrorInfo } from 'react'
 import ReactMarkdown from 'react-markdown'
+import type { Options as ReactMarkdownOptions } from 'react-markdown'
 import remarkGfm from 'remark-gfm'
 import remarkMath from 'remark-math'
 import rehypeKatex from 'rehype-katex'
 import rehypeRaw from 'rehype-raw'
 import rehypeHighlight from 'rehype-highlight'
 import { remarkSourcePositions } from '../../utils/remark-source-positions'
+import { remarkWikiLinks } from '../../utils/remark-wiki-links'
 import { rehypeSourcePositions } from '../../utils/rehype-source-positions'
+import { rehypeSanitizeHtml, HtmlSanitizationPolicy } from '../../utils/html-sanitizer'
 import { extractFrontMatter, renderFrontMatter } from '../../utils/markdown-renderer'
 import { SourceMap, buildSourceMapFromDOM } from '../../utils/source-map'
+import { buildTypographyCSS, scopeCustomCSS } from '../../utils/preview-styles'
 import { usePreviewCursor } from '../../hooks/usePreviewCursor'
+import type { WikiPage } from '../../../../shared/workspace-types'
+import { DEFAULT_PREVIEW_TYPOGRAPHY, PreviewTypography } from '../../../../shared/types'
 import {
   ParagraphRenderer,
   H1Renderer, H2Renderer, H3Renderer, H4Renderer, H5Renderer, H6Renderer,
@@ -85,6 +91,15 @@ class PreviewErrorBoundary extends Component<
   }
 }
 
+// Pages [[wiki links]] resolve against, and how to open one
+export interface WikiLinkContext {
+  pages: WikiPage[]
+  currentPath: string | null
+  onOpen: (filePath: string, heading?: string) => void
+}
+
+const NO_WIKI_PAGES: WikiPage[] = []
+
 interface MarkdownPreviewProps {
   content: string
   baseDir?: string | null
@@ -93,6 +108,11 @@ interface MarkdownPreviewProps {
   onSourceMapReady?: (sourceMap: SourceMap) => void
   onSelectionChange?: (selection: { start: number; end: number } | null) => void  // Selection in source offsets
   zoomLevel?: number
+  htmlPolicy?: HtmlSanitizationPolicy  // How much raw HTML survives sanitization
+  wikiLinks?: WikiLinkContext
+  onEditTable?: (range: { start: number; end: number }) => void  // Source range of a double-clicked table
+  typography?: PreviewTypography
+  customCss?: string  // Validated custom stylesheets, scoped to this preview before use
 }
 
 export interface MarkdownPreviewHandle {
@@ -107,13 +127,26 @@ export const MarkdownPreview = memo(forwardRef<MarkdownPreviewHandle, MarkdownPr
   onScroll,
   onSourceMapReady,
   onSelectionChange,
-  zoomLevel = 0
+  zoomLevel = 0,
+  htmlPolicy = 'github',
+  wikiLinks,
+  onEditTable,
+  typography = DEFAULT_PREVIEW_TYPOGRAPHY,
+  customCss = ''
 }, ref) {
   // Calculate zoom scale (10% per level)
   const zoomScale = Math.pow(1.1, zoomLevel)
   const previewRef = useRef<HTMLDivElement>(null)
   const contentRef = useRef<HTMLDivElement>(null)
   const isScrollingRef = useRef(false)
+
+  // Typography and custom CSS only apply to this preview, as panes can belong to different workspaces.
+  // :where() keeps the typography rules weak enough for custom CSS to override.
+  const styleScope = useId()
+  const previewStyles = useMemo(() => {
+    const scope = `[data-preview-style="${styleScope}"]`
+    return `${buildTypographyCSS(typography, `:where(${scope}) .markdown-body`)}\n${scopeCustomCSS(customCss, scope)}`
+  }, [styleScope, typography, customCss])
   const [sourceMap, setSourceMap] = useState<SourceMap | null>(null)
 
   // Track selection in preview for WYSIWYG editing
@@ -153,18 +186,53 @@ export const MarkdownPreview = memo(forwardRef<MarkdownPreviewHandle, MarkdownPr
   }), [ImageRenderer])
 
   // Memoize plugin arrays
+  const wikiPages = wikiLinks?.pages ?? NO_WIKI_PAGES
+  const wikiCurrentPath = wikiLinks?.currentPath ?? null
   const remarkPlugins = useMemo(() => [
     remarkGfm,
     remarkMath,
+    [remarkWikiLinks, { pages: wikiPages, currentPath: wikiCurrentPath }],
     remarkSourcePositions
-  ], [])
+  ] as ReactMarkdownOptions['remarkPlugins'], [wikiPages, wikiCurrentPath])
+
+  // Open resolved [[wiki links]] in a tab; only paths that are known pages are followed
+  const handleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest('a.wiki-link')
+    if (!link) return
+    e.preventDefault()
+
+    const filePath = link.getAttribute('data-wiki-path')
+    if (!wikiLinks || !filePath) return
+    if (filePath !== wikiLinks.currentPath && !wikiLinks.pages.some((page) => page.path === filePath)) return
+
+    wikiLinks.onOpen(filePath, link.getAttribute('data-wiki-heading') ?? undefined)
+  }, [wikiLinks])
+
+  // Double-clicking a table opens it in the grid editor
+  const handleDoubleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onEditTable) return
+    const table = (e.target as HTMLElement).closest('table[data-source-start][data-source-end]')
+    if (!table) return
+
+    const start = Number(table.getAttribute('data-source-start'))
+    const end = Number(table.getAttribute('data-source-end'))
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return
+    e.preventDefault()
+
+    // Source positions are relative to the content after the front matter
+    const frontMatterLength = content.length - markdownContent.length
+    onEditTable({ start: start + frontMatterLength, end: end + frontMatterLength })
+  }, [onEditTable, content, markdownContent])
 
   const rehypePlugins = useMemo(() => [
     rehypeRaw,
+    // Sanitize raw HTML before KaTeX/highlight/source positions add their own markup
+    [rehypeSanitizeHtml, { policy: htmlPolicy }],
     rehypeKatex,
-    rehypeHighlight,
+    // Mermaid fences are left as plain text for PreRenderer to draw as diagrams
+    [rehypeHighlight, { plainText: ['mermaid'] }],
     rehypeSourcePositions
-  ], [])
+  ] as ReactMarkdownOptions['rehypePlugins'], [htmlPolicy])
 
   // Build source map from DOM after ReactMarkdown renders
   useEffect(() => {
@@ -298,7 +366,8 @@ export const MarkdownPreview = memo(forwardRef<MarkdownPreviewHandle, MarkdownPr
   }), [])
 
   return (
-    <div ref={previewRef} className="markdown-preview">
+    <div ref={previewRef} className="markdown-preview" data-preview-style={styleScope}>
+      <style>{previewStyles}</style>
       <div
         ref={contentRef}
         className="markdown-body"
@@ -309,6 +378,8 @@ export const MarkdownPreview = memo(forwardRef<MarkdownPreviewHandle, MarkdownPr
         onPaste={(e) => e.preventDefault()}
         onCut={(e) => e.preventDefault()}
         onDrop={(e) => e.preventDefault()}
+        onClick={handleClick}
+        onDoubleClick={handleDoubleClick}
         onKeyDown={(e) => {
           // Block Backspace and Delete explicitly
           if (e.key === 'Backspace' || e.key === 'Delete') {
@@ -331,7 +402,6 @@ export const MarkdownPreview = memo(forwardRef<MarkdownPreviewHandle, MarkdownPr
         onKeyPress={(e) => e.preventDefault()}
         style={{
           fontSize: `${zoomScale}em`,
-          lineHeight: 1.6,
           outline: 'none',
           caretColor: 'var(--preview-cursor-color, #4daafc)',
           cursor: 'text'
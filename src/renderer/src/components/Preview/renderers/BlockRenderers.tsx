@@ -1,5 +1,6 @@
 import React from 'react'
 import { RendererProps, getSourceAttrs } from './types'
+import { MermaidDiagram, getMermaidSource } from './MermaidRenderer'
 
 export function BlockquoteRenderer({ node, children, ...props }: RendererProps<'blockquote'>) {
   const sourceAttrs = getSourceAttrs({ node, ...props })
@@ -13,10 +14,16 @@ export function BlockquoteRenderer({ node, children, ...props }: RendererProps<'
 
 /**
  * Code block renderer (pre element).
+ * Mermaid fences are rendered as diagrams instead of code.
  */
 export function PreRenderer({ node, children, ...props }: RendererProps<'pre'>) {
   const sourceAttrs = getSourceAttrs({ node, ...props })
 
+  const mermaidSource = getMermaidSource(node)
+  if (mermaidSource !== null) {
+    return <MermaidDiagram source={mermaidSource} sourceAttrs={sourceAttrs} />
+  }
+
   return (
     <pre {...sourceAttrs} {...props}>
       {children}
@@ -5,9 +5,38 @@ interface ImageRendererProps extends RendererProps<'img'> {
   baseDir: string | null
 }
 
+// Sources loaded as they are, without asking the main process
+const REMOTE_SRC_PATTERN = /^(https?|data|blob|wrangle-asset):/i
+
+// Images shown in the preview, by file path; one IPC listener serves them all
+const assetListeners = new Map<string, Set<(url: string) => void>>()
+let unsubscribeAssetChanges: (() => void) | null = null
+
+function listenForAssetChanges(imagePath: string, listener: (url: string) => void): () => void {
+  if (!unsubscribeAssetChanges) {
+    unsubscribeAssetChanges = window.electron.file.onAssetChanged((image) => {
+      assetListeners.get(image.path)?.forEach((notify) => notify(image.url))
+    })
+  }
+
+  const listeners = assetListeners.get(imagePath) ?? new Set()
+  listeners.add(listener)
+  assetListeners.set(imagePath, listeners)
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) assetListeners.delete(imagePath)
+    if (assetListeners.size === 0 && unsubscribeAssetChanges) {
+      unsubscribeAssetChanges()
+      unsubscribeAssetChanges = null
+    }
+  }
+}
+
 /**
- * Creates an image component that handles relative path resolution.
- * Relative paths (./assets/image.png) are converted to data URLs via IPC.
+ * Creates an image component that handles local path resolution.
+ * Relative, absolute and file:// sources are resolved by the main process
+ * and loaded over wrangle-asset://, reloading when the file changes.
  */
 export function createImageRenderer(baseDir: string | null) {
   return function ImageRenderer({ node, src, alt, ...props }: ImageRendererProps) {
@@ -15,29 +44,37 @@ export function createImageRenderer(baseDir: string | null) {
     const sourceAttrs = getSourceAttrs({ node, src, alt, ...props })
 
     useEffect(() => {
-      async function loadImage() {
-        if (!src || !baseDir || !src.startsWith('./')) {
-          setImageSrc(src)
-          return
-        }
-
-        try {
-          // Remove leading ./
-          const relativePath = src.substring(2)
-          // Combine with base directory (use platform-specific path separator)
-          const absolutePath = `${baseDir}\\${relativePath.replace(/\//g, '\\')}`
-
-          // Read image as data URL through IPC
-          const dataURL = await window.electron.file.readImageAsDataURL(absolutePath)
-          if (dataURL) {
-            setImageSrc(dataURL)
-          }
-        } catch (error) {
-          console.error('[ImageRenderer] Error loading image:', error)
-        }
+      setImageSrc(src)
+      if (!src || REMOTE_SRC_PATTERN.test(src)) {
+        return
       }
 
-      loadImage()
+      let cancelled = false
+      let release: (() => void) | null = null
+
+      window.electron.file
+        .resolveImage(src, baseDir)
+        .then((resolved) => {
+          if (!resolved) return
+          const stopListening = listenForAssetChanges(resolved.path, setImageSrc)
+          release = () => {
+            stopListening()
+            window.electron.file.releaseImage(resolved.path)
+          }
+          if (cancelled) {
+            release()
+            return
+          }
+          setImageSrc(resolved.url)
+        })
+        .catch((error) => {
+          console.error('[ImageRenderer] Error resolving image:', error)
+        })
+
+      return () => {
+        cancelled = true
+        release?.()
+      }
     }, [src])
 
     return <img src={imageSrc} alt={alt || ''} {...sourceAttrs} {...props} />
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react'
+import { useSelector } from 'react-redux'
+import type { Element, ElementContent } from 'hast'
+import { RootState } from '../../../store/store'
+import { builtInThemes } from '../../../styles/themes'
+import { isDarkTheme } from '../../../utils/monaco-theme-generator'
+
+// Debounce diagram re-renders while the user is typing inside a fence
+const RENDER_DEBOUNCE_MS = 300
+
+let diagramCounter = 0
+
+/**
+ * Get the mermaid source if a <pre> node wraps a ```mermaid code block.
+ * Returns null for any other code block.
+ */
+export function getMermaidSource(node?: Element): string | null {
+  if (!node) return null
+
+  const code = node.children.find(
+    (child): child is Element => child.type === 'element' && child.tagName === 'code'
+  )
+  const className = code?.properties?.className
+  if (!code || !Array.isArray(className) || !className.includes('language-mermaid')) {
+    return null
+  }
+
+  return getTextContent(code.children)
+}
+
+function getTextContent(children: ElementContent[]): string {
+  return children
+    .map((child) => {
+      if (child.type === 'text') return child.value
+      if (child.type === 'element') return getTextContent(child.children)
+      return ''
+    })
+    .join('')
+}
+
+/**
+ * Render a diagram to SVG. Mermaid is loaded lazily so documents without
+ * diagrams never pay for it.
+ */
+async function renderDiagram(source: string, dark: boolean): Promise<string> {
+  const { default: mermaid } = await import('mermaid')
+
+  mermaid.initialize({
+    startOnLoad: false,
+    securityLevel: 'strict',
+    theme: dark ? 'dark' : 'default'
+  })
+
+  // parse() throws a descriptive error without leaving an error SVG in the DOM
+  await mermaid.parse(source)
+
+  const id = `mermaid-${++diagramCounter}`
+  try {
+    const { svg } = await mermaid.render(id, source)
+    return svg
+  } finally {
+    // Mermaid renders into a temporary container that can be left behind on failure
+    document.getElementById(`d${id}`)?.remove()
+  }
+}
+
+interface MermaidDiagramProps {
+  source: string
+  sourceAttrs: Record<string, number | string | undefined>
+}
+
+/**
+ * Renders a mermaid code block as a live diagram that follows the current theme.
+ * Syntax errors are shown inline rather than propagating to PreviewErrorBoundary.
+ */
+export function MermaidDiagram({ source, sourceAttrs }: MermaidDiagramProps) {
+  const currentTheme = useSelector((state: RootState) => state.settings.theme.current)
+  const customThemes = useSelector((state: RootState) => state.settings.theme.customThemes)
+  const dark = isDarkTheme(currentTheme, builtInThemes[currentTheme] ?? customThemes[currentTheme])
+
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const timer = setTimeout(() => {
+      renderDiagram(source, dark)
+        .then((result) => {
+          if (cancelled) return
+          setSvg(result)
+          setError(null)
+        })
+        .catch((err) => {
+          if (cancelled) return
+          setError(err instanceof Error ? err.message : String(err))
+        })
+    }, RENDER_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [source, dark])
+
+  if (error) {
+    return (
+      <div className="mermaid-error" contentEditable={false} {...sourceAttrs}>
+        <strong>Mermaid diagram error</strong>
+        <pre>{error}</pre>
+      </div>
+    )
+  }
+
+  if (!svg) {
+    return (
+      <div className="mermaid-diagram mermaid-pending" contentEditable={false} {...sourceAttrs}>
+        Rendering diagram...
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className="mermaid-diagram"
+      contentEditable={false}
+      {...sourceAttrs}
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  )
+}
@@ -0,0 +1,169 @@
+import { useState, useMemo } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState, AppDispatch } from '../../store/store'
+import { setProblemsPanel } from '../../store/layoutSlice'
+import { checkLinks, setOfflineOnly } from '../../store/problemsSlice'
+import { selectToolRootPath } from '../../store/workspacesSlice'
+import type { EditorRange } from '../../store/tabsSlice'
+import type { LinkProblem } from '../../../../shared/workspace-types'
+import '../Search/search.css'
+import './problems.css'
+
+interface ProblemsPanelProps {
+  onFileOpen: (filePath: string, reveal?: EditorRange) => void
+}
+
+const SEVERITY_ICONS: Record<LinkProblem['severity'], string> = {
+  error: '✕',
+  warning: '!',
+  info: 'i'
+}
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * Broken links, missing images and unknown #anchors found by Check Links,
+ * grouped by file; clicking a problem opens the file at the link.
+ */
+export function ProblemsPanel({ onFileOpen }: ProblemsPanelProps) {
+  const dispatch = useDispatch<AppDispatch>()
+  const rootPath = useSelector(selectToolRootPath)
+  const { problems, result, isChecking, offlineOnly, rootPath: checkedRootPath } = useSelector(
+    (state: RootState) => state.problems
+  )
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  // Problems grouped by file, in the order the check reported them
+  const groups = useMemo(() => {
+    const byPath = new Map<string, LinkProblem[]>()
+    for (const problem of problems) {
+      const group = byPath.get(problem.path) ?? []
+      group.push(problem)
+      byPath.set(problem.path, group)
+    }
+    return [...byPath.entries()]
+  }, [problems])
+
+  const toggleCollapsed = (filePath: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) {
+        next.delete(filePath)
+      } else {
+        next.add(filePath)
+      }
+      return next
+    })
+  }
+
+  const handleProblemClick = (problem: LinkProblem) => {
+    onFileOpen(problem.path, {
+      startLineNumber: problem.lineNumber,
+      startColumn: problem.column,
+      endLineNumber: problem.lineNumber,
+      endColumn: problem.endColumn
+    })
+  }
+
+  const getRelativeDir = (filePath: string): string => {
+    if (!checkedRootPath) return ''
+    const relativePath = filePath.startsWith(checkedRootPath) ? filePath.slice(checkedRootPath.length + 1) : filePath
+    const lastSlash = Math.max(relativePath.lastIndexOf('/'), relativePath.lastIndexOf('\\'))
+    return lastSlash === -1 ? '' : relativePath.slice(0, lastSlash)
+  }
+
+  let status: string | null = null
+  if (isChecking) {
+    status = offlineOnly ? 'Checking links...' : 'Checking links (including external URLs)...'
+  } else if (result) {
+    const checked = `${result.linkCount} link${result.linkCount === 1 ? '' : 's'} in ${result.fileCount} file${result.fileCount === 1 ? '' : 's'}`
+    status =
+      problems.length === 0
+        ? `No problems found in ${checked}`
+        : `${problems.length} problem${problems.length === 1 ? '' : 's'} in ${checked}`
+  }
+
+  return (
+    <div className="search-sidebar problems-panel">
+      <div className="search-header">
+        <span className="search-title">Problems</span>
+        <button
+          className="search-close"
+          onClick={() => dispatch(setProblemsPanel(false))}
+          title="Close problems"
+        >
+          <svg viewBox="0 0 10 10" width="10" height="10">
+            <path d="M1 0L0 1l4 4-4 4 1 1 4-4 4 4 1-1-4-4 4-4-1-1-4 4-4-4z" fill="currentColor" />
+          </svg>
+        </button>
+      </div>
+
+      {!rootPath ? (
+        <div className="search-empty">Open a folder as a workspace to check its links.</div>
+      ) : (
+        <>
+          <div className="problems-toolbar">
+            <button
+              className="search-replace-all"
+              onClick={() => dispatch(checkLinks(rootPath))}
+              disabled={isChecking}
+            >
+              Check Links
+            </button>
+            <label className="problems-offline" title="Report external URLs without fetching them">
+              <input
+                type="checkbox"
+                checked={offlineOnly}
+                onChange={(e) => dispatch(setOfflineOnly(e.target.checked))}
+              />
+              Offline only
+            </label>
+          </div>
+
+          {status && <div className="search-status">{status}</div>}
+
+          <div className="search-results">
+            {groups.map(([filePath, fileProblems]) => {
+              const isCollapsed = collapsed.has(filePath)
+              return (
+                <div key={filePath} className="search-file">
+                  <div
+                    className="search-file-header"
+                    onClick={() => toggleCollapsed(filePath)}
+                    title={filePath}
+                  >
+                    <span className={`search-file-chevron ${isCollapsed ? '' : 'expanded'}`}>
+                      <svg viewBox="0 0 16 16" width="10" height="10">
+                        <path d="M6 4l4 4-4 4" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                      </svg>
+                    </span>
+                    <span className="search-file-name">{getBaseName(filePath)}</span>
+                    <span className="search-file-dir">{getRelativeDir(filePath)}</span>
+                    <span className="search-file-count">{fileProblems.length}</span>
+                  </div>
+                  {!isCollapsed &&
+                    fileProblems.map((problem, index) => (
+                      <div
+                        key={index}
+                        className="problems-item"
+                        onClick={() => handleProblemClick(problem)}
+                        title={problem.url}
+                      >
+                        <span className={`problems-severity ${problem.severity}`}>
+                          {SEVERITY_ICONS[problem.severity]}
+                        </span>
+                        <span className="problems-message">{problem.message}</span>
+                        <span className="problems-location">Ln {problem.lineNumber}</span>
+                      </div>
+                    ))}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { DiffEditor } from '@monaco-editor/react'
+import { RootState } from '../../store/store'
+import { getMonacoThemeName } from '../../utils/monaco-theme-generator'
+import type { WorkspaceReplacePreview } from '../../../../shared/workspace-types'
+import '../UI/dialog.css'
+
+interface ReplacePreviewDialogProps {
+  previews: WorkspaceReplacePreview[]
+  dirtyPaths: Set<string>
+  onApply: (selected: WorkspaceReplacePreview[]) => void
+  onClose: () => void
+}
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * Review replace-all changes file by file before anything is written.
+ * Files with unsaved edits in a tab start unchecked.
+ */
+export function ReplacePreviewDialog({ previews, dirtyPaths, onApply, onClose }: ReplacePreviewDialogProps) {
+  const theme = useSelector((state: RootState) => state.settings.theme.current)
+  const [selectedPath, setSelectedPath] = useState<string | null>(previews[0]?.path ?? null)
+  const [checked, setChecked] = useState<Set<string>>(
+    () => new Set(previews.filter((p) => !dirtyPaths.has(p.path)).map((p) => p.path))
+  )
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const toggleChecked = (filePath: string) => {
+    setChecked((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) {
+        next.delete(filePath)
+      } else {
+        next.add(filePath)
+      }
+      return next
+    })
+  }
+
+  const selected = previews.find((p) => p.path === selectedPath) ?? null
+  const toApply = previews.filter((p) => checked.has(p.path))
+  const totalCount = toApply.reduce((sum, p) => sum + p.count, 0)
+
+  return (
+    <div className="dialog-overlay" onMouseDown={onClose}>
+      <div className="dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Replace All</span>
+          <span className="dialog-status">
+            {previews.length === 0
+              ? 'Nothing to replace'
+              : `${totalCount} replacement${totalCount === 1 ? '' : 's'} in ${toApply.length} of ${previews.length} file${previews.length === 1 ? '' : 's'}`}
+          </span>
+        </div>
+        <div className="dialog-body">
+          <div className="dialog-files">
+            {previews.map((preview) => (
+              <div
+                key={preview.path}
+                className={`dialog-file ${preview.path === selectedPath ? 'selected' : ''}`}
+                onClick={() => setSelectedPath(preview.path)}
+                title={preview.path}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked.has(preview.path)}
+                  onChange={() => toggleChecked(preview.path)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                <span className="dialog-file-name">{getBaseName(preview.path)}</span>
+                {dirtyPaths.has(preview.path) && (
+                  <span className="dialog-file-note" title="This file has unsaved edits in a tab">
+                    unsaved
+                  </span>
+                )}
+                <span className="search-file-count">{preview.count}</span>
+              </div>
+            ))}
+          </div>
+          <div className="dialog-editor">
+            {selected && (
+              <DiffEditor
+                height="100%"
+                language="markdown"
+                theme={getMonacoThemeName(theme)}
+                original={selected.original}
+                modified={selected.replaced}
+                options={{
+                  automaticLayout: true,
+                  renderSideBySide: true,
+                  readOnly: true,
+                  originalEditable: false,
+                  wordWrap: 'on',
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false
+                }}
+              />
+            )}
+          </div>
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="dialog-btn primary"
+            onClick={() => onApply(toApply)}
+            disabled={toApply.length === 0}
+          >
+            Replace in {toApply.length} File{toApply.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
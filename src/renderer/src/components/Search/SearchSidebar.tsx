@@ -0,0 +1,385 @@
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState } from '../../store/store'
+import { setSearchSidebar } from '../../store/layoutSlice'
+import { selectAllWorkspaces, selectActiveWorkspaceId } from '../../store/workspacesSlice'
+import type { EditorRange } from '../../store/tabsSlice'
+import type {
+  WorkspaceSearchQuery,
+  WorkspaceSearchFileResult,
+  WorkspaceSearchMatch,
+  WorkspaceSearchSummary,
+  WorkspaceReplacePreview
+} from '../../../../shared/workspace-types'
+import { ReplacePreviewDialog } from './ReplacePreviewDialog'
+import './search.css'
+
+interface SearchSidebarProps {
+  onFileOpen: (filePath: string, reveal?: EditorRange) => void
+}
+
+// Characters of context kept before a match in the result list
+const SNIPPET_CONTEXT = 30
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * Split a match line into before/match/after for highlighting
+ */
+function getSnippet(match: WorkspaceSearchMatch): { before: string; text: string; after: string } {
+  const line = match.lineText
+  const start = match.column - 1
+  const end = match.endLineNumber === match.lineNumber ? match.endColumn - 1 : line.length
+  let before = line.slice(0, start).trimStart()
+  if (before.length > SNIPPET_CONTEXT) {
+    before = '…' + before.slice(before.length - SNIPPET_CONTEXT)
+  }
+  return { before, text: line.slice(start, end), after: line.slice(end) }
+}
+
+/**
+ * Workspace-wide search and replace. Results stream in from the main
+ * process grouped by file; clicking a hit opens the file and selects it.
+ */
+export function SearchSidebar({ onFileOpen }: SearchSidebarProps) {
+  const dispatch = useDispatch()
+  const workspaces = useSelector(selectAllWorkspaces)
+  const activeWorkspaceId = useSelector(selectActiveWorkspaceId)
+  const tabs = useSelector((state: RootState) => state.tabs.tabs)
+
+  // Search the expanded workspace's folder, falling back to the active workspace
+  const workspace =
+    workspaces.find((w) => w.isExpanded && w.rootPath) ??
+    workspaces.find((w) => w.id === activeWorkspaceId && w.rootPath)
+  const rootPath = workspace?.rootPath ?? null
+  const showHidden = workspace?.showHiddenFiles ?? false
+
+  const [pattern, setPattern] = useState('')
+  const [replacement, setReplacement] = useState('')
+  const [isRegex, setIsRegex] = useState(false)
+  const [matchCase, setMatchCase] = useState(false)
+  const [wholeWord, setWholeWord] = useState(false)
+  const [include, setInclude] = useState('')
+  const [exclude, setExclude] = useState('')
+  const [showReplace, setShowReplace] = useState(false)
+  const [showFilters, setShowFilters] = useState(false)
+
+  const [results, setResults] = useState<WorkspaceSearchFileResult[]>([])
+  const [summary, setSummary] = useState<WorkspaceSearchSummary | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [refreshKey, setRefreshKey] = useState(0)
+
+  const [previews, setPreviews] = useState<WorkspaceReplacePreview[] | null>(null)
+  const [replaceMessage, setReplaceMessage] = useState<string | null>(null)
+
+  const searchIdRef = useRef(0)
+
+  const query: WorkspaceSearchQuery = useMemo(
+    () => ({ pattern, isRegex, matchCase, wholeWord, include, exclude, showHidden }),
+    [pattern, isRegex, matchCase, wholeWord, include, exclude, showHidden]
+  )
+
+  // Collect streamed results for the current search only
+  useEffect(() => {
+    const unsubscribe = window.electron.workspace.onSearchResult((searchId, result) => {
+      if (searchId === searchIdRef.current) {
+        setResults((prev) => [...prev, result])
+      }
+    })
+    return unsubscribe
+  }, [])
+
+  // Run the search (debounced) whenever the query changes
+  useEffect(() => {
+    const previousId = searchIdRef.current
+    const searchId = previousId + 1
+    searchIdRef.current = searchId
+    window.electron.workspace.cancelSearch(previousId)
+
+    setResults([])
+    setSummary(null)
+    setCollapsed(new Set())
+
+    if (!rootPath || !query.pattern) {
+      setSearching(false)
+      return
+    }
+
+    setSearching(true)
+    const timer = setTimeout(async () => {
+      const result = await window.electron.workspace.search(rootPath, query, searchId)
+      if (searchId === searchIdRef.current) {
+        setSummary(result)
+        setSearching(false)
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [rootPath, query, refreshKey])
+
+  // Cancel any running search when the sidebar closes
+  useEffect(() => {
+    return () => {
+      window.electron.workspace.cancelSearch(searchIdRef.current)
+    }
+  }, [])
+
+  const handleMatchClick = useCallback(
+    (filePath: string, match: WorkspaceSearchMatch) => {
+      onFileOpen(filePath, {
+        startLineNumber: match.lineNumber,
+        startColumn: match.column,
+        endLineNumber: match.endLineNumber,
+        endColumn: match.endColumn
+      })
+    },
+    [onFileOpen]
+  )
+
+  const toggleCollapsed = (filePath: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) {
+        next.delete(filePath)
+      } else {
+        next.add(filePath)
+      }
+      return next
+    })
+  }
+
+  const handleReplaceAll = async () => {
+    if (results.length === 0) return
+    setReplaceMessage(null)
+    const computed = await window.electron.workspace.previewReplace(
+      query,
+      replacement,
+      results.map((r) => r.path)
+    )
+    setPreviews(computed)
+  }
+
+  const handleApplyReplace = async (selected: WorkspaceReplacePreview[]) => {
+    setPreviews(null)
+    if (selected.length === 0) return
+
+    const result = await window.electron.workspace.applyReplace(
+      selected.map((p) => ({ path: p.path, hash: p.hash, content: p.replaced }))
+    )
+    setReplaceMessage(
+      result.skipped.length > 0
+        ? `Replaced in ${result.written.length} file(s). Skipped ${result.skipped.length} file(s) that changed on disk.`
+        : `Replaced in ${result.written.length} file(s).`
+    )
+    setRefreshKey((key) => key + 1)
+  }
+
+  // Files with unsaved edits in a tab are left out of replace-all
+  const dirtyPaths = useMemo(
+    () => new Set(tabs.filter((t) => t.isDirty && t.path).map((t) => t.path as string)),
+    [tabs]
+  )
+
+  const getRelativeDir = (filePath: string): string => {
+    if (!rootPath) return ''
+    const relativePath = filePath.startsWith(rootPath) ? filePath.slice(rootPath.length + 1) : filePath
+    const lastSlash = Math.max(relativePath.lastIndexOf('/'), relativePath.lastIndexOf('\\'))
+    return lastSlash === -1 ? '' : relativePath.slice(0, lastSlash)
+  }
+
+  let status: string | null = null
+  if (summary?.error) {
+    status = summary.error
+  } else if (searching) {
+    status = 'Searching...'
+  } else if (summary) {
+    status =
+      summary.matchCount === 0
+        ? 'No results found'
+        : `${summary.matchCount} result${summary.matchCount === 1 ? '' : 's'} in ${summary.fileCount} file${summary.fileCount === 1 ? '' : 's'}` +
+          (summary.limitHit ? ' (limit reached)' : '')
+  }
+
+  return (
+    <div className="search-sidebar">
+      <div className="search-header">
+        <span className="search-title">Search</span>
+        <button
+          className="search-close"
+          onClick={() => dispatch(setSearchSidebar(false))}
+          title="Close search"
+        >
+          <svg viewBox="0 0 10 10" width="10" height="10">
+            <path d="M1 0L0 1l4 4-4 4 1 1 4-4 4 4 1-1-4-4 4-4-1-1-4 4-4-4z" fill="currentColor" />
+          </svg>
+        </button>
+      </div>
+
+      {!rootPath ? (
+        <div className="search-empty">Open a folder as a workspace to search its files.</div>
+      ) : (
+        <>
+          <div className="search-form">
+            <div className="search-row">
+              <button
+                className={`search-toggle-replace ${showReplace ? 'expanded' : ''}`}
+                onClick={() => setShowReplace(!showReplace)}
+                title="Toggle replace"
+                aria-label="Toggle replace"
+              >
+                <svg viewBox="0 0 16 16" width="12" height="12">
+                  <path d="M6 4l4 4-4 4" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                </svg>
+              </button>
+              <div className="search-input-wrapper">
+                <input
+                  className="search-input"
+                  type="text"
+                  placeholder="Search"
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                  autoFocus
+                  spellCheck={false}
+                />
+                <button
+                  className={`search-option ${matchCase ? 'active' : ''}`}
+                  onClick={() => setMatchCase(!matchCase)}
+                  title="Match case"
+                  aria-pressed={matchCase}
+                >
+                  Aa
+                </button>
+                <button
+                  className={`search-option whole-word ${wholeWord ? 'active' : ''}`}
+                  onClick={() => setWholeWord(!wholeWord)}
+                  title="Match whole word"
+                  aria-pressed={wholeWord}
+                >
+                  ab
+                </button>
+                <button
+                  className={`search-option ${isRegex ? 'active' : ''}`}
+                  onClick={() => setIsRegex(!isRegex)}
+                  title="Use regular expression"
+                  aria-pressed={isRegex}
+                >
+                  .*
+                </button>
+              </div>
+            </div>
+
+            {showReplace && (
+              <div className="search-row search-replace-row">
+                <div className="search-input-wrapper">
+                  <input
+                    className="search-input"
+                    type="text"
+                    placeholder="Replace"
+                    value={replacement}
+                    onChange={(e) => setReplacement(e.target.value)}
+                    spellCheck={false}
+                  />
+                </div>
+                <button
+                  className="search-replace-all"
+                  onClick={handleReplaceAll}
+                  disabled={results.length === 0 || searching}
+                  title="Replace all (preview changes first)"
+                >
+                  Replace All...
+                </button>
+              </div>
+            )}
+
+            <button className="search-filters-toggle" onClick={() => setShowFilters(!showFilters)}>
+              {showFilters ? 'Hide file filters' : 'Show file filters'}
+            </button>
+            {showFilters && (
+              <div className="search-filters">
+                <label>
+                  files to include
+                  <input
+                    className="search-input"
+                    type="text"
+                    placeholder="e.g. *.md, docs/"
+                    value={include}
+                    onChange={(e) => setInclude(e.target.value)}
+                    spellCheck={false}
+                  />
+                </label>
+                <label>
+                  files to exclude
+                  <input
+                    className="search-input"
+                    type="text"
+                    placeholder="e.g. drafts/, *.txt"
+                    value={exclude}
+                    onChange={(e) => setExclude(e.target.value)}
+                    spellCheck={false}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          {status && (
+            <div className={`search-status ${summary?.error ? 'error' : ''}`}>{status}</div>
+          )}
+          {replaceMessage && <div className="search-status">{replaceMessage}</div>}
+
+          <div className="search-results">
+            {results.map((file) => {
+              const isCollapsed = collapsed.has(file.path)
+              return (
+                <div key={file.path} className="search-file">
+                  <div
+                    className="search-file-header"
+                    onClick={() => toggleCollapsed(file.path)}
+                    title={file.path}
+                  >
+                    <span className={`search-file-chevron ${isCollapsed ? '' : 'expanded'}`}>
+                      <svg viewBox="0 0 16 16" width="10" height="10">
+                        <path d="M6 4l4 4-4 4" fill="none" stroke="currentColor" strokeWidth="1.5" />
+                      </svg>
+                    </span>
+                    <span className="search-file-name">{getBaseName(file.path)}</span>
+                    <span className="search-file-dir">{getRelativeDir(file.path)}</span>
+                    <span className="search-file-count">{file.matches.length}</span>
+                  </div>
+                  {!isCollapsed &&
+                    file.matches.map((match, index) => {
+                      const snippet = getSnippet(match)
+                      return (
+                        <div
+                          key={index}
+                          className="search-match"
+                          onClick={() => handleMatchClick(file.path, match)}
+                          title={`Line ${match.lineNumber}`}
+                        >
+                          {snippet.before}
+                          <mark className="search-match-text">{snippet.text}</mark>
+                          {snippet.after}
+                        </div>
+                      )
+                    })}
+                </div>
+              )
+            })}
+          </div>
+        </>
+      )}
+
+      {previews && (
+        <ReplacePreviewDialog
+          previews={previews}
+          dirtyPaths={dirtyPaths}
+          onApply={handleApplyReplace}
+          onClose={() => setPreviews(null)}
+        />
+      )}
+    </div>
+  )
+}
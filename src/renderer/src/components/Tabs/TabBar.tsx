@@ -2,7 +2,6 @@ import { useMemo } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
 import {
   setActiveTab,
-  closeTab,
   selectAllTabs,
   selectActiveTabIdByWorkspace
 } from '../../store/tabsSlice'
@@ -11,17 +10,14 @@ import {
   selectActiveWorkspaceId,
   setActiveWorkspace
 } from '../../store/workspacesSlice'
+import { requestClose } from '../../store/closeGuardSlice'
 import { TabGroup } from './TabGroup'
-import type { RootState } from '../../store/store'
+import type { RootState, AppDispatch } from '../../store/store'
 import type { WorkspaceId } from '../../../shared/workspace-types'
 import './tabs.css'
 
-interface TabBarProps {
-  onCloseTab?: (tabId: string) => void
-}
-
-export function TabBar({ onCloseTab }: TabBarProps) {
-  const dispatch = useDispatch()
+export function TabBar() {
+  const dispatch = useDispatch<AppDispatch>()
   const tabs = useSelector(selectAllTabs)
   const workspaces = useSelector(selectAllWorkspaces)
 
@@ -59,22 +55,7 @@ export function TabBar({ onCloseTab }: TabBarProps) {
 
   const handleTabClose = (e: React.MouseEvent, tabId: string) => {
     e.stopPropagation()
-
-    // Check if tab has unsaved changes
-    const tab = tabs.find((t) => t.id === tabId)
-    if (tab?.isDirty) {
-      const shouldClose = window.confirm(
-        `"${tab.filename}" has unsaved changes. Close anyway?`
-      )
-      if (!shouldClose) return
-    }
-
-    // Notify parent if callback provided
-    if (onCloseTab) {
-      onCloseTab(tabId)
-    }
-
-    dispatch(closeTab(tabId))
+    dispatch(requestClose({ kind: 'tab', tabId }))
   }
 
   if (tabs.length === 0) {
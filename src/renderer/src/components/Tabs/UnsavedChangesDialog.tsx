@@ -0,0 +1,92 @@
+import { useEffect, useCallback } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState, AppDispatch } from '../../store/store'
+import { dismissCloseGuard, finishClose, saveAllAndClose, CloseRequest } from '../../store/closeGuardSlice'
+import '../UI/dialog.css'
+import './tabs.css'
+
+function getQuestion(request: CloseRequest, workspaceName: string | undefined): string {
+  switch (request.kind) {
+    case 'window':
+      return 'Save changes before quitting?'
+    case 'workspace':
+      return `Save changes before closing ${workspaceName ?? 'the workspace'}?`
+    case 'tab':
+      return 'Save changes before closing the tab?'
+  }
+}
+
+/**
+ * Lists the documents with unsaved changes when a window, workspace or tab
+ * is closed, and saves or discards them all before closing
+ */
+export function UnsavedChangesDialog() {
+  const dispatch = useDispatch<AppDispatch>()
+  const { request, tabIds, isSaving } = useSelector((state: RootState) => state.closeGuard)
+  const tabs = useSelector((state: RootState) => state.tabs.tabs)
+  const workspaces = useSelector((state: RootState) => state.workspaces.workspaces)
+
+  const handleCancel = useCallback(() => dispatch(dismissCloseGuard()), [dispatch])
+
+  // Escape cancels the close
+  useEffect(() => {
+    if (!request) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        handleCancel()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [request, handleCancel])
+
+  if (!request) return null
+
+  // Tabs saved since the dialog opened drop off the list
+  const dirtyTabs = tabs.filter((tab) => tabIds.includes(tab.id) && tab.isDirty)
+  const workspaceName =
+    request.kind === 'workspace' ? workspaces.find((w) => w.id === request.workspaceId)?.name : undefined
+
+  const handleDiscard = () => {
+    dispatch(dismissCloseGuard())
+    dispatch(finishClose(request))
+  }
+
+  return (
+    <div className="dialog-overlay" onMouseDown={handleCancel}>
+      <div className="dialog unsaved-changes-dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">{getQuestion(request, workspaceName)}</span>
+          <span className="dialog-status">
+            {dirtyTabs.length} document{dirtyTabs.length === 1 ? ' has' : 's have'} unsaved changes
+          </span>
+        </div>
+        <div className="unsaved-changes-list">
+          {dirtyTabs.map((tab) => (
+            <div key={tab.id} className="unsaved-changes-item" title={tab.path}>
+              <span className="unsaved-changes-name">{tab.displayTitle || tab.filename}</span>
+              <span className="unsaved-changes-path">{tab.path ?? 'Never saved'}</span>
+            </div>
+          ))}
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={handleCancel}>
+            Cancel
+          </button>
+          <button className="dialog-btn" onClick={handleDiscard} disabled={isSaving}>
+            Discard
+          </button>
+          <button
+            className="dialog-btn primary"
+            onClick={() => dispatch(saveAllAndClose())}
+            disabled={isSaving}
+            autoFocus
+          >
+            Save All
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
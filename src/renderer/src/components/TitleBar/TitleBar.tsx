@@ -3,6 +3,8 @@ import { useDispatch, useSelector } from 'react-redux'
 import { RootState, AppDispatch } from '../../store/store'
 import { setViewMode } from '../../store/layoutSlice'
 import { setCurrentTheme, saveThemeSettings } from '../../store/settingsSlice'
+import { requestClose } from '../../store/closeGuardSlice'
+import type { DocumentExportFormat } from '../../../../shared/types'
 import wrangleIcon from '../../../../assets/wrangle.png'
 import './TitleBar.css'
 
@@ -25,11 +27,12 @@ interface TitleBarProps {
   onCopyRichText?: () => void
   onExportHtml?: () => void
   onExportPdf?: () => void
+  onExportDocument?: (format: DocumentExportFormat) => void
   onOpenPreferences?: () => void
   children?: React.ReactNode
 }
 
-export function TitleBar({ onFileNew, onFileOpen, onFileSave, onFileSaveAs, onCloseTab, onEditUndo, onEditRedo, onCopyRichText, onExportHtml, onExportPdf, onOpenPreferences, children }: TitleBarProps) {
+export function TitleBar({ onFileNew, onFileOpen, onFileSave, onFileSaveAs, onCloseTab, onEditUndo, onEditRedo, onCopyRichText, onExportHtml, onExportPdf, onExportDocument, onOpenPreferences, children }: TitleBarProps) {
   const dispatch = useDispatch<AppDispatch>()
 
   const [isMaximized, setIsMaximized] = useState(false)
@@ -85,12 +88,15 @@ export function TitleBar({ onFileNew, onFileOpen, onFileSave, onFileSaveAs, onCl
       { separator: true, label: '' },
       { label: 'Export as HTML', action: onExportHtml },
       { label: 'Export as PDF', action: onExportPdf },
+      { label: 'Export as Word Document', action: () => onExportDocument?.('docx') },
+      { label: 'Export as EPUB', action: () => onExportDocument?.('epub') },
+      { label: 'Export as LaTeX', action: () => onExportDocument?.('latex') },
       { separator: true, label: '' },
       { label: 'Print', shortcut: 'Ctrl+P', action: () => window.electron.window.print() },
       { separator: true, label: '' },
       { label: 'Preferences', shortcut: 'Ctrl+,', action: onOpenPreferences },
       { separator: true, label: '' },
-      { label: 'Exit', shortcut: 'Ctrl+Q', action: () => window.electron.window.close() }
+      { label: 'Exit', shortcut: 'Ctrl+Q', action: () => dispatch(requestClose({ kind: 'window' })) }
     ],
     Edit: [
       { label: 'Undo', shortcut: 'Ctrl+Z', action: onEditUndo },
@@ -141,7 +147,7 @@ export function TitleBar({ onFileNew, onFileOpen, onFileSave, onFileSaveAs, onCl
       setIsMaximized(maximized)
     }, 100)
   }
-  const handleClose = () => window.electron.window.close()
+  const handleClose = () => dispatch(requestClose({ kind: 'window' }))
 
   return (
     <div className="title-bar">
@@ -1,10 +1,47 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { FileTreeNode } from '../../../../shared/workspace-types'
-import { FileTreeItem } from './FileTreeItem'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import { useSelector } from 'react-redux'
+import { RootState } from '../../store/store'
+import { FileTreeNode, FolderChange, GitStatus } from '../../../../shared/workspace-types'
+import { applyFolderChanges } from '../../utils/file-tree'
+import { buildGitDecorations, getGitState } from '../../utils/git-status'
+import { useFileOperations } from '../../hooks/useFileOperations'
+import { FileTreeItem, FILE_TREE_DRAG_TYPE } from './FileTreeItem'
+import { FileTreeContextMenu, ContextMenuItem } from './FileTreeContextMenu'
+import { LinkUpdateDialog } from './LinkUpdateDialog'
 import './workspace.css'
 
 const MARKDOWN_EXTENSIONS = /\.(md|markdown|mdown|mkd|mdwn)$/i
 
+interface ContextMenuState {
+  x: number
+  y: number
+  node: FileTreeNode | null // null when opened on empty space
+}
+
+interface PendingCreate {
+  parentPath: string
+  isDirectory: boolean
+}
+
+function getParentDir(filePath: string): string {
+  return filePath.replace(/[\\/][^\\/]*$/, '')
+}
+
+// Re-root expanded folder paths after a folder is renamed or moved
+function moveExpandedPaths(paths: Set<string>, from: string, to: string): Set<string> {
+  const next = new Set<string>()
+  for (const p of paths) {
+    if (p === from) {
+      next.add(to)
+    } else if (p.startsWith(from + '/') || p.startsWith(from + '\\')) {
+      next.add(to + p.slice(from.length))
+    } else {
+      next.add(p)
+    }
+  }
+  return next
+}
+
 interface FileTreeProps {
   rootPath: string
   workspaceId: string
@@ -12,9 +49,10 @@ interface FileTreeProps {
   selectedPath?: string
   showHiddenFiles?: boolean
   onFilesAdded?: () => void
+  gitStatus?: GitStatus | null
 }
 
-export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, showHiddenFiles, onFilesAdded }: FileTreeProps) {
+export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, showHiddenFiles, onFilesAdded, gitStatus }: FileTreeProps) {
   const [fileTree, setFileTree] = useState<FileTreeNode[]>([])
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set([rootPath]))
   const [isLoading, setIsLoading] = useState(true)
@@ -24,6 +62,21 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
   const [isDraggingOver, setIsDraggingOver] = useState(false)
   const dragCounterRef = useRef(0)
 
+  // File operation state
+  const fileOps = useFileOperations(rootPath)
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null)
+  const [renamingPath, setRenamingPath] = useState<string | null>(null)
+  const [pendingCreate, setPendingCreate] = useState<PendingCreate | null>(null)
+  const [focusedNode, setFocusedNode] = useState<FileTreeNode | null>(null)
+  const gitDecorations = useMemo(() => buildGitDecorations(gitStatus), [gitStatus])
+
+  // Files with unsaved edits in a tab start unchecked in the link update dialog
+  const tabs = useSelector((state: RootState) => state.tabs.tabs)
+  const dirtyPaths = useMemo(
+    () => new Set(tabs.filter((t) => t.isDirty && t.path).map((t) => t.path as string)),
+    [tabs]
+  )
+
   // Load initial file tree
   useEffect(() => {
     let cancelled = false
@@ -55,13 +108,41 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
     }
   }, [rootPath, workspaceId, showHiddenFiles])
 
-  // Refresh file tree function
-  const refreshTree = useCallback(async () => {
-    try {
-      const tree = await window.electron.workspace.listFilesRecursive(rootPath, 3, showHiddenFiles)
-      setFileTree(tree)
-    } catch (err) {
-      console.error('FileTree refresh error:', err)
+  // Watch the folder and patch only the nodes affected by each batch of changes
+  useEffect(() => {
+    let cancelled = false
+
+    const handleChanges = async (changes: FolderChange[]) => {
+      // List new directories up front so the tree can be patched in one update
+      const dirChildren = new Map<string, FileTreeNode[]>()
+      for (const change of changes) {
+        if (change.type !== 'addDir') continue
+        try {
+          dirChildren.set(
+            change.path,
+            await window.electron.workspace.listFiles(change.path, showHiddenFiles)
+          )
+        } catch (err) {
+          console.error('FileTree list error:', err)
+        }
+      }
+
+      if (!cancelled) {
+        setFileTree((prev) => applyFolderChanges(prev, rootPath, changes, dirChildren))
+      }
+    }
+
+    const unsubscribe = window.electron.workspace.onFolderChanged((folderPath, changes) => {
+      if (folderPath === rootPath) {
+        handleChanges(changes)
+      }
+    })
+    window.electron.workspace.watchFolder(rootPath, showHiddenFiles)
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      window.electron.workspace.unwatchFolder(rootPath)
     }
   }, [rootPath, showHiddenFiles])
 
@@ -86,6 +167,102 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
     [onFileOpen]
   )
 
+  const closeContextMenu = useCallback(() => setContextMenu(null), [])
+
+  const handleItemContextMenu = useCallback((e: React.MouseEvent, node: FileTreeNode | null) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setFocusedNode(node)
+    setContextMenu({ x: e.clientX, y: e.clientY, node })
+    fileOps.refreshUndoLabel()
+  }, [fileOps])
+
+  const startCreate = useCallback((parentPath: string, isDirectory: boolean) => {
+    setRenamingPath(null)
+    setPendingCreate({ parentPath, isDirectory })
+    if (parentPath !== rootPath) {
+      setExpandedPaths((prev) => new Set(prev).add(parentPath))
+    }
+  }, [rootPath])
+
+  const handleCreate = useCallback(async (name: string) => {
+    if (!pendingCreate) return
+    setPendingCreate(null)
+    const result = await fileOps.createEntry(pendingCreate.parentPath, name, pendingCreate.isDirectory)
+    if (result.success && result.path && !pendingCreate.isDirectory && MARKDOWN_EXTENSIONS.test(name)) {
+      onFileOpen(result.path)
+    }
+  }, [pendingCreate, fileOps, onFileOpen])
+
+  const handleRename = useCallback(async (node: FileTreeNode, newName: string) => {
+    setRenamingPath(null)
+    const result = await fileOps.renameEntry(node.path, newName)
+    if (result.moved && node.isDirectory) {
+      const { from, to } = result.moved
+      setExpandedPaths((prev) => moveExpandedPaths(prev, from, to))
+    }
+  }, [fileOps])
+
+  const handleMoveInto = useCallback(async (sourcePath: string, targetDir: string) => {
+    if (getParentDir(sourcePath) === targetDir) return
+    const result = await fileOps.moveEntry(sourcePath, targetDir)
+    if (result.moved) {
+      const { from, to } = result.moved
+      setExpandedPaths((prev) => moveExpandedPaths(prev, from, to).add(targetDir))
+    }
+  }, [fileOps])
+
+  const handleUndo = useCallback(async () => {
+    const result = await fileOps.undo()
+    if (result.moved) {
+      const { from, to } = result.moved
+      setExpandedPaths((prev) => moveExpandedPaths(prev, from, to))
+    }
+  }, [fileOps])
+
+  const getContextMenuItems = (node: FileTreeNode | null): ContextMenuItem[] => {
+    const parentPath = node ? (node.isDirectory ? node.path : getParentDir(node.path)) : rootPath
+    const items: ContextMenuItem[] = [
+      { label: 'New File...', onClick: () => startCreate(parentPath, false) },
+      { label: 'New Folder...', onClick: () => startCreate(parentPath, true) }
+    ]
+
+    if (node) {
+      items.push(
+        { label: 'Rename', onClick: () => setRenamingPath(node.path), separatorBefore: true },
+        { label: 'Duplicate', onClick: () => fileOps.duplicateEntry(node.path) },
+        { label: 'Delete', onClick: () => fileOps.trashEntry(node.path) },
+        { label: 'Reveal in File Manager', onClick: () => fileOps.revealInFolder(node.path), separatorBefore: true }
+      )
+    }
+
+    items.push({
+      label: fileOps.undoLabel ?? 'Undo',
+      onClick: handleUndo,
+      disabled: !fileOps.undoLabel,
+      separatorBefore: true
+    })
+    return items
+  }
+
+  // Keyboard shortcuts for the last clicked item
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (renamingPath || pendingCreate) return
+
+    if (e.key === 'F2' && focusedNode) {
+      e.preventDefault()
+      setRenamingPath(focusedNode.path)
+    } else if (e.key === 'Delete' && focusedNode) {
+      e.preventDefault()
+      fileOps.trashEntry(focusedNode.path)
+      setFocusedNode(null)
+    } else if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === 'z') {
+      e.preventDefault()
+      e.stopPropagation()
+      handleUndo()
+    }
+  }, [renamingPath, pendingCreate, focusedNode, fileOps, handleUndo])
+
   // Drop handlers
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -111,7 +288,7 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
     e.preventDefault()
     e.stopPropagation()
     if (e.dataTransfer) {
-      e.dataTransfer.dropEffect = 'copy'
+      e.dataTransfer.dropEffect = e.dataTransfer.types.includes(FILE_TREE_DRAG_TYPE) ? 'move' : 'copy'
     }
   }, [])
 
@@ -121,6 +298,13 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
     setIsDraggingOver(false)
     dragCounterRef.current = 0
 
+    // An item dragged out of a folder onto empty space moves to the root
+    const treePath = e.dataTransfer?.getData(FILE_TREE_DRAG_TYPE)
+    if (treePath) {
+      handleMoveInto(treePath, rootPath)
+      return
+    }
+
     const files = e.dataTransfer?.files
     if (!files || files.length === 0) return
 
@@ -163,9 +347,8 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
       }
     }
 
-    // Refresh file tree if files were copied
+    // The folder watcher picks up the copied files
     if (copiedPaths.length > 0) {
-      await refreshTree()
       onFilesAdded?.()
     }
 
@@ -173,12 +356,37 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
     for (const path of markdownPaths) {
       onFileOpen(path)
     }
-  }, [rootPath, refreshTree, onFilesAdded, onFileOpen])
+  }, [rootPath, onFilesAdded, onFileOpen, handleMoveInto])
+
+  // Inline name input for a file or folder that is about to be created
+  const renderPendingCreate = (parentPath: string, depth: number) => {
+    if (pendingCreate?.parentPath !== parentPath) return null
+    const placeholder: FileTreeNode = {
+      name: pendingCreate.isDirectory ? 'New Folder' : 'Untitled.md',
+      path: '',
+      isDirectory: pendingCreate.isDirectory
+    }
+
+    return (
+      <FileTreeItem
+        node={placeholder}
+        depth={depth}
+        isExpanded={false}
+        isSelected={false}
+        onToggle={() => {}}
+        onSelect={() => {}}
+        isRenaming
+        onRename={handleCreate}
+        onRenameCancel={() => setPendingCreate(null)}
+      />
+    )
+  }
 
   // Recursive render function
   const renderNode = (node: FileTreeNode, depth: number) => {
     const isExpanded = expandedPaths.has(node.path)
     const isSelected = selectedPath === node.path
+    const dropTarget = node.isDirectory ? node.path : getParentDir(node.path)
 
     return (
       <div key={node.path}>
@@ -187,18 +395,50 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
           depth={depth}
           isExpanded={isExpanded}
           isSelected={isSelected}
-          onToggle={() => handleToggle(node.path)}
-          onSelect={() => handleSelect(node.path)}
+          onToggle={() => {
+            setFocusedNode(node)
+            handleToggle(node.path)
+          }}
+          onSelect={() => {
+            setFocusedNode(node)
+            handleSelect(node.path)
+          }}
+          isRenaming={renamingPath === node.path}
+          onRename={(newName) => handleRename(node, newName)}
+          onRenameCancel={() => setRenamingPath(null)}
+          onContextMenu={(e) => handleItemContextMenu(e, node)}
+          onMoveInto={(sourcePath) => handleMoveInto(sourcePath, dropTarget)}
+          gitState={getGitState(gitDecorations, node.path)}
+          hasGitChanges={node.isDirectory && gitDecorations.changedFolders.has(node.path)}
         />
-        {node.isDirectory && isExpanded && node.children && (
+        {node.isDirectory && isExpanded && (
           <div role="group">
-            {node.children.map((child) => renderNode(child, depth + 1))}
+            {renderPendingCreate(node.path, depth + 1)}
+            {node.children?.map((child) => renderNode(child, depth + 1))}
           </div>
         )}
       </div>
     )
   }
 
+  const contextMenuElement = contextMenu && (
+    <FileTreeContextMenu
+      x={contextMenu.x}
+      y={contextMenu.y}
+      items={getContextMenuItems(contextMenu.node)}
+      onClose={closeContextMenu}
+    />
+  )
+
+  const linkUpdateElement = fileOps.linkUpdates && (
+    <LinkUpdateDialog
+      previews={fileOps.linkUpdates}
+      dirtyPaths={dirtyPaths}
+      onApply={fileOps.applyLinkUpdates}
+      onClose={fileOps.dismissLinkUpdates}
+    />
+  )
+
   if (isLoading) {
     return <div className="file-tree-loading">Loading files...</div>
   }
@@ -207,36 +447,49 @@ export function FileTree({ rootPath, workspaceId, onFileOpen, selectedPath, show
     return <div className="file-tree-error">{error}</div>
   }
 
-  if (fileTree.length === 0) {
+  if (fileTree.length === 0 && !pendingCreate) {
     return (
+      <>
+        <div
+          className={`file-tree file-tree-empty ${isDraggingOver ? 'drop-target' : ''}`}
+          onDragEnter={handleDragEnter}
+          onDragLeave={handleDragLeave}
+          onDragOver={handleDragOver}
+          onDrop={handleDrop}
+          onContextMenu={(e) => handleItemContextMenu(e, null)}
+        >
+          {isDraggingOver ? 'Drop files here' : 'No files in workspace'}
+          {contextMenuElement}
+        </div>
+        {linkUpdateElement}
+      </>
+    )
+  }
+
+  return (
+    <>
       <div
-        className={`file-tree file-tree-empty ${isDraggingOver ? 'drop-target' : ''}`}
+        className={`file-tree ${isDraggingOver ? 'drop-target' : ''}`}
+        role="tree"
+        aria-label="File explorer"
         onDragEnter={handleDragEnter}
         onDragLeave={handleDragLeave}
         onDragOver={handleDragOver}
         onDrop={handleDrop}
+        onContextMenu={(e) => handleItemContextMenu(e, null)}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
       >
-        {isDraggingOver ? 'Drop files here' : 'No files in workspace'}
+        {isDraggingOver && (
+          <div className="file-tree-drop-indicator">
+            Drop files to copy to workspace
+          </div>
+        )}
+        {renderPendingCreate(rootPath, 0)}
+        {fileTree.map((node) => renderNode(node, 0))}
+        {contextMenuElement}
       </div>
-    )
-  }
-
-  return (
-    <div
-      className={`file-tree ${isDraggingOver ? 'drop-target' : ''}`}
-      role="tree"
-      aria-label="File explorer"
-      onDragEnter={handleDragEnter}
-      onDragLeave={handleDragLeave}
-      onDragOver={handleDragOver}
-      onDrop={handleDrop}
-    >
-      {isDraggingOver && (
-        <div className="file-tree-drop-indicator">
-          Drop files to copy to workspace
-        </div>
-      )}
-      {fileTree.map((node) => renderNode(node, 0))}
-    </div>
+      {linkUpdateElement}
+    </>
   )
 }
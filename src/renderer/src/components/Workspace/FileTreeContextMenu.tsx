@@ -0,0 +1,86 @@
+import { useEffect, useRef, useLayoutEffect, useState } from 'react'
+import './workspace.css'
+
+export interface ContextMenuItem {
+  label: string
+  onClick: () => void
+  disabled?: boolean
+  separatorBefore?: boolean
+}
+
+interface FileTreeContextMenuProps {
+  x: number
+  y: number
+  items: ContextMenuItem[]
+  onClose: () => void
+}
+
+/**
+ * Right-click menu for the file tree, kept inside the window
+ */
+export function FileTreeContextMenu({ x, y, items, onClose }: FileTreeContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [position, setPosition] = useState({ left: x, top: y })
+
+  // Flip the menu back into view if it would overflow the window
+  useLayoutEffect(() => {
+    const menu = menuRef.current
+    if (!menu) return
+    const rect = menu.getBoundingClientRect()
+    setPosition({
+      left: Math.max(0, Math.min(x, window.innerWidth - rect.width - 4)),
+      top: Math.max(0, Math.min(y, window.innerHeight - rect.height - 4))
+    })
+  }, [x, y])
+
+  // Close on outside click, Escape, or when the window loses focus
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+
+    document.addEventListener('mousedown', handleMouseDown)
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('blur', onClose)
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown)
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('blur', onClose)
+    }
+  }, [onClose])
+
+  return (
+    <div
+      ref={menuRef}
+      className="file-tree-context-menu"
+      style={{ left: position.left, top: position.top }}
+      role="menu"
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map((item) => (
+        <div key={item.label}>
+          {item.separatorBefore && <div className="file-tree-context-separator" />}
+          <button
+            className="file-tree-context-item"
+            role="menuitem"
+            disabled={item.disabled}
+            onClick={() => {
+              onClose()
+              item.onClick()
+            }}
+          >
+            {item.label}
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
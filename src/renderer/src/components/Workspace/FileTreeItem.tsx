@@ -1,5 +1,11 @@
-import { FileTreeNode } from '../../../../shared/workspace-types'
+import { useState, useEffect, useRef } from 'react'
+import { FileTreeNode, GitFileState } from '../../../../shared/workspace-types'
+import { GIT_STATE_LETTERS } from '../../utils/git-status'
 import './workspace.css'
+import '../Git/git.css'
+
+// Drag data type for moving entries within the tree (OS file drops use 'Files')
+export const FILE_TREE_DRAG_TYPE = 'application/x-wrangle-tree-path'
 
 interface FileTreeItemProps {
   node: FileTreeNode
@@ -8,6 +14,13 @@ interface FileTreeItemProps {
   isSelected: boolean
   onToggle: () => void
   onSelect: () => void
+  isRenaming?: boolean
+  onRename?: (newName: string) => void
+  onRenameCancel?: () => void
+  onContextMenu?: (e: React.MouseEvent) => void
+  onMoveInto?: (sourcePath: string) => void // Drop target; files pass their parent folder
+  gitState?: GitFileState | null
+  hasGitChanges?: boolean // Folder contains changed or untracked files
 }
 
 // Chevron icon for expand/collapse
@@ -99,9 +112,77 @@ export function FileTreeItem({
   isExpanded,
   isSelected,
   onToggle,
-  onSelect
+  onSelect,
+  isRenaming = false,
+  onRename,
+  onRenameCancel,
+  onContextMenu,
+  onMoveInto,
+  gitState = null,
+  hasGitChanges = false
 }: FileTreeItemProps) {
   const indentWidth = 16 * depth + 8 // 16px per level + 8px base padding
+  const [editedName, setEditedName] = useState(node.name)
+  const [isDropTarget, setIsDropTarget] = useState(false)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const submittedRef = useRef(false)
+
+  // Focus the name and select it up to the extension when editing starts
+  useEffect(() => {
+    if (!isRenaming || !inputRef.current) return
+    submittedRef.current = false
+    setEditedName(node.name)
+    inputRef.current.focus()
+    const dot = node.isDirectory ? -1 : node.name.lastIndexOf('.')
+    inputRef.current.setSelectionRange(0, dot > 0 ? dot : node.name.length)
+  }, [isRenaming, node.name, node.isDirectory])
+
+  const submitRename = () => {
+    // Enter followed by the blur it causes must only submit once
+    if (submittedRef.current) return
+    submittedRef.current = true
+    const trimmed = editedName.trim()
+    // A placeholder for a new entry has no path yet and accepts its default name
+    if (trimmed && (trimmed !== node.name || !node.path)) {
+      onRename?.(trimmed)
+    } else {
+      onRenameCancel?.()
+    }
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation()
+    if (e.key === 'Enter') {
+      submitRename()
+    } else if (e.key === 'Escape') {
+      submittedRef.current = true
+      onRenameCancel?.()
+    }
+  }
+
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(FILE_TREE_DRAG_TYPE, node.path)
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onMoveInto || !e.dataTransfer.types.includes(FILE_TREE_DRAG_TYPE)) return
+    e.preventDefault()
+    e.stopPropagation()
+    e.dataTransfer.dropEffect = 'move'
+    setIsDropTarget(true)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onMoveInto || !e.dataTransfer.types.includes(FILE_TREE_DRAG_TYPE)) return
+    e.preventDefault()
+    e.stopPropagation()
+    setIsDropTarget(false)
+    const sourcePath = e.dataTransfer.getData(FILE_TREE_DRAG_TYPE)
+    if (sourcePath && sourcePath !== node.path) {
+      onMoveInto(sourcePath)
+    }
+  }
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation()
@@ -129,9 +210,17 @@ export function FileTreeItem({
 
   return (
     <div
-      className={`file-tree-item ${node.isDirectory ? 'directory' : ''} ${isSelected ? 'selected' : ''}`}
-      onClick={handleClick}
-      onDoubleClick={handleDoubleClick}
+      className={`file-tree-item ${node.isDirectory ? 'directory' : ''} ${isSelected ? 'selected' : ''} ${isDropTarget ? 'drop-target' : ''} ${gitState ? `git-${gitState}` : ''}`}
+      onClick={isRenaming ? undefined : handleClick}
+      onDoubleClick={isRenaming ? undefined : handleDoubleClick}
+      onContextMenu={onContextMenu}
+      draggable={!isRenaming}
+      onDragStart={handleDragStart}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDropTarget(false)
+      }}
+      onDrop={handleDrop}
       role="treeitem"
       aria-expanded={node.isDirectory ? isExpanded : undefined}
       aria-selected={isSelected}
@@ -157,7 +246,29 @@ export function FileTreeItem({
         )}
       </div>
 
-      <span className="file-tree-name">{node.name}</span>
+      {isRenaming ? (
+        <input
+          ref={inputRef}
+          type="text"
+          className="file-tree-rename-input"
+          value={editedName}
+          onChange={(e) => setEditedName(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={handleRenameKeyDown}
+          onClick={(e) => e.stopPropagation()}
+          spellCheck={false}
+        />
+      ) : (
+        <span className="file-tree-name">{node.name}</span>
+      )}
+
+      {!isRenaming && gitState && GIT_STATE_LETTERS[gitState] && !node.isDirectory ? (
+        <span className="file-tree-git-badge" title={gitState}>
+          {GIT_STATE_LETTERS[gitState]}
+        </span>
+      ) : (
+        !isRenaming && hasGitChanges && <span className="file-tree-git-dot" title="Contains changes" />
+      )}
     </div>
   )
 }
@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react'
+import type { LinkUpdatePreview } from '../../../../shared/workspace-types'
+import '../UI/dialog.css'
+import './workspace.css'
+
+interface LinkUpdateDialogProps {
+  previews: LinkUpdatePreview[]
+  dirtyPaths: Set<string>
+  onApply: (selected: LinkUpdatePreview[]) => void
+  onClose: () => void
+}
+
+function getBaseName(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() || filePath
+}
+
+/**
+ * Confirm rewriting links to files that were just renamed or moved.
+ * Files with unsaved edits in a tab start unchecked.
+ */
+export function LinkUpdateDialog({ previews, dirtyPaths, onApply, onClose }: LinkUpdateDialogProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(previews[0]?.path ?? null)
+  const [checked, setChecked] = useState<Set<string>>(
+    () => new Set(previews.filter((p) => !dirtyPaths.has(p.path)).map((p) => p.path))
+  )
+
+  // Escape closes the dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const toggleChecked = (filePath: string) => {
+    setChecked((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) {
+        next.delete(filePath)
+      } else {
+        next.add(filePath)
+      }
+      return next
+    })
+  }
+
+  const selected = previews.find((p) => p.path === selectedPath) ?? null
+  const toApply = previews.filter((p) => checked.has(p.path))
+  const totalCount = toApply.reduce((sum, p) => sum + p.edits.length, 0)
+
+  return (
+    <div className="dialog-overlay" onMouseDown={onClose}>
+      <div className="dialog link-update-dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Update Links</span>
+          <span className="dialog-status">
+            {`${totalCount} link${totalCount === 1 ? '' : 's'} in ${toApply.length} of ${previews.length} file${previews.length === 1 ? '' : 's'} point at the moved item`}
+          </span>
+        </div>
+        <div className="dialog-body">
+          <div className="dialog-files">
+            {previews.map((preview) => (
+              <div
+                key={preview.path}
+                className={`dialog-file ${preview.path === selectedPath ? 'selected' : ''}`}
+                onClick={() => setSelectedPath(preview.path)}
+                title={preview.path}
+              >
+                <input
+                  type="checkbox"
+                  checked={checked.has(preview.path)}
+                  onChange={() => toggleChecked(preview.path)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                <span className="dialog-file-name">{getBaseName(preview.path)}</span>
+                {dirtyPaths.has(preview.path) && (
+                  <span className="dialog-file-note" title="This file has unsaved edits in a tab">
+                    unsaved
+                  </span>
+                )}
+                <span className="search-file-count">{preview.edits.length}</span>
+              </div>
+            ))}
+          </div>
+          <div className="link-update-edits">
+            {selected?.edits.map((edit, index) => (
+              <div key={index} className="link-update-edit">
+                <span className="link-update-line">Line {edit.lineNumber}</span>
+                <span className="link-update-old">{edit.oldUrl}</span>
+                <span className="link-update-arrow">→</span>
+                <span className="link-update-new">{edit.newUrl}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={onClose}>
+            Don't Update
+          </button>
+          <button
+            className="dialog-btn primary"
+            onClick={() => onApply(toApply)}
+            disabled={toApply.length === 0}
+          >
+            Update {toApply.length} File{toApply.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
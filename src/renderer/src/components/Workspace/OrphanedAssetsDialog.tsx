@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { RootState, AppDispatch } from '../../store/store'
+import { closeAssetScan, trashOrphanedAssets } from '../../store/assetsSlice'
+import type { EditorRange } from '../../store/tabsSlice'
+import type { MissingAssetReference } from '../../../../shared/workspace-types'
+import '../UI/dialog.css'
+import './workspace.css'
+
+interface OrphanedAssetsDialogProps {
+  onFileOpen: (filePath: string, reveal?: EditorRange) => void
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function getExtension(filePath: string): string {
+  const match = filePath.match(/\.([^.\\/]+)$/)
+  return match ? match[1].toUpperCase() : 'FILE'
+}
+
+/**
+ * Files in the workspace's asset folders that no markdown file links to,
+ * with the checked ones moved to the trash on request. Links to files that
+ * don't exist are listed below; clicking one opens the file at the link.
+ */
+export function OrphanedAssetsDialog({ onFileOpen }: OrphanedAssetsDialogProps) {
+  const dispatch = useDispatch<AppDispatch>()
+  const { scanRootPath: rootPath, scanResult: result, isScanning } = useSelector((state: RootState) => state.assets)
+  const [checked, setChecked] = useState<Set<string>>(new Set())
+  const [trashing, setTrashing] = useState(false)
+
+  const handleClose = useCallback(() => dispatch(closeAssetScan()), [dispatch])
+
+  // Nothing is checked after a scan or a move to the trash
+  useEffect(() => {
+    setChecked(new Set())
+  }, [result])
+
+  // Escape closes the dialog
+  useEffect(() => {
+    if (!rootPath) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        handleClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [rootPath, handleClose])
+
+  if (!rootPath) return null
+
+  const getRelativePath = (filePath: string): string =>
+    filePath.startsWith(rootPath) ? filePath.slice(rootPath.length + 1) : filePath
+
+  const toggleChecked = (filePath: string) => {
+    setChecked((prev) => {
+      const next = new Set(prev)
+      if (next.has(filePath)) {
+        next.delete(filePath)
+      } else {
+        next.add(filePath)
+      }
+      return next
+    })
+  }
+
+  const orphans = result?.orphans ?? []
+  const missing = result?.missing ?? []
+  const selected = orphans.filter((orphan) => checked.has(orphan.path))
+  const selectedSize = selected.reduce((sum, orphan) => sum + orphan.size, 0)
+  const allChecked = orphans.length > 0 && selected.length === orphans.length
+
+  const handleTrash = async () => {
+    setTrashing(true)
+    await dispatch(trashOrphanedAssets({ rootPath, paths: selected.map((orphan) => orphan.path) }))
+    setTrashing(false)
+  }
+
+  const handleMissingClick = (reference: MissingAssetReference) => {
+    onFileOpen(reference.path, {
+      startLineNumber: reference.lineNumber,
+      startColumn: reference.column,
+      endLineNumber: reference.lineNumber,
+      endColumn: reference.endColumn
+    })
+    handleClose()
+  }
+
+  let status = 'Scanning...'
+  if (result) {
+    status = `${orphans.length} of ${result.assetCount} asset${result.assetCount === 1 ? '' : 's'} unused, ${missing.length} missing file${missing.length === 1 ? '' : 's'} linked from ${result.fileCount} markdown file${result.fileCount === 1 ? '' : 's'}`
+  } else if (!isScanning) {
+    status = 'The scan failed'
+  }
+
+  return (
+    <div className="dialog-overlay" onMouseDown={handleClose}>
+      <div className="dialog orphaned-assets-dialog" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="dialog-header">
+          <span className="dialog-title">Orphaned Assets</span>
+          <span className="dialog-status">{status}</span>
+        </div>
+        <div className="orphaned-assets-body">
+          {result && (
+            <>
+              <label className="orphaned-assets-section">
+                <input
+                  type="checkbox"
+                  checked={allChecked}
+                  disabled={orphans.length === 0}
+                  onChange={() => setChecked(new Set(allChecked ? [] : orphans.map((orphan) => orphan.path)))}
+                />
+                <span>Unused files</span>
+              </label>
+              {orphans.length === 0 && (
+                <div className="orphaned-assets-empty">Every file in the asset folders is linked.</div>
+              )}
+              {orphans.map((orphan) => (
+                <label key={orphan.path} className="orphaned-asset" title={orphan.path}>
+                  <input
+                    type="checkbox"
+                    checked={checked.has(orphan.path)}
+                    onChange={() => toggleChecked(orphan.path)}
+                  />
+                  <span className="orphaned-asset-thumbnail">
+                    {orphan.thumbnailUrl ? (
+                      <img src={orphan.thumbnailUrl} alt="" loading="lazy" />
+                    ) : (
+                      getExtension(orphan.path)
+                    )}
+                  </span>
+                  <span className="orphaned-asset-path">{getRelativePath(orphan.path)}</span>
+                  <span className="orphaned-asset-size">{formatSize(orphan.size)}</span>
+                </label>
+              ))}
+
+              <div className="orphaned-assets-section">Links to missing files</div>
+              {missing.length === 0 && <div className="orphaned-assets-empty">No links to missing files.</div>}
+              {missing.map((reference, index) => (
+                <div
+                  key={index}
+                  className="orphaned-assets-missing"
+                  onClick={() => handleMissingClick(reference)}
+                  title={reference.path}
+                >
+                  <span className="orphaned-assets-missing-location">
+                    {getRelativePath(reference.path)}:{reference.lineNumber}
+                  </span>
+                  <span className="orphaned-assets-missing-url">{reference.url}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+        <div className="dialog-footer">
+          <button className="dialog-btn" onClick={handleClose}>
+            Close
+          </button>
+          <button
+            className="dialog-btn primary"
+            onClick={handleTrash}
+            disabled={selected.length === 0 || trashing}
+          >
+            Move {selected.length} File{selected.length === 1 ? '' : 's'} to Trash
+            {selected.length > 0 ? ` (${formatSize(selectedSize)})` : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
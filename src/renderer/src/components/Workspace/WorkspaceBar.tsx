@@ -12,6 +12,7 @@ import {
 import { setWorkspaceSidebar, setFocusedPane, addVisiblePane } from '../../store/layoutSlice'
 import { WorkspaceState } from '../../../../shared/workspace-types'
 import { useEdgeScroll } from '../../hooks/useEdgeScroll'
+import { sanitizeEditorOverrides } from '../../utils/editor-options'
 import {
   DndContext,
   closestCenter,
@@ -196,7 +197,11 @@ export function WorkspaceBar() {
         color: result.config.color,
         rootPath: result.path,
         isExpanded: true,
-        showHiddenFiles: result.config.showHiddenFiles !== false
+        showHiddenFiles: result.config.showHiddenFiles !== false,
+        trustHtml: result.config.trustHtml === true,
+        editorOverrides: sanitizeEditorOverrides(result.config.editor),
+        previewCss: result.config.previewCss || null,
+        assetPathTemplate: result.config.assetPath || null
       })
     )
 
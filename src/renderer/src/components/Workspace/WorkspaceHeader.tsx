@@ -1,8 +1,9 @@
 import { useState, useRef, useEffect } from 'react'
 import { useDispatch } from 'react-redux'
 import { AppDispatch } from '../../store/store'
-import { updateWorkspace, removeWorkspace, collapseAllWorkspaces } from '../../store/workspacesSlice'
+import { updateWorkspace, collapseAllWorkspaces } from '../../store/workspacesSlice'
 import { setWorkspaceSidebar } from '../../store/layoutSlice'
+import { requestClose } from '../../store/closeGuardSlice'
 import { WorkspaceState, DEFAULT_WORKSPACE_ID, WORKSPACE_COLORS } from '../../../../shared/workspace-types'
 import './workspace.css'
 
@@ -127,6 +128,23 @@ export function WorkspaceHeader({ workspace }: WorkspaceHeaderProps) {
     }
   }
 
+  const handleToggleTrustHtml = () => {
+    const newValue = !workspace.trustHtml
+    dispatch(updateWorkspace({ id: workspace.id, changes: { trustHtml: newValue } }))
+
+    // Persist to config file
+    if (workspace.rootPath) {
+      window.electron.workspace.loadConfig(workspace.rootPath).then((config) => {
+        if (config) {
+          window.electron.workspace.saveConfig(workspace.rootPath!, {
+            ...config,
+            trustHtml: newValue
+          })
+        }
+      })
+    }
+  }
+
   const handleToggleHiddenFiles = () => {
     const newValue = !workspace.showHiddenFiles
     dispatch(updateWorkspace({ id: workspace.id, changes: { showHiddenFiles: newValue } }))
@@ -152,17 +170,8 @@ export function WorkspaceHeader({ workspace }: WorkspaceHeaderProps) {
   const handleClose = () => {
     if (isDefault) return
 
-    // Close workspace
-    dispatch(removeWorkspace(workspace.id))
-
-    // Stop file watcher if watching
-    if (workspace.rootPath) {
-      window.electron.workspace.unwatchFolder(workspace.rootPath)
-    }
-
-    // Collapse sidebar
-    dispatch(collapseAllWorkspaces())
-    dispatch(setWorkspaceSidebar(false))
+    // Close workspace and its tabs, asking about unsaved changes first
+    dispatch(requestClose({ kind: 'workspace', workspaceId: workspace.id }))
   }
 
   // Calculate header tint from workspace color
@@ -252,6 +261,19 @@ export function WorkspaceHeader({ workspace }: WorkspaceHeaderProps) {
           Show hidden files
         </label>
       )}
+      {!isDefault && workspace.rootPath && (
+        <label
+          className="workspace-hidden-files-toggle"
+          title="Allow embeds, inline styles and other raw HTML in this workspace's previews"
+        >
+          <input
+            type="checkbox"
+            checked={workspace.trustHtml}
+            onChange={handleToggleTrustHtml}
+          />
+          Trust HTML
+        </label>
+      )}
     </div>
   )
 }
@@ -3,6 +3,8 @@ import { selectAllWorkspaces, selectActiveWorkspaceId } from '../../store/worksp
 import { selectActiveTab } from '../../store/tabsSlice'
 import { WorkspaceHeader } from './WorkspaceHeader'
 import { FileTree } from './FileTree'
+import { SourceControlPanel } from '../Git/SourceControlPanel'
+import { useGitStatus } from '../../hooks/useGitStatus'
 import { DEFAULT_WORKSPACE_ID } from '../../../../shared/workspace-types'
 import './workspace.css'
 
@@ -31,6 +33,7 @@ export function WorkspaceSidebar({ onFileOpen }: WorkspaceSidebarProps) {
 
   // Find the expanded workspace
   const expandedWorkspace = workspaces.find((w) => w.isExpanded)
+  const gitStatus = useGitStatus(expandedWorkspace?.rootPath ?? null)
 
   // If no workspace is expanded, don't render
   if (!expandedWorkspace) {
@@ -54,14 +57,18 @@ export function WorkspaceSidebar({ onFileOpen }: WorkspaceSidebarProps) {
           </p>
         </div>
       ) : (
-        // File tree for workspaces with a root path
-        <FileTree
-          rootPath={expandedWorkspace.rootPath}
-          workspaceId={expandedWorkspace.id}
-          onFileOpen={onFileOpen}
-          selectedPath={activeTab?.path}
-          showHiddenFiles={expandedWorkspace.showHiddenFiles}
-        />
+        <>
+          {/* File tree for workspaces with a root path */}
+          <FileTree
+            rootPath={expandedWorkspace.rootPath}
+            workspaceId={expandedWorkspace.id}
+            onFileOpen={onFileOpen}
+            selectedPath={activeTab?.path}
+            showHiddenFiles={expandedWorkspace.showHiddenFiles}
+            gitStatus={gitStatus}
+          />
+          {gitStatus && <SourceControlPanel rootPath={expandedWorkspace.rootPath} status={gitStatus} />}
+        </>
       )}
     </div>
   )
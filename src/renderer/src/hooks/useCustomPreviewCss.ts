@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { RootState } from '../store/store'
+import { validatePreviewCSS } from '../utils/css-validator'
+import type { WorkspaceId } from '../../../shared/workspace-types'
+
+async function loadStyleSheet(filePath: string, baseDir: string | null): Promise<string> {
+  const css = await window.electron.file.readStyleSheet(filePath, baseDir)
+  if (!css) return ''
+
+  const result = validatePreviewCSS(css)
+  if (!result.valid) {
+    console.warn(`Ignoring custom preview CSS ${filePath}:`, result.errors)
+    return ''
+  }
+  return css
+}
+
+/**
+ * Hook that loads the custom preview CSS for documents in a workspace: the
+ * app stylesheet, then the workspace's own. Stylesheets that fail validation
+ * are left out. Reloads when the window regains focus, so edits made in
+ * another app show up.
+ */
+export function useCustomPreviewCss(workspaceId: WorkspaceId | undefined): string {
+  const appPath = useSelector((state: RootState) => state.settings.preview.customCssPath)
+  const workspace = useSelector((state: RootState) =>
+    state.workspaces.workspaces.find((w) => w.id === workspaceId)
+  )
+  const workspaceRoot = workspace?.rootPath ?? null
+  const workspacePath = workspace?.previewCss ?? null
+  const [css, setCss] = useState('')
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      const sheets = await Promise.all([
+        appPath ? loadStyleSheet(appPath, null) : '',
+        workspacePath && workspaceRoot ? loadStyleSheet(workspacePath, workspaceRoot) : ''
+      ])
+      if (!cancelled) {
+        setCss(sheets.filter(Boolean).join('\n'))
+      }
+    }
+
+    load()
+    window.addEventListener('focus', load)
+    return () => {
+      cancelled = true
+      window.removeEventListener('focus', load)
+    }
+  }, [appPath, workspacePath, workspaceRoot])
+
+  return css
+}
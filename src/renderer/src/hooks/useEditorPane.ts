@@ -18,11 +18,19 @@ export interface UseEditorPaneResult {
   baseDir: string | null
   currentFilePath: string | undefined
   activeTab: ReturnType<typeof selectActiveTabByWorkspace>
+  cursorPosition: { lineNumber: number; column: number }
+  selection: { start: number; end: number } | null  // Character offsets in content
   handleChange: (value: string | undefined) => void
   handleCursorPositionChange: (position: { lineNumber: number; column: number }) => void
+  handleSelectionChange: (selection: { start: number; end: number } | null) => void
   handleScrollTopChange: (scrollTop: number) => void
 }
 
+function getParentDir(filePath: string): string | null {
+  const lastSlash = Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\'))
+  return lastSlash !== -1 ? filePath.substring(0, lastSlash) : null
+}
+
 /**
  * Hook that manages editor state for a single workspace pane.
  * Extracts content routing, auto-save, cursor/scroll tracking into a reusable unit.
@@ -41,6 +49,10 @@ export function useEditorPane(workspaceId: WorkspaceId): UseEditorPaneResult {
   const [currentFilePath, setCurrentFilePath] = useState<string | undefined>(activeTab?.path)
   const [baseDir, setBaseDir] = useState<string | null>(null)
 
+  // Live cursor and selection for the status bar; the tab only keeps the cursor for session restore
+  const [cursorPosition, setCursorPosition] = useState(activeTab?.cursorPosition ?? { lineNumber: 1, column: 1 })
+  const [selection, setSelection] = useState<{ start: number; end: number } | null>(null)
+
   // Ref to track current content for auto-save (avoids circular dependency)
   const contentRef = useRef(content)
 
@@ -55,12 +67,14 @@ export function useEditorPane(workspaceId: WorkspaceId): UseEditorPaneResult {
 
       setContent(activeTab.content)
       setCurrentFilePath(activeTab.path)
+      setCursorPosition(activeTab.cursorPosition ?? { lineNumber: 1, column: 1 })
+      setSelection(null)
 
       // Calculate base directory for image preview
       if (activeTab.path) {
-        const lastSlash = Math.max(activeTab.path.lastIndexOf('/'), activeTab.path.lastIndexOf('\\'))
-        if (lastSlash !== -1) {
-          setBaseDir(activeTab.path.substring(0, lastSlash))
+        const dir = getParentDir(activeTab.path)
+        if (dir !== null) {
+          setBaseDir(dir)
         }
       } else {
         // For unsaved files, use temp directory
@@ -90,6 +104,41 @@ export function useEditorPane(workspaceId: WorkspaceId): UseEditorPaneResult {
     }
   }, [activeTabId, activeTab])
 
+  // Follow the active file when it is renamed or moved from the file tree
+  const activePath = activeTab?.path
+  useEffect(() => {
+    if (!activePath || activeTabId !== prevTabIdRef.current) return
+    setCurrentFilePath(activePath)
+    const dir = getParentDir(activePath)
+    if (dir !== null) {
+      setBaseDir(dir)
+    }
+  }, [activePath])
+
+  // Pick up content replaced outside the editor (external reload, merge result).
+  // Keyed on the version only, so regular typing doesn't round-trip through here.
+  const contentVersion = activeTab?.contentVersion
+  useEffect(() => {
+    if (activeTab && contentVersion !== undefined) {
+      setContent(activeTab.content)
+    }
+  }, [contentVersion])
+
+  // Select and scroll to a range requested from outside the editor (search hits)
+  const revealVersion = activeTab?.revealVersion
+  useEffect(() => {
+    const range = activeTab?.revealRange
+    if (revealVersion === undefined || !range) return
+
+    // Wait a frame so a newly opened tab's content is in the editor
+    requestAnimationFrame(() => {
+      const editor = editorRef.current
+      if (!editor) return
+      editor.setSelection(range)
+      editor.revealRangeInCenter(range)
+    })
+  }, [revealVersion])
+
   // Keep contentRef in sync with content state
   useEffect(() => {
     contentRef.current = content
@@ -110,6 +159,7 @@ export function useEditorPane(workspaceId: WorkspaceId): UseEditorPaneResult {
   const scrollTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 
   const handleCursorPositionChange = useCallback((position: { lineNumber: number; column: number }) => {
+    setCursorPosition(position)
     if (!activeTab) return
     if (positionTimeoutRef.current) {
       clearTimeout(positionTimeoutRef.current)
@@ -119,6 +169,10 @@ export function useEditorPane(workspaceId: WorkspaceId): UseEditorPaneResult {
     }, 300)
   }, [activeTab, dispatch])
 
+  const handleSelectionChange = useCallback((range: { start: number; end: number } | null) => {
+    setSelection(range)
+  }, [])
+
   const handleScrollTopChange = useCallback((scrollTop: number) => {
     if (!activeTab) return
     if (scrollTimeoutRef.current) {
@@ -176,8 +230,11 @@ export function useEditorPane(workspaceId: WorkspaceId): UseEditorPaneResult {
     baseDir,
     currentFilePath,
     activeTab,
+    cursorPosition,
+    selection,
     handleChange,
     handleCursorPositionChange,
+    handleSelectionChange,
     handleScrollTopChange
   }
 }
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react'
+import { useSelector, useDispatch } from 'react-redux'
+import { RootState, AppDispatch } from '../store/store'
+import { replaceTabContent, setTabExternalChange } from '../store/tabsSlice'
+
+/**
+ * Hook that keeps open files in sync with changes made by other programs.
+ * The main process polls every file open in a tab; clean tabs reload
+ * automatically and dirty tabs get an externalChange for the conflict banner.
+ */
+export function useExternalFileChanges() {
+  const dispatch = useDispatch<AppDispatch>()
+  const tabs = useSelector((state: RootState) => state.tabs.tabs)
+
+  // Newline-joined so the selector result is stable while typing
+  const openPathsKey = useSelector((state: RootState) =>
+    state.tabs.tabs
+      .filter((t) => t.path)
+      .map((t) => t.path)
+      .join('\n')
+  )
+
+  const tabsRef = useRef(tabs)
+  tabsRef.current = tabs
+
+  const watchedPathsRef = useRef<Set<string>>(new Set())
+
+  // Watch exactly the files that are open in tabs
+  useEffect(() => {
+    const openPaths = new Set(openPathsKey ? openPathsKey.split('\n') : [])
+
+    for (const path of openPaths) {
+      if (!watchedPathsRef.current.has(path)) {
+        window.electron.file.watchExternal(path)
+      }
+    }
+    for (const path of watchedPathsRef.current) {
+      if (!openPaths.has(path)) {
+        window.electron.file.unwatchExternal(path)
+      }
+    }
+
+    watchedPathsRef.current = openPaths
+  }, [openPathsKey])
+
+  // Handle changes reported by the main process (polling, or a refused save)
+  useEffect(() => {
+    const unsubscribe = window.electron.file.onExternalChange(async (change) => {
+      const tab = tabsRef.current.find((t) => t.path === change.path)
+      if (!tab) return
+
+      // Disk already matches the tab (e.g. the same edit was made elsewhere)
+      if (change.diskContent === tab.content) {
+        await window.electron.file.acceptDiskVersion(change.path, change.diskHash)
+        dispatch(setTabExternalChange({ id: tab.id, change: undefined }))
+        return
+      }
+
+      // Clean tabs follow the file on disk
+      if (!tab.isDirty && change.diskContent !== null) {
+        const accepted = await window.electron.file.acceptDiskVersion(change.path, change.diskHash)
+        if (accepted) {
+          dispatch(replaceTabContent({ id: tab.id, content: change.diskContent, isDirty: false }))
+        }
+        return
+      }
+
+      dispatch(setTabExternalChange({ id: tab.id, change }))
+    })
+
+    return unsubscribe
+  }, [dispatch])
+}
@@ -0,0 +1,66 @@
+import { useState, useCallback, useMemo } from 'react'
+import { useDispatch } from 'react-redux'
+import { moveTabPaths } from '../store/tabsSlice'
+import type { FileOperationResult } from '../../../shared/types'
+import type { LinkUpdatePreview } from '../../../shared/workspace-types'
+
+/**
+ * Hook wrapping the undoable file tree operations. Open tabs follow renamed
+ * and moved files, links to moved files are offered for rewriting, and the
+ * label of the operation Undo would revert is tracked.
+ */
+export function useFileOperations(rootPath: string) {
+  const dispatch = useDispatch()
+  const [undoLabel, setUndoLabel] = useState<string | null>(null)
+  const [linkUpdates, setLinkUpdates] = useState<LinkUpdatePreview[] | null>(null)
+
+  const handleResult = useCallback((result: FileOperationResult) => {
+    if (result.moved) {
+      dispatch(moveTabPaths(result.moved))
+      window.electron.workspace.previewLinkUpdates(rootPath, [result.moved]).then((previews) => {
+        if (previews.length > 0) {
+          setLinkUpdates(previews)
+        }
+      })
+    }
+    setUndoLabel(result.undoLabel)
+    return result
+  }, [dispatch, rootPath])
+
+  const applyLinkUpdates = useCallback(async (selected: LinkUpdatePreview[]) => {
+    setLinkUpdates(null)
+    if (selected.length === 0) return
+
+    const result = await window.electron.workspace.applyReplace(
+      selected.map((p) => ({ path: p.path, hash: p.hash, content: p.updated }))
+    )
+    if (result.skipped.length > 0) {
+      alert(`Links were not updated in ${result.skipped.length} file(s) that changed on disk.`)
+    }
+  }, [])
+
+  const dismissLinkUpdates = useCallback(() => setLinkUpdates(null), [])
+
+  const refreshUndoLabel = useCallback(async () => {
+    setUndoLabel(await window.electron.file.getUndoLabel())
+  }, [])
+
+  return useMemo(() => {
+    const api = window.electron.file
+    return {
+      undoLabel,
+      refreshUndoLabel,
+      linkUpdates,
+      applyLinkUpdates,
+      dismissLinkUpdates,
+      createEntry: (parentDir: string, name: string, isDirectory: boolean) =>
+        api.createEntry(parentDir, name, isDirectory).then(handleResult),
+      renameEntry: (filePath: string, newName: string) => api.renameEntry(filePath, newName).then(handleResult),
+      moveEntry: (filePath: string, targetDir: string) => api.moveEntry(filePath, targetDir).then(handleResult),
+      duplicateEntry: (filePath: string) => api.duplicateEntry(filePath).then(handleResult),
+      trashEntry: (filePath: string) => api.trashEntry(filePath).then(handleResult),
+      undo: () => api.undoOperation().then(handleResult),
+      revealInFolder: (filePath: string) => api.revealInFolder(filePath)
+    }
+  }, [undoLabel, refreshUndoLabel, linkUpdates, applyLinkUpdates, dismissLinkUpdates, handleResult])
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import { RootState } from '../store/store'
+
+/**
+ * Hook that loads the committed version of a file for the diff gutter.
+ * Reloads whenever a git status refresh may have moved HEAD.
+ */
+export function useGitHeadContent(filePath: string | null | undefined): string | null {
+  const revision = useSelector((state: RootState) => state.git.revision)
+  const [headContent, setHeadContent] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!filePath) {
+      setHeadContent(null)
+      return
+    }
+
+    let cancelled = false
+    window.electron.git.headContent(filePath).then((content) => {
+      if (!cancelled) {
+        setHeadContent(content)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, revision])
+
+  return headContent
+}
@@ -0,0 +1,47 @@
+import { useEffect } from 'react'
+import { useSelector, useDispatch } from 'react-redux'
+import { RootState, AppDispatch } from '../store/store'
+import { refreshGitStatus } from '../store/gitSlice'
+
+// File changes arrive in bursts (saves, checkouts); refresh once they settle
+const REFRESH_DELAY_MS = 500
+
+/**
+ * Hook that keeps the git status of a workspace folder current: on open,
+ * when files in it change and when the window regains focus (git commands
+ * run in a terminal).
+ */
+export function useGitStatus(rootPath: string | null) {
+  const dispatch = useDispatch<AppDispatch>()
+  const status = useSelector((state: RootState) => (rootPath ? state.git.statusByRoot[rootPath] ?? null : null))
+
+  useEffect(() => {
+    if (!rootPath) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const scheduleRefresh = () => {
+      if (timer) clearTimeout(timer)
+      timer = setTimeout(() => {
+        timer = null
+        dispatch(refreshGitStatus(rootPath))
+      }, REFRESH_DELAY_MS)
+    }
+
+    dispatch(refreshGitStatus(rootPath))
+
+    const unsubscribe = window.electron.workspace.onFolderChanged((folderPath) => {
+      if (folderPath === rootPath) {
+        scheduleRefresh()
+      }
+    })
+    window.addEventListener('focus', scheduleRefresh)
+
+    return () => {
+      if (timer) clearTimeout(timer)
+      unsubscribe()
+      window.removeEventListener('focus', scheduleRefresh)
+    }
+  }, [rootPath, dispatch])
+
+  return status
+}
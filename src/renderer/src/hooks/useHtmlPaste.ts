@@ -0,0 +1,120 @@
+import { useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import * as monaco from 'monaco-editor'
+import { RootState } from '../store/store'
+import { selectImageProcessing, selectAssetPathOptions } from '../store/settingsSlice'
+import { findEmbeddedImages, htmlToMarkdown } from '../utils/html-to-markdown'
+import { IMAGE_EXTENSIONS, getClipboardImage, getClipboardImageUrl } from '../utils/clipboard-images'
+
+interface UseHtmlPasteProps {
+  editorRef?: React.RefObject<monaco.editor.IStandaloneCodeEditor>
+  tabId?: string
+  currentFilePath?: string
+}
+
+function decodeDataUrl(dataUrl: string): { bytes: Uint8Array; mimeType: string } | null {
+  const match = /^data:([^;,]+)((?:;[^;,]*)*),(.*)$/s.exec(dataUrl)
+  if (!match) return null
+
+  const mimeType = match[1].toLowerCase()
+  try {
+    if (match[2].includes(';base64')) {
+      const binary = atob(match[3].replace(/\s/g, ''))
+      const bytes = new Uint8Array(binary.length)
+      for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i)
+      }
+      return { bytes, mimeType }
+    }
+    return { bytes: new TextEncoder().encode(decodeURIComponent(match[3])), mimeType }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Hook that converts rich HTML pasted into the editor (web pages, Word,
+ * Google Docs) to Markdown. Embedded images are saved to the assets folder.
+ * Pasting with Shift held keeps the plain text.
+ */
+export function useHtmlPaste({ editorRef, tabId, currentFilePath }: UseHtmlPasteProps) {
+  const imageProcessing = useSelector(selectImageProcessing)
+  const assetPath = useSelector((state: RootState) =>
+    selectAssetPathOptions(state, state.tabs.tabs.find((t) => t.id === tabId)?.workspaceId)
+  )
+
+  useEffect(() => {
+    let plainTextPaste = false
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isPasteKey = ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'v') || e.key === 'Insert'
+      plainTextPaste = isPasteKey && e.shiftKey
+    }
+
+    const handlePaste = async (e: ClipboardEvent) => {
+      const editor = editorRef?.current
+      const target = e.target as Node | null
+      if (!editor || !target || !editor.getContainerDomNode().contains(target)) return
+
+      const shiftHeld = plainTextPaste
+      plainTextPaste = false
+
+      const clipboard = e.clipboardData
+      // Copies from Monaco itself carry their own data and paste as text
+      if (shiftHeld || !clipboard || clipboard.types.includes('vscode-editor-data')) return
+      // Copied images and image URLs are linked by useImagePaste
+      if (getClipboardImage(clipboard) || getClipboardImageUrl(clipboard)) return
+      const html = clipboard.getData('text/html')
+      if (!html) return
+
+      e.preventDefault()
+      e.stopPropagation()
+      const plainText = clipboard.getData('text/plain')
+
+      const imagePaths = new Map<string, string>()
+      if (tabId) {
+        for (const src of findEmbeddedImages(html)) {
+          const image = decodeDataUrl(src)
+          const extension = image && IMAGE_EXTENSIONS[image.mimeType]
+          if (!image || !extension) continue
+
+          try {
+            const relativePath = await window.electron.file.saveImage(
+              image.bytes,
+              `pasted-image.${extension}`,
+              tabId,
+              currentFilePath || null,
+              imageProcessing,
+              assetPath
+            )
+            if (relativePath) {
+              imagePaths.set(src, relativePath)
+            }
+          } catch (error) {
+            console.error('Error saving pasted image:', error)
+          }
+        }
+      }
+
+      const markdown = htmlToMarkdown(html, imagePaths) || plainText
+      const selections = editor.getSelections()
+      if (!markdown || !selections) return
+
+      editor.pushUndoStop()
+      editor.executeEdits(
+        'paste',
+        selections.map((selection) => ({ range: selection, text: markdown, forceMoveMarkers: true }))
+      )
+      editor.pushUndoStop()
+      editor.focus()
+    }
+
+    document.addEventListener('keydown', handleKeyDown, true)
+    document.addEventListener('paste', handlePaste, true)
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true)
+      document.removeEventListener('paste', handlePaste, true)
+    }
+  }, [editorRef, tabId, currentFilePath, imageProcessing, assetPath])
+}
@@ -1,5 +1,8 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
+import { useSelector } from 'react-redux'
 import * as monaco from 'monaco-editor'
+import { RootState } from '../store/store'
+import { selectImageProcessing, selectAssetPathOptions } from '../store/settingsSlice'
 import { WorkspaceState } from '../../../shared/workspace-types'
 import { Tab } from '../store/tabsSlice'
 
@@ -36,6 +39,10 @@ export function useImageDrop({
 }: UseImageDropProps) {
   const [isDragging, setIsDragging] = useState(false)
   const dragCounterRef = useRef(0)
+  const imageProcessing = useSelector(selectImageProcessing)
+  const assetPath = useSelector((state: RootState) =>
+    selectAssetPathOptions(state, state.tabs.tabs.find((t) => t.id === tabId)?.workspaceId)
+  )
 
   // Find workspace for a given file path
   const detectWorkspaceForPath = useCallback((filePath: string): string => {
@@ -91,6 +98,9 @@ export function useImageDrop({
       const files = e.dataTransfer?.files
       if (!files || files.length === 0) return
 
+      // Dropping with Shift held adds the images as they are
+      const processing = e.shiftKey ? null : imageProcessing
+
       // Separate files by type
       const imageFiles = Array.from(files).filter((file) =>
         IMAGE_EXTENSIONS.test(file.name)
@@ -112,7 +122,9 @@ export function useImageDrop({
             const relativePath = await window.electron.file.copyImage(
               filePath,
               tabId,
-              currentFilePath || null
+              currentFilePath || null,
+              processing,
+              assetPath
             )
 
             if (relativePath) {
@@ -222,6 +234,8 @@ export function useImageDrop({
     editorRef,
     tabId,
     currentFilePath,
+    imageProcessing,
+    assetPath,
     onImageInsert,
     tabs,
     onMarkdownFilesOpen,
@@ -0,0 +1,103 @@
+import { useEffect } from 'react'
+import { useSelector } from 'react-redux'
+import * as monaco from 'monaco-editor'
+import { RootState } from '../store/store'
+import { selectImageProcessing, selectAssetPathOptions } from '../store/settingsSlice'
+import {
+  IMAGE_EXTENSIONS,
+  getClipboardImage,
+  getClipboardImageUrl,
+  getPastedImageName
+} from '../utils/clipboard-images'
+
+interface UseImagePasteProps {
+  editorRef?: React.RefObject<monaco.editor.IStandaloneCodeEditor>
+  tabId?: string
+  currentFilePath?: string
+}
+
+function insertImageLinks(editor: monaco.editor.IStandaloneCodeEditor, url: string) {
+  const selections = editor.getSelections()
+  if (!selections) return
+
+  editor.pushUndoStop()
+  editor.executeEdits(
+    'paste',
+    selections.map((selection) => ({ range: selection, text: `![](${url})`, forceMoveMarkers: true }))
+  )
+  editor.pushUndoStop()
+  editor.focus()
+}
+
+/**
+ * Hook that saves images pasted into the editor (screenshots, copied images)
+ * to the assets folder and links them at the cursor. A pasted image URL
+ * becomes an image link too. With Shift held, images are saved unprocessed
+ * and URLs stay text.
+ */
+export function useImagePaste({ editorRef, tabId, currentFilePath }: UseImagePasteProps) {
+  const pasteNaming = useSelector((state: RootState) => state.settings.images.pasteNaming)
+  const imageProcessing = useSelector(selectImageProcessing)
+  const assetPath = useSelector((state: RootState) =>
+    selectAssetPathOptions(state, state.tabs.tabs.find((t) => t.id === tabId)?.workspaceId)
+  )
+
+  useEffect(() => {
+    let plainTextPaste = false
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const isPasteKey = ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'v') || e.key === 'Insert'
+      plainTextPaste = isPasteKey && e.shiftKey
+    }
+
+    const handlePaste = async (e: ClipboardEvent) => {
+      const editor = editorRef?.current
+      const target = e.target as Node | null
+      if (!editor || !target || !editor.getContainerDomNode().contains(target)) return
+
+      const shiftHeld = plainTextPaste
+      plainTextPaste = false
+
+      const clipboard = e.clipboardData
+      if (!clipboard || clipboard.types.includes('vscode-editor-data')) return
+
+      const image = getClipboardImage(clipboard)
+      if (image && tabId) {
+        e.preventDefault()
+        e.stopPropagation()
+
+        const fileName = getPastedImageName(IMAGE_EXTENSIONS[image.type])
+        const processing = shiftHeld ? null : imageProcessing
+        try {
+          const data = new Uint8Array(await image.arrayBuffer())
+          const filePath = currentFilePath || null
+          const relativePath =
+            pasteNaming === 'prompt'
+              ? await window.electron.file.saveImageAs(data, fileName, tabId, filePath, processing, assetPath)
+              : await window.electron.file.saveImage(data, fileName, tabId, filePath, processing, assetPath)
+          if (relativePath) {
+            insertImageLinks(editor, relativePath)
+          }
+        } catch (error) {
+          console.error('Error saving pasted image:', error)
+        }
+        return
+      }
+
+      const imageUrl = shiftHeld ? null : getClipboardImageUrl(clipboard)
+      if (imageUrl) {
+        e.preventDefault()
+        e.stopPropagation()
+        insertImageLinks(editor, imageUrl)
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown, true)
+    document.addEventListener('paste', handlePaste, true)
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true)
+      document.removeEventListener('paste', handlePaste, true)
+    }
+  }, [editorRef, tabId, currentFilePath, pasteNaming, imageProcessing, assetPath])
+}
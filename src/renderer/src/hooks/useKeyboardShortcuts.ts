@@ -70,6 +70,7 @@ export function useKeyboardShortcuts({ editorRef, handlers, previewSelection }:
         'file.close',
         'file.print',
         'app.preferences',
+        'app.quit',
         'view.devTools',
         'nav.nextTab',
         'nav.prevTab',
@@ -135,6 +136,7 @@ export function useKeyboardShortcuts({ editorRef, handlers, previewSelection }:
         'file.close',
         'file.print',
         'app.preferences',
+        'app.quit',
         'view.devTools',
         'view.editorOnly',
         'view.split',
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useSelector, useDispatch, useStore } from 'react-redux'
+import { RootState } from '../store/store'
+import { addTab, setActiveTab, revealInTab } from '../store/tabsSlice'
+import { selectWorkspaceById } from '../store/workspacesSlice'
+import type { WikiPage, WorkspaceId } from '../../../shared/workspace-types'
+
+function normalizeHeading(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '')
+}
+
+/**
+ * Find the line of the heading a [[page#heading]] link points at
+ */
+function findHeadingLine(content: string, heading: string): number | null {
+  const wanted = normalizeHeading(heading)
+  let inFence = false
+
+  const lines = content.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s{0,3}(`{3,}|~{3,})/.test(lines[i])) {
+      inFence = !inFence
+      continue
+    }
+    const match = !inFence && lines[i].match(/^\s{0,3}#{1,6}\s+(.*?)(?:\s+#+)?\s*$/)
+    if (match && normalizeHeading(match[1]) === wanted) {
+      return i + 1
+    }
+  }
+  return null
+}
+
+/**
+ * Hook that provides the pages [[wiki links]] resolve against for a workspace,
+ * and opens a resolved link in a tab of that workspace.
+ */
+export function useWikiLinks(workspaceId: WorkspaceId) {
+  const dispatch = useDispatch()
+  const store = useStore<RootState>()
+  const rootPath = useSelector((state: RootState) => selectWorkspaceById(state, workspaceId)?.rootPath ?? null)
+  const [pages, setPages] = useState<WikiPage[]>([])
+
+  // Load pages, and reload when files are added, removed or renamed
+  useEffect(() => {
+    if (!rootPath) {
+      setPages([])
+      return
+    }
+
+    let cancelled = false
+    const loadPages = async () => {
+      const result = await window.electron.workspace.listWikiPages(rootPath)
+      if (!cancelled) {
+        setPages(result)
+      }
+    }
+    loadPages()
+
+    const unsubscribe = window.electron.workspace.onFolderChanged((folderPath, changes) => {
+      if (folderPath === rootPath && changes.some((change) => change.type !== 'change')) {
+        loadPages()
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [rootPath])
+
+  const openWikiLink = useCallback(async (filePath: string, heading?: string) => {
+    let tab = store.getState().tabs.tabs.find((t) => t.path === filePath)
+
+    if (!tab) {
+      try {
+        const fileData = await window.electron.file.readByPath(filePath)
+        if (!fileData) return
+
+        const newTab = {
+          id: `tab-${Date.now()}`,
+          workspaceId,
+          filename: filePath.split(/[\\/]/).pop() || 'Untitled',
+          content: fileData.content,
+          path: filePath,
+          isDirty: false
+        }
+        dispatch(addTab(newTab))
+        tab = newTab
+      } catch (error) {
+        console.error('Failed to open wiki link:', error)
+        return
+      }
+    }
+
+    dispatch(setActiveTab(tab.id))
+
+    const lineNumber = heading ? findHeadingLine(tab.content, heading) : null
+    if (lineNumber) {
+      dispatch(revealInTab({
+        id: tab.id,
+        range: { startLineNumber: lineNumber, startColumn: 1, endLineNumber: lineNumber, endColumn: 1 }
+      }))
+    }
+  }, [dispatch, store, workspaceId])
+
+  return { rootPath, pages, openWikiLink }
+}
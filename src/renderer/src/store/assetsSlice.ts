@@ -0,0 +1,98 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import type { AssetScanResult } from '../../../shared/workspace-types'
+import type { RootState } from './store'
+import { selectAssetPathOptions } from './settingsSlice'
+
+// An image link chosen for Resize Image...
+export interface ImageResizeTarget {
+  tabId: string
+  filePath: string | null // The document; null while unsaved
+  src: string
+  modelUri: string // Editor model the link is in
+  lineNumber: number
+  startColumn: number // Columns of the src, end exclusive
+  endColumn: number
+}
+
+interface AssetsState {
+  resizeTarget: ImageResizeTarget | null // Image shown in the resize dialog
+  scanRootPath: string | null // Workspace shown in the orphaned assets dialog
+  scanResult: AssetScanResult | null // Null until a scan finishes
+  isScanning: boolean
+}
+
+const initialState: AssetsState = {
+  resizeTarget: null,
+  scanRootPath: null,
+  scanResult: null,
+  isScanning: false
+}
+
+// Async thunk to cross-reference a workspace's asset folders with its markdown files
+export const scanAssets = createAsyncThunk('assets/scan', async (rootPath: string, { getState }) => {
+  const state = getState() as RootState
+  const workspace = state.workspaces.workspaces.find((w) => w.rootPath === rootPath)
+  const { template } = selectAssetPathOptions(state, workspace?.id)
+
+  // Unsaved edits may link to images that were just pasted or dropped
+  const openDocuments: Record<string, string> = {}
+  for (const tab of state.tabs.tabs) {
+    if (tab.isDirty && tab.path) {
+      openDocuments[tab.path] = tab.content
+    }
+  }
+  return window.electron.workspace.scanAssets(rootPath, template, openDocuments)
+})
+
+// Async thunk to move orphaned assets to the trash
+export const trashOrphanedAssets = createAsyncThunk(
+  'assets/trashOrphans',
+  async ({ rootPath, paths }: { rootPath: string; paths: string[] }) => {
+    return window.electron.workspace.trashAssets(rootPath, paths)
+  }
+)
+
+const assetsSlice = createSlice({
+  name: 'assets',
+  initialState,
+  reducers: {
+    openImageResize(state, action: PayloadAction<ImageResizeTarget>) {
+      state.resizeTarget = action.payload
+    },
+    closeImageResize(state) {
+      state.resizeTarget = null
+    },
+    closeAssetScan(state) {
+      state.scanRootPath = null
+      state.scanResult = null
+      state.isScanning = false
+    }
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(scanAssets.pending, (state, action) => {
+        state.scanRootPath = action.meta.arg
+        state.scanResult = null
+        state.isScanning = true
+      })
+      .addCase(scanAssets.fulfilled, (state, action) => {
+        // Ignore a scan that was closed or superseded by one for another folder
+        if (action.meta.arg !== state.scanRootPath) return
+        state.scanResult = action.payload
+        state.isScanning = false
+      })
+      .addCase(scanAssets.rejected, (state, action) => {
+        if (action.meta.arg !== state.scanRootPath) return
+        state.isScanning = false
+      })
+      .addCase(trashOrphanedAssets.fulfilled, (state, action) => {
+        if (!state.scanResult) return
+        const trashed = new Set(action.payload)
+        state.scanResult.orphans = state.scanResult.orphans.filter((orphan) => !trashed.has(orphan.path))
+        state.scanResult.assetCount -= trashed.size
+      })
+  }
+})
+
+export const { openImageResize, closeImageResize, closeAssetScan } = assetsSlice.actions
+export default assetsSlice.reducer
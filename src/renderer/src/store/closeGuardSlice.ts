@@ -0,0 +1,164 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit'
+import type { WorkspaceId } from '../../../shared/workspace-types'
+import type { RootState, AppDispatch } from './store'
+import { TabDocument, closeTab, closeTabsByWorkspace, setActiveTab, updateTab, saveTabAs } from './tabsSlice'
+import { removeWorkspace, collapseAllWorkspaces, setActiveWorkspace } from './workspacesSlice'
+import { setWorkspaceSidebar } from './layoutSlice'
+
+// Something being closed that may hold unsaved changes
+export type CloseRequest =
+  | { kind: 'window' }
+  | { kind: 'workspace'; workspaceId: WorkspaceId }
+  | { kind: 'tab'; tabId: string }
+
+interface CloseGuardState {
+  request: CloseRequest | null // Close waiting on the unsaved changes dialog
+  tabIds: string[] // Dirty tabs the close would lose
+  isSaving: boolean
+}
+
+const initialState: CloseGuardState = {
+  request: null,
+  tabIds: [],
+  isSaving: false
+}
+
+function isClosedBy(tab: TabDocument, request: CloseRequest): boolean {
+  switch (request.kind) {
+    case 'window':
+      return true
+    case 'workspace':
+      return tab.workspaceId === request.workspaceId
+    case 'tab':
+      return tab.id === request.tabId
+  }
+}
+
+// Save one tab, asking where for unsaved ones; false if cancelled or failed
+async function saveTab(tab: TabDocument, dispatch: AppDispatch): Promise<boolean> {
+  if (tab.path) {
+    const success = await window.electron.file.save(tab.path, tab.content)
+    if (success) {
+      dispatch(updateTab({ id: tab.id, content: tab.content, isDirty: false }))
+    }
+    return success
+  }
+
+  // Show the draft being named
+  dispatch(setActiveWorkspace(tab.workspaceId))
+  dispatch(setActiveTab(tab.id))
+  return dispatch(saveTabAs({ tabId: tab.id, content: tab.content })).unwrap()
+}
+
+// Async thunk to close a window, workspace or tab once its changes are dealt with
+export const finishClose = createAsyncThunk(
+  'closeGuard/finish',
+  async (request: CloseRequest, { dispatch, getState }) => {
+    const state = getState() as RootState
+
+    switch (request.kind) {
+      case 'window':
+        window.electron.window.close()
+        break
+
+      case 'workspace': {
+        // Clean up temp directories of tabs that were never saved
+        for (const tab of state.tabs.tabs) {
+          if (tab.workspaceId === request.workspaceId && !tab.path) {
+            await window.electron.file.cleanupTemp(tab.id)
+          }
+        }
+
+        const workspace = state.workspaces.workspaces.find((w) => w.id === request.workspaceId)
+        dispatch(closeTabsByWorkspace(request.workspaceId))
+        dispatch(removeWorkspace(request.workspaceId))
+        if (workspace?.rootPath) {
+          window.electron.workspace.unwatchFolder(workspace.rootPath)
+        }
+        dispatch(collapseAllWorkspaces())
+        dispatch(setWorkspaceSidebar(false))
+        break
+      }
+
+      case 'tab': {
+        // Clean up temp directory if tab was never saved
+        const tab = state.tabs.tabs.find((t) => t.id === request.tabId)
+        if (tab && !tab.path) {
+          await window.electron.file.cleanupTemp(tab.id)
+        }
+        dispatch(closeTab(request.tabId))
+        break
+      }
+    }
+  }
+)
+
+// Async thunk to close right away, or ask first when there are unsaved changes
+export const requestClose = createAsyncThunk(
+  'closeGuard/request',
+  async (request: CloseRequest, { dispatch, getState }) => {
+    const state = getState() as RootState
+    const tabIds = state.tabs.tabs.filter((tab) => tab.isDirty && isClosedBy(tab, request)).map((tab) => tab.id)
+
+    if (tabIds.length === 0) {
+      await dispatch(finishClose(request))
+      return null
+    }
+    return { request, tabIds }
+  }
+)
+
+// Async thunk to save every dirty tab and close; stops at a cancelled or failed save
+export const saveAllAndClose = createAsyncThunk('closeGuard/saveAll', async (_, { dispatch, getState }) => {
+  const { request, tabIds } = (getState() as RootState).closeGuard
+  if (!request) return false
+
+  for (const tabId of tabIds) {
+    const state = getState() as RootState
+    const tab = state.tabs.tabs.find((t) => t.id === tabId)
+    if (!tab?.isDirty) continue
+
+    if (!(await saveTab(tab, dispatch as AppDispatch))) {
+      return false
+    }
+  }
+
+  await dispatch(finishClose(request))
+  return true
+})
+
+const closeGuardSlice = createSlice({
+  name: 'closeGuard',
+  initialState,
+  reducers: {
+    dismissCloseGuard(state) {
+      state.request = null
+      state.tabIds = []
+      state.isSaving = false
+    }
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(requestClose.fulfilled, (state, action) => {
+        if (!action.payload) return
+        state.request = action.payload.request
+        state.tabIds = action.payload.tabIds
+      })
+      .addCase(saveAllAndClose.pending, (state) => {
+        state.isSaving = true
+      })
+      .addCase(saveAllAndClose.fulfilled, (state, action) => {
+        state.isSaving = false
+        if (action.payload) {
+          state.request = null
+          state.tabIds = []
+        }
+      })
+      .addCase(saveAllAndClose.rejected, (state) => {
+        state.isSaving = false
+      })
+  }
+})
+
+export const { dismissCloseGuard } = closeGuardSlice.actions
+export default closeGuardSlice.reducer
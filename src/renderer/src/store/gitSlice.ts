@@ -0,0 +1,41 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import type { GitStatus } from '../../../shared/workspace-types'
+
+interface GitState {
+  statusByRoot: Record<string, GitStatus | null> // Null when the folder is not in a repository
+  revision: number // Bumped on every refresh so committed file content can be re-read
+  diffPath: string | null // File shown in the diff view
+}
+
+const initialState: GitState = {
+  statusByRoot: {},
+  revision: 0,
+  diffPath: null
+}
+
+// Async thunk to re-read the git status of a workspace folder
+export const refreshGitStatus = createAsyncThunk('git/refreshStatus', async (rootPath: string) =>
+  window.electron.git.status(rootPath)
+)
+
+const gitSlice = createSlice({
+  name: 'git',
+  initialState,
+  reducers: {
+    openGitDiff(state, action: PayloadAction<string>) {
+      state.diffPath = action.payload
+    },
+    closeGitDiff(state) {
+      state.diffPath = null
+    }
+  },
+  extraReducers: (builder) => {
+    builder.addCase(refreshGitStatus.fulfilled, (state, action) => {
+      state.statusByRoot[action.meta.arg] = action.payload
+      state.revision++
+    })
+  }
+})
+
+export const { openGitDiff, closeGitDiff } = gitSlice.actions
+export default gitSlice.reducer
@@ -10,6 +10,9 @@ interface LayoutState {
   zoomLevel: number // 0 = 100%, positive = zoom in, negative = zoom out
   showOutline: boolean
   showWorkspaceSidebar: boolean
+  showSearch: boolean
+  showProblems: boolean
+  showHistory: boolean
   // Multi-pane mode
   multiPaneEnabled: boolean
   focusedPaneId: WorkspaceId | null
@@ -25,6 +28,9 @@ const initialState: LayoutState = {
   zoomLevel: 0,
   showOutline: false,
   showWorkspaceSidebar: false,
+  showSearch: false,
+  showProblems: false,
+  showHistory: false,
   multiPaneEnabled: false,
   focusedPaneId: null,
   visiblePanes: [],
@@ -63,6 +69,24 @@ const layoutSlice = createSlice({
     setWorkspaceSidebar(state, action: PayloadAction<boolean>) {
       state.showWorkspaceSidebar = action.payload
     },
+    toggleSearch(state) {
+      state.showSearch = !state.showSearch
+    },
+    setSearchSidebar(state, action: PayloadAction<boolean>) {
+      state.showSearch = action.payload
+    },
+    toggleProblems(state) {
+      state.showProblems = !state.showProblems
+    },
+    setProblemsPanel(state, action: PayloadAction<boolean>) {
+      state.showProblems = action.payload
+    },
+    toggleHistory(state) {
+      state.showHistory = !state.showHistory
+    },
+    setHistoryPanel(state, action: PayloadAction<boolean>) {
+      state.showHistory = action.payload
+    },
     // Multi-pane reducers
     toggleMultiPane(state, action: PayloadAction<WorkspaceId[] | undefined>) {
       state.multiPaneEnabled = !state.multiPaneEnabled
@@ -111,6 +135,9 @@ export const {
   setViewMode, setSplitRatio, togglePreviewSync,
   zoomIn, zoomOut, resetZoom,
   toggleOutline, toggleWorkspaceSidebar, setWorkspaceSidebar,
+  toggleSearch, setSearchSidebar,
+  toggleProblems, setProblemsPanel,
+  toggleHistory, setHistoryPanel,
   toggleMultiPane, setFocusedPane, addVisiblePane, removeVisiblePane,
   setPaneViewMode, setPaneSplitRatio
 } = layoutSlice.actions
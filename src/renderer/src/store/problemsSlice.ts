@@ -0,0 +1,64 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import type { LinkProblem, LinkCheckResult } from '../../../shared/workspace-types'
+
+interface ProblemsState {
+  rootPath: string | null // Workspace folder the problems were found in
+  problems: LinkProblem[]
+  result: Omit<LinkCheckResult, 'problems'> | null // Null until a check finishes
+  isChecking: boolean
+  offlineOnly: boolean
+}
+
+const initialState: ProblemsState = {
+  rootPath: null,
+  problems: [],
+  result: null,
+  isChecking: false,
+  offlineOnly: false
+}
+
+// Async thunk to check every link in a workspace folder
+export const checkLinks = createAsyncThunk(
+  'problems/checkLinks',
+  async (rootPath: string, { getState }) => {
+    const state = getState() as { problems: ProblemsState }
+    return window.electron.workspace.checkLinks(rootPath, { offlineOnly: state.problems.offlineOnly })
+  }
+)
+
+const problemsSlice = createSlice({
+  name: 'problems',
+  initialState,
+  reducers: {
+    setOfflineOnly(state, action: PayloadAction<boolean>) {
+      state.offlineOnly = action.payload
+    },
+    clearProblems(state) {
+      state.rootPath = null
+      state.problems = []
+      state.result = null
+    }
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(checkLinks.pending, (state, action) => {
+        state.rootPath = action.meta.arg
+        state.isChecking = true
+      })
+      .addCase(checkLinks.fulfilled, (state, action) => {
+        // Ignore a check that was superseded by one for another folder
+        if (action.meta.arg !== state.rootPath) return
+        const { problems, ...counts } = action.payload
+        state.problems = problems
+        state.result = counts
+        state.isChecking = false
+      })
+      .addCase(checkLinks.rejected, (state, action) => {
+        if (action.meta.arg !== state.rootPath) return
+        state.isChecking = false
+      })
+  }
+})
+
+export const { setOfflineOnly, clearProblems } = problemsSlice.actions
+export default problemsSlice.reducer
@@ -1,6 +1,20 @@
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit'
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit'
 import { SettingsSchema } from '../../../preload/electron'
 import { commands } from '../commands/registry'
+import type { HtmlSanitizationPolicy } from '../utils/html-sanitizer'
+import type { WorkspaceState, WorkspaceId } from '../../../shared/workspace-types'
+import {
+  DEFAULT_PDF_EXPORT_OPTIONS,
+  PdfExportOptions,
+  DEFAULT_EDITOR_OPTIONS,
+  EditorOptions,
+  DEFAULT_PREVIEW_TYPOGRAPHY,
+  PreviewTypography,
+  DEFAULT_IMAGE_SETTINGS,
+  ImageSettings,
+  ImageProcessingOptions,
+  AssetPathOptions
+} from '../../../shared/types'
 
 // Shortcut bindings map: commandId -> shortcut string
 export type ShortcutBindings = Record<string, string | null>
@@ -51,9 +65,24 @@ export interface SettingsState {
   }
 
   // Editor settings
-  editor: {
+  editor: EditorOptions & {
     vimMode: boolean
   }
+
+  // Preview settings
+  preview: {
+    htmlSanitization: 'strict' | 'github'
+    typography: PreviewTypography
+    customCssPath: string
+  }
+
+  // Image settings
+  images: ImageSettings
+
+  // Export settings, remembered between exports
+  export: {
+    pdf: PdfExportOptions
+  }
 }
 
 const initialState: SettingsState = {
@@ -73,7 +102,17 @@ const initialState: SettingsState = {
     splitRatio: 0.5
   },
   editor: {
+    ...DEFAULT_EDITOR_OPTIONS,
     vimMode: false
+  },
+  preview: {
+    htmlSanitization: 'github',
+    typography: DEFAULT_PREVIEW_TYPOGRAPHY,
+    customCssPath: ''
+  },
+  images: DEFAULT_IMAGE_SETTINGS,
+  export: {
+    pdf: DEFAULT_PDF_EXPORT_OPTIONS
   }
 }
 
@@ -117,6 +156,39 @@ export const saveEditorSettings = createAsyncThunk(
   }
 )
 
+// Async thunk to save preview settings
+export const savePreviewSettings = createAsyncThunk(
+  'settings/savePreview',
+  async (_: void, { getState }) => {
+    const state = getState() as { settings: SettingsState }
+    const preview = state.settings.preview
+    await window.electron.settings.set('preview', preview)
+    return preview
+  }
+)
+
+// Async thunk to save image settings
+export const saveImageSettings = createAsyncThunk(
+  'settings/saveImages',
+  async (_: void, { getState }) => {
+    const state = getState() as { settings: SettingsState }
+    const images = state.settings.images
+    await window.electron.settings.set('images', images)
+    return images
+  }
+)
+
+// Async thunk to save export settings
+export const saveExportSettings = createAsyncThunk(
+  'settings/saveExport',
+  async (_: void, { getState }) => {
+    const state = getState() as { settings: SettingsState }
+    const exportSettings = state.settings.export
+    await window.electron.settings.set('export', exportSettings)
+    return exportSettings
+  }
+)
+
 // Async thunk to save layout settings
 export const saveLayoutSettings = createAsyncThunk(
   'settings/saveLayout',
@@ -206,6 +278,33 @@ const settingsSlice = createSlice({
     // Editor actions
     setVimMode(state, action: PayloadAction<boolean>) {
       state.editor.vimMode = action.payload
+    },
+    setEditorOptions(state, action: PayloadAction<Partial<EditorOptions>>) {
+      state.editor = { ...state.editor, ...action.payload }
+    },
+
+    // Preview actions
+    setHtmlSanitization(state, action: PayloadAction<'strict' | 'github'>) {
+      state.preview.htmlSanitization = action.payload
+    },
+    setPreviewTypography(state, action: PayloadAction<Partial<PreviewTypography>>) {
+      state.preview.typography = { ...state.preview.typography, ...action.payload }
+    },
+    setCustomCssPath(state, action: PayloadAction<string>) {
+      state.preview.customCssPath = action.payload
+    },
+
+    // Image actions
+    setImageSettings(state, action: PayloadAction<Partial<ImageSettings>>) {
+      state.images = { ...state.images, ...action.payload }
+    },
+    setImageProcessing(state, action: PayloadAction<Partial<ImageProcessingOptions>>) {
+      state.images.processing = { ...state.images.processing, ...action.payload }
+    },
+
+    // Export actions
+    setPdfExportOptions(state, action: PayloadAction<PdfExportOptions>) {
+      state.export.pdf = action.payload
     }
   },
   extraReducers: (builder) => {
@@ -233,7 +332,24 @@ const settingsSlice = createSlice({
           state.layout = action.payload.layout
         }
         if (action.payload.editor) {
-          state.editor = action.payload.editor
+          state.editor = { ...state.editor, ...action.payload.editor }
+        }
+        if (action.payload.preview) {
+          state.preview = {
+            ...state.preview,
+            ...action.payload.preview,
+            typography: { ...state.preview.typography, ...action.payload.preview.typography }
+          }
+        }
+        if (action.payload.images) {
+          state.images = {
+            ...state.images,
+            ...action.payload.images,
+            processing: { ...state.images.processing, ...action.payload.images.processing }
+          }
+        }
+        if (action.payload.export?.pdf) {
+          state.export.pdf = { ...state.export.pdf, ...action.payload.export.pdf }
         }
       })
       .addCase(loadSettings.rejected, (state, action) => {
@@ -256,6 +372,18 @@ const settingsSlice = createSlice({
       .addCase(saveEditorSettings.fulfilled, (state, action) => {
         state.editor = action.payload
       })
+      // Save preview
+      .addCase(savePreviewSettings.fulfilled, (state, action) => {
+        state.preview = action.payload
+      })
+      // Save images
+      .addCase(saveImageSettings.fulfilled, (state, action) => {
+        state.images = action.payload
+      })
+      // Save export
+      .addCase(saveExportSettings.fulfilled, (state, action) => {
+        state.export = action.payload
+      })
   }
 })
 
@@ -273,7 +401,14 @@ export const {
   setPreviewSyncLocked,
   setSettingsSplitRatio,
   setPreferencesDialogBounds,
-  setVimMode
+  setVimMode,
+  setEditorOptions,
+  setHtmlSanitization,
+  setPreviewTypography,
+  setCustomCssPath,
+  setImageSettings,
+  setImageProcessing,
+  setPdfExportOptions
 } = settingsSlice.actions
 
 export default settingsSlice.reducer
@@ -306,6 +441,56 @@ export function selectVimMode(state: { settings: SettingsState }): boolean {
   return state.settings.editor?.vimMode ?? false
 }
 
+// Selector to get the editor options for documents in the given workspace:
+// the global preferences with the workspace's .wrangle/workspace.json overrides on top
+export const selectEditorOptions = createSelector(
+  [
+    (state: { settings: SettingsState }) => state.settings.editor,
+    (state: { workspaces: { workspaces: WorkspaceState[] } }, workspaceId: WorkspaceId | undefined) =>
+      state.workspaces.workspaces.find((w) => w.id === workspaceId)?.editorOverrides
+  ],
+  (editor, overrides): EditorOptions => {
+    const { vimMode: _vimMode, ...options } = editor
+    return { ...options, ...overrides }
+  }
+)
+
+// Selector to get the raw HTML policy for a document in the given workspace.
+// Trusted workspaces opt in via .wrangle/workspace.json; everything else uses the global setting.
+export function selectHtmlSanitizationPolicy(
+  state: { settings: SettingsState; workspaces: { workspaces: WorkspaceState[] } },
+  workspaceId: WorkspaceId | undefined
+): HtmlSanitizationPolicy {
+  const workspace = state.workspaces.workspaces.find((w) => w.id === workspaceId)
+  if (workspace?.trustHtml) {
+    return 'trusted'
+  }
+  return state.settings.preview?.htmlSanitization ?? 'github'
+}
+
+// Selector to get the processing for images being dropped or pasted; null when turned off
+export function selectImageProcessing(state: { settings: SettingsState }): ImageProcessingOptions | null {
+  const { optimize, processing } = state.settings.images
+  return optimize ? processing : null
+}
+
+// Selector to get where images added to documents in the given workspace are written:
+// the workspace's template from .wrangle/workspace.json, or the global one
+export const selectAssetPathOptions = createSelector(
+  [
+    (state: { settings: SettingsState }) => state.settings.images.assetPathTemplate,
+    (state: { workspaces: { workspaces: WorkspaceState[] } }, workspaceId: WorkspaceId | undefined) =>
+      state.workspaces.workspaces.find((w) => w.id === workspaceId)
+  ],
+  (template, workspace): AssetPathOptions => {
+    const workspaceRoot = workspace?.rootPath ?? null
+    if (workspaceRoot && workspace?.assetPathTemplate) {
+      return { template: workspace.assetPathTemplate, workspaceRoot, confineToWorkspace: true }
+    }
+    return { template, workspaceRoot, confineToWorkspace: false }
+  }
+)
+
 // Selector to get all available preset names
 export function selectAllPresetNames(state: { settings: SettingsState }): string[] {
   return [
@@ -3,13 +3,21 @@ import tabsReducer from './tabsSlice'
 import layoutReducer from './layoutSlice'
 import settingsReducer from './settingsSlice'
 import workspacesReducer from './workspacesSlice'
+import problemsReducer from './problemsSlice'
+import gitReducer from './gitSlice'
+import assetsReducer from './assetsSlice'
+import closeGuardReducer from './closeGuardSlice'
 
 export const store = configureStore({
   reducer: {
     tabs: tabsReducer,
     layout: layoutReducer,
     settings: settingsReducer,
-    workspaces: workspacesReducer
+    workspaces: workspacesReducer,
+    problems: problemsReducer,
+    git: gitReducer,
+    assets: assetsReducer,
+    closeGuard: closeGuardReducer
   }
 })
 
@@ -1,6 +1,16 @@
-import { createSlice, PayloadAction, createSelector } from '@reduxjs/toolkit'
+import { createSlice, PayloadAction, createSelector, createAsyncThunk } from '@reduxjs/toolkit'
 import { WorkspaceId, DEFAULT_WORKSPACE_ID } from '../../../shared/workspace-types'
+import { ExternalFileChange } from '../../../shared/types'
 import type { RootState } from './store'
+import { selectAssetPathOptions } from './settingsSlice'
+
+// A text range in Monaco's 1-based coordinates
+export interface EditorRange {
+  startLineNumber: number
+  startColumn: number
+  endLineNumber: number
+  endColumn: number
+}
 
 export interface TabDocument {
   id: string
@@ -12,6 +22,10 @@ export interface TabDocument {
   displayTitle?: string // H1 heading for unsaved files
   cursorPosition?: { lineNumber: number; column: number }
   scrollTop?: number
+  externalChange?: ExternalFileChange // Unresolved change made on disk by another program
+  contentVersion?: number // Bumped when content is replaced outside the editor
+  revealRange?: EditorRange // Range to select and scroll to (e.g. a search hit)
+  revealVersion?: number // Bumped each time revealRange is requested
 }
 
 interface TabsState {
@@ -71,6 +85,53 @@ const tabsSlice = createSlice({
       }
     },
 
+    // Replace a tab's content from outside the editor (reload from disk, merge result)
+    replaceTabContent(state, action: PayloadAction<{ id: string; content: string; isDirty: boolean }>) {
+      const tab = state.tabs.find((t) => t.id === action.payload.id)
+      if (tab) {
+        tab.content = action.payload.content
+        tab.isDirty = action.payload.isDirty
+        tab.externalChange = undefined
+        tab.contentVersion = (tab.contentVersion ?? 0) + 1
+      }
+    },
+
+    // Record or clear an unresolved external change for a tab
+    setTabExternalChange(
+      state,
+      action: PayloadAction<{ id: string; change: ExternalFileChange | undefined }>
+    ) {
+      const tab = state.tabs.find((t) => t.id === action.payload.id)
+      if (tab) {
+        tab.externalChange = action.payload.change
+      }
+    },
+
+    // Point tabs at a file's new location after it (or a folder containing it) was renamed or moved
+    moveTabPaths(state, action: PayloadAction<{ from: string; to: string }>) {
+      const { from, to } = action.payload
+      for (const tab of state.tabs) {
+        if (!tab.path) continue
+        const isMoved =
+          tab.path === from || tab.path.startsWith(`${from}/`) || tab.path.startsWith(`${from}\\`)
+        if (isMoved) {
+          tab.path = to + tab.path.slice(from.length)
+          tab.filename = tab.path.split(/[\\/]/).pop() || tab.filename
+        }
+      }
+    },
+
+    // Ask the editor showing this tab to select and scroll to a range
+    revealInTab(state, action: PayloadAction<{ id: string; range: EditorRange }>) {
+      const tab = state.tabs.find((t) => t.id === action.payload.id)
+      if (tab) {
+        const { range } = action.payload
+        tab.cursorPosition = { lineNumber: range.startLineNumber, column: range.startColumn }
+        tab.revealRange = range
+        tab.revealVersion = (tab.revealVersion ?? 0) + 1
+      }
+    },
+
     // Update cursor position for a tab
     updateTabPosition(
       state,
@@ -248,6 +309,10 @@ export const {
   closeTab,
   setActiveTab,
   updateTab,
+  replaceTabContent,
+  setTabExternalChange,
+  revealInTab,
+  moveTabPaths,
   updateTabPosition,
   updateTabScroll,
   moveTabToWorkspace,
@@ -260,4 +325,38 @@ export const {
   markSessionRestored
 } = tabsSlice.actions
 
+// Async thunk to save a tab under a path picked in the save dialog, suggesting a
+// name from its first heading. Images pasted into a never-saved tab move next to
+// the file. Resolves to false when the dialog is cancelled.
+export const saveTabAs = createAsyncThunk(
+  'tabs/saveAs',
+  async ({ tabId, content }: { tabId: string; content: string }, { dispatch, getState }) => {
+    const state = getState() as RootState
+    const tab = state.tabs.tabs.find((t) => t.id === tabId)
+    if (!tab) return false
+
+    const h1Match = content.match(/^#\s+(.+)$/m)
+    const suggestedName = h1Match
+      ? h1Match[1].trim().replace(/[^a-zA-Z0-9-_ ]/g, '').substring(0, 50)
+      : undefined
+
+    const filePath = await window.electron.file.saveAs(content, suggestedName)
+    if (!filePath) return false
+
+    // Move temp files of a previously unsaved tab to the saved location
+    const migratedContent = tab.path
+      ? null
+      : await window.electron.file.moveTempFiles(tab.id, filePath, selectAssetPathOptions(state, tab.workspaceId))
+
+    const filename = filePath.split(/[\\/]/).pop() || 'Untitled'
+    dispatch(updateTab({ id: tab.id, filename, content, path: filePath, isDirty: false }))
+
+    // Links to the moved images were rewritten in the saved file
+    if (migratedContent !== null && migratedContent !== content) {
+      dispatch(replaceTabContent({ id: tab.id, content: migratedContent, isDirty: false }))
+    }
+    return true
+  }
+)
+
 export default tabsSlice.reducer
@@ -19,7 +19,11 @@ const defaultWorkspace: WorkspaceState = {
   color: WORKSPACE_COLORS[0],
   rootPath: null,
   isExpanded: true,
-  showHiddenFiles: true
+  showHiddenFiles: true,
+  trustHtml: false,
+  editorOverrides: {},
+  previewCss: null,
+  assetPathTemplate: null
 }
 
 const initialState: WorkspacesState = {
@@ -139,6 +143,15 @@ export const selectNonDefaultWorkspaces = (state: RootState) => {
   return state.workspaces.workspaces.filter((w) => w.id !== DEFAULT_WORKSPACE_ID)
 }
 
+// Folder for workspace-wide tools: the expanded workspace, falling back to the active one
+export const selectToolRootPath = (state: RootState): string | null => {
+  const { workspaces, activeWorkspaceId } = state.workspaces
+  const workspace =
+    workspaces.find((w) => w.isExpanded && w.rootPath) ??
+    workspaces.find((w) => w.id === activeWorkspaceId && w.rootPath)
+  return workspace?.rootPath ?? null
+}
+
 // Find workspace that contains a given file path
 export const selectWorkspaceForPath = (state: RootState, filePath: string | undefined) => {
   if (!filePath) return selectDefaultWorkspace(state)
@@ -0,0 +1,33 @@
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Copy the preview with local images embedded as data URLs, so HTML taken
+ * out of the app keeps its images. wrangle-asset:// URLs only load in Wrangle.
+ */
+export async function cloneWithInlineImages(element: Element): Promise<Element> {
+  const clone = element.cloneNode(true) as Element
+  const images = Array.from(clone.querySelectorAll('img')).filter((img) =>
+    img.getAttribute('src')?.startsWith('wrangle-asset:')
+  )
+
+  await Promise.all(
+    images.map(async (img) => {
+      try {
+        const response = await fetch(img.src)
+        if (response.ok) {
+          img.src = await blobToDataUrl(await response.blob())
+        }
+      } catch (error) {
+        console.error('Failed to embed image:', error)
+      }
+    })
+  )
+  return clone
+}
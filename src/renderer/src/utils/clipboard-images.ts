@@ -0,0 +1,51 @@
+// File extensions for the image types the clipboard and data URLs carry
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+}
+
+const IMAGE_URL_PATH = /\.(png|jpe?g|gif|webp|svg|bmp|avif)$/i
+
+/**
+ * Get the image file on the clipboard, e.g. a screenshot or a browser's
+ * "Copy image". Office apps put a picture of the copied text next to the
+ * text itself, so clipboards that carry plain text are not image pastes.
+ */
+export function getClipboardImage(clipboard: DataTransfer): File | null {
+  if (clipboard.getData('text/plain').trim()) return null
+
+  for (const item of Array.from(clipboard.items)) {
+    if (item.kind === 'file' && IMAGE_EXTENSIONS[item.type]) {
+      return item.getAsFile()
+    }
+  }
+  return null
+}
+
+/**
+ * Get the pasted text if it is nothing but the web address of an image
+ */
+export function getClipboardImageUrl(clipboard: DataTransfer): string | null {
+  const text = clipboard.getData('text/plain').trim()
+  if (!/^https?:\/\/\S+$/i.test(text)) return null
+
+  try {
+    return IMAGE_URL_PATH.test(new URL(text).pathname) ? text : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Name a pasted image after the time it was pasted: image-20240131-154502.png
+ */
+export function getPastedImageName(extension: string, date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+  return `image-${day}-${time}.${extension}`
+}
@@ -7,29 +7,32 @@ export interface ValidationResult {
   errors: string[]
 }
 
-/**
- * Validate CSS syntax and structure for a theme
- */
-export function validateThemeCSS(css: string): ValidationResult {
-  const errors: string[] = []
-
-  if (!css.trim()) {
-    return { valid: false, errors: ['CSS content is empty'] }
-  }
-
-  // Check for balanced braces
+function checkBraces(css: string, errors: string[]): void {
   let braceCount = 0
   for (const char of css) {
     if (char === '{') braceCount++
     if (char === '}') braceCount--
     if (braceCount < 0) {
       errors.push('Unbalanced braces: extra closing brace found')
-      break
+      return
     }
   }
   if (braceCount > 0) {
     errors.push('Unbalanced braces: missing closing brace')
   }
+}
+
+/**
+ * Validate CSS syntax and structure for a theme
+ */
+export function validateThemeCSS(css: string): ValidationResult {
+  const errors: string[] = []
+
+  if (!css.trim()) {
+    return { valid: false, errors: ['CSS content is empty'] }
+  }
+
+  checkBraces(css, errors)
 
   // Check for :root[data-theme='...'] selector
   const themeSelector = /:root\[data-theme=['"][^'"]+['"]\]/
@@ -56,6 +59,41 @@ export function validateThemeCSS(css: string): ValidationResult {
   }
 }
 
+/**
+ * Validate a custom preview stylesheet. An empty file is fine; it just
+ * adds nothing.
+ */
+export function validatePreviewCSS(css: string): ValidationResult {
+  const errors: string[] = []
+
+  if (!css.trim()) {
+    return { valid: true, errors }
+  }
+
+  checkBraces(css, errors)
+
+  // The stylesheet is applied as text, so imports have nothing to resolve against
+  if (/@import\b/i.test(css)) {
+    errors.push('@import is not supported; copy the imported rules into the file')
+  }
+
+  try {
+    const styleSheet = new CSSStyleSheet()
+    styleSheet.replaceSync(css)
+
+    if (styleSheet.cssRules.length === 0) {
+      errors.push('No valid CSS rules found')
+    }
+  } catch (e) {
+    errors.push(`CSS syntax error: ${(e as Error).message}`)
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  }
+}
+
 /**
  * Extract the theme name from CSS content
  */
@@ -0,0 +1,57 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import type { Content, Parent, Root } from 'mdast'
+import { extractFrontMatter } from './markdown-renderer'
+
+type MdastNode = Root | Content
+
+export interface DocumentStats {
+  words: number
+  characters: number // Visible text, without line breaks
+  readingMinutes: number
+}
+
+// Average silent reading speed
+const WORDS_PER_MINUTE = 200
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu
+
+// Nodes that render no readable text
+const SKIPPED_NODE_TYPES = new Set(['html', 'math', 'inlineMath', 'definition', 'footnoteDefinition'])
+
+/**
+ * Count the words and characters a reader sees: front matter, markdown
+ * syntax, raw HTML and math are left out. Code is counted as written.
+ */
+export function getDocumentStats(markdown: string): DocumentStats {
+  const { content } = extractFrontMatter(markdown)
+  const tree = unified().use(remarkParse).use(remarkGfm).use(remarkMath).parse(content) as Root
+
+  const texts: string[] = []
+  const walk = (node: MdastNode) => {
+    if (SKIPPED_NODE_TYPES.has(node.type)) return
+    if (node.type === 'text' || node.type === 'inlineCode' || node.type === 'code') {
+      texts.push(node.value)
+      return
+    }
+    if ('children' in node) {
+      for (const child of (node as Parent).children) walk(child as MdastNode)
+    }
+  }
+  walk(tree)
+
+  let words = 0
+  let characters = 0
+  for (const text of texts) {
+    words += text.match(WORD_PATTERN)?.length ?? 0
+    characters += text.replace(/[\r\n]/g, '').length
+  }
+
+  return {
+    words,
+    characters,
+    readingMinutes: words > 0 ? Math.max(1, Math.round(words / WORDS_PER_MINUTE)) : 0
+  }
+}
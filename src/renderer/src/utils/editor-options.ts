@@ -0,0 +1,32 @@
+import { DEFAULT_EDITOR_OPTIONS, EditorOptions } from '../../../shared/types'
+
+/**
+ * Keep the editor overrides from a workspace.json that are known options of
+ * the right type. The file is edited by hand, so anything else is dropped.
+ */
+export function sanitizeEditorOverrides(value: unknown): Partial<EditorOptions> {
+  if (!value || typeof value !== 'object') return {}
+
+  const overrides: Record<string, unknown> = {}
+  for (const [key, option] of Object.entries(value)) {
+    if (!(key in DEFAULT_EDITOR_OPTIONS)) continue
+    const defaultValue = DEFAULT_EDITOR_OPTIONS[key as keyof EditorOptions]
+    const valid = Array.isArray(defaultValue)
+      ? Array.isArray(option) && option.every((item) => typeof item === 'number')
+      : typeof option === typeof defaultValue
+    if (valid) {
+      overrides[key] = option
+    }
+  }
+  return overrides as Partial<EditorOptions>
+}
+
+/**
+ * Parse a comma-separated list of ruler columns, e.g. "80, 120"
+ */
+export function parseRulers(text: string): number[] {
+  return text
+    .split(',')
+    .map((column) => parseInt(column.trim(), 10))
+    .filter((column) => Number.isInteger(column) && column > 0)
+}
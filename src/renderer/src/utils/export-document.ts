@@ -0,0 +1,42 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import type { Root } from 'mdast'
+import { extractFrontMatter } from './markdown-renderer'
+import type { ExportDocument, ExportMetadata } from '../../../shared/types'
+
+// Front matter values as text; lists such as several authors are joined
+function toMetadataText(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const items = value.map(toMetadataText).filter(Boolean)
+    return items.length > 0 ? items.join(', ') : undefined
+  }
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number') return String(value)
+  return undefined
+}
+
+/**
+ * Parse markdown into the syntax tree the DOCX, EPUB and LaTeX writers work
+ * from, with title, author, date and lang taken from front matter
+ */
+export function createExportDocument(markdown: string, filename: string, baseDir: string | null): ExportDocument {
+  const { content, data } = extractFrontMatter(markdown)
+  const tree = unified().use(remarkParse).use(remarkGfm).use(remarkMath).parse(content)
+
+  const metadata: ExportMetadata = {
+    title: toMetadataText(data.title),
+    author: toMetadataText(data.author ?? data.authors),
+    date: toMetadataText(data.date),
+    lang: toMetadataText(data.lang ?? data.language)
+  }
+
+  return {
+    // Only plain data crosses IPC; position info is not needed to export
+    tree: JSON.parse(JSON.stringify(tree, (key, value) => (key === 'position' ? undefined : value))) as Root,
+    name: filename.replace(/\.md$/, '') || 'Document',
+    metadata,
+    baseDir
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Pure helpers for patching the workspace file tree from watcher events
+ */
+
+import { FileTreeNode, FolderChange } from '../../../shared/workspace-types'
+
+/**
+ * Get the parent directory of a path (handles both / and \ separators)
+ */
+export function getParentPath(path: string): string {
+  const index = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'))
+  return index > 0 ? path.substring(0, index) : path
+}
+
+/**
+ * Get the last segment of a path
+ */
+export function getBaseName(path: string): string {
+  const index = Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\'))
+  return path.substring(index + 1)
+}
+
+/**
+ * Sort nodes the same way as the main process: directories first, then alphabetically
+ */
+export function sortTreeNodes(nodes: FileTreeNode[]): FileTreeNode[] {
+  return [...nodes].sort((a, b) => {
+    if (a.isDirectory && !b.isDirectory) return -1
+    if (!a.isDirectory && b.isDirectory) return 1
+    return a.name.localeCompare(b.name)
+  })
+}
+
+/**
+ * Check if `path` is strictly inside `ancestorPath`
+ */
+function isInsidePath(path: string, ancestorPath: string): boolean {
+  return path.startsWith(ancestorPath + '/') || path.startsWith(ancestorPath + '\\')
+}
+
+/**
+ * Add a node to a sibling list unless it is already there
+ */
+function addSibling(nodes: FileTreeNode[], node: FileTreeNode): FileTreeNode[] {
+  if (nodes.some((n) => n.path === node.path)) {
+    return nodes
+  }
+  return sortTreeNodes([...nodes, node])
+}
+
+/**
+ * Insert a node under its parent directory. Parents whose children are not
+ * loaded are skipped, since their contents are listed when they are loaded.
+ */
+function insertNode(nodes: FileTreeNode[], parentPath: string, node: FileTreeNode): FileTreeNode[] {
+  let changed = false
+  const next = nodes.map((n) => {
+    if (!n.isDirectory || !n.children) return n
+
+    let children = n.children
+    if (n.path === parentPath) {
+      children = addSibling(n.children, node)
+    } else if (isInsidePath(parentPath, n.path)) {
+      children = insertNode(n.children, parentPath, node)
+    }
+    if (children === n.children) return n
+
+    changed = true
+    return { ...n, children }
+  })
+
+  return changed ? next : nodes
+}
+
+/**
+ * Remove a node (and its subtree) by path
+ */
+function removeNode(nodes: FileTreeNode[], path: string): FileTreeNode[] {
+  const index = nodes.findIndex((n) => n.path === path)
+  if (index !== -1) {
+    return [...nodes.slice(0, index), ...nodes.slice(index + 1)]
+  }
+
+  let changed = false
+  const next = nodes.map((n) => {
+    if (!n.isDirectory || !n.children || !isInsidePath(path, n.path)) return n
+
+    const children = removeNode(n.children, path)
+    if (children === n.children) return n
+
+    changed = true
+    return { ...n, children }
+  })
+
+  return changed ? next : nodes
+}
+
+/**
+ * Apply a batch of watcher changes to the tree, touching only affected nodes.
+ * `dirChildren` holds the listing of each added directory.
+ */
+export function applyFolderChanges(
+  tree: FileTreeNode[],
+  rootPath: string,
+  changes: FolderChange[],
+  dirChildren: Map<string, FileTreeNode[]>
+): FileTreeNode[] {
+  let next = tree
+
+  for (const change of changes) {
+    switch (change.type) {
+      case 'add':
+      case 'addDir': {
+        const isDirectory = change.type === 'addDir'
+        const node: FileTreeNode = {
+          name: getBaseName(change.path),
+          path: change.path,
+          isDirectory
+        }
+        if (isDirectory) {
+          node.children = dirChildren.get(change.path) ?? []
+        }
+        const parentPath = getParentPath(change.path)
+        next =
+          parentPath === rootPath
+            ? addSibling(next, node)
+            : insertNode(next, parentPath, node)
+        break
+      }
+      case 'unlink':
+      case 'unlinkDir':
+        next = removeNode(next, change.path)
+        break
+      case 'change':
+        // Content changes don't affect the tree structure
+        break
+    }
+  }
+
+  return next
+}
@@ -0,0 +1,33 @@
+/**
+ * Lines of the editor that differ from the committed version, for the diff gutter
+ */
+
+import { diffLines } from './three-way-merge'
+
+export interface LineChange {
+  kind: 'added' | 'modified' | 'deleted'
+  startLineNumber: number // 1-based, in the current content
+  endLineNumber: number // Deletions mark the line above the removed lines
+}
+
+export function getLineChanges(headContent: string, content: string): LineChange[] {
+  const hunks = diffLines(headContent.split(/\r?\n/), content.split(/\r?\n/))
+
+  // Lines added or removed by earlier hunks shift later ones in the current content
+  let shift = 0
+  return hunks.map((hunk) => {
+    const startLineNumber = hunk.start + shift + 1
+    const removed = hunk.end - hunk.start
+    shift += hunk.lines.length - removed
+
+    if (hunk.lines.length === 0) {
+      const lineNumber = Math.max(startLineNumber - 1, 1)
+      return { kind: 'deleted', startLineNumber: lineNumber, endLineNumber: lineNumber }
+    }
+    return {
+      kind: removed === 0 ? 'added' : 'modified',
+      startLineNumber,
+      endLineNumber: startLineNumber + hunk.lines.length - 1
+    }
+  })
+}
@@ -0,0 +1,59 @@
+/**
+ * Helpers for showing git status in the file tree and source control panel
+ */
+
+import { getParentPath } from './file-tree'
+import type { GitFileState, GitStatus } from '../../../shared/workspace-types'
+
+// Badge letters; ignored files are dimmed instead
+export const GIT_STATE_LETTERS: Record<GitFileState, string> = {
+  modified: 'M',
+  added: 'A',
+  deleted: 'D',
+  renamed: 'R',
+  untracked: 'U',
+  ignored: '',
+  conflicted: 'C'
+}
+
+export interface GitDecorations {
+  states: Map<string, GitFileState>
+  changedFolders: Set<string> // Folders containing changed or untracked files
+  wholeFolders: { path: string; state: GitFileState }[] // Untracked or ignored as a whole
+}
+
+export function buildGitDecorations(status: GitStatus | null | undefined): GitDecorations {
+  const decorations: GitDecorations = { states: new Map(), changedFolders: new Set(), wholeFolders: [] }
+  if (!status) return decorations
+
+  for (const file of status.files) {
+    decorations.states.set(file.path, file.state)
+    if (file.isDirectory) {
+      decorations.wholeFolders.push({ path: file.path, state: file.state })
+    }
+    if (file.state === 'ignored') continue
+
+    let folder = getParentPath(file.path)
+    while (folder.length >= status.repoRoot.length && !decorations.changedFolders.has(folder)) {
+      decorations.changedFolders.add(folder)
+      const parent = getParentPath(folder)
+      if (parent === folder) break
+      folder = parent
+    }
+  }
+  return decorations
+}
+
+/**
+ * The state to show for a path, inherited from an untracked or ignored folder
+ */
+export function getGitState(decorations: GitDecorations, path: string): GitFileState | null {
+  const state = decorations.states.get(path)
+  if (state) return state
+  for (const folder of decorations.wholeFolders) {
+    if (path.startsWith(folder.path + '/') || path.startsWith(folder.path + '\\')) {
+      return folder.state
+    }
+  }
+  return null
+}
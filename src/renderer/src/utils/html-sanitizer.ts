@@ -0,0 +1,134 @@
+import { sanitize, defaultSchema } from 'hast-util-sanitize'
+import type { Schema } from 'hast-util-sanitize'
+import { visit } from 'unist-util-visit'
+import type { Root, Element } from 'hast'
+
+/**
+ * How much raw HTML embedded in markdown is allowed through to the preview.
+ * - strict: only the elements markdown itself produces
+ * - github: the GitHub-equivalent allowlist (default)
+ * - trusted: broad HTML for trusted workspaces; scripts, event handlers and
+ *   javascript: URLs are still removed
+ */
+export type HtmlSanitizationPolicy = 'strict' | 'github' | 'trusted'
+
+// Attributes added by remarkSourcePositions for editor <-> preview mapping
+const SOURCE_POSITION_ATTRIBUTES = ['dataSourceStart', 'dataSourceEnd', 'dataTextStart', 'dataTextEnd']
+
+// remark-math output that rehype-katex looks for (KaTeX runs after sanitization)
+const CODE_CLASS_NAMES: NonNullable<Schema['attributes']>[string] = [
+  ['className', /^language-./, 'math-inline', 'math-display']
+]
+
+// Local images are referenced by path, file: URL, or pasted as data: URLs
+const IMAGE_PROTOCOLS = ['http', 'https', 'file', 'data']
+
+const DEFAULT_ATTRIBUTES = defaultSchema.attributes ?? {}
+
+// Footnote links plus the [[wiki links]] produced by remarkWikiLinks. hast-util-sanitize
+// uses the first className definition it finds, so the allowed classes share one entry.
+const LINK_ATTRIBUTES: NonNullable<Schema['attributes']>[string] = [
+  ...(DEFAULT_ATTRIBUTES.a ?? []).filter((entry) => typeof entry === 'string' || entry[0] !== 'className'),
+  ['className', 'data-footnote-backref', 'wiki-link', 'wiki-link-missing'],
+  'dataWikiPath',
+  'dataWikiHeading'
+]
+
+const CLOBBER_PREFIX = defaultSchema.clobberPrefix ?? 'user-content-'
+
+const githubSchema: Schema = {
+  ...defaultSchema,
+  attributes: {
+    ...DEFAULT_ATTRIBUTES,
+    '*': [...(DEFAULT_ATTRIBUTES['*'] ?? []), ...SOURCE_POSITION_ATTRIBUTES],
+    a: LINK_ATTRIBUTES,
+    code: CODE_CLASS_NAMES
+  },
+  protocols: {
+    ...defaultSchema.protocols,
+    src: IMAGE_PROTOCOLS
+  }
+}
+
+const strictSchema: Schema = {
+  ...defaultSchema,
+  tagNames: [
+    'a', 'blockquote', 'br', 'code', 'del', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'hr', 'img', 'input', 'li', 'ol', 'p', 'pre', 'section', 'strong', 'sup',
+    'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul'
+  ],
+  attributes: {
+    '*': ['id', ...SOURCE_POSITION_ATTRIBUTES],
+    a: [...LINK_ATTRIBUTES, 'title'],
+    code: CODE_CLASS_NAMES,
+    h2: DEFAULT_ATTRIBUTES.h2,
+    img: ['alt', 'src', 'title'],
+    input: ['checked', 'disabled', 'type'],
+    li: DEFAULT_ATTRIBUTES.li,
+    ol: DEFAULT_ATTRIBUTES.ol,
+    section: DEFAULT_ATTRIBUTES.section,
+    td: ['align'],
+    th: ['align'],
+    ul: DEFAULT_ATTRIBUTES.ul
+  },
+  protocols: {
+    href: ['http', 'https', 'mailto'],
+    src: IMAGE_PROTOCOLS
+  }
+}
+
+const trustedSchema: Schema = {
+  ...githubSchema,
+  tagNames: [
+    ...(githubSchema.tagNames ?? []),
+    'abbr', 'audio', 'center', 'cite', 'figcaption', 'figure', 'font', 'iframe',
+    'mark', 'small', 'source', 'span', 'track', 'u', 'video'
+  ],
+  attributes: {
+    ...githubSchema.attributes,
+    '*': [...(githubSchema.attributes?.['*'] ?? []), 'className', 'style'],
+    audio: ['autoPlay', 'controls', 'loop', 'muted', 'preload', 'src'],
+    font: ['color', 'face', 'size'],
+    iframe: ['allow', 'allowFullScreen', 'frameBorder', 'height', 'loading', 'src', 'title', 'width'],
+    source: ['media', 'sizes', 'src', 'srcSet', 'type'],
+    track: ['default', 'kind', 'label', 'src', 'srcLang'],
+    video: ['autoPlay', 'controls', 'height', 'loop', 'muted', 'playsInline', 'poster', 'preload', 'src', 'width']
+  },
+  protocols: {
+    ...githubSchema.protocols,
+    href: [...(githubSchema.protocols?.href ?? []), 'file'],
+    poster: IMAGE_PROTOCOLS
+  }
+}
+
+const SCHEMAS: Record<HtmlSanitizationPolicy, Schema> = {
+  strict: strictSchema,
+  github: githubSchema,
+  trusted: trustedSchema
+}
+
+export function getSanitizeSchema(policy: HtmlSanitizationPolicy): Schema {
+  return SCHEMAS[policy] ?? githubSchema
+}
+
+/**
+ * Rehype plugin that sanitizes the tree against the given policy.
+ * Must run after rehypeRaw and before plugins that generate trusted markup
+ * (KaTeX, highlight, source positions).
+ */
+export function rehypeSanitizeHtml(options: { policy: HtmlSanitizationPolicy }) {
+  const schema = getSanitizeSchema(options.policy)
+
+  return (tree: Root): Root => {
+    // GFM footnote ids already carry the clobber prefix from remark-rehype;
+    // strip it so sanitizing doesn't prefix them twice and break the links
+    visit(tree, 'element', (node: Element) => {
+      const id = node.properties?.id
+      if (typeof id === 'string' && id.startsWith(CLOBBER_PREFIX)) {
+        node.properties.id = id.slice(CLOBBER_PREFIX.length)
+      }
+    })
+
+    return sanitize(tree, schema) as Root
+  }
+}
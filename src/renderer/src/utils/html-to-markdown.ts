@@ -0,0 +1,428 @@
+// Converts HTML copied from browsers, Google Docs and Word into GitHub-flavored markdown
+
+interface Block {
+  text: string
+  list?: boolean
+}
+
+interface Context {
+  // Saved paths for embedded data: URL images; images missing here are dropped
+  imagePaths: Map<string, string>
+  inTable: boolean
+  bold: boolean
+  italic: boolean
+  strike: boolean
+}
+
+// Never pasted, content included
+const SKIPPED_ELEMENTS = new Set([
+  'script', 'style', 'head', 'meta', 'title', 'link', 'noscript', 'template',
+  'iframe', 'object', 'embed', 'svg', 'canvas', 'button', 'select', 'textarea', 'input'
+])
+
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'center', 'dd', 'details', 'dialog',
+  'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul'
+])
+
+// Marks a hard line break until the block's whitespace has been tidied
+const HARD_BREAK = '\\\n'
+
+function isBlock(node: Node): node is Element {
+  return node.nodeType === Node.ELEMENT_NODE && BLOCK_ELEMENTS.has((node as Element).localName)
+}
+
+function containsBlock(element: Element): boolean {
+  return Array.from(element.children).some((child) => isBlock(child) || containsBlock(child))
+}
+
+function getStyle(element: Element): string {
+  return (element.getAttribute('style') ?? '').toLowerCase()
+}
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]<])/g, '\\$1')
+}
+
+// Text at the start of a line that would otherwise become a heading, quote, list or rule
+function escapeLineStarts(text: string): string {
+  return text
+    .replace(/^(#{1,6}(?=\s|$)|>|[-+](?=\s)|-+$|=+$)/gm, '\\$1')
+    .replace(/^(\d+)([.)])(?=\s)/gm, '$1\\$2')
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ')
+}
+
+/**
+ * Surround content with an emphasis marker, keeping outer whitespace outside
+ * so the markers are recognized
+ */
+function wrap(content: string, marker: string): string {
+  if (!content.trim()) return content
+  const leading = content.match(/^\s*/)![0]
+  const trailing = content.match(/\s*$/)![0]
+  return `${leading}${marker}${content.trim()}${marker}${trailing}`
+}
+
+function codeSpan(code: string): string {
+  const text = collapseWhitespace(code)
+  if (!text.trim()) return text
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const fence = '`'.repeat(longestRun + 1)
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : ''
+  return `${fence}${padding}${text}${padding}${fence}`
+}
+
+function escapeUrl(url: string): string {
+  return url.trim().replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')
+}
+
+function formatTitle(element: Element): string {
+  const title = element.getAttribute('title')
+  return title ? ` "${title.replace(/"/g, '\\"')}"` : ''
+}
+
+function convertImage(element: Element, ctx: Context): string {
+  let src = element.getAttribute('src')?.trim() ?? ''
+  if (src.startsWith('data:')) {
+    src = ctx.imagePaths.get(src) ?? ''
+  }
+  if (!src) return ''
+  const alt = collapseWhitespace(element.getAttribute('alt') ?? '').trim().replace(/([[\]\\])/g, '\\$1')
+  return `![${alt}](${escapeUrl(src)}${formatTitle(element)})`
+}
+
+function convertLink(element: Element, ctx: Context): string {
+  const text = convertInlineChildren(element, ctx)
+  const href = element.getAttribute('href')?.trim()
+  if (!href || /^javascript:/i.test(href) || !text.trim()) return text
+  if (text === escapeText(href) && /^https?:\/\//i.test(href)) return `<${href}>`
+  return wrapLink(text, `${escapeUrl(href)}${formatTitle(element)}`)
+}
+
+function wrapLink(text: string, target: string): string {
+  const leading = text.match(/^\s*/)![0]
+  const trailing = text.match(/\s*$/)![0]
+  return `${leading}[${text.trim()}](${target})${trailing}`
+}
+
+function convertInlineChildren(element: Element, ctx: Context): string {
+  return Array.from(element.childNodes, (child) => convertInline(child, ctx)).join('')
+}
+
+/**
+ * Convert phrasing content. Inline styles count as well as tags, since
+ * Google Docs and Word mark emphasis on spans.
+ */
+function convertInline(node: Node, ctx: Context): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeText(collapseWhitespace((node as Text).data))
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+  const element = node as Element
+  const name = element.localName
+  const style = getStyle(element)
+  if (SKIPPED_ELEMENTS.has(name) || /mso-list:\s*ignore/.test(style) || /display:\s*none/.test(style)) {
+    return ''
+  }
+
+  switch (name) {
+    case 'br':
+      return ctx.inTable ? '<br>' : HARD_BREAK
+    case 'img':
+      return convertImage(element, ctx)
+    case 'a':
+      return convertLink(element, ctx)
+    case 'code':
+    case 'kbd':
+    case 'samp':
+    case 'tt':
+      return codeSpan(element.textContent ?? '')
+    case 'sup':
+    case 'sub':
+      return `<${name}>${convertInlineChildren(element, ctx)}</${name}>`
+  }
+
+  const fontWeight = style.match(/font-weight:\s*(\w+)/)?.[1]
+  const bold =
+    fontWeight !== undefined
+      ? fontWeight === 'bold' || fontWeight === 'bolder' || Number(fontWeight) >= 600
+      : name === 'strong' || name === 'b'
+  const italic = /font-style:\s*normal/.test(style)
+    ? false
+    : name === 'em' || name === 'i' || name === 'cite' || name === 'dfn' || /font-style:\s*italic/.test(style)
+  const strike = name === 'del' || name === 's' || name === 'strike' || /text-decoration[^;]*line-through/.test(style)
+
+  // Code pasted from documents is only marked by its font
+  if (/font-family:[^;]*(courier|monospace|consolas|menlo)/.test(style) && !element.querySelector('img')) {
+    return codeSpan(element.textContent ?? '')
+  }
+
+  const innerCtx = { ...ctx, bold: ctx.bold || bold, italic: ctx.italic || italic, strike: ctx.strike || strike }
+  let content = convertInlineChildren(element, innerCtx)
+  if (strike && !ctx.strike) content = wrap(content, '~~')
+  if (italic && !ctx.italic) content = wrap(content, '*')
+  if (bold && !ctx.bold) content = wrap(content, '**')
+  return content
+}
+
+/**
+ * Tidy a paragraph's inline markdown: no whitespace around hard breaks, and
+ * none at the start or end
+ */
+function finishParagraph(text: string, escapeStarts = true): string {
+  const tidied = text
+    .replace(/[ \t]*\\\n[ \t]*/g, HARD_BREAK)
+    .replace(/^(\s|\\\n)+/, '')
+    .replace(/(\s|\\\n)+$/, '')
+  return escapeStarts ? escapeLineStarts(tidied) : tidied
+}
+
+function getWordListLevel(node: Node): number | null {
+  if (node.nodeType !== Node.ELEMENT_NODE) return null
+  const match = getStyle(node as Element).match(/mso-list:\s*l\d+\s+level(\d+)/)
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * Word pastes lists as paragraphs with an mso-list style and the bullet or
+ * number as text in an ignored span
+ */
+function convertWordList(paragraphs: Element[], ctx: Context): Block {
+  const counters: number[] = []
+  const indents: number[] = [0]
+  const lines = paragraphs.map((paragraph) => {
+    const level = getWordListLevel(paragraph) ?? 1
+    const markerSpan = Array.from(paragraph.querySelectorAll('span')).find((span) =>
+      /mso-list:\s*ignore/.test(getStyle(span))
+    )
+    const ordered = /^\(?[\w]+[.)]$/.test(collapseWhitespace(markerSpan?.textContent ?? '').trim())
+
+    counters.length = level
+    counters[level - 1] = (counters[level - 1] ?? 0) + 1
+    const marker = ordered ? `${counters[level - 1]}.` : '-'
+    const indent = indents[level - 1] ?? 0
+    indents.length = level
+    indents[level] = indent + marker.length + 1
+
+    const text = finishParagraph(convertInlineChildren(paragraph, ctx), false).replace(/\\\n/g, ' ')
+    return `${' '.repeat(indent)}${marker} ${text}`
+  })
+  return { text: lines.join('\n'), list: true }
+}
+
+function convertList(element: Element, ctx: Context): Block {
+  const ordered = element.localName === 'ol'
+  const start = Number(element.getAttribute('start')) || 1
+
+  // A list nested directly in a list (invalid, but common) belongs to the item before it
+  const items: { blocks: Block[]; checkbox: Element | null }[] = []
+  for (const child of Array.from(element.children)) {
+    if (child.localName === 'li') {
+      const checkbox = child.querySelector(':scope > input[type="checkbox"], :scope > p:first-child > input[type="checkbox"]')
+      items.push({ blocks: convertContainer(child, ctx), checkbox })
+    } else if ((child.localName === 'ul' || child.localName === 'ol') && items.length > 0) {
+      items[items.length - 1].blocks.push(convertList(child, ctx))
+    }
+  }
+
+  const loose = items.some(({ blocks }) => blocks.filter((block) => !block.list).length > 1)
+  const text = items
+    .map(({ blocks, checkbox }, index) => {
+      const marker = ordered ? `${start + index}.` : '-'
+      const task = checkbox ? `[${checkbox.hasAttribute('checked') ? 'x' : ' '}] ` : ''
+      const indent = ' '.repeat(marker.length + 1)
+      const lines = blocks.map((block) => block.text).join(loose ? '\n\n' : '\n').split('\n')
+      return [`${marker} ${task}${lines[0]}`, ...lines.slice(1).map((line) => (line ? indent + line : ''))].join('\n')
+    })
+    .join(loose ? '\n\n' : '\n')
+  return { text, list: true }
+}
+
+function getCodeLanguage(element: Element | null): string {
+  for (let current = element; current; current = current.parentElement) {
+    const match = current.className.match(/(?:^|\s)(?:language|lang|highlight-source)-([\w+#-]+)/)
+    if (match) return match[1]
+  }
+  return ''
+}
+
+// Code text, with <br> and line elements (as some sites use) as newlines
+function getPreText(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return (node as Text).data
+  if (node.nodeType !== Node.ELEMENT_NODE) return ''
+  const element = node as Element
+  if (element.localName === 'br') return '\n'
+  const text = Array.from(element.childNodes, getPreText).join('')
+  return isBlock(element) && !text.endsWith('\n') ? `${text}\n` : text
+}
+
+function convertCodeBlock(element: Element): Block {
+  const code = Array.from(element.childNodes, getPreText).join('').replace(/\n$/, '')
+  const longestRun = Math.max(0, ...(code.match(/`{3,}/g) ?? []).map((run) => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  const language = getCodeLanguage(element.querySelector('code')) || getCodeLanguage(element)
+  return { text: `${fence}${language}\n${code}\n${fence}` }
+}
+
+function getCellAlignment(cell: Element): string {
+  const align = (cell.getAttribute('align') ?? getStyle(cell).match(/text-align:\s*(\w+)/)?.[1] ?? '').toLowerCase()
+  if (align === 'center') return ':---:'
+  if (align === 'right') return '---:'
+  return '---'
+}
+
+function convertTable(element: Element, ctx: Context): Block {
+  const rows = Array.from(element.querySelectorAll('tr')).filter((row) => row.closest('table') === element)
+  if (rows.length === 0) return { text: '' }
+
+  const cellCtx = { ...ctx, inTable: true }
+  const grid = rows.map((row) =>
+    Array.from(row.children)
+      .filter((cell) => cell.localName === 'td' || cell.localName === 'th')
+      .flatMap((cell) => {
+        const text = convertContainer(cell, cellCtx)
+          .map((block) => block.text.replace(/\n+/g, ' '))
+          .join('<br>')
+          .replace(/\|/g, '\\|')
+        const span = Math.max(1, Number(cell.getAttribute('colspan')) || 1)
+        return [text, ...Array<string>(span - 1).fill('')]
+      })
+  )
+
+  const columns = Math.max(...grid.map((cells) => cells.length))
+  if (columns === 0) return { text: '' }
+  const headerCells = Array.from(rows[0].children).filter((cell) => cell.localName === 'td' || cell.localName === 'th')
+  const alignments = Array.from({ length: columns }, (_, index) =>
+    headerCells[index] ? getCellAlignment(headerCells[index]) : '---'
+  )
+
+  const formatRow = (cells: string[]): string =>
+    `| ${Array.from({ length: columns }, (_, index) => cells[index] ?? '').join(' | ')} |`
+  const lines = [formatRow(grid[0]), `| ${alignments.join(' | ')} |`, ...grid.slice(1).map(formatRow)]
+  return { text: lines.join('\n') }
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? prefix + line : prefix.trimEnd()))
+    .join('\n')
+}
+
+function convertBlock(element: Element, ctx: Context): Block[] {
+  const name = element.localName
+  if (SKIPPED_ELEMENTS.has(name) || /display:\s*none/.test(getStyle(element))) return []
+
+  switch (name) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      // Emphasis is implied by the heading
+      const text = finishParagraph(convertInlineChildren(element, { ...ctx, bold: true }), false).replace(/\\\n/g, ' ')
+      return text ? [{ text: `${'#'.repeat(Number(name[1]))} ${text}` }] : []
+    }
+    case 'ul':
+    case 'ol':
+      return [convertList(element, ctx)]
+    case 'li': {
+      // Outside a list, e.g. when only part of a list was copied
+      const text = convertContainer(element, ctx).map((block) => block.text).join('\n')
+      return text ? [{ text: `- ${text.replace(/\n(?=.)/g, '\n  ')}`, list: true }] : []
+    }
+    case 'pre':
+      return [convertCodeBlock(element)]
+    case 'table':
+      return [convertTable(element, ctx)]
+    case 'hr':
+      return [{ text: '---' }]
+    case 'blockquote': {
+      const text = convertContainer(element, ctx).map((block) => block.text).join('\n\n')
+      return text ? [{ text: prefixLines(text, '> ') }] : []
+    }
+    case 'dt': {
+      const text = finishParagraph(convertInlineChildren(element, ctx))
+      return text ? [{ text: wrap(text, '**') }] : []
+    }
+    default:
+      return convertContainer(element, ctx)
+  }
+}
+
+/**
+ * Convert an element's children to blocks; runs of inline content between
+ * block elements become paragraphs
+ */
+function convertContainer(element: Element, ctx: Context): Block[] {
+  const blocks: Block[] = []
+  let inline = ''
+  const flush = (): void => {
+    const text = finishParagraph(inline)
+    if (text) blocks.push({ text })
+    inline = ''
+  }
+
+  const children = Array.from(element.childNodes)
+  for (let index = 0; index < children.length; index++) {
+    const child = children[index]
+
+    if (getWordListLevel(child) !== null) {
+      flush()
+      const paragraphs: Element[] = []
+      while (index < children.length) {
+        const next = children[index]
+        if (getWordListLevel(next) !== null) {
+          paragraphs.push(next as Element)
+        } else if (next.nodeType === Node.ELEMENT_NODE || (next.nodeType === Node.TEXT_NODE && (next as Text).data.trim())) {
+          break
+        }
+        index++
+      }
+      index--
+      blocks.push(convertWordList(paragraphs, ctx))
+    } else if (isBlock(child)) {
+      flush()
+      blocks.push(...convertBlock(child, ctx))
+    } else if (child.nodeType === Node.ELEMENT_NODE && containsBlock(child as Element)) {
+      // Inline wrappers around blocks, like Google Docs' outer <b>
+      flush()
+      blocks.push(...convertContainer(child as Element, ctx))
+    } else {
+      inline += convertInline(child, ctx)
+    }
+  }
+  flush()
+  return blocks.filter((block) => block.text)
+}
+
+/**
+ * Sources of images embedded in the HTML as data: URLs, to be saved as files
+ * before converting
+ */
+export function findEmbeddedImages(html: string): string[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const sources = Array.from(doc.querySelectorAll('img'), (img) => img.getAttribute('src')?.trim() ?? '')
+  return Array.from(new Set(sources.filter((src) => /^data:image\//i.test(src))))
+}
+
+/**
+ * Convert clipboard HTML to GitHub-flavored markdown. Embedded images are
+ * linked by the paths in imagePaths; remote images and links are kept as URLs.
+ */
+export function htmlToMarkdown(html: string, imagePaths: Map<string, string> = new Map()): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const ctx: Context = { imagePaths, inTable: false, bold: false, italic: false, strike: false }
+  return convertContainer(doc.body, ctx)
+    .map((block) => block.text)
+    .join('\n\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
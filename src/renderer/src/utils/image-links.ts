@@ -0,0 +1,41 @@
+// A markdown image: ![alt](src "title"), with the src optionally in <angle brackets>
+const MARKDOWN_IMAGE_PATTERN = /(!\[(?:[^\]\\\n]|\\.)*\]\(\s*)(<[^>\n]*>|[^\s)]+)(?:\s+(?:"[^"\n]*"|'[^'\n]*'))?\s*\)/g
+
+// An HTML image with a quoted src
+const HTML_IMAGE_PATTERN = /(<img\b[^>]*?\ssrc\s*=\s*(["']))([^"'\n]*)\2[^>]*>/gi
+
+export interface ImageLinkMatch {
+  src: string
+  // 1-based columns of the src on its line, end exclusive
+  startColumn: number
+  endColumn: number
+}
+
+/**
+ * Find the image link (markdown or <img>) that a cursor column on a line is in
+ */
+export function findImageLinkAt(line: string, column: number): ImageLinkMatch | null {
+  const offset = column - 1
+
+  for (const match of line.matchAll(MARKDOWN_IMAGE_PATTERN)) {
+    const start = match.index!
+    if (offset < start || offset > start + match[0].length) continue
+
+    const target = match[2]
+    const angled = target.startsWith('<')
+    const src = angled ? target.slice(1, -1) : target
+    const srcStart = start + match[1].length + (angled ? 1 : 0)
+    return { src, startColumn: srcStart + 1, endColumn: srcStart + src.length + 1 }
+  }
+
+  for (const match of line.matchAll(HTML_IMAGE_PATTERN)) {
+    const start = match.index!
+    if (offset < start || offset > start + match[0].length) continue
+
+    const src = match[3]
+    const srcStart = start + match[1].length
+    return { src, startColumn: srcStart + 1, endColumn: srcStart + src.length + 1 }
+  }
+
+  return null
+}
@@ -0,0 +1,304 @@
+export type TableAlignment = 'none' | 'left' | 'center' | 'right'
+
+export interface MarkdownTable {
+  header: string[]
+  alignments: TableAlignment[]
+  rows: string[][]
+}
+
+// First and last line of a table, 0-based and inclusive
+export interface TableLocation {
+  startLine: number
+  endLine: number
+}
+
+const DELIMITER_CELL = /^:?-+:?$/
+
+// East Asian wide and fullwidth characters take two columns in a monospace font
+const WIDE_CHARACTER = /[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/
+
+function displayWidth(text: string): number {
+  let width = 0
+  for (const char of text) {
+    width += WIDE_CHARACTER.test(char) ? 2 : 1
+  }
+  return width
+}
+
+function getIndent(line: string): string {
+  return /^[ \t]*/.exec(line)![0]
+}
+
+/**
+ * Positions of the pipes that separate cells. Escaped pipes (\|) belong to
+ * the cell text, as GFM requires even inside code spans.
+ */
+function findPipes(line: string): number[] {
+  const pipes: number[] = []
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '\\') {
+      i++
+    } else if (line[i] === '|') {
+      pipes.push(i)
+    }
+  }
+  return pipes
+}
+
+/**
+ * Split a table row into trimmed cell texts, ignoring the outer pipes
+ */
+export function splitTableRow(line: string): string[] {
+  const text = line.trim()
+  const pipes = findPipes(text)
+  const bounds = [-1, ...pipes, text.length]
+  const cells: string[] = []
+  for (let i = 0; i < bounds.length - 1; i++) {
+    cells.push(text.slice(bounds[i] + 1, bounds[i + 1]).trim())
+  }
+  if (pipes[0] === 0) cells.shift()
+  if (pipes.length > 0 && pipes[pipes.length - 1] === text.length - 1) cells.pop()
+  return cells
+}
+
+export function isTableRow(line: string): boolean {
+  const text = line.trim()
+  return text !== '' && !text.startsWith('>') && findPipes(text).length > 0
+}
+
+function isDelimiterRow(line: string): boolean {
+  if (!isTableRow(line)) return false
+  const cells = splitTableRow(line)
+  return cells.length > 0 && cells.every((cell) => DELIMITER_CELL.test(cell))
+}
+
+function parseAlignment(cell: string): TableAlignment {
+  const left = cell.startsWith(':')
+  const right = cell.endsWith(':')
+  if (left && right) return 'center'
+  if (right) return 'right'
+  if (left) return 'left'
+  return 'none'
+}
+
+/**
+ * Find the table containing a line: a run of pipe rows whose second line is
+ * a delimiter row
+ */
+export function findTable(lines: string[], lineIndex: number): TableLocation | null {
+  if (!isTableRow(lines[lineIndex] ?? '')) return null
+
+  let startLine = lineIndex
+  while (startLine > 0 && isTableRow(lines[startLine - 1])) startLine--
+  let endLine = lineIndex
+  while (endLine < lines.length - 1 && isTableRow(lines[endLine + 1])) endLine++
+
+  // A run of rows can hold more than one table; pick the one around the line
+  for (let header = startLine; header < endLine; header++) {
+    if (!isDelimiterRow(lines[header + 1])) continue
+    let last = header + 1
+    while (last < endLine && !isDelimiterRow(lines[last + 2] ?? '')) last++
+    if (lineIndex >= header && lineIndex <= last) {
+      return { startLine: header, endLine: last }
+    }
+    header = last
+  }
+  return null
+}
+
+/**
+ * Parse the lines of a table. Rows are padded to the widest row, so no cell
+ * is lost when a row has more cells than the header.
+ */
+export function parseTable(lines: string[]): MarkdownTable | null {
+  if (lines.length < 2 || !isTableRow(lines[0]) || !isDelimiterRow(lines[1])) return null
+
+  const header = splitTableRow(lines[0])
+  const delimiters = splitTableRow(lines[1])
+  const rows = lines.slice(2).map(splitTableRow)
+  const columnCount = Math.max(header.length, ...rows.map((row) => row.length))
+
+  const pad = (cells: string[]) => [...cells, ...Array<string>(columnCount - cells.length).fill('')]
+  return {
+    header: pad(header),
+    alignments: pad(delimiters).map(parseAlignment),
+    rows: rows.map(pad)
+  }
+}
+
+function alignCell(text: string, width: number, alignment: TableAlignment): string {
+  const space = width - displayWidth(text)
+  if (alignment === 'right') return ' '.repeat(space) + text
+  if (alignment === 'center') {
+    const before = Math.floor(space / 2)
+    return ' '.repeat(before) + text + ' '.repeat(space - before)
+  }
+  return text + ' '.repeat(space)
+}
+
+function delimiterCell(width: number, alignment: TableAlignment): string {
+  const left = alignment === 'left' || alignment === 'center' ? ':' : ''
+  const right = alignment === 'right' || alignment === 'center' ? ':' : ''
+  return left + '-'.repeat(width - left.length - right.length) + right
+}
+
+/**
+ * Render a table with its columns padded to line up
+ */
+export function formatTable(table: MarkdownTable, indent = ''): string[] {
+  const widths = table.header.map((cell, column) =>
+    Math.max(3, displayWidth(cell), ...table.rows.map((row) => displayWidth(row[column])))
+  )
+  const renderRow = (cells: string[]) =>
+    `${indent}| ${cells.map((cell, column) => alignCell(cell, widths[column], table.alignments[column])).join(' | ')} |`
+
+  return [
+    renderRow(table.header),
+    `${indent}| ${widths.map((width, column) => delimiterCell(width, table.alignments[column])).join(' | ')} |`,
+    ...table.rows.map(renderRow)
+  ]
+}
+
+/**
+ * Index of the cell a 0-based column falls in
+ */
+export function getCellIndex(line: string, column: number): number {
+  const indent = getIndent(line).length
+  const text = line.slice(indent)
+  const pipes = findPipes(text).filter((pipe) => pipe < column - indent)
+  const leadingPipe = findPipes(text)[0] === 0 ? 1 : 0
+  return Math.max(0, pipes.length - leadingPipe)
+}
+
+/**
+ * 0-based column where a cell's text starts in a formatted row
+ */
+export function getCellColumn(line: string, cellIndex: number): number {
+  const pipes = findPipes(line)
+  const start = (pipes[Math.min(cellIndex, pipes.length - 1)] ?? -1) + 1
+  const end = pipes[cellIndex + 1] ?? line.length
+  let column = start
+  while (column < end && line[column] === ' ') column++
+  // Empty cells put the cursor after the padding space
+  return column === end ? Math.min(start + 1, end) : column
+}
+
+/**
+ * Insert an empty body row before the given row index
+ */
+export function insertRow(table: MarkdownTable, index: number): MarkdownTable {
+  const rows = [...table.rows]
+  rows.splice(index, 0, table.header.map(() => ''))
+  return { ...table, rows }
+}
+
+export function deleteRow(table: MarkdownTable, index: number): MarkdownTable {
+  return { ...table, rows: table.rows.filter((_, i) => i !== index) }
+}
+
+/**
+ * Insert an empty column before the given column index
+ */
+export function insertColumn(table: MarkdownTable, index: number): MarkdownTable {
+  const insert = <T>(cells: T[], value: T) => [...cells.slice(0, index), value, ...cells.slice(index)]
+  return {
+    header: insert(table.header, ''),
+    alignments: insert(table.alignments, 'none'),
+    rows: table.rows.map((row) => insert(row, ''))
+  }
+}
+
+/**
+ * Remove a column. The last column is kept, since a table needs one.
+ */
+export function deleteColumn(table: MarkdownTable, index: number): MarkdownTable {
+  if (table.header.length <= 1) return table
+  const remove = <T>(cells: T[]) => cells.filter((_, i) => i !== index)
+  return {
+    header: remove(table.header),
+    alignments: remove(table.alignments),
+    rows: table.rows.map(remove)
+  }
+}
+
+/**
+ * Sort body rows by a column. Numbers compare by value and empty cells go last.
+ */
+export function sortRows(table: MarkdownTable, column: number, descending = false): MarkdownTable {
+  const rows = [...table.rows].sort((a, b) => {
+    if (!a[column] || !b[column]) return Number(!a[column]) - Number(!b[column])
+    const order = a[column].localeCompare(b[column], undefined, { numeric: true, sensitivity: 'base' })
+    return descending ? -order : order
+  })
+  return { ...table, rows }
+}
+
+function detectDelimiter(text: string): string | null {
+  const firstLine = text.split(/\r?\n/, 1)[0]
+  if (firstLine.includes('\t')) return '\t'
+  const commas = firstLine.split(',').length - 1
+  const semicolons = firstLine.split(';').length - 1
+  if (commas === 0 && semicolons === 0) return null
+  return semicolons > commas ? ';' : ','
+}
+
+/**
+ * Parse CSV or TSV text (the delimiter is detected from the first line).
+ * Quoted fields may contain delimiters, doubled quotes and line breaks.
+ * Returns null unless the text has at least two columns.
+ */
+export function parseDelimitedText(text: string): string[][] | null {
+  const delimiter = detectDelimiter(text)
+  if (!delimiter) return null
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.length > 0 && rows[0].length >= 2 ? rows : null
+}
+
+/**
+ * Build a table from plain cell values; the first row becomes the header
+ */
+export function createTable(values: string[][]): MarkdownTable {
+  const escape = (value: string) => value.trim().replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>')
+  const columnCount = Math.max(...values.map((row) => row.length))
+  const pad = (row: string[]) => [...row, ...Array<string>(columnCount - row.length).fill('')].map(escape)
+  return {
+    header: pad(values[0]),
+    alignments: Array<TableAlignment>(columnCount).fill('none'),
+    rows: values.slice(1).map(pad)
+  }
+}
@@ -171,6 +171,18 @@ export function registerCustomMonacoTheme(themeName: string, css: string): boole
   }
 }
 
+/**
+ * Determine whether a theme is dark, using the same editor background
+ * luminance check that picks the Monaco base theme
+ */
+export function isDarkTheme(themeName: string, css?: string): boolean {
+  if (themeName === 'Lightish') return false
+  if (themeName === 'Dark' || !css) return true
+
+  const colors = extractMonacoVariables(css)
+  return !isLightColor(colors.editorBg || '#1e1e1e')
+}
+
 /**
  * Get the appropriate Monaco theme name for a theme
  */
@@ -0,0 +1,182 @@
+import type { PdfExportOptions, PreviewTypography } from '../../../shared/types'
+import { buildExportStyles } from './preview-styles'
+
+// How long to wait for diagrams still rendering before exporting without them
+const DIAGRAM_TIMEOUT_MS = 10000
+
+// Theme variables the exported page is styled with
+const PREVIEW_VARIABLES = [
+  '--preview-bg',
+  '--preview-text',
+  '--preview-heading',
+  '--preview-text-muted',
+  '--preview-border',
+  '--preview-link',
+  '--preview-code-bg',
+  '--preview-code-block-bg',
+  '--preview-table-header-bg',
+  '--preview-table-row-alt-bg'
+] as const
+
+// Black on white, whatever the app theme
+const PRINT_THEME: Record<(typeof PREVIEW_VARIABLES)[number], string> = {
+  '--preview-bg': '#ffffff',
+  '--preview-text': '#333333',
+  '--preview-heading': '#000000',
+  '--preview-text-muted': '#6a737d',
+  '--preview-border': '#dfe2e5',
+  '--preview-link': '#0366d6',
+  '--preview-code-bg': 'rgba(27, 31, 35, 0.05)',
+  '--preview-code-block-bg': '#f6f8fa',
+  '--preview-table-header-bg': '#f6f8fa',
+  '--preview-table-row-alt-bg': '#f6f8fa'
+}
+
+const BASE_STYLES = `
+    html, body { background-color: var(--preview-bg); }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif;
+      line-height: 1.6;
+      max-width: 100%;
+      margin: 0;
+      padding: 0;
+      color: var(--preview-text);
+    }
+    h1, h2, h3, h4, h5, h6 { margin-top: 24px; margin-bottom: 16px; font-weight: 600; line-height: 1.25; color: var(--preview-heading); break-after: avoid; }
+    h1 { font-size: 2em; border-bottom: 1px solid var(--preview-border); padding-bottom: .3em; }
+    h2 { font-size: 1.5em; border-bottom: 1px solid var(--preview-border); padding-bottom: .3em; }
+    h3 { font-size: 1.25em; }
+    p { margin-top: 0; margin-bottom: 16px; }
+    a { color: var(--preview-link); text-decoration: none; }
+    code { padding: .2em .4em; margin: 0; font-size: 85%; background-color: var(--preview-code-bg); border-radius: 3px; font-family: 'Consolas', 'Monaco', 'Courier New', monospace; }
+    pre { padding: 16px; overflow: auto; font-size: 85%; line-height: 1.45; background-color: var(--preview-code-block-bg); border-radius: 3px; white-space: pre-wrap; }
+    pre code { padding: 0; background-color: transparent; }
+    blockquote { padding: 0 1em; color: var(--preview-text-muted); border-left: .25em solid var(--preview-border); margin: 0 0 16px 0; }
+    ul, ol { padding-left: 2em; margin-top: 0; margin-bottom: 16px; }
+    li { margin-top: .25em; }
+    table { border-spacing: 0; border-collapse: collapse; margin-bottom: 16px; }
+    th, td { padding: 6px 13px; border: 1px solid var(--preview-border); }
+    th { font-weight: 600; background-color: var(--preview-table-header-bg); }
+    tr:nth-child(2n) { background-color: var(--preview-table-row-alt-bg); }
+    tr, img, pre, .mermaid-diagram, .katex-display { break-inside: avoid; }
+    img { max-width: 100%; height: auto; }
+    hr { height: .25em; padding: 0; margin: 24px 0; background-color: var(--preview-border); border: 0; }
+    .mermaid-diagram { text-align: center; margin-bottom: 16px; }
+    .mermaid-diagram svg { max-width: 100%; height: auto; }
+    .pdf-toc { break-after: page; }
+    .pdf-toc h1 { border-bottom: none; }
+    .pdf-toc ol { list-style: none; padding-left: 1.5em; }
+    .pdf-toc > ol { padding-left: 0; }
+`
+
+// Each H1 after the first starts a new page
+const H1_PAGE_BREAK_STYLES = `
+    .markdown-body h1 { break-before: page; }
+    .markdown-body > h1:first-child { break-before: auto; }
+`
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Resolve once no Mermaid diagram in the element is still rendering, or the
+ * timeout passes
+ */
+function waitForDiagrams(element: Element): Promise<void> {
+  return new Promise((resolve) => {
+    if (!element.querySelector('.mermaid-pending')) {
+      resolve()
+      return
+    }
+
+    const observer = new MutationObserver(() => {
+      if (!element.querySelector('.mermaid-pending')) finish()
+    })
+    const timer = setTimeout(finish, DIAGRAM_TIMEOUT_MS)
+    function finish(): void {
+      observer.disconnect()
+      clearTimeout(timer)
+      resolve()
+    }
+    observer.observe(element, { childList: true, subtree: true, attributes: true, attributeFilter: ['class'] })
+  })
+}
+
+function getThemeVariables(theme: PdfExportOptions['theme']): string {
+  const computed = getComputedStyle(document.documentElement)
+  return PREVIEW_VARIABLES.map((name) => {
+    const value = theme === 'current' ? computed.getPropertyValue(name).trim() || PRINT_THEME[name] : PRINT_THEME[name]
+    return `${name}: ${value};`
+  }).join(' ')
+}
+
+/**
+ * Give H1-H3 ids and build a nested, linked table of contents from them
+ */
+function buildTableOfContents(content: Element): string {
+  const headings = Array.from(content.querySelectorAll('h1, h2, h3'))
+  if (headings.length === 0) return ''
+
+  let markup = ''
+  // Heading level of each open list; skipped levels nest only one step deeper
+  const levels: number[] = []
+  headings.forEach((heading, index) => {
+    const level = Number(heading.tagName[1])
+    heading.id = heading.id || `pdf-heading-${index + 1}`
+
+    if (levels.length === 0 || level > levels[levels.length - 1]) {
+      markup += '<ol><li>'
+      levels.push(level)
+    } else {
+      while (levels.length > 1 && level < levels[levels.length - 1]) {
+        markup += '</li></ol>'
+        levels.pop()
+      }
+      markup += '</li><li>'
+    }
+    markup += `<a href="#${escapeHtml(heading.id)}">${escapeHtml(heading.textContent?.trim() ?? '')}</a>`
+  })
+  markup += '</li></ol>'.repeat(levels.length)
+
+  return `<nav class="pdf-toc"><h1>Contents</h1>${markup}</nav>`
+}
+
+/**
+ * Build the standalone HTML document a PDF is printed from, out of the
+ * rendered (and already sanitized) preview, once its diagrams have rendered.
+ * The preview typography and custom CSS apply, except the width, which the
+ * page size sets.
+ */
+export async function createPdfHtml(
+  previewElement: Element,
+  title: string,
+  options: PdfExportOptions,
+  typography: PreviewTypography,
+  customCss: string
+): Promise<string> {
+  await waitForDiagrams(previewElement)
+
+  const content = previewElement.cloneNode(true) as Element
+  const tableOfContents = options.tableOfContents ? buildTableOfContents(content) : ''
+  const styles = BASE_STYLES +
+    (options.pageBreakBeforeH1 ? H1_PAGE_BREAK_STYLES : '') +
+    buildExportStyles(typography, customCss, { includeWidth: false })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    :root { ${getThemeVariables(options.theme)} }
+${styles}
+  </style>
+</head>
+<body>
+  ${tableOfContents}
+  <div class="markdown-body">${content.innerHTML}</div>
+</body>
+</html>`
+}
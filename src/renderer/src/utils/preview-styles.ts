@@ -0,0 +1,132 @@
+import type { PreviewTypography } from '../../../shared/types'
+
+// Selectors in custom CSS that mean the document itself
+const ROOT_SELECTOR = /^(?::root|html|body)(?![\w-])/
+
+// Characters that could end the declaration or rule a font list is placed in
+function sanitizeFontList(fonts: string): string {
+  return fonts.replace(/[;{}<>\\]/g, '').trim()
+}
+
+/**
+ * Heading numbers as 1., 1.1, 1.1.1 on h2-h6. The h1 is the document title,
+ * and each h1 starts the numbering again.
+ */
+function headingNumberStyles(scope: string): string {
+  const levels = [2, 3, 4, 5, 6]
+  const rules = [`${scope} { counter-reset: h2; }`, `${scope} > h1 { counter-reset: h2; }`]
+  for (const level of levels) {
+    const reset = level < 6 ? ` counter-reset: h${level + 1};` : ''
+    const number = levels
+      .filter((l) => l <= level)
+      .map((l) => `counter(h${l})`)
+      .join(' "." ')
+    rules.push(`${scope} > h${level} { counter-increment: h${level};${reset} }`)
+    const suffix = level === 2 ? '". "' : '" "'
+    rules.push(`${scope} > h${level}::before { content: ${number} ${suffix}; }`)
+  }
+  return rules.join('\n')
+}
+
+/**
+ * CSS for the typography preferences, applied to the markdown container
+ * matched by scope. Exports leave out the width, since the page sets it.
+ */
+export function buildTypographyCSS(
+  typography: PreviewTypography,
+  scope: string,
+  { includeWidth = true }: { includeWidth?: boolean } = {}
+): string {
+  const body = [`line-height: ${typography.lineHeight};`]
+  const bodyFont = sanitizeFontList(typography.bodyFont)
+  if (bodyFont) {
+    body.push(`font-family: ${bodyFont};`)
+  }
+  if (includeWidth) {
+    body.push(`max-width: ${typography.maxWidth > 0 ? `${typography.maxWidth}px` : 'none'};`)
+  }
+
+  const rules = [
+    `${scope} { ${body.join(' ')} }`,
+    `${scope} p { margin-bottom: ${typography.paragraphSpacing}em; }`
+  ]
+  const codeFont = sanitizeFontList(typography.codeFont)
+  if (codeFont) {
+    rules.push(`${scope} code, ${scope} pre { font-family: ${codeFont}; }`)
+  }
+  if (typography.justify) {
+    rules.push(`${scope} p, ${scope} li { text-align: justify; hyphens: auto; }`)
+  }
+  if (typography.headingNumbers) {
+    rules.push(headingNumberStyles(scope))
+  }
+  return rules.join('\n')
+}
+
+// Split a selector list at the commas outside parentheses and brackets
+function splitSelectorList(selectorText: string): string[] {
+  const selectors: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < selectorText.length; i++) {
+    const char = selectorText[i]
+    if (char === '(' || char === '[') depth++
+    else if (char === ')' || char === ']') depth--
+    else if (char === ',' && depth === 0) {
+      selectors.push(selectorText.slice(start, i))
+      start = i + 1
+    }
+  }
+  selectors.push(selectorText.slice(start))
+  return selectors.map((selector) => selector.trim()).filter(Boolean)
+}
+
+function scopeSelector(selector: string, scope: string): string {
+  return ROOT_SELECTOR.test(selector) ? selector.replace(ROOT_SELECTOR, scope) : `${scope} ${selector}`
+}
+
+function scopeRules(rules: CSSRuleList, scope: string): void {
+  for (const rule of Array.from(rules)) {
+    if (rule instanceof CSSStyleRule) {
+      rule.selectorText = splitSelectorList(rule.selectorText)
+        .map((selector) => scopeSelector(selector, scope))
+        .join(', ')
+    } else if (rule instanceof CSSGroupingRule) {
+      // @media, @supports and the like
+      scopeRules(rule.cssRules, scope)
+    }
+  }
+}
+
+/**
+ * Rewrite custom CSS so it only applies inside scope: :root, html and body
+ * become the scope, and other selectors match inside it
+ */
+export function scopeCustomCSS(css: string, scope: string): string {
+  if (!css.trim()) return ''
+
+  const sheet = new CSSStyleSheet()
+  try {
+    sheet.replaceSync(css)
+  } catch {
+    return ''
+  }
+  scopeRules(sheet.cssRules, scope)
+  return Array.from(sheet.cssRules)
+    .map((rule) => rule.cssText)
+    .join('\n')
+}
+
+/**
+ * Typography and custom CSS for an exported document, whose content sits in
+ * a .markdown-body element
+ */
+export function buildExportStyles(
+  typography: PreviewTypography,
+  customCss: string,
+  { includeWidth = true }: { includeWidth?: boolean } = {}
+): string {
+  const css = `${buildTypographyCSS(typography, '.markdown-body', { includeWidth })}\n${scopeCustomCSS(customCss, 'body')}`
+  // Keep a string in the CSS from closing the <style> element it is written into
+  return css.replace(/<\/style/gi, '<\\/style')
+}
@@ -0,0 +1,58 @@
+import { visit, SKIP } from 'unist-util-visit'
+import type { Root, Text, Link, PhrasingContent } from 'mdast'
+import { findWikiLinks, resolveWikiLink } from '../../../shared/wiki-links'
+import type { WikiPage } from '../../../shared/workspace-types'
+
+/**
+ * Remark plugin that turns [[Page Name]] and [[page#heading|alias]] into links.
+ * Resolved links carry data-wiki-path (and data-wiki-heading) so the preview can
+ * open them in a tab; unresolved ones get the wiki-link-missing class.
+ */
+export function remarkWikiLinks(options: { pages: WikiPage[]; currentPath?: string | null }) {
+  const { pages, currentPath = null } = options
+
+  return (tree: Root) => {
+    visit(tree, 'text', (node: Text, index, parent) => {
+      if (!parent || index === undefined || parent.type === 'link' || parent.type === 'linkReference') return
+
+      const links = findWikiLinks(node.value)
+      if (links.length === 0) return
+
+      const replacement: PhrasingContent[] = []
+      let cursor = 0
+
+      for (const link of links) {
+        if (link.index > cursor) {
+          replacement.push({ type: 'text', value: node.value.slice(cursor, link.index) })
+        }
+
+        const page = link.target ? resolveWikiLink(pages, link.target) : null
+        const targetPath = link.target ? page?.path : currentPath
+        const label = link.alias ?? [link.target, link.heading].filter(Boolean).join(' › ')
+
+        const wikiLink: Link = {
+          type: 'link',
+          url: '#',
+          children: [{ type: 'text', value: label }],
+          data: {
+            hProperties: {
+              className: targetPath ? ['wiki-link'] : ['wiki-link', 'wiki-link-missing'],
+              title: targetPath ? undefined : `No page named "${link.target}"`,
+              'data-wiki-path': targetPath ?? undefined,
+              'data-wiki-heading': link.heading
+            }
+          }
+        }
+        replacement.push(wikiLink)
+        cursor = link.index + link.length
+      }
+
+      if (cursor < node.value.length) {
+        replacement.push({ type: 'text', value: node.value.slice(cursor) })
+      }
+
+      parent.children.splice(index, 1, ...replacement)
+      return [SKIP, index + replacement.length]
+    })
+  }
+}
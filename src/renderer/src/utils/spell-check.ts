@@ -0,0 +1,171 @@
+import * as monaco from 'monaco-editor'
+import { extractSpellingWords } from './spelling-words'
+import { SPELL_CHECK_LANGUAGES } from '../../../shared/types'
+
+// Marker owner for misspelled words
+export const SPELLING_MARKER_OWNER = 'spelling'
+
+// Code actions only see marker data, so the source identifies spelling markers
+const SPELLING_MARKER_SOURCE = 'Spelling'
+
+// Check again once typing pauses
+const SPELL_CHECK_DELAY_MS = 500
+
+const ADD_WORD_COMMAND = 'spelling.addWord'
+
+export interface SpellCheckSettings {
+  enabled: boolean
+  language: string // Used when the front matter sets no lang
+  workspaceRoot: string | null // Where the workspace dictionary lives
+}
+
+export interface SpellCheckHandle extends monaco.IDisposable {
+  // Check again, e.g. after the settings or a dictionary changed
+  refresh: () => void
+}
+
+// Every editor being checked, so adding a word updates all of them
+const handles = new Set<SpellCheckHandle>()
+
+let addWordCommand: monaco.IDisposable | null = null
+
+// Commands are global, so the one behind "Add to dictionary" is shared by all editors
+function ensureAddWordCommand(): void {
+  if (addWordCommand) return
+  addWordCommand = monaco.editor.registerCommand(
+    ADD_WORD_COMMAND,
+    async (_accessor, word: string, workspaceRoot: string | null) => {
+      if (await window.electron.spell.addWord(word, workspaceRoot)) {
+        handles.forEach((handle) => handle.refresh())
+      }
+    }
+  )
+}
+
+function getLanguageLabel(language: string): string {
+  return SPELL_CHECK_LANGUAGES.find((l) => l.code === language)?.label ?? language
+}
+
+/**
+ * Mark misspelled words in an editor and offer corrections as quick fixes.
+ * Words are checked in the main process against the bundled dictionary for
+ * the document's front-matter lang, plus the user and workspace dictionaries.
+ */
+export function registerSpellCheck(
+  editor: monaco.editor.IStandaloneCodeEditor,
+  getSettings: () => SpellCheckSettings
+): SpellCheckHandle {
+  ensureAddWordCommand()
+
+  let timer: ReturnType<typeof setTimeout> | null = null
+  // The dictionary the markers came from, for suggestions
+  let language: string | null = null
+
+  const check = async () => {
+    const model = editor.getModel()
+    if (!model) return
+
+    const settings = getSettings()
+    if (!settings.enabled) {
+      monaco.editor.setModelMarkers(model, SPELLING_MARKER_OWNER, [])
+      return
+    }
+
+    const versionId = model.getVersionId()
+    const { lang, words } = extractSpellingWords(model.getValue())
+    const result = await window.electron.spell.check(
+      Array.from(new Set(words.map((w) => w.word))),
+      lang ?? settings.language,
+      settings.workspaceRoot
+    )
+    // An edit or another document arrived meanwhile; its own check will follow
+    if (!result || model.isDisposed() || editor.getModel() !== model || model.getVersionId() !== versionId) return
+
+    language = result.language
+    const misspelled = new Set(result.misspelled)
+    const label = getLanguageLabel(result.language)
+    monaco.editor.setModelMarkers(
+      model,
+      SPELLING_MARKER_OWNER,
+      words
+        .filter((w) => misspelled.has(w.word))
+        .map((w) => {
+          const start = model.getPositionAt(w.offset)
+          const end = model.getPositionAt(w.offset + w.word.length)
+          return {
+            severity: monaco.MarkerSeverity.Info,
+            message: `"${w.word}" is not in the ${label} dictionary`,
+            source: SPELLING_MARKER_SOURCE,
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column
+          }
+        })
+    )
+  }
+
+  const schedule = () => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(check, SPELL_CHECK_DELAY_MS)
+  }
+
+  // Providers are global per language, so this one only answers for its own editor's model
+  const codeActions = monaco.languages.registerCodeActionProvider('markdown', {
+    provideCodeActions: async (model, _range, context) => {
+      const markers = context.markers.filter((m) => m.source === SPELLING_MARKER_SOURCE)
+      if (model !== editor.getModel() || markers.length === 0) {
+        return { actions: [], dispose: () => {} }
+      }
+
+      const { workspaceRoot } = getSettings()
+      const actions: monaco.languages.CodeAction[] = []
+      for (const marker of markers) {
+        const word = model.getValueInRange(marker)
+        const suggestions = await window.electron.spell.suggest(word, language)
+        for (const suggestion of suggestions) {
+          actions.push({
+            title: `Change to "${suggestion}"`,
+            kind: 'quickfix',
+            diagnostics: [marker],
+            isPreferred: suggestion === suggestions[0],
+            edit: {
+              edits: [{ resource: model.uri, textEdit: { range: marker, text: suggestion }, versionId: undefined }]
+            }
+          })
+        }
+        actions.push({
+          title: `Add "${word}" to user dictionary`,
+          kind: 'quickfix',
+          diagnostics: [marker],
+          command: { id: ADD_WORD_COMMAND, title: 'Add to user dictionary', arguments: [word, null] }
+        })
+        if (workspaceRoot) {
+          actions.push({
+            title: `Add "${word}" to workspace dictionary`,
+            kind: 'quickfix',
+            diagnostics: [marker],
+            command: { id: ADD_WORD_COMMAND, title: 'Add to workspace dictionary', arguments: [word, workspaceRoot] }
+          })
+        }
+      }
+      return { actions, dispose: () => {} }
+    }
+  })
+
+  const disposables = [codeActions, editor.onDidChangeModelContent(schedule), editor.onDidChangeModel(schedule)]
+
+  const handle: SpellCheckHandle = {
+    refresh: schedule,
+    dispose: () => {
+      if (timer) clearTimeout(timer)
+      disposables.forEach((d) => d.dispose())
+      const model = editor.getModel()
+      if (model) monaco.editor.setModelMarkers(model, SPELLING_MARKER_OWNER, [])
+      handles.delete(handle)
+    }
+  }
+  handles.add(handle)
+  schedule()
+  return handle
+}
@@ -0,0 +1,81 @@
+import { unified } from 'unified'
+import remarkParse from 'remark-parse'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import type { Content, Parent, Root } from 'mdast'
+import { extractFrontMatter } from './markdown-renderer'
+
+type MdastNode = Root | Content
+
+export interface SpellingWord {
+  word: string
+  offset: number // In the full markdown, front matter included
+}
+
+// Nodes whose text is not prose: code, math, raw HTML and link definitions
+const SKIPPED_NODE_TYPES = new Set(['code', 'inlineCode', 'math', 'inlineMath', 'html', 'definition'])
+
+// Runs of letters and digits, with apostrophes inside words (don't, l'été)
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}_]+(?:['’][\p{L}\p{M}\p{N}_]+)*/gu
+
+// Text that is not words even inside prose: URLs, email addresses and [[wiki links]]
+const NON_WORD_PATTERN = /\b(?:https?|ftp|file):\/\/\S+|\bwww\.\S+|[\w.+-]+@[\w-]+(?:\.[\w-]+)+|\[\[[^\]\n]*\]\]/g
+
+/**
+ * Words are only checked when they are plain lowercase or capitalized.
+ * Numbers, identifiers, acronyms and camelCase names are left alone.
+ */
+function isCheckable(word: string): boolean {
+  return word.length > 1 && !/[\p{N}_]/u.test(word) && !/\p{Lu}/u.test(word.slice(1))
+}
+
+// A GFM autolink such as https://example.com, whose text is the URL itself
+function isAutolink(node: MdastNode): boolean {
+  return (
+    node.type === 'link' &&
+    node.children.length === 1 &&
+    node.children[0].type === 'text' &&
+    node.children[0].value === node.url.replace(/^mailto:/, '')
+  )
+}
+
+/**
+ * Find the words to spell-check in a markdown document, skipping front
+ * matter, code, math, URLs and raw HTML. The front-matter lang (or language)
+ * is returned so the document can pick its dictionary.
+ */
+export function extractSpellingWords(markdown: string): { lang: string | null; words: SpellingWord[] } {
+  const { content, data } = extractFrontMatter(markdown)
+  const contentOffset = markdown.length - content.length
+  const langValue = data.lang ?? data.language
+  const lang = typeof langValue === 'string' && langValue.trim() ? langValue.trim() : null
+
+  const tree = unified().use(remarkParse).use(remarkGfm).use(remarkMath).parse(content)
+  const words: SpellingWord[] = []
+
+  const addWords = (start: number, end: number) => {
+    const text = content.slice(start, end).replace(NON_WORD_PATTERN, (match) => ' '.repeat(match.length))
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const word = match[0]
+      if (isCheckable(word)) {
+        words.push({ word, offset: contentOffset + start + match.index! })
+      }
+    }
+  }
+
+  const walk = (node: MdastNode) => {
+    if (SKIPPED_NODE_TYPES.has(node.type) || isAutolink(node)) return
+    if (node.type === 'text') {
+      const start = node.position?.start.offset
+      const end = node.position?.end.offset
+      if (start !== undefined && end !== undefined) addWords(start, end)
+      return
+    }
+    if ('children' in node) {
+      for (const child of (node as Parent).children) walk(child as MdastNode)
+    }
+  }
+  walk(tree as Root)
+
+  return { lang, words }
+}
@@ -0,0 +1,307 @@
+import * as monaco from 'monaco-editor'
+import {
+  MarkdownTable,
+  TableLocation,
+  isTableRow,
+  findTable,
+  parseTable,
+  formatTable,
+  getCellIndex,
+  getCellColumn,
+  insertRow,
+  deleteRow,
+  insertColumn,
+  deleteColumn,
+  sortRows,
+  parseDelimitedText,
+  createTable
+} from './markdown-table'
+
+// Context key set while the cursor is inside a GFM table
+const IN_TABLE_CONTEXT_KEY = 'markdownTableCell'
+
+// Tab and Enter only act on tables when nothing else wants them
+const TABLE_KEY_CONTEXT = `${IN_TABLE_CONTEXT_KEY} && editorTextFocus && !editorReadonly && !editorHasMultipleSelections && !suggestWidgetVisible && !inSnippetMode`
+
+interface TableCursor {
+  startLineNumber: number
+  endLineNumber: number
+  indent: string
+  table: MarkdownTable
+  // Body row index; -1 is the header (and the delimiter row)
+  row: number
+  column: number
+}
+
+function getLines(model: monaco.editor.ITextModel, startLineNumber: number, endLineNumber: number): string[] {
+  const lines: string[] = []
+  for (let lineNumber = startLineNumber; lineNumber <= endLineNumber; lineNumber++) {
+    lines.push(model.getLineContent(lineNumber))
+  }
+  return lines
+}
+
+/**
+ * Find the table containing a line number; the location is 0-based, like
+ * findTable's. Only the run of pipe rows around the line is read, so this
+ * stays cheap on every cursor move in a large document.
+ */
+function findTableAt(model: monaco.editor.ITextModel, lineNumber: number): TableLocation | null {
+  if (!isTableRow(model.getLineContent(lineNumber))) return null
+
+  let first = lineNumber
+  while (first > 1 && isTableRow(model.getLineContent(first - 1))) first--
+  let last = lineNumber
+  const lineCount = model.getLineCount()
+  while (last < lineCount && isTableRow(model.getLineContent(last + 1))) last++
+
+  const location = findTable(getLines(model, first, last), lineNumber - first)
+  return location && { startLine: location.startLine + first - 1, endLine: location.endLine + first - 1 }
+}
+
+function getTableCursor(editor: monaco.editor.IStandaloneCodeEditor): TableCursor | null {
+  const model = editor.getModel()
+  const position = editor.getPosition()
+  if (!model || !position) return null
+
+  const location = findTableAt(model, position.lineNumber)
+  if (!location) return null
+
+  const tableLines = getLines(model, location.startLine + 1, location.endLine + 1)
+  const table = parseTable(tableLines)
+  if (!table) return null
+
+  const lineOffset = position.lineNumber - 1 - location.startLine
+  const column = getCellIndex(model.getLineContent(position.lineNumber), position.column - 1)
+  return {
+    startLineNumber: location.startLine + 1,
+    endLineNumber: location.endLine + 1,
+    indent: /^[ \t]*/.exec(tableLines[0])![0],
+    table,
+    row: lineOffset < 2 ? -1 : lineOffset - 2,
+    column: Math.min(column, table.header.length - 1)
+  }
+}
+
+/**
+ * Replace the table with a formatted version and put the cursor at the
+ * start of a cell
+ */
+function writeTable(
+  editor: monaco.editor.IStandaloneCodeEditor,
+  cursor: TableCursor,
+  table: MarkdownTable,
+  row: number,
+  column: number
+): void {
+  const model = editor.getModel()
+  if (!model) return
+
+  const lines = formatTable(table, cursor.indent)
+  const range = new monaco.Range(
+    cursor.startLineNumber,
+    1,
+    cursor.endLineNumber,
+    model.getLineMaxColumn(cursor.endLineNumber)
+  )
+
+  editor.pushUndoStop()
+  editor.executeEdits('table', [{ range, text: lines.join(model.getEOL()) }])
+  editor.pushUndoStop()
+
+  const lineIndex = row < 0 ? 0 : row + 2
+  const targetColumn = Math.max(0, Math.min(column, table.header.length - 1))
+  editor.setPosition(new monaco.Position(
+    cursor.startLineNumber + lineIndex,
+    getCellColumn(lines[lineIndex], targetColumn) + 1
+  ))
+  editor.focus()
+}
+
+/**
+ * Run an edit on the table under the cursor. Returns false outside a table.
+ */
+function editTable(
+  editor: monaco.editor.IStandaloneCodeEditor | null,
+  edit: (cursor: TableCursor) => { table: MarkdownTable; row: number; column: number }
+): boolean {
+  if (!editor) return false
+  const cursor = getTableCursor(editor)
+  if (!cursor) return false
+
+  const result = edit(cursor)
+  writeTable(editor, cursor, result.table, result.row, result.column)
+  return true
+}
+
+export function formatTableAtCursor(editor: monaco.editor.IStandaloneCodeEditor | null): boolean {
+  return editTable(editor, ({ table, row, column }) => ({ table, row, column }))
+}
+
+/**
+ * Move to the next or previous cell, aligning the table. Tab past the last
+ * cell adds a row.
+ */
+export function moveToCell(editor: monaco.editor.IStandaloneCodeEditor | null, direction: 1 | -1): boolean {
+  return editTable(editor, ({ table, row, column }) => {
+    const columnCount = table.header.length
+    const nextColumn = column + direction
+    if (nextColumn >= 0 && nextColumn < columnCount) {
+      return { table, row, column: nextColumn }
+    }
+    if (direction === 1) {
+      const nextRow = row + 1
+      return {
+        table: nextRow >= table.rows.length ? insertRow(table, nextRow) : table,
+        row: nextRow,
+        column: 0
+      }
+    }
+    return row < 0 ? { table, row, column } : { table, row: row - 1, column: columnCount - 1 }
+  })
+}
+
+/**
+ * Enter in a table starts a new row below, in the same column. Enter on an
+ * empty last row removes it and leaves the table.
+ */
+export function insertRowOrLeaveTable(editor: monaco.editor.IStandaloneCodeEditor | null): boolean {
+  if (!editor) return false
+  const cursor = getTableCursor(editor)
+  if (!cursor) return false
+
+  const { table, row, column } = cursor
+  const isEmptyLastRow = row === table.rows.length - 1 && row >= 0 && table.rows[row].every((cell) => !cell)
+  if (!isEmptyLastRow) {
+    writeTable(editor, cursor, insertRow(table, row + 1), row + 1, column)
+    return true
+  }
+
+  writeTable(editor, cursor, deleteRow(table, row), row - 1, column)
+  const model = editor.getModel()
+  if (model) {
+    // A blank line ends the table, otherwise the next line would be a row
+    const lineNumber = cursor.endLineNumber - 1
+    const endColumn = model.getLineMaxColumn(lineNumber)
+    editor.executeEdits('table', [{
+      range: new monaco.Range(lineNumber, endColumn, lineNumber, endColumn),
+      text: model.getEOL() + model.getEOL() + cursor.indent
+    }])
+    editor.setPosition(new monaco.Position(lineNumber + 2, cursor.indent.length + 1))
+  }
+  return true
+}
+
+export function insertTableRow(editor: monaco.editor.IStandaloneCodeEditor | null, below: boolean): boolean {
+  return editTable(editor, ({ table, row, column }) => {
+    // Rows can't go above the header
+    const index = below || row < 0 ? row + 1 : row
+    return { table: insertRow(table, index), row: index, column }
+  })
+}
+
+export function deleteTableRow(editor: monaco.editor.IStandaloneCodeEditor | null): boolean {
+  return editTable(editor, ({ table, row, column }) => {
+    // The header row can't be removed
+    if (row < 0) return { table, row, column }
+    return { table: deleteRow(table, row), row: Math.min(row, table.rows.length - 2), column }
+  })
+}
+
+export function insertTableColumn(editor: monaco.editor.IStandaloneCodeEditor | null, right: boolean): boolean {
+  return editTable(editor, ({ table, row, column }) => {
+    const index = right ? column + 1 : column
+    return { table: insertColumn(table, index), row, column: index }
+  })
+}
+
+export function deleteTableColumn(editor: monaco.editor.IStandaloneCodeEditor | null): boolean {
+  return editTable(editor, ({ table, row, column }) => ({
+    table: deleteColumn(table, column),
+    row,
+    column: Math.min(column, table.header.length - 2)
+  }))
+}
+
+export function sortTable(editor: monaco.editor.IStandaloneCodeEditor | null, descending: boolean): boolean {
+  return editTable(editor, ({ table, column }) => ({
+    table: sortRows(table, column, descending),
+    row: -1,
+    column
+  }))
+}
+
+/**
+ * Insert CSV or TSV text as a formatted table. Returns false if the text
+ * isn't delimited.
+ */
+export function insertDelimitedTable(editor: monaco.editor.IStandaloneCodeEditor | null, text: string): boolean {
+  const model = editor?.getModel()
+  const selection = editor?.getSelection()
+  if (!editor || !model || !selection) return false
+
+  const values = parseDelimitedText(text)
+  if (!values) return false
+
+  const lines = formatTable(createTable(values))
+  // Tables need blank lines around them to not join a paragraph
+  const before = selection.startColumn > 1 ? model.getEOL() + model.getEOL() : ''
+  const endsLine = selection.endColumn === model.getLineMaxColumn(selection.endLineNumber)
+  const after = endsLine ? '' : model.getEOL()
+
+  editor.pushUndoStop()
+  editor.executeEdits('table', [{ range: selection, text: before + lines.join(model.getEOL()) + after }])
+  editor.pushUndoStop()
+  editor.focus()
+  return true
+}
+
+/**
+ * Keep the table context key up to date and bind Tab, Shift+Tab and Enter
+ * inside tables
+ */
+export function registerTableEditing(editor: monaco.editor.IStandaloneCodeEditor): monaco.IDisposable {
+  const inTable = editor.createContextKey<boolean>(IN_TABLE_CONTEXT_KEY, false)
+  const updateContext = () => {
+    const model = editor.getModel()
+    const position = editor.getPosition()
+    inTable.set(!!model && !!position && findTableAt(model, position.lineNumber) !== null)
+  }
+  updateContext()
+
+  const disposables = [
+    editor.onDidChangeCursorPosition(updateContext),
+    editor.onDidChangeModel(updateContext),
+    editor.addAction({
+      id: 'table.nextCell',
+      label: 'Table: Next Cell',
+      keybindings: [monaco.KeyCode.Tab],
+      keybindingContext: TABLE_KEY_CONTEXT,
+      run: () => {
+        moveToCell(editor, 1)
+      }
+    }),
+    editor.addAction({
+      id: 'table.previousCell',
+      label: 'Table: Previous Cell',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.Tab],
+      keybindingContext: TABLE_KEY_CONTEXT,
+      run: () => {
+        moveToCell(editor, -1)
+      }
+    }),
+    editor.addAction({
+      id: 'table.newRow',
+      label: 'Table: New Row',
+      keybindings: [monaco.KeyCode.Enter],
+      keybindingContext: TABLE_KEY_CONTEXT,
+      run: () => {
+        insertRowOrLeaveTable(editor)
+      }
+    })
+  ]
+
+  return {
+    dispose: () => disposables.forEach((d) => d.dispose())
+  }
+}
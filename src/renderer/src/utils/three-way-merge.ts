@@ -0,0 +1,167 @@
+/**
+ * Line-based three-way merge used to reconcile a dirty tab with a file that
+ * changed on disk. Non-overlapping edits from both sides are combined;
+ * overlapping edits are wrapped in git-style conflict markers.
+ */
+
+export interface MergeResult {
+  content: string
+  conflicts: number
+}
+
+// A replacement of base[start, end) with `lines`
+export interface Hunk {
+  start: number
+  end: number
+  lines: string[]
+}
+
+// Above this many cells the LCS table is skipped and the middle is one hunk
+const MAX_LCS_CELLS = 4_000_000
+
+/**
+ * Compute the hunks that turn `base` into `other`
+ */
+export function diffLines(base: string[], other: string[]): Hunk[] {
+  // Trim the common prefix and suffix so the LCS only covers the changed middle
+  let prefix = 0
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = base.slice(prefix, base.length - suffix)
+  const b = other.slice(prefix, other.length - suffix)
+  if (a.length === 0 && b.length === 0) {
+    return []
+  }
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [{ start: prefix, end: prefix + a.length, lines: b }]
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  )
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const hunks: Hunk[] = []
+  let current: Hunk | null = null
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      current = null
+      i++
+      j++
+      continue
+    }
+
+    if (!current) {
+      current = { start: prefix + i, end: prefix + i, lines: [] }
+      hunks.push(current)
+    }
+    if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      current.lines.push(b[j++])
+    } else {
+      i++
+      current.end = prefix + i
+    }
+  }
+
+  return hunks
+}
+
+/**
+ * Apply the hunks of one side to base[start, end)
+ */
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const result: string[] = []
+  let position = start
+  for (const hunk of hunks) {
+    result.push(...base.slice(position, hunk.start), ...hunk.lines)
+    position = hunk.end
+  }
+  result.push(...base.slice(position, end))
+  return result
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index])
+}
+
+/**
+ * Merge `mine` and `theirs`, both derived from `base`
+ */
+export function threeWayMerge(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n')
+  const mineHunks = diffLines(baseLines, mine.split('\n'))
+  const theirHunks = diffLines(baseLines, theirs.split('\n'))
+
+  const output: string[] = []
+  let conflicts = 0
+  let position = 0
+  let m = 0
+  let t = 0
+
+  while (m < mineHunks.length || t < theirHunks.length) {
+    // Start a group with whichever hunk comes first, then absorb every
+    // hunk from either side that overlaps or touches the group
+    const first =
+      t >= theirHunks.length ||
+      (m < mineHunks.length && mineHunks[m].start <= theirHunks[t].start)
+        ? mineHunks[m]
+        : theirHunks[t]
+    let start = first.start
+    let end = first.end
+    const groupMine: Hunk[] = []
+    const groupTheirs: Hunk[] = []
+
+    let grew = true
+    while (grew) {
+      grew = false
+      while (m < mineHunks.length && mineHunks[m].start <= end && mineHunks[m].end >= start) {
+        start = Math.min(start, mineHunks[m].start)
+        end = Math.max(end, mineHunks[m].end)
+        groupMine.push(mineHunks[m++])
+        grew = true
+      }
+      while (t < theirHunks.length && theirHunks[t].start <= end && theirHunks[t].end >= start) {
+        start = Math.min(start, theirHunks[t].start)
+        end = Math.max(end, theirHunks[t].end)
+        groupTheirs.push(theirHunks[t++])
+        grew = true
+      }
+    }
+
+    output.push(...baseLines.slice(position, start))
+
+    const mineVersion = applyHunks(baseLines, groupMine, start, end)
+    const theirVersion = applyHunks(baseLines, groupTheirs, start, end)
+
+    if (groupTheirs.length === 0 || sameLines(mineVersion, theirVersion)) {
+      output.push(...mineVersion)
+    } else if (groupMine.length === 0) {
+      output.push(...theirVersion)
+    } else {
+      conflicts++
+      output.push('<<<<<<< Mine', ...mineVersion, '=======', ...theirVersion, '>>>>>>> Theirs')
+    }
+
+    position = end
+  }
+
+  output.push(...baseLines.slice(position))
+  return { content: output.join('\n'), conflicts }
+}
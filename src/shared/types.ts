@@ -1,11 +1,246 @@
 // Shared types between main and renderer processes
 
+import type { Root } from 'mdast'
+
 export interface FileData {
   path: string
   content: string
 }
 
+// Text encodings a document can be read and saved in
+export type FileEncoding = 'utf8' | 'utf8bom' | 'utf16le' | 'utf16be' | 'latin1'
+
+export const FILE_ENCODINGS: { value: FileEncoding; label: string }[] = [
+  { value: 'utf8', label: 'UTF-8' },
+  { value: 'utf8bom', label: 'UTF-8 with BOM' },
+  { value: 'utf16le', label: 'UTF-16 LE' },
+  { value: 'utf16be', label: 'UTF-16 BE' },
+  { value: 'latin1', label: 'ISO 8859-1' }
+]
+
 export interface SaveResult {
   success: boolean
   path?: string
 }
+
+// Outcome of a file tree operation (create, rename, move, duplicate, delete or undo)
+export interface FileOperationResult {
+  success: boolean
+  error?: string
+  path?: string // The path created, renamed to or restored
+  moved?: { from: string; to: string } // Open tabs at or under `from` follow the file to `to`
+  undoLabel: string | null // Label of the operation that Undo would now revert
+}
+
+// Why a local history snapshot was taken
+export type SnapshotSource = 'original' | 'save' | 'autoSave' | 'beforeRestore'
+
+// A version of a file kept in local history
+export interface FileSnapshot {
+  id: string
+  timestamp: number
+  source: SnapshotSource
+  size: number // Bytes
+}
+
+// A file open in a tab that changed on disk since it was loaded
+export interface ExternalFileChange {
+  path: string
+  diskContent: string | null // null when the file was deleted
+  diskHash: string | null
+  baseContent: string // Version the tab was loaded from, for three-way merges
+}
+
+// A local image referenced from a document, served over the wrangle-asset:// protocol
+export interface ResolvedImage {
+  path: string
+  url: string // Changes whenever the file changes on disk
+}
+
+// Formats written from the markdown syntax tree rather than the preview
+export type DocumentExportFormat = 'docx' | 'epub' | 'latex'
+
+// Document details from front matter; the title block is written only when
+// the document has some
+export interface ExportMetadata {
+  title?: string
+  author?: string
+  date?: string
+  lang?: string
+}
+
+// A parsed markdown document sent to the main process for export
+export interface ExportDocument {
+  tree: Root
+  name: string // Default file name, and the title when front matter has none
+  metadata: ExportMetadata
+  baseDir: string | null // Folder relative image paths are resolved against
+}
+
+// Paper sizes Chromium can print to
+export type PdfPageSize = 'Letter' | 'Legal' | 'Tabloid' | 'A3' | 'A4' | 'A5'
+
+// Page setup and content options for PDF export; margins are in inches
+export interface PdfExportOptions {
+  pageSize: PdfPageSize
+  landscape: boolean
+  margins: { top: number; right: number; bottom: number; left: number }
+  theme: 'print' | 'current' // Print theme is black on white; current follows the app theme
+  headerTemplate: string // Text with {title}, {page}, {pages} and {date} placeholders
+  footerTemplate: string
+  tableOfContents: boolean
+  pageBreakBeforeH1: boolean
+}
+
+export const DEFAULT_PDF_EXPORT_OPTIONS: PdfExportOptions = {
+  pageSize: 'Letter',
+  landscape: false,
+  margins: { top: 0.75, right: 0.75, bottom: 0.75, left: 0.75 },
+  theme: 'print',
+  headerTemplate: '',
+  footerTemplate: '{page} / {pages}',
+  tableOfContents: false,
+  pageBreakBeforeH1: false
+}
+
+// Monaco options from Preferences > Editor. Workspaces can override any of
+// them with an "editor" object in .wrangle/workspace.json.
+export interface EditorOptions {
+  fontFamily: string // CSS font list; empty uses Monaco's default monospace font
+  fontLigatures: boolean
+  fontSize: number // Base size in px, scaled by the view zoom
+  tabSize: number
+  insertSpaces: boolean
+  wordWrap: 'off' | 'on' | 'wordWrapColumn' | 'bounded'
+  wordWrapColumn: number // Used by 'wordWrapColumn' and 'bounded'
+  rulers: number[] // Columns to draw vertical guides at
+  renderWhitespace: 'none' | 'boundary' | 'selection' | 'trailing' | 'all'
+  minimap: boolean
+  lineNumbers: 'on' | 'off' | 'relative'
+  cursorStyle: 'line' | 'line-thin' | 'block' | 'block-outline' | 'underline' | 'underline-thin'
+  smoothScrolling: boolean
+  spellCheck: boolean
+  spellCheckLanguage: string // Dictionary for documents whose front matter sets no lang
+}
+
+export const DEFAULT_EDITOR_OPTIONS: EditorOptions = {
+  fontFamily: '',
+  fontLigatures: false,
+  fontSize: 14,
+  tabSize: 2,
+  insertSpaces: true,
+  wordWrap: 'on',
+  wordWrapColumn: 80,
+  rulers: [],
+  renderWhitespace: 'selection',
+  minimap: false,
+  lineNumbers: 'on',
+  cursorStyle: 'line',
+  smoothScrolling: false,
+  spellCheck: true,
+  spellCheckLanguage: 'en'
+}
+
+export const DEFAULT_SPELL_CHECK_LANGUAGE = 'en'
+
+// Bundled spell-check dictionaries. A document's front-matter lang picks one
+// by exact tag, then by primary language (so "en-US" uses "en").
+export const SPELL_CHECK_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'en', label: 'English (US)' },
+  { code: 'en-gb', label: 'English (UK)' },
+  { code: 'de', label: 'German' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' }
+]
+
+export interface SpellCheckResult {
+  language: string // The dictionary that was used
+  misspelled: string[]
+}
+
+// Preview typography from Preferences > Preview, also used by HTML and PDF export
+export interface PreviewTypography {
+  bodyFont: string // CSS font-family list; empty for the default
+  codeFont: string
+  lineHeight: number
+  maxWidth: number // px; 0 fills the pane
+  paragraphSpacing: number // em
+  justify: boolean
+  headingNumbers: boolean // Number h2-h6 as 1, 1.1, 1.1.1
+}
+
+export const DEFAULT_PREVIEW_TYPOGRAPHY: PreviewTypography = {
+  bodyFont: '',
+  codeFont: '',
+  lineHeight: 1.6,
+  maxWidth: 900,
+  paragraphSpacing: 1,
+  justify: false,
+  headingNumbers: false
+}
+
+// How images pasted from the clipboard are named in the assets folder
+export type PastedImageNaming = 'timestamp' | 'prompt'
+
+// Format processed images are written in; 'original' keeps each image's own
+export type ImageOutputFormat = 'original' | 'webp' | 'jpeg'
+
+// Processing applied to PNG, JPEG and WebP images before they are written to
+// the assets folder. GIFs (which may be animated) and SVGs are copied as is.
+export interface ImageProcessingOptions {
+  maxWidth: number // px; 0 keeps the width
+  format: ImageOutputFormat
+  quality: number // 1-100, for JPEG and WebP
+  stripMetadata: boolean // Drop EXIF data such as camera details and GPS position
+}
+
+export const DEFAULT_IMAGE_PROCESSING: ImageProcessingOptions = {
+  maxWidth: 1920,
+  format: 'original',
+  quality: 85,
+  stripMetadata: true
+}
+
+// Where images added to a saved document are written. Relative templates
+// start in the document's folder.
+//   ${docdir}     folder of the document
+//   ${docname}    document file name without extension
+//   ${workspace}  workspace folder (the document's folder outside workspaces)
+//   ${name}       image file name without extension
+//   ${ext}        image extension, without the dot
+//   ${date}       YYYY-MM-DD
+//   ${time}       HHMMSS
+//   ${hash}       first 8 hex digits of the image's SHA-256
+export const DEFAULT_ASSET_PATH_TEMPLATE = '${docdir}/assets/${name}.${ext}'
+
+export const ASSET_PATH_VARIABLES = ['docdir', 'docname', 'workspace', 'name', 'ext', 'date', 'time', 'hash']
+
+// The asset path template that applies to a document
+export interface AssetPathOptions {
+  template: string
+  workspaceRoot: string | null
+  confineToWorkspace: boolean // Set for templates from .wrangle/workspace.json
+}
+
+// Image settings from Preferences > Images
+export interface ImageSettings {
+  pasteNaming: PastedImageNaming
+  optimize: boolean // Process dropped and pasted images; Shift skips it for one image
+  processing: ImageProcessingOptions
+  assetPathTemplate: string
+}
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+  pasteNaming: 'timestamp',
+  optimize: false,
+  processing: DEFAULT_IMAGE_PROCESSING,
+  assetPathTemplate: DEFAULT_ASSET_PATH_TEMPLATE
+}
+
+// Size and format of an image asset, for the resize dialog
+export interface ImageInfo {
+  width: number
+  height: number
+  format: string
+  size: number // Bytes
+}
@@ -0,0 +1,73 @@
+// [[wiki link]] parsing and resolution shared by the main and renderer processes
+
+import type { WikiPage } from './workspace-types'
+
+// [[target]], [[target#heading]], [[target|alias]] and [[target#heading|alias]]
+export const WIKI_LINK_PATTERN = /\[\[([^[\]\n|#]*)(?:#([^[\]\n|]*))?(?:\|([^[\]\n]*))?\]\]/g
+
+const MARKDOWN_EXTENSION = /\.(md|markdown|mdown|mkd|mdwn)$/i
+
+export interface WikiLink {
+  target: string // Page name or path; empty for [[#heading]] links to the same page
+  heading?: string
+  alias?: string
+  index: number // Offset of the opening [[ in the searched text
+  length: number
+}
+
+/**
+ * Find every [[wiki link]] in a run of text
+ */
+export function findWikiLinks(text: string): WikiLink[] {
+  const links: WikiLink[] = []
+  const pattern = new RegExp(WIKI_LINK_PATTERN.source, 'g')
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    const target = match[1].trim()
+    const heading = match[2]?.trim()
+    if (!target && !heading) continue
+
+    links.push({
+      target,
+      heading: heading || undefined,
+      alias: match[3]?.trim() || undefined,
+      index: match.index,
+      length: match[0].length
+    })
+  }
+  return links
+}
+
+function normalizeTarget(target: string): string {
+  return target
+    .replace(/\\/g, '/')
+    .replace(/^\.?\//, '')
+    .replace(MARKDOWN_EXTENSION, '')
+    .toLowerCase()
+}
+
+/**
+ * Resolve a link target to a page. Bare names match the file name anywhere in
+ * the workspace (closest to the root wins); targets with a slash match the
+ * path from the workspace root.
+ */
+export function resolveWikiLink(pages: WikiPage[], target: string): WikiPage | null {
+  const normalized = normalizeTarget(target.trim())
+  if (!normalized) return null
+
+  const candidates = normalized.includes('/')
+    ? pages.filter((page) => {
+        const relativePath = page.relativePath.toLowerCase()
+        return relativePath === normalized || relativePath.endsWith(`/${normalized}`)
+      })
+    : pages.filter((page) => page.name.toLowerCase() === normalized)
+
+  if (candidates.length === 0) return null
+
+  return candidates.reduce((best, page) => {
+    const depth = page.relativePath.split('/').length
+    const bestDepth = best.relativePath.split('/').length
+    if (depth !== bestDepth) return depth < bestDepth ? page : best
+    return page.relativePath.localeCompare(best.relativePath) < 0 ? page : best
+  })
+}
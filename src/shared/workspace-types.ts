@@ -1,5 +1,7 @@
 // Workspace types shared between main and renderer processes
 
+import type { EditorOptions } from './types'
+
 export type WorkspaceId = string
 export const DEFAULT_WORKSPACE_ID = '__default__'
 
@@ -11,6 +13,10 @@ export interface WorkspaceConfig {
   createdAt: number
   lastOpenedAt: number
   showHiddenFiles?: boolean
+  trustHtml?: boolean // Allow raw HTML beyond the GitHub allowlist in the preview
+  editor?: Partial<EditorOptions> // Overrides of the global editor preferences
+  previewCss?: string // Stylesheet for this workspace's previews, relative to the folder
+  assetPath?: string // Asset path template for images added to this workspace's documents
 }
 
 // Tab state stored per-workspace for session restoration
@@ -42,6 +48,10 @@ export interface WorkspaceState {
   rootPath: string | null // null for default workspace
   isExpanded: boolean
   showHiddenFiles: boolean
+  trustHtml: boolean
+  editorOverrides: Partial<EditorOptions>
+  previewCss: string | null
+  assetPathTemplate: string | null
 }
 
 // File tree node for directory listing
@@ -58,6 +68,166 @@ export interface FolderChange {
   path: string
 }
 
+// Options for a workspace-wide text search
+export interface WorkspaceSearchQuery {
+  pattern: string
+  isRegex: boolean
+  matchCase: boolean
+  wholeWord: boolean
+  include: string // Comma-separated globs, e.g. "*.md, docs/**"
+  exclude: string
+  showHidden?: boolean
+}
+
+// A single hit; lines and columns are 1-based like Monaco positions
+export interface WorkspaceSearchMatch {
+  lineNumber: number
+  column: number
+  endLineNumber: number
+  endColumn: number
+  lineText: string // The line containing the start of the match
+}
+
+// All hits in one file, streamed to the renderer as each file is searched
+export interface WorkspaceSearchFileResult {
+  path: string
+  matches: WorkspaceSearchMatch[]
+}
+
+// Returned when a search finishes
+export interface WorkspaceSearchSummary {
+  fileCount: number
+  matchCount: number
+  limitHit: boolean
+  cancelled: boolean
+  error?: string
+}
+
+// Proposed replace-all change for one file, shown as a diff before writing
+export interface WorkspaceReplacePreview {
+  path: string
+  original: string
+  replaced: string
+  count: number
+  hash: string // Hash of `original`, checked again before writing
+}
+
+// Outcome of writing replace-all changes
+export interface WorkspaceReplaceResult {
+  written: string[]
+  skipped: string[] // Changed on disk since the preview, or unwritable
+}
+
+// A file or folder that was renamed or moved
+export interface PathMove {
+  from: string
+  to: string
+}
+
+// One link whose target is rewritten after a move
+export interface LinkUpdateEdit {
+  lineNumber: number
+  oldUrl: string
+  newUrl: string
+}
+
+// Proposed link updates for one file, confirmed before writing
+export interface LinkUpdatePreview {
+  path: string
+  original: string
+  updated: string
+  edits: LinkUpdateEdit[]
+  hash: string // Hash of `original`, checked again before writing
+}
+
+// Options for checking the links in a workspace
+export interface LinkCheckOptions {
+  offlineOnly: boolean // Flag external URLs instead of fetching them
+}
+
+// A broken link, missing image or unverified external URL
+export interface LinkProblem {
+  path: string
+  lineNumber: number
+  column: number
+  endColumn: number
+  url: string
+  kind: 'file' | 'anchor' | 'image' | 'external'
+  severity: 'error' | 'warning' | 'info'
+  message: string
+}
+
+// Outcome of checking the links in a workspace
+export interface LinkCheckResult {
+  fileCount: number
+  linkCount: number
+  problems: LinkProblem[]
+}
+
+// A file in an asset folder that no markdown file in the workspace links to
+export interface OrphanedAsset {
+  path: string
+  size: number // Bytes
+  thumbnailUrl: string | null // wrangle-asset:// URL, for images
+}
+
+// A local link or image whose file doesn't exist
+export interface MissingAssetReference {
+  path: string // The markdown file
+  lineNumber: number
+  column: number
+  endColumn: number
+  url: string
+}
+
+// Outcome of cross-referencing a workspace's asset folders with its markdown files
+export interface AssetScanResult {
+  fileCount: number // Markdown files read
+  assetCount: number // Files found in asset folders
+  orphans: OrphanedAsset[]
+  missing: MissingAssetReference[]
+}
+
+// How a path differs from git's HEAD, index or ignore rules
+export type GitFileState = 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'ignored' | 'conflicted'
+
+// A changed, untracked or ignored path in a git repository
+export interface GitFileStatus {
+  path: string
+  originalPath?: string // Renames: the path in HEAD
+  isDirectory: boolean // A whole untracked or ignored folder
+  state: GitFileState // Shown as the file's badge
+  staged: GitFileState | null // Change recorded in the index
+  unstaged: GitFileState | null // Change in the working tree not yet staged
+}
+
+// Git state of a workspace folder
+export interface GitStatus {
+  repoRoot: string
+  branch: string | null // null when HEAD is detached
+  files: GitFileStatus[]
+}
+
+export interface GitCommitResult {
+  success: boolean
+  error?: string
+}
+
+// A markdown file that [[wiki links]] can point at
+export interface WikiPage {
+  path: string
+  name: string // File name without extension, matched by [[Page Name]]
+  relativePath: string // '/'-separated path from the workspace root, without extension
+}
+
+// A [[wiki link]] in another file that resolves to the current one
+export interface WikiBacklink {
+  path: string
+  name: string
+  lineNumber: number
+  lineText: string
+}
+
 // Default workspace colors for new workspaces
 export const WORKSPACE_COLORS = [
   '#4daafc', // Blue (default)